@@ -57,11 +57,21 @@ export type WorkspaceMember = Prisma.WorkspaceMemberModel
  * 
  */
 export type Document = Prisma.DocumentModel
+/**
+ * Model ArchiveUpload
+ * 
+ */
+export type ArchiveUpload = Prisma.ArchiveUploadModel
 /**
  * Model Chunk
  * 
  */
 export type Chunk = Prisma.ChunkModel
+/**
+ * Model EmbeddingCache
+ * 
+ */
+export type EmbeddingCache = Prisma.EmbeddingCacheModel
 /**
  * Model Query
  * 
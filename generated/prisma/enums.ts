@@ -52,6 +52,11 @@ export const DocumentType = {
   TXT: 'TXT',
   MD: 'MD',
   CSV: 'CSV',
+  IMAGE: 'IMAGE',
+  HTML: 'HTML',
+  EMAIL: 'EMAIL',
+  RTF: 'RTF',
+  JSON: 'JSON',
   OTHER: 'OTHER'
 } as const
 
@@ -61,6 +66,7 @@ export type DocumentType = (typeof DocumentType)[keyof typeof DocumentType]
 export const IngestionStatus = {
   PENDING: 'PENDING',
   PARSING: 'PARSING',
+  ENRICHING: 'ENRICHING',
   CHUNKING: 'CHUNKING',
   EMBEDDING: 'EMBEDDING',
   INDEXING: 'INDEXING',
@@ -71,6 +77,16 @@ export const IngestionStatus = {
 export type IngestionStatus = (typeof IngestionStatus)[keyof typeof IngestionStatus]
 
 
+export const ArchiveStatus = {
+  PENDING: 'PENDING',
+  EXPANDING: 'EXPANDING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED'
+} as const
+
+export type ArchiveStatus = (typeof ArchiveStatus)[keyof typeof ArchiveStatus]
+
+
 export const QueryType = {
   SEARCH: 'SEARCH',
   QUESTION: 'QUESTION'
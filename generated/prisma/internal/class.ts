@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.2.0",
   "engineVersion": "0c8ef2ce45c83248ab3df073180d5eda9e8be7a3",
   "activeProvider": "postgresql",
-  "inlineSchema": "generator client {\n  provider = \"prisma-client\"\n  output   = \"../generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\n// ============================================\n// ENUMS\n// ============================================\n\nenum UserRole {\n  USER\n  ADMIN\n  SUPER_ADMIN\n}\n\nenum WorkspaceRole {\n  OWNER\n  ADMIN\n  MEMBER\n  VIEWER\n}\n\nenum DocumentStatus {\n  PENDING\n  UPLOADING\n  UPLOADED\n  PROCESSING\n  PROCESSED\n  FAILED\n  DELETED\n}\n\nenum DocumentType {\n  PDF\n  DOCX\n  DOC\n  XLSX\n  XLS\n  PPTX\n  PPT\n  TXT\n  MD\n  CSV\n  OTHER\n}\n\nenum IngestionStatus {\n  PENDING\n  PARSING\n  CHUNKING\n  EMBEDDING\n  INDEXING\n  COMPLETED\n  FAILED\n}\n\nenum QueryType {\n  SEARCH\n  QUESTION\n}\n\n// ============================================\n// USER MODEL\n// ============================================\n\nmodel User {\n  id              String    @id @default(cuid())\n  email           String    @unique\n  password        String\n  firstName       String?\n  lastName        String?\n  avatar          String?\n  role            UserRole  @default(USER)\n  isActive        Boolean   @default(true)\n  emailVerified   Boolean   @default(false)\n  emailVerifiedAt DateTime?\n  lastLoginAt     DateTime?\n  createdAt       DateTime  @default(now())\n  updatedAt       DateTime  @updatedAt\n  deletedAt       DateTime?\n\n  // Relations\n  workspaceMemberships WorkspaceMember[]\n  queries              Query[]\n  auditLogs            AuditLog[]\n\n  @@index([email])\n  @@index([isActive])\n  @@index([deletedAt])\n  @@map(\"users\")\n}\n\n// ============================================\n// WORKSPACE MODEL\n// ============================================\n\nmodel Workspace {\n  id          String    @id @default(cuid())\n  name        String\n  slug        String    @unique\n  description String?\n  logo        String?\n  isActive    Boolean   @default(true)\n  settings    Json? // Workspace-specific settings (JSON)\n  createdAt   DateTime  @default(now())\n  updatedAt   DateTime  @updatedAt\n  deletedAt   DateTime?\n\n  // Relations\n  members   WorkspaceMember[]\n  documents Document[]\n  queries   Query[]\n  auditLogs AuditLog[]\n\n  @@index([slug])\n  @@index([isActive])\n  @@index([deletedAt])\n  @@map(\"workspaces\")\n}\n\n// ============================================\n// WORKSPACE MEMBER MODEL (Many-to-Many)\n// ============================================\n\nmodel WorkspaceMember {\n  id          String        @id @default(cuid())\n  workspaceId String\n  userId      String\n  role        WorkspaceRole @default(MEMBER)\n  invitedBy   String? // User ID who invited\n  invitedAt   DateTime?\n  joinedAt    DateTime      @default(now())\n  createdAt   DateTime      @default(now())\n  updatedAt   DateTime      @updatedAt\n  deletedAt   DateTime?\n\n  // Relations\n  workspace Workspace @relation(fields: [workspaceId], references: [id], onDelete: Cascade)\n  user      User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@unique([workspaceId, userId])\n  @@index([workspaceId])\n  @@index([userId])\n  @@index([role])\n  @@index([deletedAt])\n  @@map(\"workspace_members\")\n}\n\n// ============================================\n// DOCUMENT MODEL\n// ============================================\n\nmodel Document {\n  id           String         @id @default(cuid())\n  workspaceId  String\n  name         String\n  originalName String\n  type         DocumentType\n  mimeType     String\n  size         BigInt // File size in bytes\n  status       DocumentStatus @default(PENDING)\n  s3Key        String         @unique // S3 object key\n  s3Bucket     String\n  s3Region     String\n  s3Url        String? // Pre-signed URL (temporary)\n  thumbnailUrl String?\n\n  // Metadata\n  pageCount Int? // For PDFs\n  wordCount Int?\n  language  String? @default(\"en\")\n  metadata  Json? // Additional metadata (author, title, etc.)\n\n  // Ingestion tracking\n  ingestionStatus      IngestionStatus @default(PENDING)\n  ingestionStartedAt   DateTime?\n  ingestionCompletedAt DateTime?\n  ingestionError       String?\n\n  // Processing stats\n  chunkCount         Int     @default(0)\n  embeddingCount     Int     @default(0)\n  qdrantCollectionId String? // Qdrant collection reference\n\n  // Timestamps\n  uploadedAt  DateTime?\n  processedAt DateTime?\n  createdAt   DateTime  @default(now())\n  updatedAt   DateTime  @updatedAt\n  deletedAt   DateTime?\n\n  // Relations\n  workspace Workspace @relation(fields: [workspaceId], references: [id], onDelete: Cascade)\n  chunks    Chunk[]\n\n  @@index([workspaceId])\n  @@index([status])\n  @@index([ingestionStatus])\n  @@index([type])\n  @@index([createdAt])\n  @@index([deletedAt])\n  @@index([s3Key])\n  @@index([name]) // Index for search on document names\n  @@index([originalName]) // Index for search on original names\n  @@map(\"documents\")\n}\n\n// ============================================\n// CHUNK MODEL\n// ============================================\n\nmodel Chunk {\n  id             String  @id @default(cuid())\n  documentId     String\n  content        String  @db.Text\n  contentHash    String // Hash for deduplication\n  chunkIndex     Int // Order within document\n  startCharIndex Int? // Character position in original document\n  endCharIndex   Int?\n  pageNumber     Int? // For PDFs\n  sectionTitle   String? // Section/heading context\n\n  // Vector search\n  qdrantPointId  String? @unique // Qdrant vector point ID\n  embeddingModel String? @default(\"text-embedding-3-small\") // OpenAI model used\n  hasEmbedding   Boolean @default(false)\n\n  // Metadata\n  metadata   Json? // Additional chunk metadata\n  tokenCount Int? // Token count for cost tracking\n\n  // Timestamps\n  createdAt DateTime  @default(now())\n  updatedAt DateTime  @updatedAt\n  deletedAt DateTime?\n\n  // Relations\n  document Document @relation(fields: [documentId], references: [id], onDelete: Cascade)\n\n  @@unique([documentId, chunkIndex])\n  @@index([documentId])\n  @@index([qdrantPointId])\n  @@index([hasEmbedding])\n  @@index([contentHash])\n  @@index([deletedAt])\n  // Note: Full-text search on content should be handled via PostgreSQL GIN indexes in migrations\n  // or use vector search via Qdrant for better performance\n  @@map(\"chunks\")\n}\n\n// ============================================\n// QUERY MODEL (Search & Q&A History)\n// ============================================\n\nmodel Query {\n  id             String    @id @default(cuid())\n  workspaceId    String\n  userId         String?\n  type           QueryType @default(SEARCH)\n  query          String    @db.Text\n  queryEmbedding Json? // Stored query embedding for analytics\n\n  // Results\n  resultCount    Int      @default(0)\n  topChunkIds    String[] // Array of chunk IDs returned\n  topDocumentIds String[] // Array of document IDs returned\n\n  // AI Response (for Q&A)\n  aiResponse   String? @db.Text\n  aiModel      String? // Model used (e.g., \"gpt-4\", \"gpt-3.5-turbo\")\n  tokensUsed   Int?\n  responseTime Int? // Milliseconds\n\n  // Metadata\n  metadata  Json? // Additional query metadata\n  userAgent String?\n  ipAddress String?\n\n  // Timestamps\n  createdAt DateTime @default(now())\n\n  // Relations\n  workspace Workspace @relation(fields: [workspaceId], references: [id], onDelete: Cascade)\n  user      User?     @relation(fields: [userId], references: [id], onDelete: SetNull)\n\n  @@index([workspaceId])\n  @@index([userId])\n  @@index([type])\n  @@index([createdAt])\n  // Note: Full-text search on query should be handled via PostgreSQL GIN indexes in migrations\n  @@map(\"queries\")\n}\n\n// ============================================\n// AUDIT LOG MODEL\n// ============================================\n\nmodel AuditLog {\n  id           String   @id @default(cuid())\n  workspaceId  String?\n  userId       String?\n  action       String // e.g., \"document.upload\", \"document.delete\", \"user.login\"\n  resourceType String? // e.g., \"document\", \"user\", \"workspace\"\n  resourceId   String?\n  details      Json? // Additional action details\n  ipAddress    String?\n  userAgent    String?\n  createdAt    DateTime @default(now())\n\n  // Relations\n  workspace Workspace? @relation(fields: [workspaceId], references: [id], onDelete: Cascade)\n  user      User?      @relation(fields: [userId], references: [id], onDelete: SetNull)\n\n  @@index([workspaceId])\n  @@index([userId])\n  @@index([action])\n  @@index([resourceType, resourceId])\n  @@index([createdAt])\n  @@map(\"audit_logs\")\n}\n",
+  "inlineSchema": "generator client {\n  provider = \"prisma-client\"\n  output   = \"../generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\n// ============================================\n// ENUMS\n// ============================================\n\nenum UserRole {\n  USER\n  ADMIN\n  SUPER_ADMIN\n}\n\nenum WorkspaceRole {\n  OWNER\n  ADMIN\n  MEMBER\n  VIEWER\n}\n\nenum DocumentStatus {\n  PENDING\n  UPLOADING\n  UPLOADED\n  PROCESSING\n  PROCESSED\n  FAILED\n  DELETED\n}\n\nenum DocumentType {\n  PDF\n  DOCX\n  DOC\n  XLSX\n  XLS\n  PPTX\n  PPT\n  TXT\n  MD\n  CSV\n  IMAGE\n  HTML\n  EMAIL\n  RTF\n  JSON\n  OTHER\n}\n\nenum IngestionStatus {\n  PENDING\n  PARSING\n  ENRICHING\n  CHUNKING\n  EMBEDDING\n  INDEXING\n  COMPLETED\n  FAILED\n}\n\nenum ArchiveStatus {\n  PENDING\n  EXPANDING\n  COMPLETED\n  FAILED\n}\n\nenum QueryType {\n  SEARCH\n  QUESTION\n}\n\n// ============================================\n// USER MODEL\n// ============================================\n\nmodel User {\n  id              String    @id @default(cuid())\n  email           String    @unique\n  password        String\n  firstName       String?\n  lastName        String?\n  avatar          String?\n  role            UserRole  @default(USER)\n  isActive        Boolean   @default(true)\n  emailVerified   Boolean   @default(false)\n  emailVerifiedAt DateTime?\n  lastLoginAt     DateTime?\n  createdAt       DateTime  @default(now())\n  updatedAt       DateTime  @updatedAt\n  deletedAt       DateTime?\n\n  // Relations\n  workspaceMemberships WorkspaceMember[]\n  queries              Query[]\n  auditLogs            AuditLog[]\n\n  @@index([email])\n  @@index([isActive])\n  @@index([deletedAt])\n  @@map(\"users\")\n}\n\n// ============================================\n// WORKSPACE MODEL\n// ============================================\n\nmodel Workspace {\n  id          String    @id @default(cuid())\n  name        String\n  slug        String    @unique\n  description String?\n  logo        String?\n  isActive    Boolean   @default(true)\n  settings    Json? // Workspace-specific settings (JSON)\n  createdAt   DateTime  @default(now())\n  updatedAt   DateTime  @updatedAt\n  deletedAt   DateTime?\n\n  // Relations\n  members        WorkspaceMember[]\n  documents      Document[]\n  archiveUploads ArchiveUpload[]\n  queries        Query[]\n  auditLogs      AuditLog[]\n\n  @@index([slug])\n  @@index([isActive])\n  @@index([deletedAt])\n  @@map(\"workspaces\")\n}\n\n// ============================================\n// WORKSPACE MEMBER MODEL (Many-to-Many)\n// ============================================\n\nmodel WorkspaceMember {\n  id          String        @id @default(cuid())\n  workspaceId String\n  userId      String\n  role        WorkspaceRole @default(MEMBER)\n  invitedBy   String? // User ID who invited\n  invitedAt   DateTime?\n  joinedAt    DateTime      @default(now())\n  createdAt   DateTime      @default(now())\n  updatedAt   DateTime      @updatedAt\n  deletedAt   DateTime?\n\n  // Relations\n  workspace Workspace @relation(fields: [workspaceId], references: [id], onDelete: Cascade)\n  user      User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@unique([workspaceId, userId])\n  @@index([workspaceId])\n  @@index([userId])\n  @@index([role])\n  @@index([deletedAt])\n  @@map(\"workspace_members\")\n}\n\n// ============================================\n// DOCUMENT MODEL\n// ============================================\n\nmodel Document {\n  id               String         @id @default(cuid())\n  workspaceId      String\n  name             String\n  originalName     String\n  type             DocumentType\n  mimeType         String\n  size             BigInt // File size in bytes\n  status           DocumentStatus @default(PENDING)\n  s3Key            String         @unique // S3 object key\n  s3Bucket         String\n  s3Region         String\n  s3Url            String? // Pre-signed URL (temporary)\n  thumbnailUrl     String?\n  parentDocumentId String? // Set for attachments extracted from an email\n  archiveUploadId  String? // Set for files expanded from a ZIP upload\n  folder           String? // Folder of the file inside its ZIP archive (e.g. \"reports/2024\")\n  uploadedById     String? // User who uploaded the file (or the email or archive it came from)\n\n  // Duplicate detection\n  checksum            String? // SHA-256 of the file\n  duplicateOfId       String? // Earlier document with the same (or nearly the same) content\n  duplicateSimilarity Float? // 1 for an identical file, estimated text similarity otherwise\n  minhash             Int[] // MinHash signature of the text (near-duplicate detection)\n\n  // Metadata\n  pageCount Int? // For PDFs\n  wordCount Int?\n  language  String? // ISO 639-1 code detected during ingestion, null when undetected\n  metadata  Json? // Title, authors, dates and keywords from the file, parse stats, custom keys\n\n  // Generated summary (optional ingestion stage, or regenerated on demand)\n  summary            String?   @db.Text\n  topics             String[] // Key topics covered by the document\n  tags               String[] // Suggested tags (lowercase, hyphenated)\n  summaryModel       String? // Model that wrote the summary (\"stub\" for the local stub)\n  summaryGeneratedAt DateTime?\n\n  // Ingestion tracking\n  ingestionStatus      IngestionStatus @default(PENDING)\n  ingestionStartedAt   DateTime?\n  ingestionCompletedAt DateTime?\n  ingestionError       String?\n  ingestionJobId       String? // BullMQ job of the latest ingestion run (for progress lookups)\n\n  // Processing stats\n  chunkCount         Int     @default(0)\n  embeddingCount     Int     @default(0)\n  qdrantCollectionId String? // Qdrant collection reference\n  indexVersion       Int     @default(0) // Chunk version served by search (0 = never indexed)\n\n  // Timestamps\n  uploadedAt  DateTime?\n  processedAt DateTime?\n  createdAt   DateTime  @default(now())\n  updatedAt   DateTime  @updatedAt\n  deletedAt   DateTime?\n\n  // Relations\n  workspace      Workspace      @relation(fields: [workspaceId], references: [id], onDelete: Cascade)\n  parentDocument Document?      @relation(\"DocumentAttachments\", fields: [parentDocumentId], references: [id], onDelete: Cascade)\n  attachments    Document[]     @relation(\"DocumentAttachments\")\n  archiveUpload  ArchiveUpload? @relation(fields: [archiveUploadId], references: [id], onDelete: SetNull)\n  duplicateOf    Document?      @relation(\"DocumentDuplicates\", fields: [duplicateOfId], references: [id], onDelete: SetNull)\n  duplicates     Document[]     @relation(\"DocumentDuplicates\")\n  chunks         Chunk[]\n\n  @@index([workspaceId])\n  @@index([parentDocumentId])\n  @@index([archiveUploadId])\n  @@index([folder])\n  @@index([uploadedById])\n  @@index([workspaceId, checksum])\n  @@index([duplicateOfId])\n  @@index([status])\n  @@index([ingestionStatus])\n  @@index([type])\n  @@index([createdAt])\n  @@index([deletedAt])\n  @@index([s3Key])\n  @@index([name]) // Index for search on document names\n  @@index([originalName]) // Index for search on original names\n  @@map(\"documents\")\n}\n\n// ============================================\n// ARCHIVE UPLOAD MODEL (ZIP expanded into documents)\n// ============================================\n\nmodel ArchiveUpload {\n  id             String        @id @default(cuid())\n  workspaceId    String\n  uploadedById   String\n  fileName       String\n  s3Key          String        @unique\n  size           BigInt // Archive size in bytes\n  status         ArchiveStatus @default(PENDING)\n  entryCount     Int           @default(0) // Files in the archive\n  documentCount  Int           @default(0) // Documents created from it\n  skippedEntries Json? // [{ path, reason }] for entries that were not ingested\n  error          String?\n  startedAt      DateTime?\n  completedAt    DateTime?\n  createdAt      DateTime      @default(now())\n  updatedAt      DateTime      @updatedAt\n\n  // Relations\n  workspace Workspace  @relation(fields: [workspaceId], references: [id], onDelete: Cascade)\n  documents Document[]\n\n  @@index([workspaceId])\n  @@index([status])\n  @@map(\"archive_uploads\")\n}\n\n// ============================================\n// CHUNK MODEL\n// ============================================\n\nmodel Chunk {\n  id             String  @id @default(cuid())\n  documentId     String\n  content        String  @db.Text\n  contentHash    String // Hash for deduplication\n  chunkIndex     Int // Order within document\n  version        Int     @default(1) // Index build the chunk belongs to (see Document.indexVersion)\n  startCharIndex Int? // Character position in original document\n  endCharIndex   Int?\n  pageNumber     Int? // First page (or slide) the chunk appears on\n  pageEnd        Int? // Last page, when the chunk spans pages\n  sectionTitle   String? // Section/heading context\n  language       String? // ISO 639-1 code (the document's when the chunk is too short to tell)\n\n  // Keyword search: content as lexemes, stemmed with the dictionary of the chunk's language\n  // Generated by the database (see the full_text_search migration), never written by the app\n  searchVector Unsupported(\"tsvector\")?\n\n  // Vector search\n  qdrantPointId  String? @unique // Qdrant vector point ID\n  embeddingModel String? @default(\"text-embedding-3-small\") // OpenAI model used\n  hasEmbedding   Boolean @default(false)\n\n  // Metadata\n  metadata   Json? // Additional chunk metadata\n  tokenCount Int? // Token count for cost tracking\n\n  // Timestamps\n  createdAt DateTime  @default(now())\n  updatedAt DateTime  @updatedAt\n  deletedAt DateTime?\n\n  // Relations\n  document Document @relation(fields: [documentId], references: [id], onDelete: Cascade)\n\n  @@unique([documentId, version, chunkIndex])\n  @@index([documentId])\n  @@index([qdrantPointId])\n  @@index([hasEmbedding])\n  @@index([contentHash])\n  @@index([language])\n  @@index([deletedAt])\n  @@index([searchVector], type: Gin)\n  @@map(\"chunks\")\n}\n\n// ============================================\n// EMBEDDING CACHE MODEL\n// ============================================\n\nmodel EmbeddingCache {\n  id             String   @id @default(cuid())\n  contentHash    String // SHA-256 of the embedded text (same as Chunk.contentHash)\n  embeddingModel String\n  embedding      Bytes // Float32 little-endian vector\n  hitCount       Int      @default(0)\n  createdAt      DateTime @default(now())\n  lastUsedAt     DateTime @default(now())\n\n  @@unique([contentHash, embeddingModel])\n  @@index([embeddingModel])\n  @@map(\"embedding_cache\")\n}\n\n// ============================================\n// QUERY MODEL (Search & Q&A History)\n// ============================================\n\nmodel Query {\n  id             String    @id @default(cuid())\n  workspaceId    String\n  userId         String?\n  type           QueryType @default(SEARCH)\n  query          String    @db.Text\n  queryEmbedding Json? // Stored query embedding for analytics\n\n  // Results\n  resultCount    Int      @default(0)\n  topChunkIds    String[] // Array of chunk IDs returned\n  topDocumentIds String[] // Array of document IDs returned\n\n  // AI Response (for Q&A)\n  aiResponse   String? @db.Text\n  aiModel      String? // Model used (e.g., \"gpt-4\", \"gpt-3.5-turbo\")\n  tokensUsed   Int?\n  responseTime Int? // Milliseconds\n\n  // Metadata\n  metadata  Json? // Additional query metadata\n  userAgent String?\n  ipAddress String?\n\n  // Timestamps\n  createdAt DateTime @default(now())\n\n  // Relations\n  workspace Workspace @relation(fields: [workspaceId], references: [id], onDelete: Cascade)\n  user      User?     @relation(fields: [userId], references: [id], onDelete: SetNull)\n\n  @@index([workspaceId])\n  @@index([userId])\n  @@index([type])\n  @@index([createdAt])\n  // Note: Full-text search on query should be handled via PostgreSQL GIN indexes in migrations\n  @@map(\"queries\")\n}\n\n// ============================================\n// AUDIT LOG MODEL\n// ============================================\n\nmodel AuditLog {\n  id           String   @id @default(cuid())\n  workspaceId  String?\n  userId       String?\n  action       String // e.g., \"document.upload\", \"document.delete\", \"user.login\"\n  resourceType String? // e.g., \"document\", \"user\", \"workspace\"\n  resourceId   String?\n  details      Json? // Additional action details\n  ipAddress    String?\n  userAgent    String?\n  createdAt    DateTime @default(now())\n\n  // Relations\n  workspace Workspace? @relation(fields: [workspaceId], references: [id], onDelete: Cascade)\n  user      User?      @relation(fields: [userId], references: [id], onDelete: SetNull)\n\n  @@index([workspaceId])\n  @@index([userId])\n  @@index([action])\n  @@index([resourceType, resourceId])\n  @@index([createdAt])\n  @@map(\"audit_logs\")\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"firstName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"avatar\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"emailVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"emailVerifiedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastLoginAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workspaceMemberships\",\"kind\":\"object\",\"type\":\"WorkspaceMember\",\"relationName\":\"UserToWorkspaceMember\"},{\"name\":\"queries\",\"kind\":\"object\",\"type\":\"Query\",\"relationName\":\"QueryToUser\"},{\"name\":\"auditLogs\",\"kind\":\"object\",\"type\":\"AuditLog\",\"relationName\":\"AuditLogToUser\"}],\"dbName\":\"users\"},\"Workspace\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"slug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logo\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"settings\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"members\",\"kind\":\"object\",\"type\":\"WorkspaceMember\",\"relationName\":\"WorkspaceToWorkspaceMember\"},{\"name\":\"documents\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToWorkspace\"},{\"name\":\"queries\",\"kind\":\"object\",\"type\":\"Query\",\"relationName\":\"QueryToWorkspace\"},{\"name\":\"auditLogs\",\"kind\":\"object\",\"type\":\"AuditLog\",\"relationName\":\"AuditLogToWorkspace\"}],\"dbName\":\"workspaces\"},\"WorkspaceMember\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workspaceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"WorkspaceRole\"},{\"name\":\"invitedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"invitedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"joinedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workspace\",\"kind\":\"object\",\"type\":\"Workspace\",\"relationName\":\"WorkspaceToWorkspaceMember\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserToWorkspaceMember\"}],\"dbName\":\"workspace_members\"},\"Document\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workspaceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"originalName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"DocumentType\"},{\"name\":\"mimeType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"DocumentStatus\"},{\"name\":\"s3Key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"s3Bucket\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"s3Region\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"s3Url\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"thumbnailUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pageCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"wordCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"language\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"ingestionStatus\",\"kind\":\"enum\",\"type\":\"IngestionStatus\"},{\"name\":\"ingestionStartedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ingestionCompletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ingestionError\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"chunkCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"embeddingCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"qdrantCollectionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"uploadedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"processedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workspace\",\"kind\":\"object\",\"type\":\"Workspace\",\"relationName\":\"DocumentToWorkspace\"},{\"name\":\"chunks\",\"kind\":\"object\",\"type\":\"Chunk\",\"relationName\":\"ChunkToDocument\"}],\"dbName\":\"documents\"},\"Chunk\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contentHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"chunkIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"startCharIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"endCharIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"pageNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"sectionTitle\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"qdrantPointId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"embeddingModel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"hasEmbedding\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"tokenCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"ChunkToDocument\"}],\"dbName\":\"chunks\"},\"Query\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workspaceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"QueryType\"},{\"name\":\"query\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"queryEmbedding\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"resultCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"topChunkIds\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"topDocumentIds\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"aiResponse\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"aiModel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokensUsed\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"responseTime\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workspace\",\"kind\":\"object\",\"type\":\"Workspace\",\"relationName\":\"QueryToWorkspace\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"QueryToUser\"}],\"dbName\":\"queries\"},\"AuditLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workspaceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"action\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resourceType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resourceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"details\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workspace\",\"kind\":\"object\",\"type\":\"Workspace\",\"relationName\":\"AuditLogToWorkspace\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AuditLogToUser\"}],\"dbName\":\"audit_logs\"}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"firstName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"avatar\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"emailVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"emailVerifiedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastLoginAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workspaceMemberships\",\"kind\":\"object\",\"type\":\"WorkspaceMember\",\"relationName\":\"UserToWorkspaceMember\"},{\"name\":\"queries\",\"kind\":\"object\",\"type\":\"Query\",\"relationName\":\"QueryToUser\"},{\"name\":\"auditLogs\",\"kind\":\"object\",\"type\":\"AuditLog\",\"relationName\":\"AuditLogToUser\"}],\"dbName\":\"users\"},\"Workspace\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"slug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logo\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"settings\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"members\",\"kind\":\"object\",\"type\":\"WorkspaceMember\",\"relationName\":\"WorkspaceToWorkspaceMember\"},{\"name\":\"documents\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToWorkspace\"},{\"name\":\"archiveUploads\",\"kind\":\"object\",\"type\":\"ArchiveUpload\",\"relationName\":\"ArchiveUploadToWorkspace\"},{\"name\":\"queries\",\"kind\":\"object\",\"type\":\"Query\",\"relationName\":\"QueryToWorkspace\"},{\"name\":\"auditLogs\",\"kind\":\"object\",\"type\":\"AuditLog\",\"relationName\":\"AuditLogToWorkspace\"}],\"dbName\":\"workspaces\"},\"WorkspaceMember\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workspaceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"WorkspaceRole\"},{\"name\":\"invitedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"invitedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"joinedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workspace\",\"kind\":\"object\",\"type\":\"Workspace\",\"relationName\":\"WorkspaceToWorkspaceMember\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserToWorkspaceMember\"}],\"dbName\":\"workspace_members\"},\"Document\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workspaceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"originalName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"DocumentType\"},{\"name\":\"mimeType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"DocumentStatus\"},{\"name\":\"s3Key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"s3Bucket\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"s3Region\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"s3Url\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"thumbnailUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"parentDocumentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"archiveUploadId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"folder\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"uploadedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"checksum\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"duplicateOfId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"duplicateSimilarity\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"minhash\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"pageCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"wordCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"language\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"summary\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"topics\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tags\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"summaryModel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"summaryGeneratedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ingestionStatus\",\"kind\":\"enum\",\"type\":\"IngestionStatus\"},{\"name\":\"ingestionStartedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ingestionCompletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ingestionError\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ingestionJobId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"chunkCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"embeddingCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"qdrantCollectionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"indexVersion\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uploadedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"processedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workspace\",\"kind\":\"object\",\"type\":\"Workspace\",\"relationName\":\"DocumentToWorkspace\"},{\"name\":\"parentDocument\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentAttachments\"},{\"name\":\"attachments\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentAttachments\"},{\"name\":\"archiveUpload\",\"kind\":\"object\",\"type\":\"ArchiveUpload\",\"relationName\":\"ArchiveUploadToDocument\"},{\"name\":\"duplicateOf\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentDuplicates\"},{\"name\":\"duplicates\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentDuplicates\"},{\"name\":\"chunks\",\"kind\":\"object\",\"type\":\"Chunk\",\"relationName\":\"ChunkToDocument\"}],\"dbName\":\"documents\"},\"ArchiveUpload\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workspaceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"uploadedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fileName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"s3Key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ArchiveStatus\"},{\"name\":\"entryCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"documentCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"skippedEntries\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workspace\",\"kind\":\"object\",\"type\":\"Workspace\",\"relationName\":\"ArchiveUploadToWorkspace\"},{\"name\":\"documents\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"ArchiveUploadToDocument\"}],\"dbName\":\"archive_uploads\"},\"Chunk\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contentHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"chunkIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"startCharIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"endCharIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"pageNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"pageEnd\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"sectionTitle\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"language\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"qdrantPointId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"embeddingModel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"hasEmbedding\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"tokenCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"ChunkToDocument\"}],\"dbName\":\"chunks\"},\"EmbeddingCache\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contentHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"embeddingModel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"embedding\",\"kind\":\"scalar\",\"type\":\"Bytes\"},{\"name\":\"hitCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastUsedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"embedding_cache\"},\"Query\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workspaceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"QueryType\"},{\"name\":\"query\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"queryEmbedding\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"resultCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"topChunkIds\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"topDocumentIds\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"aiResponse\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"aiModel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokensUsed\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"responseTime\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workspace\",\"kind\":\"object\",\"type\":\"Workspace\",\"relationName\":\"QueryToWorkspace\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"QueryToUser\"}],\"dbName\":\"queries\"},\"AuditLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workspaceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"action\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resourceType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resourceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"details\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workspace\",\"kind\":\"object\",\"type\":\"Workspace\",\"relationName\":\"AuditLogToWorkspace\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AuditLogToUser\"}],\"dbName\":\"audit_logs\"}},\"enums\":{},\"types\":{}}")
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
   const { Buffer } = await import('node:buffer')
@@ -214,6 +214,16 @@ export interface PrismaClient<
     */
   get document(): Prisma.DocumentDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.archiveUpload`: Exposes CRUD operations for the **ArchiveUpload** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ArchiveUploads
+    * const archiveUploads = await prisma.archiveUpload.findMany()
+    * ```
+    */
+  get archiveUpload(): Prisma.ArchiveUploadDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.chunk`: Exposes CRUD operations for the **Chunk** model.
     * Example usage:
@@ -224,6 +234,16 @@ export interface PrismaClient<
     */
   get chunk(): Prisma.ChunkDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.embeddingCache`: Exposes CRUD operations for the **EmbeddingCache** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more EmbeddingCaches
+    * const embeddingCaches = await prisma.embeddingCache.findMany()
+    * ```
+    */
+  get embeddingCache(): Prisma.EmbeddingCacheDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.query`: Exposes CRUD operations for the **Query** model.
     * Example usage:
@@ -388,7 +388,9 @@ export const ModelName = {
   Workspace: 'Workspace',
   WorkspaceMember: 'WorkspaceMember',
   Document: 'Document',
+  ArchiveUpload: 'ArchiveUpload',
   Chunk: 'Chunk',
+  EmbeddingCache: 'EmbeddingCache',
   Query: 'Query',
   AuditLog: 'AuditLog'
 } as const
@@ -406,7 +408,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: "user" | "workspace" | "workspaceMember" | "document" | "chunk" | "query" | "auditLog"
+    modelProps: "user" | "workspace" | "workspaceMember" | "document" | "archiveUpload" | "chunk" | "embeddingCache" | "query" | "auditLog"
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -706,6 +708,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    ArchiveUpload: {
+      payload: Prisma.$ArchiveUploadPayload<ExtArgs>
+      fields: Prisma.ArchiveUploadFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ArchiveUploadFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ArchiveUploadPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ArchiveUploadFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ArchiveUploadPayload>
+        }
+        findFirst: {
+          args: Prisma.ArchiveUploadFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ArchiveUploadPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ArchiveUploadFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ArchiveUploadPayload>
+        }
+        findMany: {
+          args: Prisma.ArchiveUploadFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ArchiveUploadPayload>[]
+        }
+        create: {
+          args: Prisma.ArchiveUploadCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ArchiveUploadPayload>
+        }
+        createMany: {
+          args: Prisma.ArchiveUploadCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ArchiveUploadCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ArchiveUploadPayload>[]
+        }
+        delete: {
+          args: Prisma.ArchiveUploadDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ArchiveUploadPayload>
+        }
+        update: {
+          args: Prisma.ArchiveUploadUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ArchiveUploadPayload>
+        }
+        deleteMany: {
+          args: Prisma.ArchiveUploadDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ArchiveUploadUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ArchiveUploadUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ArchiveUploadPayload>[]
+        }
+        upsert: {
+          args: Prisma.ArchiveUploadUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ArchiveUploadPayload>
+        }
+        aggregate: {
+          args: Prisma.ArchiveUploadAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateArchiveUpload>
+        }
+        groupBy: {
+          args: Prisma.ArchiveUploadGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ArchiveUploadGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ArchiveUploadCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ArchiveUploadCountAggregateOutputType> | number
+        }
+      }
+    }
     Chunk: {
       payload: Prisma.$ChunkPayload<ExtArgs>
       fields: Prisma.ChunkFieldRefs
@@ -780,6 +856,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    EmbeddingCache: {
+      payload: Prisma.$EmbeddingCachePayload<ExtArgs>
+      fields: Prisma.EmbeddingCacheFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.EmbeddingCacheFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingCachePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.EmbeddingCacheFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingCachePayload>
+        }
+        findFirst: {
+          args: Prisma.EmbeddingCacheFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingCachePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.EmbeddingCacheFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingCachePayload>
+        }
+        findMany: {
+          args: Prisma.EmbeddingCacheFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingCachePayload>[]
+        }
+        create: {
+          args: Prisma.EmbeddingCacheCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingCachePayload>
+        }
+        createMany: {
+          args: Prisma.EmbeddingCacheCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.EmbeddingCacheCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingCachePayload>[]
+        }
+        delete: {
+          args: Prisma.EmbeddingCacheDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingCachePayload>
+        }
+        update: {
+          args: Prisma.EmbeddingCacheUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingCachePayload>
+        }
+        deleteMany: {
+          args: Prisma.EmbeddingCacheDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.EmbeddingCacheUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.EmbeddingCacheUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingCachePayload>[]
+        }
+        upsert: {
+          args: Prisma.EmbeddingCacheUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingCachePayload>
+        }
+        aggregate: {
+          args: Prisma.EmbeddingCacheAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateEmbeddingCache>
+        }
+        groupBy: {
+          args: Prisma.EmbeddingCacheGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.EmbeddingCacheGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.EmbeddingCacheCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.EmbeddingCacheCountAggregateOutputType> | number
+        }
+      }
+    }
     Query: {
       payload: Prisma.$QueryPayload<ExtArgs>
       fields: Prisma.QueryFieldRefs
@@ -1033,17 +1183,32 @@ export const DocumentScalarFieldEnum = {
   s3Region: 's3Region',
   s3Url: 's3Url',
   thumbnailUrl: 'thumbnailUrl',
+  parentDocumentId: 'parentDocumentId',
+  archiveUploadId: 'archiveUploadId',
+  folder: 'folder',
+  uploadedById: 'uploadedById',
+  checksum: 'checksum',
+  duplicateOfId: 'duplicateOfId',
+  duplicateSimilarity: 'duplicateSimilarity',
+  minhash: 'minhash',
   pageCount: 'pageCount',
   wordCount: 'wordCount',
   language: 'language',
   metadata: 'metadata',
+  summary: 'summary',
+  topics: 'topics',
+  tags: 'tags',
+  summaryModel: 'summaryModel',
+  summaryGeneratedAt: 'summaryGeneratedAt',
   ingestionStatus: 'ingestionStatus',
   ingestionStartedAt: 'ingestionStartedAt',
   ingestionCompletedAt: 'ingestionCompletedAt',
   ingestionError: 'ingestionError',
+  ingestionJobId: 'ingestionJobId',
   chunkCount: 'chunkCount',
   embeddingCount: 'embeddingCount',
   qdrantCollectionId: 'qdrantCollectionId',
+  indexVersion: 'indexVersion',
   uploadedAt: 'uploadedAt',
   processedAt: 'processedAt',
   createdAt: 'createdAt',
@@ -1054,16 +1219,40 @@ export const DocumentScalarFieldEnum = {
 export type DocumentScalarFieldEnum = (typeof DocumentScalarFieldEnum)[keyof typeof DocumentScalarFieldEnum]
 
 
+export const ArchiveUploadScalarFieldEnum = {
+  id: 'id',
+  workspaceId: 'workspaceId',
+  uploadedById: 'uploadedById',
+  fileName: 'fileName',
+  s3Key: 's3Key',
+  size: 'size',
+  status: 'status',
+  entryCount: 'entryCount',
+  documentCount: 'documentCount',
+  skippedEntries: 'skippedEntries',
+  error: 'error',
+  startedAt: 'startedAt',
+  completedAt: 'completedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ArchiveUploadScalarFieldEnum = (typeof ArchiveUploadScalarFieldEnum)[keyof typeof ArchiveUploadScalarFieldEnum]
+
+
 export const ChunkScalarFieldEnum = {
   id: 'id',
   documentId: 'documentId',
   content: 'content',
   contentHash: 'contentHash',
   chunkIndex: 'chunkIndex',
+  version: 'version',
   startCharIndex: 'startCharIndex',
   endCharIndex: 'endCharIndex',
   pageNumber: 'pageNumber',
+  pageEnd: 'pageEnd',
   sectionTitle: 'sectionTitle',
+  language: 'language',
   qdrantPointId: 'qdrantPointId',
   embeddingModel: 'embeddingModel',
   hasEmbedding: 'hasEmbedding',
@@ -1077,6 +1266,19 @@ export const ChunkScalarFieldEnum = {
 export type ChunkScalarFieldEnum = (typeof ChunkScalarFieldEnum)[keyof typeof ChunkScalarFieldEnum]
 
 
+export const EmbeddingCacheScalarFieldEnum = {
+  id: 'id',
+  contentHash: 'contentHash',
+  embeddingModel: 'embeddingModel',
+  embedding: 'embedding',
+  hitCount: 'hitCount',
+  createdAt: 'createdAt',
+  lastUsedAt: 'lastUsedAt'
+} as const
+
+export type EmbeddingCacheScalarFieldEnum = (typeof EmbeddingCacheScalarFieldEnum)[keyof typeof EmbeddingCacheScalarFieldEnum]
+
+
 export const QueryScalarFieldEnum = {
   id: 'id',
   workspaceId: 'workspaceId',
@@ -1283,9 +1485,16 @@ export type ListEnumDocumentStatusFieldRefInput<$PrismaModel> = FieldRefInputTyp
 
 
 /**
- * Reference to a field of type 'Int'
+ * Reference to a field of type 'Float'
  */
-export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>
+export type FloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float'>
+    
+
+
+/**
+ * Reference to a field of type 'Float[]'
+ */
+export type ListFloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float[]'>
     
 
 
@@ -1296,6 +1505,13 @@ export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel,
     
 
 
+/**
+ * Reference to a field of type 'Int'
+ */
+export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>
+    
+
+
 /**
  * Reference to a field of type 'IngestionStatus'
  */
@@ -1311,30 +1527,44 @@ export type ListEnumIngestionStatusFieldRefInput<$PrismaModel> = FieldRefInputTy
 
 
 /**
- * Reference to a field of type 'QueryType'
+ * Reference to a field of type 'ArchiveStatus'
  */
-export type EnumQueryTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'QueryType'>
+export type EnumArchiveStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ArchiveStatus'>
     
 
 
 /**
- * Reference to a field of type 'QueryType[]'
+ * Reference to a field of type 'ArchiveStatus[]'
  */
-export type ListEnumQueryTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'QueryType[]'>
+export type ListEnumArchiveStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ArchiveStatus[]'>
     
 
 
 /**
- * Reference to a field of type 'Float'
+ * Reference to a field of type 'Bytes'
  */
-export type FloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float'>
+export type BytesFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Bytes'>
     
 
 
 /**
- * Reference to a field of type 'Float[]'
+ * Reference to a field of type 'Bytes[]'
  */
-export type ListFloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float[]'>
+export type ListBytesFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Bytes[]'>
+    
+
+
+/**
+ * Reference to a field of type 'QueryType'
+ */
+export type EnumQueryTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'QueryType'>
+    
+
+
+/**
+ * Reference to a field of type 'QueryType[]'
+ */
+export type ListEnumQueryTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'QueryType[]'>
     
 
 /**
@@ -1436,7 +1666,9 @@ export type GlobalOmitConfig = {
   workspace?: Prisma.WorkspaceOmit
   workspaceMember?: Prisma.WorkspaceMemberOmit
   document?: Prisma.DocumentOmit
+  archiveUpload?: Prisma.ArchiveUploadOmit
   chunk?: Prisma.ChunkOmit
+  embeddingCache?: Prisma.EmbeddingCacheOmit
   query?: Prisma.QueryOmit
   auditLog?: Prisma.AuditLogOmit
 }
@@ -55,7 +55,9 @@ export const ModelName = {
   Workspace: 'Workspace',
   WorkspaceMember: 'WorkspaceMember',
   Document: 'Document',
+  ArchiveUpload: 'ArchiveUpload',
   Chunk: 'Chunk',
+  EmbeddingCache: 'EmbeddingCache',
   Query: 'Query',
   AuditLog: 'AuditLog'
 } as const
@@ -142,17 +144,32 @@ export const DocumentScalarFieldEnum = {
   s3Region: 's3Region',
   s3Url: 's3Url',
   thumbnailUrl: 'thumbnailUrl',
+  parentDocumentId: 'parentDocumentId',
+  archiveUploadId: 'archiveUploadId',
+  folder: 'folder',
+  uploadedById: 'uploadedById',
+  checksum: 'checksum',
+  duplicateOfId: 'duplicateOfId',
+  duplicateSimilarity: 'duplicateSimilarity',
+  minhash: 'minhash',
   pageCount: 'pageCount',
   wordCount: 'wordCount',
   language: 'language',
   metadata: 'metadata',
+  summary: 'summary',
+  topics: 'topics',
+  tags: 'tags',
+  summaryModel: 'summaryModel',
+  summaryGeneratedAt: 'summaryGeneratedAt',
   ingestionStatus: 'ingestionStatus',
   ingestionStartedAt: 'ingestionStartedAt',
   ingestionCompletedAt: 'ingestionCompletedAt',
   ingestionError: 'ingestionError',
+  ingestionJobId: 'ingestionJobId',
   chunkCount: 'chunkCount',
   embeddingCount: 'embeddingCount',
   qdrantCollectionId: 'qdrantCollectionId',
+  indexVersion: 'indexVersion',
   uploadedAt: 'uploadedAt',
   processedAt: 'processedAt',
   createdAt: 'createdAt',
@@ -163,16 +180,40 @@ export const DocumentScalarFieldEnum = {
 export type DocumentScalarFieldEnum = (typeof DocumentScalarFieldEnum)[keyof typeof DocumentScalarFieldEnum]
 
 
+export const ArchiveUploadScalarFieldEnum = {
+  id: 'id',
+  workspaceId: 'workspaceId',
+  uploadedById: 'uploadedById',
+  fileName: 'fileName',
+  s3Key: 's3Key',
+  size: 'size',
+  status: 'status',
+  entryCount: 'entryCount',
+  documentCount: 'documentCount',
+  skippedEntries: 'skippedEntries',
+  error: 'error',
+  startedAt: 'startedAt',
+  completedAt: 'completedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ArchiveUploadScalarFieldEnum = (typeof ArchiveUploadScalarFieldEnum)[keyof typeof ArchiveUploadScalarFieldEnum]
+
+
 export const ChunkScalarFieldEnum = {
   id: 'id',
   documentId: 'documentId',
   content: 'content',
   contentHash: 'contentHash',
   chunkIndex: 'chunkIndex',
+  version: 'version',
   startCharIndex: 'startCharIndex',
   endCharIndex: 'endCharIndex',
   pageNumber: 'pageNumber',
+  pageEnd: 'pageEnd',
   sectionTitle: 'sectionTitle',
+  language: 'language',
   qdrantPointId: 'qdrantPointId',
   embeddingModel: 'embeddingModel',
   hasEmbedding: 'hasEmbedding',
@@ -186,6 +227,19 @@ export const ChunkScalarFieldEnum = {
 export type ChunkScalarFieldEnum = (typeof ChunkScalarFieldEnum)[keyof typeof ChunkScalarFieldEnum]
 
 
+export const EmbeddingCacheScalarFieldEnum = {
+  id: 'id',
+  contentHash: 'contentHash',
+  embeddingModel: 'embeddingModel',
+  embedding: 'embedding',
+  hitCount: 'hitCount',
+  createdAt: 'createdAt',
+  lastUsedAt: 'lastUsedAt'
+} as const
+
+export type EmbeddingCacheScalarFieldEnum = (typeof EmbeddingCacheScalarFieldEnum)[keyof typeof EmbeddingCacheScalarFieldEnum]
+
+
 export const QueryScalarFieldEnum = {
   id: 'id',
   workspaceId: 'workspaceId',
@@ -12,7 +12,9 @@ export type * from './models/User'
 export type * from './models/Workspace'
 export type * from './models/WorkspaceMember'
 export type * from './models/Document'
+export type * from './models/ArchiveUpload'
 export type * from './models/Chunk'
+export type * from './models/EmbeddingCache'
 export type * from './models/Query'
 export type * from './models/AuditLog'
 export type * from './commonInputTypes'
\ No newline at end of file
@@ -0,0 +1,1923 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ArchiveUpload` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ArchiveUpload
+ * 
+ */
+export type ArchiveUploadModel = runtime.Types.Result.DefaultSelection<Prisma.$ArchiveUploadPayload>
+
+export type AggregateArchiveUpload = {
+  _count: ArchiveUploadCountAggregateOutputType | null
+  _avg: ArchiveUploadAvgAggregateOutputType | null
+  _sum: ArchiveUploadSumAggregateOutputType | null
+  _min: ArchiveUploadMinAggregateOutputType | null
+  _max: ArchiveUploadMaxAggregateOutputType | null
+}
+
+export type ArchiveUploadAvgAggregateOutputType = {
+  size: number | null
+  entryCount: number | null
+  documentCount: number | null
+}
+
+export type ArchiveUploadSumAggregateOutputType = {
+  size: bigint | null
+  entryCount: number | null
+  documentCount: number | null
+}
+
+export type ArchiveUploadMinAggregateOutputType = {
+  id: string | null
+  workspaceId: string | null
+  uploadedById: string | null
+  fileName: string | null
+  s3Key: string | null
+  size: bigint | null
+  status: $Enums.ArchiveStatus | null
+  entryCount: number | null
+  documentCount: number | null
+  error: string | null
+  startedAt: Date | null
+  completedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ArchiveUploadMaxAggregateOutputType = {
+  id: string | null
+  workspaceId: string | null
+  uploadedById: string | null
+  fileName: string | null
+  s3Key: string | null
+  size: bigint | null
+  status: $Enums.ArchiveStatus | null
+  entryCount: number | null
+  documentCount: number | null
+  error: string | null
+  startedAt: Date | null
+  completedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ArchiveUploadCountAggregateOutputType = {
+  id: number
+  workspaceId: number
+  uploadedById: number
+  fileName: number
+  s3Key: number
+  size: number
+  status: number
+  entryCount: number
+  documentCount: number
+  skippedEntries: number
+  error: number
+  startedAt: number
+  completedAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ArchiveUploadAvgAggregateInputType = {
+  size?: true
+  entryCount?: true
+  documentCount?: true
+}
+
+export type ArchiveUploadSumAggregateInputType = {
+  size?: true
+  entryCount?: true
+  documentCount?: true
+}
+
+export type ArchiveUploadMinAggregateInputType = {
+  id?: true
+  workspaceId?: true
+  uploadedById?: true
+  fileName?: true
+  s3Key?: true
+  size?: true
+  status?: true
+  entryCount?: true
+  documentCount?: true
+  error?: true
+  startedAt?: true
+  completedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ArchiveUploadMaxAggregateInputType = {
+  id?: true
+  workspaceId?: true
+  uploadedById?: true
+  fileName?: true
+  s3Key?: true
+  size?: true
+  status?: true
+  entryCount?: true
+  documentCount?: true
+  error?: true
+  startedAt?: true
+  completedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ArchiveUploadCountAggregateInputType = {
+  id?: true
+  workspaceId?: true
+  uploadedById?: true
+  fileName?: true
+  s3Key?: true
+  size?: true
+  status?: true
+  entryCount?: true
+  documentCount?: true
+  skippedEntries?: true
+  error?: true
+  startedAt?: true
+  completedAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ArchiveUploadAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ArchiveUpload to aggregate.
+   */
+  where?: Prisma.ArchiveUploadWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ArchiveUploads to fetch.
+   */
+  orderBy?: Prisma.ArchiveUploadOrderByWithRelationInput | Prisma.ArchiveUploadOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ArchiveUploadWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ArchiveUploads from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ArchiveUploads.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ArchiveUploads
+  **/
+  _count?: true | ArchiveUploadCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ArchiveUploadAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ArchiveUploadSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ArchiveUploadMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ArchiveUploadMaxAggregateInputType
+}
+
+export type GetArchiveUploadAggregateType<T extends ArchiveUploadAggregateArgs> = {
+      [P in keyof T & keyof AggregateArchiveUpload]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateArchiveUpload[P]>
+    : Prisma.GetScalarType<T[P], AggregateArchiveUpload[P]>
+}
+
+
+
+
+export type ArchiveUploadGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ArchiveUploadWhereInput
+  orderBy?: Prisma.ArchiveUploadOrderByWithAggregationInput | Prisma.ArchiveUploadOrderByWithAggregationInput[]
+  by: Prisma.ArchiveUploadScalarFieldEnum[] | Prisma.ArchiveUploadScalarFieldEnum
+  having?: Prisma.ArchiveUploadScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ArchiveUploadCountAggregateInputType | true
+  _avg?: ArchiveUploadAvgAggregateInputType
+  _sum?: ArchiveUploadSumAggregateInputType
+  _min?: ArchiveUploadMinAggregateInputType
+  _max?: ArchiveUploadMaxAggregateInputType
+}
+
+export type ArchiveUploadGroupByOutputType = {
+  id: string
+  workspaceId: string
+  uploadedById: string
+  fileName: string
+  s3Key: string
+  size: bigint
+  status: $Enums.ArchiveStatus
+  entryCount: number
+  documentCount: number
+  skippedEntries: runtime.JsonValue | null
+  error: string | null
+  startedAt: Date | null
+  completedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: ArchiveUploadCountAggregateOutputType | null
+  _avg: ArchiveUploadAvgAggregateOutputType | null
+  _sum: ArchiveUploadSumAggregateOutputType | null
+  _min: ArchiveUploadMinAggregateOutputType | null
+  _max: ArchiveUploadMaxAggregateOutputType | null
+}
+
+type GetArchiveUploadGroupByPayload<T extends ArchiveUploadGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ArchiveUploadGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ArchiveUploadGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ArchiveUploadGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ArchiveUploadGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ArchiveUploadWhereInput = {
+  AND?: Prisma.ArchiveUploadWhereInput | Prisma.ArchiveUploadWhereInput[]
+  OR?: Prisma.ArchiveUploadWhereInput[]
+  NOT?: Prisma.ArchiveUploadWhereInput | Prisma.ArchiveUploadWhereInput[]
+  id?: Prisma.StringFilter<"ArchiveUpload"> | string
+  workspaceId?: Prisma.StringFilter<"ArchiveUpload"> | string
+  uploadedById?: Prisma.StringFilter<"ArchiveUpload"> | string
+  fileName?: Prisma.StringFilter<"ArchiveUpload"> | string
+  s3Key?: Prisma.StringFilter<"ArchiveUpload"> | string
+  size?: Prisma.BigIntFilter<"ArchiveUpload"> | bigint | number
+  status?: Prisma.EnumArchiveStatusFilter<"ArchiveUpload"> | $Enums.ArchiveStatus
+  entryCount?: Prisma.IntFilter<"ArchiveUpload"> | number
+  documentCount?: Prisma.IntFilter<"ArchiveUpload"> | number
+  skippedEntries?: Prisma.JsonNullableFilter<"ArchiveUpload">
+  error?: Prisma.StringNullableFilter<"ArchiveUpload"> | string | null
+  startedAt?: Prisma.DateTimeNullableFilter<"ArchiveUpload"> | Date | string | null
+  completedAt?: Prisma.DateTimeNullableFilter<"ArchiveUpload"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ArchiveUpload"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ArchiveUpload"> | Date | string
+  workspace?: Prisma.XOR<Prisma.WorkspaceScalarRelationFilter, Prisma.WorkspaceWhereInput>
+  documents?: Prisma.DocumentListRelationFilter
+}
+
+export type ArchiveUploadOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  workspaceId?: Prisma.SortOrder
+  uploadedById?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  s3Key?: Prisma.SortOrder
+  size?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  entryCount?: Prisma.SortOrder
+  documentCount?: Prisma.SortOrder
+  skippedEntries?: Prisma.SortOrderInput | Prisma.SortOrder
+  error?: Prisma.SortOrderInput | Prisma.SortOrder
+  startedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  completedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  workspace?: Prisma.WorkspaceOrderByWithRelationInput
+  documents?: Prisma.DocumentOrderByRelationAggregateInput
+}
+
+export type ArchiveUploadWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  s3Key?: string
+  AND?: Prisma.ArchiveUploadWhereInput | Prisma.ArchiveUploadWhereInput[]
+  OR?: Prisma.ArchiveUploadWhereInput[]
+  NOT?: Prisma.ArchiveUploadWhereInput | Prisma.ArchiveUploadWhereInput[]
+  workspaceId?: Prisma.StringFilter<"ArchiveUpload"> | string
+  uploadedById?: Prisma.StringFilter<"ArchiveUpload"> | string
+  fileName?: Prisma.StringFilter<"ArchiveUpload"> | string
+  size?: Prisma.BigIntFilter<"ArchiveUpload"> | bigint | number
+  status?: Prisma.EnumArchiveStatusFilter<"ArchiveUpload"> | $Enums.ArchiveStatus
+  entryCount?: Prisma.IntFilter<"ArchiveUpload"> | number
+  documentCount?: Prisma.IntFilter<"ArchiveUpload"> | number
+  skippedEntries?: Prisma.JsonNullableFilter<"ArchiveUpload">
+  error?: Prisma.StringNullableFilter<"ArchiveUpload"> | string | null
+  startedAt?: Prisma.DateTimeNullableFilter<"ArchiveUpload"> | Date | string | null
+  completedAt?: Prisma.DateTimeNullableFilter<"ArchiveUpload"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ArchiveUpload"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ArchiveUpload"> | Date | string
+  workspace?: Prisma.XOR<Prisma.WorkspaceScalarRelationFilter, Prisma.WorkspaceWhereInput>
+  documents?: Prisma.DocumentListRelationFilter
+}, "id" | "s3Key">
+
+export type ArchiveUploadOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  workspaceId?: Prisma.SortOrder
+  uploadedById?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  s3Key?: Prisma.SortOrder
+  size?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  entryCount?: Prisma.SortOrder
+  documentCount?: Prisma.SortOrder
+  skippedEntries?: Prisma.SortOrderInput | Prisma.SortOrder
+  error?: Prisma.SortOrderInput | Prisma.SortOrder
+  startedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  completedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ArchiveUploadCountOrderByAggregateInput
+  _avg?: Prisma.ArchiveUploadAvgOrderByAggregateInput
+  _max?: Prisma.ArchiveUploadMaxOrderByAggregateInput
+  _min?: Prisma.ArchiveUploadMinOrderByAggregateInput
+  _sum?: Prisma.ArchiveUploadSumOrderByAggregateInput
+}
+
+export type ArchiveUploadScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ArchiveUploadScalarWhereWithAggregatesInput | Prisma.ArchiveUploadScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ArchiveUploadScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ArchiveUploadScalarWhereWithAggregatesInput | Prisma.ArchiveUploadScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ArchiveUpload"> | string
+  workspaceId?: Prisma.StringWithAggregatesFilter<"ArchiveUpload"> | string
+  uploadedById?: Prisma.StringWithAggregatesFilter<"ArchiveUpload"> | string
+  fileName?: Prisma.StringWithAggregatesFilter<"ArchiveUpload"> | string
+  s3Key?: Prisma.StringWithAggregatesFilter<"ArchiveUpload"> | string
+  size?: Prisma.BigIntWithAggregatesFilter<"ArchiveUpload"> | bigint | number
+  status?: Prisma.EnumArchiveStatusWithAggregatesFilter<"ArchiveUpload"> | $Enums.ArchiveStatus
+  entryCount?: Prisma.IntWithAggregatesFilter<"ArchiveUpload"> | number
+  documentCount?: Prisma.IntWithAggregatesFilter<"ArchiveUpload"> | number
+  skippedEntries?: Prisma.JsonNullableWithAggregatesFilter<"ArchiveUpload">
+  error?: Prisma.StringNullableWithAggregatesFilter<"ArchiveUpload"> | string | null
+  startedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ArchiveUpload"> | Date | string | null
+  completedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ArchiveUpload"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ArchiveUpload"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ArchiveUpload"> | Date | string
+}
+
+export type ArchiveUploadCreateInput = {
+  id?: string
+  uploadedById: string
+  fileName: string
+  s3Key: string
+  size: bigint | number
+  status?: $Enums.ArchiveStatus
+  entryCount?: number
+  documentCount?: number
+  skippedEntries?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  workspace: Prisma.WorkspaceCreateNestedOneWithoutArchiveUploadsInput
+  documents?: Prisma.DocumentCreateNestedManyWithoutArchiveUploadInput
+}
+
+export type ArchiveUploadUncheckedCreateInput = {
+  id?: string
+  workspaceId: string
+  uploadedById: string
+  fileName: string
+  s3Key: string
+  size: bigint | number
+  status?: $Enums.ArchiveStatus
+  entryCount?: number
+  documentCount?: number
+  skippedEntries?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutArchiveUploadInput
+}
+
+export type ArchiveUploadUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  uploadedById?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumArchiveStatusFieldUpdateOperationsInput | $Enums.ArchiveStatus
+  entryCount?: Prisma.IntFieldUpdateOperationsInput | number
+  documentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  skippedEntries?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  workspace?: Prisma.WorkspaceUpdateOneRequiredWithoutArchiveUploadsNestedInput
+  documents?: Prisma.DocumentUpdateManyWithoutArchiveUploadNestedInput
+}
+
+export type ArchiveUploadUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workspaceId?: Prisma.StringFieldUpdateOperationsInput | string
+  uploadedById?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumArchiveStatusFieldUpdateOperationsInput | $Enums.ArchiveStatus
+  entryCount?: Prisma.IntFieldUpdateOperationsInput | number
+  documentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  skippedEntries?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  documents?: Prisma.DocumentUncheckedUpdateManyWithoutArchiveUploadNestedInput
+}
+
+export type ArchiveUploadCreateManyInput = {
+  id?: string
+  workspaceId: string
+  uploadedById: string
+  fileName: string
+  s3Key: string
+  size: bigint | number
+  status?: $Enums.ArchiveStatus
+  entryCount?: number
+  documentCount?: number
+  skippedEntries?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ArchiveUploadUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  uploadedById?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumArchiveStatusFieldUpdateOperationsInput | $Enums.ArchiveStatus
+  entryCount?: Prisma.IntFieldUpdateOperationsInput | number
+  documentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  skippedEntries?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ArchiveUploadUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workspaceId?: Prisma.StringFieldUpdateOperationsInput | string
+  uploadedById?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumArchiveStatusFieldUpdateOperationsInput | $Enums.ArchiveStatus
+  entryCount?: Prisma.IntFieldUpdateOperationsInput | number
+  documentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  skippedEntries?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ArchiveUploadListRelationFilter = {
+  every?: Prisma.ArchiveUploadWhereInput
+  some?: Prisma.ArchiveUploadWhereInput
+  none?: Prisma.ArchiveUploadWhereInput
+}
+
+export type ArchiveUploadOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ArchiveUploadNullableScalarRelationFilter = {
+  is?: Prisma.ArchiveUploadWhereInput | null
+  isNot?: Prisma.ArchiveUploadWhereInput | null
+}
+
+export type ArchiveUploadCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workspaceId?: Prisma.SortOrder
+  uploadedById?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  s3Key?: Prisma.SortOrder
+  size?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  entryCount?: Prisma.SortOrder
+  documentCount?: Prisma.SortOrder
+  skippedEntries?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  completedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ArchiveUploadAvgOrderByAggregateInput = {
+  size?: Prisma.SortOrder
+  entryCount?: Prisma.SortOrder
+  documentCount?: Prisma.SortOrder
+}
+
+export type ArchiveUploadMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workspaceId?: Prisma.SortOrder
+  uploadedById?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  s3Key?: Prisma.SortOrder
+  size?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  entryCount?: Prisma.SortOrder
+  documentCount?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  completedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ArchiveUploadMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workspaceId?: Prisma.SortOrder
+  uploadedById?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  s3Key?: Prisma.SortOrder
+  size?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  entryCount?: Prisma.SortOrder
+  documentCount?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  completedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ArchiveUploadSumOrderByAggregateInput = {
+  size?: Prisma.SortOrder
+  entryCount?: Prisma.SortOrder
+  documentCount?: Prisma.SortOrder
+}
+
+export type ArchiveUploadCreateNestedManyWithoutWorkspaceInput = {
+  create?: Prisma.XOR<Prisma.ArchiveUploadCreateWithoutWorkspaceInput, Prisma.ArchiveUploadUncheckedCreateWithoutWorkspaceInput> | Prisma.ArchiveUploadCreateWithoutWorkspaceInput[] | Prisma.ArchiveUploadUncheckedCreateWithoutWorkspaceInput[]
+  connectOrCreate?: Prisma.ArchiveUploadCreateOrConnectWithoutWorkspaceInput | Prisma.ArchiveUploadCreateOrConnectWithoutWorkspaceInput[]
+  createMany?: Prisma.ArchiveUploadCreateManyWorkspaceInputEnvelope
+  connect?: Prisma.ArchiveUploadWhereUniqueInput | Prisma.ArchiveUploadWhereUniqueInput[]
+}
+
+export type ArchiveUploadUncheckedCreateNestedManyWithoutWorkspaceInput = {
+  create?: Prisma.XOR<Prisma.ArchiveUploadCreateWithoutWorkspaceInput, Prisma.ArchiveUploadUncheckedCreateWithoutWorkspaceInput> | Prisma.ArchiveUploadCreateWithoutWorkspaceInput[] | Prisma.ArchiveUploadUncheckedCreateWithoutWorkspaceInput[]
+  connectOrCreate?: Prisma.ArchiveUploadCreateOrConnectWithoutWorkspaceInput | Prisma.ArchiveUploadCreateOrConnectWithoutWorkspaceInput[]
+  createMany?: Prisma.ArchiveUploadCreateManyWorkspaceInputEnvelope
+  connect?: Prisma.ArchiveUploadWhereUniqueInput | Prisma.ArchiveUploadWhereUniqueInput[]
+}
+
+export type ArchiveUploadUpdateManyWithoutWorkspaceNestedInput = {
+  create?: Prisma.XOR<Prisma.ArchiveUploadCreateWithoutWorkspaceInput, Prisma.ArchiveUploadUncheckedCreateWithoutWorkspaceInput> | Prisma.ArchiveUploadCreateWithoutWorkspaceInput[] | Prisma.ArchiveUploadUncheckedCreateWithoutWorkspaceInput[]
+  connectOrCreate?: Prisma.ArchiveUploadCreateOrConnectWithoutWorkspaceInput | Prisma.ArchiveUploadCreateOrConnectWithoutWorkspaceInput[]
+  upsert?: Prisma.ArchiveUploadUpsertWithWhereUniqueWithoutWorkspaceInput | Prisma.ArchiveUploadUpsertWithWhereUniqueWithoutWorkspaceInput[]
+  createMany?: Prisma.ArchiveUploadCreateManyWorkspaceInputEnvelope
+  set?: Prisma.ArchiveUploadWhereUniqueInput | Prisma.ArchiveUploadWhereUniqueInput[]
+  disconnect?: Prisma.ArchiveUploadWhereUniqueInput | Prisma.ArchiveUploadWhereUniqueInput[]
+  delete?: Prisma.ArchiveUploadWhereUniqueInput | Prisma.ArchiveUploadWhereUniqueInput[]
+  connect?: Prisma.ArchiveUploadWhereUniqueInput | Prisma.ArchiveUploadWhereUniqueInput[]
+  update?: Prisma.ArchiveUploadUpdateWithWhereUniqueWithoutWorkspaceInput | Prisma.ArchiveUploadUpdateWithWhereUniqueWithoutWorkspaceInput[]
+  updateMany?: Prisma.ArchiveUploadUpdateManyWithWhereWithoutWorkspaceInput | Prisma.ArchiveUploadUpdateManyWithWhereWithoutWorkspaceInput[]
+  deleteMany?: Prisma.ArchiveUploadScalarWhereInput | Prisma.ArchiveUploadScalarWhereInput[]
+}
+
+export type ArchiveUploadUncheckedUpdateManyWithoutWorkspaceNestedInput = {
+  create?: Prisma.XOR<Prisma.ArchiveUploadCreateWithoutWorkspaceInput, Prisma.ArchiveUploadUncheckedCreateWithoutWorkspaceInput> | Prisma.ArchiveUploadCreateWithoutWorkspaceInput[] | Prisma.ArchiveUploadUncheckedCreateWithoutWorkspaceInput[]
+  connectOrCreate?: Prisma.ArchiveUploadCreateOrConnectWithoutWorkspaceInput | Prisma.ArchiveUploadCreateOrConnectWithoutWorkspaceInput[]
+  upsert?: Prisma.ArchiveUploadUpsertWithWhereUniqueWithoutWorkspaceInput | Prisma.ArchiveUploadUpsertWithWhereUniqueWithoutWorkspaceInput[]
+  createMany?: Prisma.ArchiveUploadCreateManyWorkspaceInputEnvelope
+  set?: Prisma.ArchiveUploadWhereUniqueInput | Prisma.ArchiveUploadWhereUniqueInput[]
+  disconnect?: Prisma.ArchiveUploadWhereUniqueInput | Prisma.ArchiveUploadWhereUniqueInput[]
+  delete?: Prisma.ArchiveUploadWhereUniqueInput | Prisma.ArchiveUploadWhereUniqueInput[]
+  connect?: Prisma.ArchiveUploadWhereUniqueInput | Prisma.ArchiveUploadWhereUniqueInput[]
+  update?: Prisma.ArchiveUploadUpdateWithWhereUniqueWithoutWorkspaceInput | Prisma.ArchiveUploadUpdateWithWhereUniqueWithoutWorkspaceInput[]
+  updateMany?: Prisma.ArchiveUploadUpdateManyWithWhereWithoutWorkspaceInput | Prisma.ArchiveUploadUpdateManyWithWhereWithoutWorkspaceInput[]
+  deleteMany?: Prisma.ArchiveUploadScalarWhereInput | Prisma.ArchiveUploadScalarWhereInput[]
+}
+
+export type ArchiveUploadCreateNestedOneWithoutDocumentsInput = {
+  create?: Prisma.XOR<Prisma.ArchiveUploadCreateWithoutDocumentsInput, Prisma.ArchiveUploadUncheckedCreateWithoutDocumentsInput>
+  connectOrCreate?: Prisma.ArchiveUploadCreateOrConnectWithoutDocumentsInput
+  connect?: Prisma.ArchiveUploadWhereUniqueInput
+}
+
+export type ArchiveUploadUpdateOneWithoutDocumentsNestedInput = {
+  create?: Prisma.XOR<Prisma.ArchiveUploadCreateWithoutDocumentsInput, Prisma.ArchiveUploadUncheckedCreateWithoutDocumentsInput>
+  connectOrCreate?: Prisma.ArchiveUploadCreateOrConnectWithoutDocumentsInput
+  upsert?: Prisma.ArchiveUploadUpsertWithoutDocumentsInput
+  disconnect?: Prisma.ArchiveUploadWhereInput | boolean
+  delete?: Prisma.ArchiveUploadWhereInput | boolean
+  connect?: Prisma.ArchiveUploadWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ArchiveUploadUpdateToOneWithWhereWithoutDocumentsInput, Prisma.ArchiveUploadUpdateWithoutDocumentsInput>, Prisma.ArchiveUploadUncheckedUpdateWithoutDocumentsInput>
+}
+
+export type EnumArchiveStatusFieldUpdateOperationsInput = {
+  set?: $Enums.ArchiveStatus
+}
+
+export type ArchiveUploadCreateWithoutWorkspaceInput = {
+  id?: string
+  uploadedById: string
+  fileName: string
+  s3Key: string
+  size: bigint | number
+  status?: $Enums.ArchiveStatus
+  entryCount?: number
+  documentCount?: number
+  skippedEntries?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  documents?: Prisma.DocumentCreateNestedManyWithoutArchiveUploadInput
+}
+
+export type ArchiveUploadUncheckedCreateWithoutWorkspaceInput = {
+  id?: string
+  uploadedById: string
+  fileName: string
+  s3Key: string
+  size: bigint | number
+  status?: $Enums.ArchiveStatus
+  entryCount?: number
+  documentCount?: number
+  skippedEntries?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutArchiveUploadInput
+}
+
+export type ArchiveUploadCreateOrConnectWithoutWorkspaceInput = {
+  where: Prisma.ArchiveUploadWhereUniqueInput
+  create: Prisma.XOR<Prisma.ArchiveUploadCreateWithoutWorkspaceInput, Prisma.ArchiveUploadUncheckedCreateWithoutWorkspaceInput>
+}
+
+export type ArchiveUploadCreateManyWorkspaceInputEnvelope = {
+  data: Prisma.ArchiveUploadCreateManyWorkspaceInput | Prisma.ArchiveUploadCreateManyWorkspaceInput[]
+  skipDuplicates?: boolean
+}
+
+export type ArchiveUploadUpsertWithWhereUniqueWithoutWorkspaceInput = {
+  where: Prisma.ArchiveUploadWhereUniqueInput
+  update: Prisma.XOR<Prisma.ArchiveUploadUpdateWithoutWorkspaceInput, Prisma.ArchiveUploadUncheckedUpdateWithoutWorkspaceInput>
+  create: Prisma.XOR<Prisma.ArchiveUploadCreateWithoutWorkspaceInput, Prisma.ArchiveUploadUncheckedCreateWithoutWorkspaceInput>
+}
+
+export type ArchiveUploadUpdateWithWhereUniqueWithoutWorkspaceInput = {
+  where: Prisma.ArchiveUploadWhereUniqueInput
+  data: Prisma.XOR<Prisma.ArchiveUploadUpdateWithoutWorkspaceInput, Prisma.ArchiveUploadUncheckedUpdateWithoutWorkspaceInput>
+}
+
+export type ArchiveUploadUpdateManyWithWhereWithoutWorkspaceInput = {
+  where: Prisma.ArchiveUploadScalarWhereInput
+  data: Prisma.XOR<Prisma.ArchiveUploadUpdateManyMutationInput, Prisma.ArchiveUploadUncheckedUpdateManyWithoutWorkspaceInput>
+}
+
+export type ArchiveUploadScalarWhereInput = {
+  AND?: Prisma.ArchiveUploadScalarWhereInput | Prisma.ArchiveUploadScalarWhereInput[]
+  OR?: Prisma.ArchiveUploadScalarWhereInput[]
+  NOT?: Prisma.ArchiveUploadScalarWhereInput | Prisma.ArchiveUploadScalarWhereInput[]
+  id?: Prisma.StringFilter<"ArchiveUpload"> | string
+  workspaceId?: Prisma.StringFilter<"ArchiveUpload"> | string
+  uploadedById?: Prisma.StringFilter<"ArchiveUpload"> | string
+  fileName?: Prisma.StringFilter<"ArchiveUpload"> | string
+  s3Key?: Prisma.StringFilter<"ArchiveUpload"> | string
+  size?: Prisma.BigIntFilter<"ArchiveUpload"> | bigint | number
+  status?: Prisma.EnumArchiveStatusFilter<"ArchiveUpload"> | $Enums.ArchiveStatus
+  entryCount?: Prisma.IntFilter<"ArchiveUpload"> | number
+  documentCount?: Prisma.IntFilter<"ArchiveUpload"> | number
+  skippedEntries?: Prisma.JsonNullableFilter<"ArchiveUpload">
+  error?: Prisma.StringNullableFilter<"ArchiveUpload"> | string | null
+  startedAt?: Prisma.DateTimeNullableFilter<"ArchiveUpload"> | Date | string | null
+  completedAt?: Prisma.DateTimeNullableFilter<"ArchiveUpload"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ArchiveUpload"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ArchiveUpload"> | Date | string
+}
+
+export type ArchiveUploadCreateWithoutDocumentsInput = {
+  id?: string
+  uploadedById: string
+  fileName: string
+  s3Key: string
+  size: bigint | number
+  status?: $Enums.ArchiveStatus
+  entryCount?: number
+  documentCount?: number
+  skippedEntries?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  workspace: Prisma.WorkspaceCreateNestedOneWithoutArchiveUploadsInput
+}
+
+export type ArchiveUploadUncheckedCreateWithoutDocumentsInput = {
+  id?: string
+  workspaceId: string
+  uploadedById: string
+  fileName: string
+  s3Key: string
+  size: bigint | number
+  status?: $Enums.ArchiveStatus
+  entryCount?: number
+  documentCount?: number
+  skippedEntries?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ArchiveUploadCreateOrConnectWithoutDocumentsInput = {
+  where: Prisma.ArchiveUploadWhereUniqueInput
+  create: Prisma.XOR<Prisma.ArchiveUploadCreateWithoutDocumentsInput, Prisma.ArchiveUploadUncheckedCreateWithoutDocumentsInput>
+}
+
+export type ArchiveUploadUpsertWithoutDocumentsInput = {
+  update: Prisma.XOR<Prisma.ArchiveUploadUpdateWithoutDocumentsInput, Prisma.ArchiveUploadUncheckedUpdateWithoutDocumentsInput>
+  create: Prisma.XOR<Prisma.ArchiveUploadCreateWithoutDocumentsInput, Prisma.ArchiveUploadUncheckedCreateWithoutDocumentsInput>
+  where?: Prisma.ArchiveUploadWhereInput
+}
+
+export type ArchiveUploadUpdateToOneWithWhereWithoutDocumentsInput = {
+  where?: Prisma.ArchiveUploadWhereInput
+  data: Prisma.XOR<Prisma.ArchiveUploadUpdateWithoutDocumentsInput, Prisma.ArchiveUploadUncheckedUpdateWithoutDocumentsInput>
+}
+
+export type ArchiveUploadUpdateWithoutDocumentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  uploadedById?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumArchiveStatusFieldUpdateOperationsInput | $Enums.ArchiveStatus
+  entryCount?: Prisma.IntFieldUpdateOperationsInput | number
+  documentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  skippedEntries?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  workspace?: Prisma.WorkspaceUpdateOneRequiredWithoutArchiveUploadsNestedInput
+}
+
+export type ArchiveUploadUncheckedUpdateWithoutDocumentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workspaceId?: Prisma.StringFieldUpdateOperationsInput | string
+  uploadedById?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumArchiveStatusFieldUpdateOperationsInput | $Enums.ArchiveStatus
+  entryCount?: Prisma.IntFieldUpdateOperationsInput | number
+  documentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  skippedEntries?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ArchiveUploadCreateManyWorkspaceInput = {
+  id?: string
+  uploadedById: string
+  fileName: string
+  s3Key: string
+  size: bigint | number
+  status?: $Enums.ArchiveStatus
+  entryCount?: number
+  documentCount?: number
+  skippedEntries?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ArchiveUploadUpdateWithoutWorkspaceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  uploadedById?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumArchiveStatusFieldUpdateOperationsInput | $Enums.ArchiveStatus
+  entryCount?: Prisma.IntFieldUpdateOperationsInput | number
+  documentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  skippedEntries?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  documents?: Prisma.DocumentUpdateManyWithoutArchiveUploadNestedInput
+}
+
+export type ArchiveUploadUncheckedUpdateWithoutWorkspaceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  uploadedById?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumArchiveStatusFieldUpdateOperationsInput | $Enums.ArchiveStatus
+  entryCount?: Prisma.IntFieldUpdateOperationsInput | number
+  documentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  skippedEntries?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  documents?: Prisma.DocumentUncheckedUpdateManyWithoutArchiveUploadNestedInput
+}
+
+export type ArchiveUploadUncheckedUpdateManyWithoutWorkspaceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  uploadedById?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumArchiveStatusFieldUpdateOperationsInput | $Enums.ArchiveStatus
+  entryCount?: Prisma.IntFieldUpdateOperationsInput | number
+  documentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  skippedEntries?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type ArchiveUploadCountOutputType
+ */
+
+export type ArchiveUploadCountOutputType = {
+  documents: number
+}
+
+export type ArchiveUploadCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  documents?: boolean | ArchiveUploadCountOutputTypeCountDocumentsArgs
+}
+
+/**
+ * ArchiveUploadCountOutputType without action
+ */
+export type ArchiveUploadCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ArchiveUploadCountOutputType
+   */
+  select?: Prisma.ArchiveUploadCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * ArchiveUploadCountOutputType without action
+ */
+export type ArchiveUploadCountOutputTypeCountDocumentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DocumentWhereInput
+}
+
+
+export type ArchiveUploadSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workspaceId?: boolean
+  uploadedById?: boolean
+  fileName?: boolean
+  s3Key?: boolean
+  size?: boolean
+  status?: boolean
+  entryCount?: boolean
+  documentCount?: boolean
+  skippedEntries?: boolean
+  error?: boolean
+  startedAt?: boolean
+  completedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  workspace?: boolean | Prisma.WorkspaceDefaultArgs<ExtArgs>
+  documents?: boolean | Prisma.ArchiveUpload$documentsArgs<ExtArgs>
+  _count?: boolean | Prisma.ArchiveUploadCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["archiveUpload"]>
+
+export type ArchiveUploadSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workspaceId?: boolean
+  uploadedById?: boolean
+  fileName?: boolean
+  s3Key?: boolean
+  size?: boolean
+  status?: boolean
+  entryCount?: boolean
+  documentCount?: boolean
+  skippedEntries?: boolean
+  error?: boolean
+  startedAt?: boolean
+  completedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  workspace?: boolean | Prisma.WorkspaceDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["archiveUpload"]>
+
+export type ArchiveUploadSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workspaceId?: boolean
+  uploadedById?: boolean
+  fileName?: boolean
+  s3Key?: boolean
+  size?: boolean
+  status?: boolean
+  entryCount?: boolean
+  documentCount?: boolean
+  skippedEntries?: boolean
+  error?: boolean
+  startedAt?: boolean
+  completedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  workspace?: boolean | Prisma.WorkspaceDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["archiveUpload"]>
+
+export type ArchiveUploadSelectScalar = {
+  id?: boolean
+  workspaceId?: boolean
+  uploadedById?: boolean
+  fileName?: boolean
+  s3Key?: boolean
+  size?: boolean
+  status?: boolean
+  entryCount?: boolean
+  documentCount?: boolean
+  skippedEntries?: boolean
+  error?: boolean
+  startedAt?: boolean
+  completedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ArchiveUploadOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "workspaceId" | "uploadedById" | "fileName" | "s3Key" | "size" | "status" | "entryCount" | "documentCount" | "skippedEntries" | "error" | "startedAt" | "completedAt" | "createdAt" | "updatedAt", ExtArgs["result"]["archiveUpload"]>
+export type ArchiveUploadInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workspace?: boolean | Prisma.WorkspaceDefaultArgs<ExtArgs>
+  documents?: boolean | Prisma.ArchiveUpload$documentsArgs<ExtArgs>
+  _count?: boolean | Prisma.ArchiveUploadCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type ArchiveUploadIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workspace?: boolean | Prisma.WorkspaceDefaultArgs<ExtArgs>
+}
+export type ArchiveUploadIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workspace?: boolean | Prisma.WorkspaceDefaultArgs<ExtArgs>
+}
+
+export type $ArchiveUploadPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ArchiveUpload"
+  objects: {
+    workspace: Prisma.$WorkspacePayload<ExtArgs>
+    documents: Prisma.$DocumentPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    workspaceId: string
+    uploadedById: string
+    fileName: string
+    s3Key: string
+    size: bigint
+    status: $Enums.ArchiveStatus
+    entryCount: number
+    documentCount: number
+    skippedEntries: runtime.JsonValue | null
+    error: string | null
+    startedAt: Date | null
+    completedAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["archiveUpload"]>
+  composites: {}
+}
+
+export type ArchiveUploadGetPayload<S extends boolean | null | undefined | ArchiveUploadDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ArchiveUploadPayload, S>
+
+export type ArchiveUploadCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ArchiveUploadFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ArchiveUploadCountAggregateInputType | true
+  }
+
+export interface ArchiveUploadDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ArchiveUpload'], meta: { name: 'ArchiveUpload' } }
+  /**
+   * Find zero or one ArchiveUpload that matches the filter.
+   * @param {ArchiveUploadFindUniqueArgs} args - Arguments to find a ArchiveUpload
+   * @example
+   * // Get one ArchiveUpload
+   * const archiveUpload = await prisma.archiveUpload.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ArchiveUploadFindUniqueArgs>(args: Prisma.SelectSubset<T, ArchiveUploadFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ArchiveUploadClient<runtime.Types.Result.GetResult<Prisma.$ArchiveUploadPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ArchiveUpload that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ArchiveUploadFindUniqueOrThrowArgs} args - Arguments to find a ArchiveUpload
+   * @example
+   * // Get one ArchiveUpload
+   * const archiveUpload = await prisma.archiveUpload.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ArchiveUploadFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ArchiveUploadFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ArchiveUploadClient<runtime.Types.Result.GetResult<Prisma.$ArchiveUploadPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ArchiveUpload that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ArchiveUploadFindFirstArgs} args - Arguments to find a ArchiveUpload
+   * @example
+   * // Get one ArchiveUpload
+   * const archiveUpload = await prisma.archiveUpload.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ArchiveUploadFindFirstArgs>(args?: Prisma.SelectSubset<T, ArchiveUploadFindFirstArgs<ExtArgs>>): Prisma.Prisma__ArchiveUploadClient<runtime.Types.Result.GetResult<Prisma.$ArchiveUploadPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ArchiveUpload that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ArchiveUploadFindFirstOrThrowArgs} args - Arguments to find a ArchiveUpload
+   * @example
+   * // Get one ArchiveUpload
+   * const archiveUpload = await prisma.archiveUpload.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ArchiveUploadFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ArchiveUploadFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ArchiveUploadClient<runtime.Types.Result.GetResult<Prisma.$ArchiveUploadPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ArchiveUploads that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ArchiveUploadFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ArchiveUploads
+   * const archiveUploads = await prisma.archiveUpload.findMany()
+   * 
+   * // Get first 10 ArchiveUploads
+   * const archiveUploads = await prisma.archiveUpload.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const archiveUploadWithIdOnly = await prisma.archiveUpload.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ArchiveUploadFindManyArgs>(args?: Prisma.SelectSubset<T, ArchiveUploadFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ArchiveUploadPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ArchiveUpload.
+   * @param {ArchiveUploadCreateArgs} args - Arguments to create a ArchiveUpload.
+   * @example
+   * // Create one ArchiveUpload
+   * const ArchiveUpload = await prisma.archiveUpload.create({
+   *   data: {
+   *     // ... data to create a ArchiveUpload
+   *   }
+   * })
+   * 
+   */
+  create<T extends ArchiveUploadCreateArgs>(args: Prisma.SelectSubset<T, ArchiveUploadCreateArgs<ExtArgs>>): Prisma.Prisma__ArchiveUploadClient<runtime.Types.Result.GetResult<Prisma.$ArchiveUploadPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ArchiveUploads.
+   * @param {ArchiveUploadCreateManyArgs} args - Arguments to create many ArchiveUploads.
+   * @example
+   * // Create many ArchiveUploads
+   * const archiveUpload = await prisma.archiveUpload.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ArchiveUploadCreateManyArgs>(args?: Prisma.SelectSubset<T, ArchiveUploadCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ArchiveUploads and returns the data saved in the database.
+   * @param {ArchiveUploadCreateManyAndReturnArgs} args - Arguments to create many ArchiveUploads.
+   * @example
+   * // Create many ArchiveUploads
+   * const archiveUpload = await prisma.archiveUpload.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ArchiveUploads and only return the `id`
+   * const archiveUploadWithIdOnly = await prisma.archiveUpload.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ArchiveUploadCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ArchiveUploadCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ArchiveUploadPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ArchiveUpload.
+   * @param {ArchiveUploadDeleteArgs} args - Arguments to delete one ArchiveUpload.
+   * @example
+   * // Delete one ArchiveUpload
+   * const ArchiveUpload = await prisma.archiveUpload.delete({
+   *   where: {
+   *     // ... filter to delete one ArchiveUpload
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ArchiveUploadDeleteArgs>(args: Prisma.SelectSubset<T, ArchiveUploadDeleteArgs<ExtArgs>>): Prisma.Prisma__ArchiveUploadClient<runtime.Types.Result.GetResult<Prisma.$ArchiveUploadPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ArchiveUpload.
+   * @param {ArchiveUploadUpdateArgs} args - Arguments to update one ArchiveUpload.
+   * @example
+   * // Update one ArchiveUpload
+   * const archiveUpload = await prisma.archiveUpload.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ArchiveUploadUpdateArgs>(args: Prisma.SelectSubset<T, ArchiveUploadUpdateArgs<ExtArgs>>): Prisma.Prisma__ArchiveUploadClient<runtime.Types.Result.GetResult<Prisma.$ArchiveUploadPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ArchiveUploads.
+   * @param {ArchiveUploadDeleteManyArgs} args - Arguments to filter ArchiveUploads to delete.
+   * @example
+   * // Delete a few ArchiveUploads
+   * const { count } = await prisma.archiveUpload.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ArchiveUploadDeleteManyArgs>(args?: Prisma.SelectSubset<T, ArchiveUploadDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ArchiveUploads.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ArchiveUploadUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ArchiveUploads
+   * const archiveUpload = await prisma.archiveUpload.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ArchiveUploadUpdateManyArgs>(args: Prisma.SelectSubset<T, ArchiveUploadUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ArchiveUploads and returns the data updated in the database.
+   * @param {ArchiveUploadUpdateManyAndReturnArgs} args - Arguments to update many ArchiveUploads.
+   * @example
+   * // Update many ArchiveUploads
+   * const archiveUpload = await prisma.archiveUpload.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ArchiveUploads and only return the `id`
+   * const archiveUploadWithIdOnly = await prisma.archiveUpload.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ArchiveUploadUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ArchiveUploadUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ArchiveUploadPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ArchiveUpload.
+   * @param {ArchiveUploadUpsertArgs} args - Arguments to update or create a ArchiveUpload.
+   * @example
+   * // Update or create a ArchiveUpload
+   * const archiveUpload = await prisma.archiveUpload.upsert({
+   *   create: {
+   *     // ... data to create a ArchiveUpload
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ArchiveUpload we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ArchiveUploadUpsertArgs>(args: Prisma.SelectSubset<T, ArchiveUploadUpsertArgs<ExtArgs>>): Prisma.Prisma__ArchiveUploadClient<runtime.Types.Result.GetResult<Prisma.$ArchiveUploadPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ArchiveUploads.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ArchiveUploadCountArgs} args - Arguments to filter ArchiveUploads to count.
+   * @example
+   * // Count the number of ArchiveUploads
+   * const count = await prisma.archiveUpload.count({
+   *   where: {
+   *     // ... the filter for the ArchiveUploads we want to count
+   *   }
+   * })
+  **/
+  count<T extends ArchiveUploadCountArgs>(
+    args?: Prisma.Subset<T, ArchiveUploadCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ArchiveUploadCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ArchiveUpload.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ArchiveUploadAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ArchiveUploadAggregateArgs>(args: Prisma.Subset<T, ArchiveUploadAggregateArgs>): Prisma.PrismaPromise<GetArchiveUploadAggregateType<T>>
+
+  /**
+   * Group by ArchiveUpload.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ArchiveUploadGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ArchiveUploadGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ArchiveUploadGroupByArgs['orderBy'] }
+      : { orderBy?: ArchiveUploadGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ArchiveUploadGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetArchiveUploadGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ArchiveUpload model
+ */
+readonly fields: ArchiveUploadFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ArchiveUpload.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ArchiveUploadClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  workspace<T extends Prisma.WorkspaceDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WorkspaceDefaultArgs<ExtArgs>>): Prisma.Prisma__WorkspaceClient<runtime.Types.Result.GetResult<Prisma.$WorkspacePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  documents<T extends Prisma.ArchiveUpload$documentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ArchiveUpload$documentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ArchiveUpload model
+ */
+export interface ArchiveUploadFieldRefs {
+  readonly id: Prisma.FieldRef<"ArchiveUpload", 'String'>
+  readonly workspaceId: Prisma.FieldRef<"ArchiveUpload", 'String'>
+  readonly uploadedById: Prisma.FieldRef<"ArchiveUpload", 'String'>
+  readonly fileName: Prisma.FieldRef<"ArchiveUpload", 'String'>
+  readonly s3Key: Prisma.FieldRef<"ArchiveUpload", 'String'>
+  readonly size: Prisma.FieldRef<"ArchiveUpload", 'BigInt'>
+  readonly status: Prisma.FieldRef<"ArchiveUpload", 'ArchiveStatus'>
+  readonly entryCount: Prisma.FieldRef<"ArchiveUpload", 'Int'>
+  readonly documentCount: Prisma.FieldRef<"ArchiveUpload", 'Int'>
+  readonly skippedEntries: Prisma.FieldRef<"ArchiveUpload", 'Json'>
+  readonly error: Prisma.FieldRef<"ArchiveUpload", 'String'>
+  readonly startedAt: Prisma.FieldRef<"ArchiveUpload", 'DateTime'>
+  readonly completedAt: Prisma.FieldRef<"ArchiveUpload", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"ArchiveUpload", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ArchiveUpload", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ArchiveUpload findUnique
+ */
+export type ArchiveUploadFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ArchiveUpload
+   */
+  select?: Prisma.ArchiveUploadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ArchiveUpload
+   */
+  omit?: Prisma.ArchiveUploadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ArchiveUploadInclude<ExtArgs> | null
+  /**
+   * Filter, which ArchiveUpload to fetch.
+   */
+  where: Prisma.ArchiveUploadWhereUniqueInput
+}
+
+/**
+ * ArchiveUpload findUniqueOrThrow
+ */
+export type ArchiveUploadFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ArchiveUpload
+   */
+  select?: Prisma.ArchiveUploadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ArchiveUpload
+   */
+  omit?: Prisma.ArchiveUploadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ArchiveUploadInclude<ExtArgs> | null
+  /**
+   * Filter, which ArchiveUpload to fetch.
+   */
+  where: Prisma.ArchiveUploadWhereUniqueInput
+}
+
+/**
+ * ArchiveUpload findFirst
+ */
+export type ArchiveUploadFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ArchiveUpload
+   */
+  select?: Prisma.ArchiveUploadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ArchiveUpload
+   */
+  omit?: Prisma.ArchiveUploadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ArchiveUploadInclude<ExtArgs> | null
+  /**
+   * Filter, which ArchiveUpload to fetch.
+   */
+  where?: Prisma.ArchiveUploadWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ArchiveUploads to fetch.
+   */
+  orderBy?: Prisma.ArchiveUploadOrderByWithRelationInput | Prisma.ArchiveUploadOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ArchiveUploads.
+   */
+  cursor?: Prisma.ArchiveUploadWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ArchiveUploads from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ArchiveUploads.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ArchiveUploads.
+   */
+  distinct?: Prisma.ArchiveUploadScalarFieldEnum | Prisma.ArchiveUploadScalarFieldEnum[]
+}
+
+/**
+ * ArchiveUpload findFirstOrThrow
+ */
+export type ArchiveUploadFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ArchiveUpload
+   */
+  select?: Prisma.ArchiveUploadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ArchiveUpload
+   */
+  omit?: Prisma.ArchiveUploadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ArchiveUploadInclude<ExtArgs> | null
+  /**
+   * Filter, which ArchiveUpload to fetch.
+   */
+  where?: Prisma.ArchiveUploadWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ArchiveUploads to fetch.
+   */
+  orderBy?: Prisma.ArchiveUploadOrderByWithRelationInput | Prisma.ArchiveUploadOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ArchiveUploads.
+   */
+  cursor?: Prisma.ArchiveUploadWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ArchiveUploads from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ArchiveUploads.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ArchiveUploads.
+   */
+  distinct?: Prisma.ArchiveUploadScalarFieldEnum | Prisma.ArchiveUploadScalarFieldEnum[]
+}
+
+/**
+ * ArchiveUpload findMany
+ */
+export type ArchiveUploadFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ArchiveUpload
+   */
+  select?: Prisma.ArchiveUploadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ArchiveUpload
+   */
+  omit?: Prisma.ArchiveUploadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ArchiveUploadInclude<ExtArgs> | null
+  /**
+   * Filter, which ArchiveUploads to fetch.
+   */
+  where?: Prisma.ArchiveUploadWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ArchiveUploads to fetch.
+   */
+  orderBy?: Prisma.ArchiveUploadOrderByWithRelationInput | Prisma.ArchiveUploadOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ArchiveUploads.
+   */
+  cursor?: Prisma.ArchiveUploadWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ArchiveUploads from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ArchiveUploads.
+   */
+  skip?: number
+  distinct?: Prisma.ArchiveUploadScalarFieldEnum | Prisma.ArchiveUploadScalarFieldEnum[]
+}
+
+/**
+ * ArchiveUpload create
+ */
+export type ArchiveUploadCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ArchiveUpload
+   */
+  select?: Prisma.ArchiveUploadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ArchiveUpload
+   */
+  omit?: Prisma.ArchiveUploadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ArchiveUploadInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ArchiveUpload.
+   */
+  data: Prisma.XOR<Prisma.ArchiveUploadCreateInput, Prisma.ArchiveUploadUncheckedCreateInput>
+}
+
+/**
+ * ArchiveUpload createMany
+ */
+export type ArchiveUploadCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ArchiveUploads.
+   */
+  data: Prisma.ArchiveUploadCreateManyInput | Prisma.ArchiveUploadCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ArchiveUpload createManyAndReturn
+ */
+export type ArchiveUploadCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ArchiveUpload
+   */
+  select?: Prisma.ArchiveUploadSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ArchiveUpload
+   */
+  omit?: Prisma.ArchiveUploadOmit<ExtArgs> | null
+  /**
+   * The data used to create many ArchiveUploads.
+   */
+  data: Prisma.ArchiveUploadCreateManyInput | Prisma.ArchiveUploadCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ArchiveUploadIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ArchiveUpload update
+ */
+export type ArchiveUploadUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ArchiveUpload
+   */
+  select?: Prisma.ArchiveUploadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ArchiveUpload
+   */
+  omit?: Prisma.ArchiveUploadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ArchiveUploadInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ArchiveUpload.
+   */
+  data: Prisma.XOR<Prisma.ArchiveUploadUpdateInput, Prisma.ArchiveUploadUncheckedUpdateInput>
+  /**
+   * Choose, which ArchiveUpload to update.
+   */
+  where: Prisma.ArchiveUploadWhereUniqueInput
+}
+
+/**
+ * ArchiveUpload updateMany
+ */
+export type ArchiveUploadUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ArchiveUploads.
+   */
+  data: Prisma.XOR<Prisma.ArchiveUploadUpdateManyMutationInput, Prisma.ArchiveUploadUncheckedUpdateManyInput>
+  /**
+   * Filter which ArchiveUploads to update
+   */
+  where?: Prisma.ArchiveUploadWhereInput
+  /**
+   * Limit how many ArchiveUploads to update.
+   */
+  limit?: number
+}
+
+/**
+ * ArchiveUpload updateManyAndReturn
+ */
+export type ArchiveUploadUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ArchiveUpload
+   */
+  select?: Prisma.ArchiveUploadSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ArchiveUpload
+   */
+  omit?: Prisma.ArchiveUploadOmit<ExtArgs> | null
+  /**
+   * The data used to update ArchiveUploads.
+   */
+  data: Prisma.XOR<Prisma.ArchiveUploadUpdateManyMutationInput, Prisma.ArchiveUploadUncheckedUpdateManyInput>
+  /**
+   * Filter which ArchiveUploads to update
+   */
+  where?: Prisma.ArchiveUploadWhereInput
+  /**
+   * Limit how many ArchiveUploads to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ArchiveUploadIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ArchiveUpload upsert
+ */
+export type ArchiveUploadUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ArchiveUpload
+   */
+  select?: Prisma.ArchiveUploadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ArchiveUpload
+   */
+  omit?: Prisma.ArchiveUploadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ArchiveUploadInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ArchiveUpload to update in case it exists.
+   */
+  where: Prisma.ArchiveUploadWhereUniqueInput
+  /**
+   * In case the ArchiveUpload found by the `where` argument doesn't exist, create a new ArchiveUpload with this data.
+   */
+  create: Prisma.XOR<Prisma.ArchiveUploadCreateInput, Prisma.ArchiveUploadUncheckedCreateInput>
+  /**
+   * In case the ArchiveUpload was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ArchiveUploadUpdateInput, Prisma.ArchiveUploadUncheckedUpdateInput>
+}
+
+/**
+ * ArchiveUpload delete
+ */
+export type ArchiveUploadDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ArchiveUpload
+   */
+  select?: Prisma.ArchiveUploadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ArchiveUpload
+   */
+  omit?: Prisma.ArchiveUploadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ArchiveUploadInclude<ExtArgs> | null
+  /**
+   * Filter which ArchiveUpload to delete.
+   */
+  where: Prisma.ArchiveUploadWhereUniqueInput
+}
+
+/**
+ * ArchiveUpload deleteMany
+ */
+export type ArchiveUploadDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ArchiveUploads to delete
+   */
+  where?: Prisma.ArchiveUploadWhereInput
+  /**
+   * Limit how many ArchiveUploads to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ArchiveUpload.documents
+ */
+export type ArchiveUpload$documentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Document
+   */
+  select?: Prisma.DocumentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Document
+   */
+  omit?: Prisma.DocumentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentInclude<ExtArgs> | null
+  where?: Prisma.DocumentWhereInput
+  orderBy?: Prisma.DocumentOrderByWithRelationInput | Prisma.DocumentOrderByWithRelationInput[]
+  cursor?: Prisma.DocumentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.DocumentScalarFieldEnum | Prisma.DocumentScalarFieldEnum[]
+}
+
+/**
+ * ArchiveUpload without action
+ */
+export type ArchiveUploadDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ArchiveUpload
+   */
+  select?: Prisma.ArchiveUploadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ArchiveUpload
+   */
+  omit?: Prisma.ArchiveUploadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ArchiveUploadInclude<ExtArgs> | null
+}
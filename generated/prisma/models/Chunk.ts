@@ -28,17 +28,21 @@ export type AggregateChunk = {
 
 export type ChunkAvgAggregateOutputType = {
   chunkIndex: number | null
+  version: number | null
   startCharIndex: number | null
   endCharIndex: number | null
   pageNumber: number | null
+  pageEnd: number | null
   tokenCount: number | null
 }
 
 export type ChunkSumAggregateOutputType = {
   chunkIndex: number | null
+  version: number | null
   startCharIndex: number | null
   endCharIndex: number | null
   pageNumber: number | null
+  pageEnd: number | null
   tokenCount: number | null
 }
 
@@ -48,10 +52,13 @@ export type ChunkMinAggregateOutputType = {
   content: string | null
   contentHash: string | null
   chunkIndex: number | null
+  version: number | null
   startCharIndex: number | null
   endCharIndex: number | null
   pageNumber: number | null
+  pageEnd: number | null
   sectionTitle: string | null
+  language: string | null
   qdrantPointId: string | null
   embeddingModel: string | null
   hasEmbedding: boolean | null
@@ -67,10 +74,13 @@ export type ChunkMaxAggregateOutputType = {
   content: string | null
   contentHash: string | null
   chunkIndex: number | null
+  version: number | null
   startCharIndex: number | null
   endCharIndex: number | null
   pageNumber: number | null
+  pageEnd: number | null
   sectionTitle: string | null
+  language: string | null
   qdrantPointId: string | null
   embeddingModel: string | null
   hasEmbedding: boolean | null
@@ -86,10 +96,13 @@ export type ChunkCountAggregateOutputType = {
   content: number
   contentHash: number
   chunkIndex: number
+  version: number
   startCharIndex: number
   endCharIndex: number
   pageNumber: number
+  pageEnd: number
   sectionTitle: number
+  language: number
   qdrantPointId: number
   embeddingModel: number
   hasEmbedding: number
@@ -104,17 +117,21 @@ export type ChunkCountAggregateOutputType = {
 
 export type ChunkAvgAggregateInputType = {
   chunkIndex?: true
+  version?: true
   startCharIndex?: true
   endCharIndex?: true
   pageNumber?: true
+  pageEnd?: true
   tokenCount?: true
 }
 
 export type ChunkSumAggregateInputType = {
   chunkIndex?: true
+  version?: true
   startCharIndex?: true
   endCharIndex?: true
   pageNumber?: true
+  pageEnd?: true
   tokenCount?: true
 }
 
@@ -124,10 +141,13 @@ export type ChunkMinAggregateInputType = {
   content?: true
   contentHash?: true
   chunkIndex?: true
+  version?: true
   startCharIndex?: true
   endCharIndex?: true
   pageNumber?: true
+  pageEnd?: true
   sectionTitle?: true
+  language?: true
   qdrantPointId?: true
   embeddingModel?: true
   hasEmbedding?: true
@@ -143,10 +163,13 @@ export type ChunkMaxAggregateInputType = {
   content?: true
   contentHash?: true
   chunkIndex?: true
+  version?: true
   startCharIndex?: true
   endCharIndex?: true
   pageNumber?: true
+  pageEnd?: true
   sectionTitle?: true
+  language?: true
   qdrantPointId?: true
   embeddingModel?: true
   hasEmbedding?: true
@@ -162,10 +185,13 @@ export type ChunkCountAggregateInputType = {
   content?: true
   contentHash?: true
   chunkIndex?: true
+  version?: true
   startCharIndex?: true
   endCharIndex?: true
   pageNumber?: true
+  pageEnd?: true
   sectionTitle?: true
+  language?: true
   qdrantPointId?: true
   embeddingModel?: true
   hasEmbedding?: true
@@ -269,10 +295,13 @@ export type ChunkGroupByOutputType = {
   content: string
   contentHash: string
   chunkIndex: number
+  version: number
   startCharIndex: number | null
   endCharIndex: number | null
   pageNumber: number | null
+  pageEnd: number | null
   sectionTitle: string | null
+  language: string | null
   qdrantPointId: string | null
   embeddingModel: string | null
   hasEmbedding: boolean
@@ -312,10 +341,13 @@ export type ChunkWhereInput = {
   content?: Prisma.StringFilter<"Chunk"> | string
   contentHash?: Prisma.StringFilter<"Chunk"> | string
   chunkIndex?: Prisma.IntFilter<"Chunk"> | number
+  version?: Prisma.IntFilter<"Chunk"> | number
   startCharIndex?: Prisma.IntNullableFilter<"Chunk"> | number | null
   endCharIndex?: Prisma.IntNullableFilter<"Chunk"> | number | null
   pageNumber?: Prisma.IntNullableFilter<"Chunk"> | number | null
+  pageEnd?: Prisma.IntNullableFilter<"Chunk"> | number | null
   sectionTitle?: Prisma.StringNullableFilter<"Chunk"> | string | null
+  language?: Prisma.StringNullableFilter<"Chunk"> | string | null
   qdrantPointId?: Prisma.StringNullableFilter<"Chunk"> | string | null
   embeddingModel?: Prisma.StringNullableFilter<"Chunk"> | string | null
   hasEmbedding?: Prisma.BoolFilter<"Chunk"> | boolean
@@ -333,10 +365,13 @@ export type ChunkOrderByWithRelationInput = {
   content?: Prisma.SortOrder
   contentHash?: Prisma.SortOrder
   chunkIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   startCharIndex?: Prisma.SortOrderInput | Prisma.SortOrder
   endCharIndex?: Prisma.SortOrderInput | Prisma.SortOrder
   pageNumber?: Prisma.SortOrderInput | Prisma.SortOrder
+  pageEnd?: Prisma.SortOrderInput | Prisma.SortOrder
   sectionTitle?: Prisma.SortOrderInput | Prisma.SortOrder
+  language?: Prisma.SortOrderInput | Prisma.SortOrder
   qdrantPointId?: Prisma.SortOrderInput | Prisma.SortOrder
   embeddingModel?: Prisma.SortOrderInput | Prisma.SortOrder
   hasEmbedding?: Prisma.SortOrder
@@ -351,7 +386,7 @@ export type ChunkOrderByWithRelationInput = {
 export type ChunkWhereUniqueInput = Prisma.AtLeast<{
   id?: string
   qdrantPointId?: string
-  documentId_chunkIndex?: Prisma.ChunkDocumentIdChunkIndexCompoundUniqueInput
+  documentId_version_chunkIndex?: Prisma.ChunkDocumentIdVersionChunkIndexCompoundUniqueInput
   AND?: Prisma.ChunkWhereInput | Prisma.ChunkWhereInput[]
   OR?: Prisma.ChunkWhereInput[]
   NOT?: Prisma.ChunkWhereInput | Prisma.ChunkWhereInput[]
@@ -359,10 +394,13 @@ export type ChunkWhereUniqueInput = Prisma.AtLeast<{
   content?: Prisma.StringFilter<"Chunk"> | string
   contentHash?: Prisma.StringFilter<"Chunk"> | string
   chunkIndex?: Prisma.IntFilter<"Chunk"> | number
+  version?: Prisma.IntFilter<"Chunk"> | number
   startCharIndex?: Prisma.IntNullableFilter<"Chunk"> | number | null
   endCharIndex?: Prisma.IntNullableFilter<"Chunk"> | number | null
   pageNumber?: Prisma.IntNullableFilter<"Chunk"> | number | null
+  pageEnd?: Prisma.IntNullableFilter<"Chunk"> | number | null
   sectionTitle?: Prisma.StringNullableFilter<"Chunk"> | string | null
+  language?: Prisma.StringNullableFilter<"Chunk"> | string | null
   embeddingModel?: Prisma.StringNullableFilter<"Chunk"> | string | null
   hasEmbedding?: Prisma.BoolFilter<"Chunk"> | boolean
   metadata?: Prisma.JsonNullableFilter<"Chunk">
@@ -371,7 +409,7 @@ export type ChunkWhereUniqueInput = Prisma.AtLeast<{
   updatedAt?: Prisma.DateTimeFilter<"Chunk"> | Date | string
   deletedAt?: Prisma.DateTimeNullableFilter<"Chunk"> | Date | string | null
   document?: Prisma.XOR<Prisma.DocumentScalarRelationFilter, Prisma.DocumentWhereInput>
-}, "id" | "qdrantPointId" | "documentId_chunkIndex">
+}, "id" | "qdrantPointId" | "documentId_version_chunkIndex">
 
 export type ChunkOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
@@ -379,10 +417,13 @@ export type ChunkOrderByWithAggregationInput = {
   content?: Prisma.SortOrder
   contentHash?: Prisma.SortOrder
   chunkIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   startCharIndex?: Prisma.SortOrderInput | Prisma.SortOrder
   endCharIndex?: Prisma.SortOrderInput | Prisma.SortOrder
   pageNumber?: Prisma.SortOrderInput | Prisma.SortOrder
+  pageEnd?: Prisma.SortOrderInput | Prisma.SortOrder
   sectionTitle?: Prisma.SortOrderInput | Prisma.SortOrder
+  language?: Prisma.SortOrderInput | Prisma.SortOrder
   qdrantPointId?: Prisma.SortOrderInput | Prisma.SortOrder
   embeddingModel?: Prisma.SortOrderInput | Prisma.SortOrder
   hasEmbedding?: Prisma.SortOrder
@@ -407,10 +448,13 @@ export type ChunkScalarWhereWithAggregatesInput = {
   content?: Prisma.StringWithAggregatesFilter<"Chunk"> | string
   contentHash?: Prisma.StringWithAggregatesFilter<"Chunk"> | string
   chunkIndex?: Prisma.IntWithAggregatesFilter<"Chunk"> | number
+  version?: Prisma.IntWithAggregatesFilter<"Chunk"> | number
   startCharIndex?: Prisma.IntNullableWithAggregatesFilter<"Chunk"> | number | null
   endCharIndex?: Prisma.IntNullableWithAggregatesFilter<"Chunk"> | number | null
   pageNumber?: Prisma.IntNullableWithAggregatesFilter<"Chunk"> | number | null
+  pageEnd?: Prisma.IntNullableWithAggregatesFilter<"Chunk"> | number | null
   sectionTitle?: Prisma.StringNullableWithAggregatesFilter<"Chunk"> | string | null
+  language?: Prisma.StringNullableWithAggregatesFilter<"Chunk"> | string | null
   qdrantPointId?: Prisma.StringNullableWithAggregatesFilter<"Chunk"> | string | null
   embeddingModel?: Prisma.StringNullableWithAggregatesFilter<"Chunk"> | string | null
   hasEmbedding?: Prisma.BoolWithAggregatesFilter<"Chunk"> | boolean
@@ -426,10 +470,13 @@ export type ChunkCreateInput = {
   content: string
   contentHash: string
   chunkIndex: number
+  version?: number
   startCharIndex?: number | null
   endCharIndex?: number | null
   pageNumber?: number | null
+  pageEnd?: number | null
   sectionTitle?: string | null
+  language?: string | null
   qdrantPointId?: string | null
   embeddingModel?: string | null
   hasEmbedding?: boolean
@@ -447,10 +494,13 @@ export type ChunkUncheckedCreateInput = {
   content: string
   contentHash: string
   chunkIndex: number
+  version?: number
   startCharIndex?: number | null
   endCharIndex?: number | null
   pageNumber?: number | null
+  pageEnd?: number | null
   sectionTitle?: string | null
+  language?: string | null
   qdrantPointId?: string | null
   embeddingModel?: string | null
   hasEmbedding?: boolean
@@ -466,10 +516,13 @@ export type ChunkUpdateInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   contentHash?: Prisma.StringFieldUpdateOperationsInput | string
   chunkIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   startCharIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   endCharIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   pageNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pageEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   sectionTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   qdrantPointId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   hasEmbedding?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -487,10 +540,13 @@ export type ChunkUncheckedUpdateInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   contentHash?: Prisma.StringFieldUpdateOperationsInput | string
   chunkIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   startCharIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   endCharIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   pageNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pageEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   sectionTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   qdrantPointId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   hasEmbedding?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -507,10 +563,13 @@ export type ChunkCreateManyInput = {
   content: string
   contentHash: string
   chunkIndex: number
+  version?: number
   startCharIndex?: number | null
   endCharIndex?: number | null
   pageNumber?: number | null
+  pageEnd?: number | null
   sectionTitle?: string | null
+  language?: string | null
   qdrantPointId?: string | null
   embeddingModel?: string | null
   hasEmbedding?: boolean
@@ -526,10 +585,13 @@ export type ChunkUpdateManyMutationInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   contentHash?: Prisma.StringFieldUpdateOperationsInput | string
   chunkIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   startCharIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   endCharIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   pageNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pageEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   sectionTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   qdrantPointId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   hasEmbedding?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -546,10 +608,13 @@ export type ChunkUncheckedUpdateManyInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   contentHash?: Prisma.StringFieldUpdateOperationsInput | string
   chunkIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   startCharIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   endCharIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   pageNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pageEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   sectionTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   qdrantPointId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   hasEmbedding?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -570,8 +635,9 @@ export type ChunkOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder
 }
 
-export type ChunkDocumentIdChunkIndexCompoundUniqueInput = {
+export type ChunkDocumentIdVersionChunkIndexCompoundUniqueInput = {
   documentId: string
+  version: number
   chunkIndex: number
 }
 
@@ -581,10 +647,13 @@ export type ChunkCountOrderByAggregateInput = {
   content?: Prisma.SortOrder
   contentHash?: Prisma.SortOrder
   chunkIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   startCharIndex?: Prisma.SortOrder
   endCharIndex?: Prisma.SortOrder
   pageNumber?: Prisma.SortOrder
+  pageEnd?: Prisma.SortOrder
   sectionTitle?: Prisma.SortOrder
+  language?: Prisma.SortOrder
   qdrantPointId?: Prisma.SortOrder
   embeddingModel?: Prisma.SortOrder
   hasEmbedding?: Prisma.SortOrder
@@ -597,9 +666,11 @@ export type ChunkCountOrderByAggregateInput = {
 
 export type ChunkAvgOrderByAggregateInput = {
   chunkIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   startCharIndex?: Prisma.SortOrder
   endCharIndex?: Prisma.SortOrder
   pageNumber?: Prisma.SortOrder
+  pageEnd?: Prisma.SortOrder
   tokenCount?: Prisma.SortOrder
 }
 
@@ -609,10 +680,13 @@ export type ChunkMaxOrderByAggregateInput = {
   content?: Prisma.SortOrder
   contentHash?: Prisma.SortOrder
   chunkIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   startCharIndex?: Prisma.SortOrder
   endCharIndex?: Prisma.SortOrder
   pageNumber?: Prisma.SortOrder
+  pageEnd?: Prisma.SortOrder
   sectionTitle?: Prisma.SortOrder
+  language?: Prisma.SortOrder
   qdrantPointId?: Prisma.SortOrder
   embeddingModel?: Prisma.SortOrder
   hasEmbedding?: Prisma.SortOrder
@@ -628,10 +702,13 @@ export type ChunkMinOrderByAggregateInput = {
   content?: Prisma.SortOrder
   contentHash?: Prisma.SortOrder
   chunkIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   startCharIndex?: Prisma.SortOrder
   endCharIndex?: Prisma.SortOrder
   pageNumber?: Prisma.SortOrder
+  pageEnd?: Prisma.SortOrder
   sectionTitle?: Prisma.SortOrder
+  language?: Prisma.SortOrder
   qdrantPointId?: Prisma.SortOrder
   embeddingModel?: Prisma.SortOrder
   hasEmbedding?: Prisma.SortOrder
@@ -643,9 +720,11 @@ export type ChunkMinOrderByAggregateInput = {
 
 export type ChunkSumOrderByAggregateInput = {
   chunkIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   startCharIndex?: Prisma.SortOrder
   endCharIndex?: Prisma.SortOrder
   pageNumber?: Prisma.SortOrder
+  pageEnd?: Prisma.SortOrder
   tokenCount?: Prisma.SortOrder
 }
 
@@ -696,10 +775,13 @@ export type ChunkCreateWithoutDocumentInput = {
   content: string
   contentHash: string
   chunkIndex: number
+  version?: number
   startCharIndex?: number | null
   endCharIndex?: number | null
   pageNumber?: number | null
+  pageEnd?: number | null
   sectionTitle?: string | null
+  language?: string | null
   qdrantPointId?: string | null
   embeddingModel?: string | null
   hasEmbedding?: boolean
@@ -715,10 +797,13 @@ export type ChunkUncheckedCreateWithoutDocumentInput = {
   content: string
   contentHash: string
   chunkIndex: number
+  version?: number
   startCharIndex?: number | null
   endCharIndex?: number | null
   pageNumber?: number | null
+  pageEnd?: number | null
   sectionTitle?: string | null
+  language?: string | null
   qdrantPointId?: string | null
   embeddingModel?: string | null
   hasEmbedding?: boolean
@@ -764,10 +849,13 @@ export type ChunkScalarWhereInput = {
   content?: Prisma.StringFilter<"Chunk"> | string
   contentHash?: Prisma.StringFilter<"Chunk"> | string
   chunkIndex?: Prisma.IntFilter<"Chunk"> | number
+  version?: Prisma.IntFilter<"Chunk"> | number
   startCharIndex?: Prisma.IntNullableFilter<"Chunk"> | number | null
   endCharIndex?: Prisma.IntNullableFilter<"Chunk"> | number | null
   pageNumber?: Prisma.IntNullableFilter<"Chunk"> | number | null
+  pageEnd?: Prisma.IntNullableFilter<"Chunk"> | number | null
   sectionTitle?: Prisma.StringNullableFilter<"Chunk"> | string | null
+  language?: Prisma.StringNullableFilter<"Chunk"> | string | null
   qdrantPointId?: Prisma.StringNullableFilter<"Chunk"> | string | null
   embeddingModel?: Prisma.StringNullableFilter<"Chunk"> | string | null
   hasEmbedding?: Prisma.BoolFilter<"Chunk"> | boolean
@@ -783,10 +871,13 @@ export type ChunkCreateManyDocumentInput = {
   content: string
   contentHash: string
   chunkIndex: number
+  version?: number
   startCharIndex?: number | null
   endCharIndex?: number | null
   pageNumber?: number | null
+  pageEnd?: number | null
   sectionTitle?: string | null
+  language?: string | null
   qdrantPointId?: string | null
   embeddingModel?: string | null
   hasEmbedding?: boolean
@@ -802,10 +893,13 @@ export type ChunkUpdateWithoutDocumentInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   contentHash?: Prisma.StringFieldUpdateOperationsInput | string
   chunkIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   startCharIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   endCharIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   pageNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pageEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   sectionTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   qdrantPointId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   hasEmbedding?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -821,10 +915,13 @@ export type ChunkUncheckedUpdateWithoutDocumentInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   contentHash?: Prisma.StringFieldUpdateOperationsInput | string
   chunkIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   startCharIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   endCharIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   pageNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pageEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   sectionTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   qdrantPointId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   hasEmbedding?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -840,10 +937,13 @@ export type ChunkUncheckedUpdateManyWithoutDocumentInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   contentHash?: Prisma.StringFieldUpdateOperationsInput | string
   chunkIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   startCharIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   endCharIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   pageNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  pageEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   sectionTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   qdrantPointId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   hasEmbedding?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -862,10 +962,13 @@ export type ChunkSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   content?: boolean
   contentHash?: boolean
   chunkIndex?: boolean
+  version?: boolean
   startCharIndex?: boolean
   endCharIndex?: boolean
   pageNumber?: boolean
+  pageEnd?: boolean
   sectionTitle?: boolean
+  language?: boolean
   qdrantPointId?: boolean
   embeddingModel?: boolean
   hasEmbedding?: boolean
@@ -883,10 +986,13 @@ export type ChunkSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensi
   content?: boolean
   contentHash?: boolean
   chunkIndex?: boolean
+  version?: boolean
   startCharIndex?: boolean
   endCharIndex?: boolean
   pageNumber?: boolean
+  pageEnd?: boolean
   sectionTitle?: boolean
+  language?: boolean
   qdrantPointId?: boolean
   embeddingModel?: boolean
   hasEmbedding?: boolean
@@ -904,10 +1010,13 @@ export type ChunkSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensi
   content?: boolean
   contentHash?: boolean
   chunkIndex?: boolean
+  version?: boolean
   startCharIndex?: boolean
   endCharIndex?: boolean
   pageNumber?: boolean
+  pageEnd?: boolean
   sectionTitle?: boolean
+  language?: boolean
   qdrantPointId?: boolean
   embeddingModel?: boolean
   hasEmbedding?: boolean
@@ -925,10 +1034,13 @@ export type ChunkSelectScalar = {
   content?: boolean
   contentHash?: boolean
   chunkIndex?: boolean
+  version?: boolean
   startCharIndex?: boolean
   endCharIndex?: boolean
   pageNumber?: boolean
+  pageEnd?: boolean
   sectionTitle?: boolean
+  language?: boolean
   qdrantPointId?: boolean
   embeddingModel?: boolean
   hasEmbedding?: boolean
@@ -939,7 +1051,7 @@ export type ChunkSelectScalar = {
   deletedAt?: boolean
 }
 
-export type ChunkOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "documentId" | "content" | "contentHash" | "chunkIndex" | "startCharIndex" | "endCharIndex" | "pageNumber" | "sectionTitle" | "qdrantPointId" | "embeddingModel" | "hasEmbedding" | "metadata" | "tokenCount" | "createdAt" | "updatedAt" | "deletedAt", ExtArgs["result"]["chunk"]>
+export type ChunkOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "documentId" | "content" | "contentHash" | "chunkIndex" | "version" | "startCharIndex" | "endCharIndex" | "pageNumber" | "pageEnd" | "sectionTitle" | "language" | "qdrantPointId" | "embeddingModel" | "hasEmbedding" | "metadata" | "tokenCount" | "createdAt" | "updatedAt" | "deletedAt", ExtArgs["result"]["chunk"]>
 export type ChunkInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
 }
@@ -961,10 +1073,13 @@ export type $ChunkPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs
     content: string
     contentHash: string
     chunkIndex: number
+    version: number
     startCharIndex: number | null
     endCharIndex: number | null
     pageNumber: number | null
+    pageEnd: number | null
     sectionTitle: string | null
+    language: string | null
     qdrantPointId: string | null
     embeddingModel: string | null
     hasEmbedding: boolean
@@ -1402,10 +1517,13 @@ export interface ChunkFieldRefs {
   readonly content: Prisma.FieldRef<"Chunk", 'String'>
   readonly contentHash: Prisma.FieldRef<"Chunk", 'String'>
   readonly chunkIndex: Prisma.FieldRef<"Chunk", 'Int'>
+  readonly version: Prisma.FieldRef<"Chunk", 'Int'>
   readonly startCharIndex: Prisma.FieldRef<"Chunk", 'Int'>
   readonly endCharIndex: Prisma.FieldRef<"Chunk", 'Int'>
   readonly pageNumber: Prisma.FieldRef<"Chunk", 'Int'>
+  readonly pageEnd: Prisma.FieldRef<"Chunk", 'Int'>
   readonly sectionTitle: Prisma.FieldRef<"Chunk", 'String'>
+  readonly language: Prisma.FieldRef<"Chunk", 'String'>
   readonly qdrantPointId: Prisma.FieldRef<"Chunk", 'String'>
   readonly embeddingModel: Prisma.FieldRef<"Chunk", 'String'>
   readonly hasEmbedding: Prisma.FieldRef<"Chunk", 'Boolean'>
@@ -28,18 +28,24 @@ export type AggregateDocument = {
 
 export type DocumentAvgAggregateOutputType = {
   size: number | null
+  duplicateSimilarity: number | null
+  minhash: number | null
   pageCount: number | null
   wordCount: number | null
   chunkCount: number | null
   embeddingCount: number | null
+  indexVersion: number | null
 }
 
 export type DocumentSumAggregateOutputType = {
   size: bigint | null
+  duplicateSimilarity: number | null
+  minhash: number[]
   pageCount: number | null
   wordCount: number | null
   chunkCount: number | null
   embeddingCount: number | null
+  indexVersion: number | null
 }
 
 export type DocumentMinAggregateOutputType = {
@@ -56,16 +62,28 @@ export type DocumentMinAggregateOutputType = {
   s3Region: string | null
   s3Url: string | null
   thumbnailUrl: string | null
+  parentDocumentId: string | null
+  archiveUploadId: string | null
+  folder: string | null
+  uploadedById: string | null
+  checksum: string | null
+  duplicateOfId: string | null
+  duplicateSimilarity: number | null
   pageCount: number | null
   wordCount: number | null
   language: string | null
+  summary: string | null
+  summaryModel: string | null
+  summaryGeneratedAt: Date | null
   ingestionStatus: $Enums.IngestionStatus | null
   ingestionStartedAt: Date | null
   ingestionCompletedAt: Date | null
   ingestionError: string | null
+  ingestionJobId: string | null
   chunkCount: number | null
   embeddingCount: number | null
   qdrantCollectionId: string | null
+  indexVersion: number | null
   uploadedAt: Date | null
   processedAt: Date | null
   createdAt: Date | null
@@ -87,16 +105,28 @@ export type DocumentMaxAggregateOutputType = {
   s3Region: string | null
   s3Url: string | null
   thumbnailUrl: string | null
+  parentDocumentId: string | null
+  archiveUploadId: string | null
+  folder: string | null
+  uploadedById: string | null
+  checksum: string | null
+  duplicateOfId: string | null
+  duplicateSimilarity: number | null
   pageCount: number | null
   wordCount: number | null
   language: string | null
+  summary: string | null
+  summaryModel: string | null
+  summaryGeneratedAt: Date | null
   ingestionStatus: $Enums.IngestionStatus | null
   ingestionStartedAt: Date | null
   ingestionCompletedAt: Date | null
   ingestionError: string | null
+  ingestionJobId: string | null
   chunkCount: number | null
   embeddingCount: number | null
   qdrantCollectionId: string | null
+  indexVersion: number | null
   uploadedAt: Date | null
   processedAt: Date | null
   createdAt: Date | null
@@ -118,17 +148,32 @@ export type DocumentCountAggregateOutputType = {
   s3Region: number
   s3Url: number
   thumbnailUrl: number
+  parentDocumentId: number
+  archiveUploadId: number
+  folder: number
+  uploadedById: number
+  checksum: number
+  duplicateOfId: number
+  duplicateSimilarity: number
+  minhash: number
   pageCount: number
   wordCount: number
   language: number
   metadata: number
+  summary: number
+  topics: number
+  tags: number
+  summaryModel: number
+  summaryGeneratedAt: number
   ingestionStatus: number
   ingestionStartedAt: number
   ingestionCompletedAt: number
   ingestionError: number
+  ingestionJobId: number
   chunkCount: number
   embeddingCount: number
   qdrantCollectionId: number
+  indexVersion: number
   uploadedAt: number
   processedAt: number
   createdAt: number
@@ -140,18 +185,24 @@ export type DocumentCountAggregateOutputType = {
 
 export type DocumentAvgAggregateInputType = {
   size?: true
+  duplicateSimilarity?: true
+  minhash?: true
   pageCount?: true
   wordCount?: true
   chunkCount?: true
   embeddingCount?: true
+  indexVersion?: true
 }
 
 export type DocumentSumAggregateInputType = {
   size?: true
+  duplicateSimilarity?: true
+  minhash?: true
   pageCount?: true
   wordCount?: true
   chunkCount?: true
   embeddingCount?: true
+  indexVersion?: true
 }
 
 export type DocumentMinAggregateInputType = {
@@ -168,16 +219,28 @@ export type DocumentMinAggregateInputType = {
   s3Region?: true
   s3Url?: true
   thumbnailUrl?: true
+  parentDocumentId?: true
+  archiveUploadId?: true
+  folder?: true
+  uploadedById?: true
+  checksum?: true
+  duplicateOfId?: true
+  duplicateSimilarity?: true
   pageCount?: true
   wordCount?: true
   language?: true
+  summary?: true
+  summaryModel?: true
+  summaryGeneratedAt?: true
   ingestionStatus?: true
   ingestionStartedAt?: true
   ingestionCompletedAt?: true
   ingestionError?: true
+  ingestionJobId?: true
   chunkCount?: true
   embeddingCount?: true
   qdrantCollectionId?: true
+  indexVersion?: true
   uploadedAt?: true
   processedAt?: true
   createdAt?: true
@@ -199,16 +262,28 @@ export type DocumentMaxAggregateInputType = {
   s3Region?: true
   s3Url?: true
   thumbnailUrl?: true
+  parentDocumentId?: true
+  archiveUploadId?: true
+  folder?: true
+  uploadedById?: true
+  checksum?: true
+  duplicateOfId?: true
+  duplicateSimilarity?: true
   pageCount?: true
   wordCount?: true
   language?: true
+  summary?: true
+  summaryModel?: true
+  summaryGeneratedAt?: true
   ingestionStatus?: true
   ingestionStartedAt?: true
   ingestionCompletedAt?: true
   ingestionError?: true
+  ingestionJobId?: true
   chunkCount?: true
   embeddingCount?: true
   qdrantCollectionId?: true
+  indexVersion?: true
   uploadedAt?: true
   processedAt?: true
   createdAt?: true
@@ -230,17 +305,32 @@ export type DocumentCountAggregateInputType = {
   s3Region?: true
   s3Url?: true
   thumbnailUrl?: true
+  parentDocumentId?: true
+  archiveUploadId?: true
+  folder?: true
+  uploadedById?: true
+  checksum?: true
+  duplicateOfId?: true
+  duplicateSimilarity?: true
+  minhash?: true
   pageCount?: true
   wordCount?: true
   language?: true
   metadata?: true
+  summary?: true
+  topics?: true
+  tags?: true
+  summaryModel?: true
+  summaryGeneratedAt?: true
   ingestionStatus?: true
   ingestionStartedAt?: true
   ingestionCompletedAt?: true
   ingestionError?: true
+  ingestionJobId?: true
   chunkCount?: true
   embeddingCount?: true
   qdrantCollectionId?: true
+  indexVersion?: true
   uploadedAt?: true
   processedAt?: true
   createdAt?: true
@@ -349,17 +439,32 @@ export type DocumentGroupByOutputType = {
   s3Region: string
   s3Url: string | null
   thumbnailUrl: string | null
+  parentDocumentId: string | null
+  archiveUploadId: string | null
+  folder: string | null
+  uploadedById: string | null
+  checksum: string | null
+  duplicateOfId: string | null
+  duplicateSimilarity: number | null
+  minhash: number[]
   pageCount: number | null
   wordCount: number | null
   language: string | null
   metadata: runtime.JsonValue | null
+  summary: string | null
+  topics: string[]
+  tags: string[]
+  summaryModel: string | null
+  summaryGeneratedAt: Date | null
   ingestionStatus: $Enums.IngestionStatus
   ingestionStartedAt: Date | null
   ingestionCompletedAt: Date | null
   ingestionError: string | null
+  ingestionJobId: string | null
   chunkCount: number
   embeddingCount: number
   qdrantCollectionId: string | null
+  indexVersion: number
   uploadedAt: Date | null
   processedAt: Date | null
   createdAt: Date
@@ -404,23 +509,43 @@ export type DocumentWhereInput = {
   s3Region?: Prisma.StringFilter<"Document"> | string
   s3Url?: Prisma.StringNullableFilter<"Document"> | string | null
   thumbnailUrl?: Prisma.StringNullableFilter<"Document"> | string | null
+  parentDocumentId?: Prisma.StringNullableFilter<"Document"> | string | null
+  archiveUploadId?: Prisma.StringNullableFilter<"Document"> | string | null
+  folder?: Prisma.StringNullableFilter<"Document"> | string | null
+  uploadedById?: Prisma.StringNullableFilter<"Document"> | string | null
+  checksum?: Prisma.StringNullableFilter<"Document"> | string | null
+  duplicateOfId?: Prisma.StringNullableFilter<"Document"> | string | null
+  duplicateSimilarity?: Prisma.FloatNullableFilter<"Document"> | number | null
+  minhash?: Prisma.IntNullableListFilter<"Document">
   pageCount?: Prisma.IntNullableFilter<"Document"> | number | null
   wordCount?: Prisma.IntNullableFilter<"Document"> | number | null
   language?: Prisma.StringNullableFilter<"Document"> | string | null
   metadata?: Prisma.JsonNullableFilter<"Document">
+  summary?: Prisma.StringNullableFilter<"Document"> | string | null
+  topics?: Prisma.StringNullableListFilter<"Document">
+  tags?: Prisma.StringNullableListFilter<"Document">
+  summaryModel?: Prisma.StringNullableFilter<"Document"> | string | null
+  summaryGeneratedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   ingestionStatus?: Prisma.EnumIngestionStatusFilter<"Document"> | $Enums.IngestionStatus
   ingestionStartedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   ingestionCompletedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   ingestionError?: Prisma.StringNullableFilter<"Document"> | string | null
+  ingestionJobId?: Prisma.StringNullableFilter<"Document"> | string | null
   chunkCount?: Prisma.IntFilter<"Document"> | number
   embeddingCount?: Prisma.IntFilter<"Document"> | number
   qdrantCollectionId?: Prisma.StringNullableFilter<"Document"> | string | null
+  indexVersion?: Prisma.IntFilter<"Document"> | number
   uploadedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   processedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"Document"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Document"> | Date | string
   deletedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   workspace?: Prisma.XOR<Prisma.WorkspaceScalarRelationFilter, Prisma.WorkspaceWhereInput>
+  parentDocument?: Prisma.XOR<Prisma.DocumentNullableScalarRelationFilter, Prisma.DocumentWhereInput> | null
+  attachments?: Prisma.DocumentListRelationFilter
+  archiveUpload?: Prisma.XOR<Prisma.ArchiveUploadNullableScalarRelationFilter, Prisma.ArchiveUploadWhereInput> | null
+  duplicateOf?: Prisma.XOR<Prisma.DocumentNullableScalarRelationFilter, Prisma.DocumentWhereInput> | null
+  duplicates?: Prisma.DocumentListRelationFilter
   chunks?: Prisma.ChunkListRelationFilter
 }
 
@@ -438,23 +563,43 @@ export type DocumentOrderByWithRelationInput = {
   s3Region?: Prisma.SortOrder
   s3Url?: Prisma.SortOrderInput | Prisma.SortOrder
   thumbnailUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  parentDocumentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  archiveUploadId?: Prisma.SortOrderInput | Prisma.SortOrder
+  folder?: Prisma.SortOrderInput | Prisma.SortOrder
+  uploadedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  checksum?: Prisma.SortOrderInput | Prisma.SortOrder
+  duplicateOfId?: Prisma.SortOrderInput | Prisma.SortOrder
+  duplicateSimilarity?: Prisma.SortOrderInput | Prisma.SortOrder
+  minhash?: Prisma.SortOrder
   pageCount?: Prisma.SortOrderInput | Prisma.SortOrder
   wordCount?: Prisma.SortOrderInput | Prisma.SortOrder
   language?: Prisma.SortOrderInput | Prisma.SortOrder
   metadata?: Prisma.SortOrderInput | Prisma.SortOrder
+  summary?: Prisma.SortOrderInput | Prisma.SortOrder
+  topics?: Prisma.SortOrder
+  tags?: Prisma.SortOrder
+  summaryModel?: Prisma.SortOrderInput | Prisma.SortOrder
+  summaryGeneratedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   ingestionStatus?: Prisma.SortOrder
   ingestionStartedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   ingestionCompletedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   ingestionError?: Prisma.SortOrderInput | Prisma.SortOrder
+  ingestionJobId?: Prisma.SortOrderInput | Prisma.SortOrder
   chunkCount?: Prisma.SortOrder
   embeddingCount?: Prisma.SortOrder
   qdrantCollectionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  indexVersion?: Prisma.SortOrder
   uploadedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   processedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   deletedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   workspace?: Prisma.WorkspaceOrderByWithRelationInput
+  parentDocument?: Prisma.DocumentOrderByWithRelationInput
+  attachments?: Prisma.DocumentOrderByRelationAggregateInput
+  archiveUpload?: Prisma.ArchiveUploadOrderByWithRelationInput
+  duplicateOf?: Prisma.DocumentOrderByWithRelationInput
+  duplicates?: Prisma.DocumentOrderByRelationAggregateInput
   chunks?: Prisma.ChunkOrderByRelationAggregateInput
 }
 
@@ -475,23 +620,43 @@ export type DocumentWhereUniqueInput = Prisma.AtLeast<{
   s3Region?: Prisma.StringFilter<"Document"> | string
   s3Url?: Prisma.StringNullableFilter<"Document"> | string | null
   thumbnailUrl?: Prisma.StringNullableFilter<"Document"> | string | null
+  parentDocumentId?: Prisma.StringNullableFilter<"Document"> | string | null
+  archiveUploadId?: Prisma.StringNullableFilter<"Document"> | string | null
+  folder?: Prisma.StringNullableFilter<"Document"> | string | null
+  uploadedById?: Prisma.StringNullableFilter<"Document"> | string | null
+  checksum?: Prisma.StringNullableFilter<"Document"> | string | null
+  duplicateOfId?: Prisma.StringNullableFilter<"Document"> | string | null
+  duplicateSimilarity?: Prisma.FloatNullableFilter<"Document"> | number | null
+  minhash?: Prisma.IntNullableListFilter<"Document">
   pageCount?: Prisma.IntNullableFilter<"Document"> | number | null
   wordCount?: Prisma.IntNullableFilter<"Document"> | number | null
   language?: Prisma.StringNullableFilter<"Document"> | string | null
   metadata?: Prisma.JsonNullableFilter<"Document">
+  summary?: Prisma.StringNullableFilter<"Document"> | string | null
+  topics?: Prisma.StringNullableListFilter<"Document">
+  tags?: Prisma.StringNullableListFilter<"Document">
+  summaryModel?: Prisma.StringNullableFilter<"Document"> | string | null
+  summaryGeneratedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   ingestionStatus?: Prisma.EnumIngestionStatusFilter<"Document"> | $Enums.IngestionStatus
   ingestionStartedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   ingestionCompletedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   ingestionError?: Prisma.StringNullableFilter<"Document"> | string | null
+  ingestionJobId?: Prisma.StringNullableFilter<"Document"> | string | null
   chunkCount?: Prisma.IntFilter<"Document"> | number
   embeddingCount?: Prisma.IntFilter<"Document"> | number
   qdrantCollectionId?: Prisma.StringNullableFilter<"Document"> | string | null
+  indexVersion?: Prisma.IntFilter<"Document"> | number
   uploadedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   processedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"Document"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Document"> | Date | string
   deletedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   workspace?: Prisma.XOR<Prisma.WorkspaceScalarRelationFilter, Prisma.WorkspaceWhereInput>
+  parentDocument?: Prisma.XOR<Prisma.DocumentNullableScalarRelationFilter, Prisma.DocumentWhereInput> | null
+  attachments?: Prisma.DocumentListRelationFilter
+  archiveUpload?: Prisma.XOR<Prisma.ArchiveUploadNullableScalarRelationFilter, Prisma.ArchiveUploadWhereInput> | null
+  duplicateOf?: Prisma.XOR<Prisma.DocumentNullableScalarRelationFilter, Prisma.DocumentWhereInput> | null
+  duplicates?: Prisma.DocumentListRelationFilter
   chunks?: Prisma.ChunkListRelationFilter
 }, "id" | "s3Key">
 
@@ -509,17 +674,32 @@ export type DocumentOrderByWithAggregationInput = {
   s3Region?: Prisma.SortOrder
   s3Url?: Prisma.SortOrderInput | Prisma.SortOrder
   thumbnailUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  parentDocumentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  archiveUploadId?: Prisma.SortOrderInput | Prisma.SortOrder
+  folder?: Prisma.SortOrderInput | Prisma.SortOrder
+  uploadedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  checksum?: Prisma.SortOrderInput | Prisma.SortOrder
+  duplicateOfId?: Prisma.SortOrderInput | Prisma.SortOrder
+  duplicateSimilarity?: Prisma.SortOrderInput | Prisma.SortOrder
+  minhash?: Prisma.SortOrder
   pageCount?: Prisma.SortOrderInput | Prisma.SortOrder
   wordCount?: Prisma.SortOrderInput | Prisma.SortOrder
   language?: Prisma.SortOrderInput | Prisma.SortOrder
   metadata?: Prisma.SortOrderInput | Prisma.SortOrder
+  summary?: Prisma.SortOrderInput | Prisma.SortOrder
+  topics?: Prisma.SortOrder
+  tags?: Prisma.SortOrder
+  summaryModel?: Prisma.SortOrderInput | Prisma.SortOrder
+  summaryGeneratedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   ingestionStatus?: Prisma.SortOrder
   ingestionStartedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   ingestionCompletedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   ingestionError?: Prisma.SortOrderInput | Prisma.SortOrder
+  ingestionJobId?: Prisma.SortOrderInput | Prisma.SortOrder
   chunkCount?: Prisma.SortOrder
   embeddingCount?: Prisma.SortOrder
   qdrantCollectionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  indexVersion?: Prisma.SortOrder
   uploadedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   processedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
@@ -549,17 +729,32 @@ export type DocumentScalarWhereWithAggregatesInput = {
   s3Region?: Prisma.StringWithAggregatesFilter<"Document"> | string
   s3Url?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
   thumbnailUrl?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
+  parentDocumentId?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
+  archiveUploadId?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
+  folder?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
+  uploadedById?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
+  checksum?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
+  duplicateOfId?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
+  duplicateSimilarity?: Prisma.FloatNullableWithAggregatesFilter<"Document"> | number | null
+  minhash?: Prisma.IntNullableListFilter<"Document">
   pageCount?: Prisma.IntNullableWithAggregatesFilter<"Document"> | number | null
   wordCount?: Prisma.IntNullableWithAggregatesFilter<"Document"> | number | null
   language?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
   metadata?: Prisma.JsonNullableWithAggregatesFilter<"Document">
+  summary?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
+  topics?: Prisma.StringNullableListFilter<"Document">
+  tags?: Prisma.StringNullableListFilter<"Document">
+  summaryModel?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
+  summaryGeneratedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Document"> | Date | string | null
   ingestionStatus?: Prisma.EnumIngestionStatusWithAggregatesFilter<"Document"> | $Enums.IngestionStatus
   ingestionStartedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Document"> | Date | string | null
   ingestionCompletedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Document"> | Date | string | null
   ingestionError?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
+  ingestionJobId?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
   chunkCount?: Prisma.IntWithAggregatesFilter<"Document"> | number
   embeddingCount?: Prisma.IntWithAggregatesFilter<"Document"> | number
   qdrantCollectionId?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
+  indexVersion?: Prisma.IntWithAggregatesFilter<"Document"> | number
   uploadedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Document"> | Date | string | null
   processedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Document"> | Date | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Document"> | Date | string
@@ -580,23 +775,40 @@ export type DocumentCreateInput = {
   s3Region: string
   s3Url?: string | null
   thumbnailUrl?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
   pageCount?: number | null
   wordCount?: number | null
   language?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
   ingestionStatus?: $Enums.IngestionStatus
   ingestionStartedAt?: Date | string | null
   ingestionCompletedAt?: Date | string | null
   ingestionError?: string | null
+  ingestionJobId?: string | null
   chunkCount?: number
   embeddingCount?: number
   qdrantCollectionId?: string | null
+  indexVersion?: number
   uploadedAt?: Date | string | null
   processedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   deletedAt?: Date | string | null
   workspace: Prisma.WorkspaceCreateNestedOneWithoutDocumentsInput
+  parentDocument?: Prisma.DocumentCreateNestedOneWithoutAttachmentsInput
+  attachments?: Prisma.DocumentCreateNestedManyWithoutParentDocumentInput
+  archiveUpload?: Prisma.ArchiveUploadCreateNestedOneWithoutDocumentsInput
+  duplicateOf?: Prisma.DocumentCreateNestedOneWithoutDuplicatesInput
+  duplicates?: Prisma.DocumentCreateNestedManyWithoutDuplicateOfInput
   chunks?: Prisma.ChunkCreateNestedManyWithoutDocumentInput
 }
 
@@ -614,22 +826,39 @@ export type DocumentUncheckedCreateInput = {
   s3Region: string
   s3Url?: string | null
   thumbnailUrl?: string | null
+  parentDocumentId?: string | null
+  archiveUploadId?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateOfId?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
   pageCount?: number | null
   wordCount?: number | null
   language?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
   ingestionStatus?: $Enums.IngestionStatus
   ingestionStartedAt?: Date | string | null
   ingestionCompletedAt?: Date | string | null
   ingestionError?: string | null
+  ingestionJobId?: string | null
   chunkCount?: number
   embeddingCount?: number
   qdrantCollectionId?: string | null
+  indexVersion?: number
   uploadedAt?: Date | string | null
   processedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   deletedAt?: Date | string | null
+  attachments?: Prisma.DocumentUncheckedCreateNestedManyWithoutParentDocumentInput
+  duplicates?: Prisma.DocumentUncheckedCreateNestedManyWithoutDuplicateOfInput
   chunks?: Prisma.ChunkUncheckedCreateNestedManyWithoutDocumentInput
 }
 
@@ -646,23 +875,40 @@ export type DocumentUpdateInput = {
   s3Region?: Prisma.StringFieldUpdateOperationsInput | string
   s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
   pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
   ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
   embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
   qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
   uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   workspace?: Prisma.WorkspaceUpdateOneRequiredWithoutDocumentsNestedInput
+  parentDocument?: Prisma.DocumentUpdateOneWithoutAttachmentsNestedInput
+  attachments?: Prisma.DocumentUpdateManyWithoutParentDocumentNestedInput
+  archiveUpload?: Prisma.ArchiveUploadUpdateOneWithoutDocumentsNestedInput
+  duplicateOf?: Prisma.DocumentUpdateOneWithoutDuplicatesNestedInput
+  duplicates?: Prisma.DocumentUpdateManyWithoutDuplicateOfNestedInput
   chunks?: Prisma.ChunkUpdateManyWithoutDocumentNestedInput
 }
 
@@ -680,22 +926,39 @@ export type DocumentUncheckedUpdateInput = {
   s3Region?: Prisma.StringFieldUpdateOperationsInput | string
   s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  parentDocumentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  archiveUploadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
   pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
   ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
   embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
   qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
   uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  attachments?: Prisma.DocumentUncheckedUpdateManyWithoutParentDocumentNestedInput
+  duplicates?: Prisma.DocumentUncheckedUpdateManyWithoutDuplicateOfNestedInput
   chunks?: Prisma.ChunkUncheckedUpdateManyWithoutDocumentNestedInput
 }
 
@@ -713,17 +976,32 @@ export type DocumentCreateManyInput = {
   s3Region: string
   s3Url?: string | null
   thumbnailUrl?: string | null
+  parentDocumentId?: string | null
+  archiveUploadId?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateOfId?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
   pageCount?: number | null
   wordCount?: number | null
   language?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
   ingestionStatus?: $Enums.IngestionStatus
   ingestionStartedAt?: Date | string | null
   ingestionCompletedAt?: Date | string | null
   ingestionError?: string | null
+  ingestionJobId?: string | null
   chunkCount?: number
   embeddingCount?: number
   qdrantCollectionId?: string | null
+  indexVersion?: number
   uploadedAt?: Date | string | null
   processedAt?: Date | string | null
   createdAt?: Date | string
@@ -744,17 +1022,29 @@ export type DocumentUpdateManyMutationInput = {
   s3Region?: Prisma.StringFieldUpdateOperationsInput | string
   s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
   pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
   ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
   embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
   qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
   uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -776,17 +1066,32 @@ export type DocumentUncheckedUpdateManyInput = {
   s3Region?: Prisma.StringFieldUpdateOperationsInput | string
   s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  parentDocumentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  archiveUploadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
   pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
   ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
   embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
   qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
   uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -804,6 +1109,27 @@ export type DocumentOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder
 }
 
+export type IntNullableListFilter<$PrismaModel = never> = {
+  equals?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  has?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  hasEvery?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  hasSome?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  isEmpty?: boolean
+}
+
+export type StringNullableListFilter<$PrismaModel = never> = {
+  equals?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel> | null
+  has?: string | Prisma.StringFieldRefInput<$PrismaModel> | null
+  hasEvery?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  hasSome?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  isEmpty?: boolean
+}
+
+export type DocumentNullableScalarRelationFilter = {
+  is?: Prisma.DocumentWhereInput | null
+  isNot?: Prisma.DocumentWhereInput | null
+}
+
 export type DocumentCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   workspaceId?: Prisma.SortOrder
@@ -818,17 +1144,32 @@ export type DocumentCountOrderByAggregateInput = {
   s3Region?: Prisma.SortOrder
   s3Url?: Prisma.SortOrder
   thumbnailUrl?: Prisma.SortOrder
+  parentDocumentId?: Prisma.SortOrder
+  archiveUploadId?: Prisma.SortOrder
+  folder?: Prisma.SortOrder
+  uploadedById?: Prisma.SortOrder
+  checksum?: Prisma.SortOrder
+  duplicateOfId?: Prisma.SortOrder
+  duplicateSimilarity?: Prisma.SortOrder
+  minhash?: Prisma.SortOrder
   pageCount?: Prisma.SortOrder
   wordCount?: Prisma.SortOrder
   language?: Prisma.SortOrder
   metadata?: Prisma.SortOrder
+  summary?: Prisma.SortOrder
+  topics?: Prisma.SortOrder
+  tags?: Prisma.SortOrder
+  summaryModel?: Prisma.SortOrder
+  summaryGeneratedAt?: Prisma.SortOrder
   ingestionStatus?: Prisma.SortOrder
   ingestionStartedAt?: Prisma.SortOrder
   ingestionCompletedAt?: Prisma.SortOrder
   ingestionError?: Prisma.SortOrder
+  ingestionJobId?: Prisma.SortOrder
   chunkCount?: Prisma.SortOrder
   embeddingCount?: Prisma.SortOrder
   qdrantCollectionId?: Prisma.SortOrder
+  indexVersion?: Prisma.SortOrder
   uploadedAt?: Prisma.SortOrder
   processedAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
@@ -838,10 +1179,13 @@ export type DocumentCountOrderByAggregateInput = {
 
 export type DocumentAvgOrderByAggregateInput = {
   size?: Prisma.SortOrder
+  duplicateSimilarity?: Prisma.SortOrder
+  minhash?: Prisma.SortOrder
   pageCount?: Prisma.SortOrder
   wordCount?: Prisma.SortOrder
   chunkCount?: Prisma.SortOrder
   embeddingCount?: Prisma.SortOrder
+  indexVersion?: Prisma.SortOrder
 }
 
 export type DocumentMaxOrderByAggregateInput = {
@@ -858,16 +1202,28 @@ export type DocumentMaxOrderByAggregateInput = {
   s3Region?: Prisma.SortOrder
   s3Url?: Prisma.SortOrder
   thumbnailUrl?: Prisma.SortOrder
+  parentDocumentId?: Prisma.SortOrder
+  archiveUploadId?: Prisma.SortOrder
+  folder?: Prisma.SortOrder
+  uploadedById?: Prisma.SortOrder
+  checksum?: Prisma.SortOrder
+  duplicateOfId?: Prisma.SortOrder
+  duplicateSimilarity?: Prisma.SortOrder
   pageCount?: Prisma.SortOrder
   wordCount?: Prisma.SortOrder
   language?: Prisma.SortOrder
+  summary?: Prisma.SortOrder
+  summaryModel?: Prisma.SortOrder
+  summaryGeneratedAt?: Prisma.SortOrder
   ingestionStatus?: Prisma.SortOrder
   ingestionStartedAt?: Prisma.SortOrder
   ingestionCompletedAt?: Prisma.SortOrder
   ingestionError?: Prisma.SortOrder
+  ingestionJobId?: Prisma.SortOrder
   chunkCount?: Prisma.SortOrder
   embeddingCount?: Prisma.SortOrder
   qdrantCollectionId?: Prisma.SortOrder
+  indexVersion?: Prisma.SortOrder
   uploadedAt?: Prisma.SortOrder
   processedAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
@@ -889,16 +1245,28 @@ export type DocumentMinOrderByAggregateInput = {
   s3Region?: Prisma.SortOrder
   s3Url?: Prisma.SortOrder
   thumbnailUrl?: Prisma.SortOrder
+  parentDocumentId?: Prisma.SortOrder
+  archiveUploadId?: Prisma.SortOrder
+  folder?: Prisma.SortOrder
+  uploadedById?: Prisma.SortOrder
+  checksum?: Prisma.SortOrder
+  duplicateOfId?: Prisma.SortOrder
+  duplicateSimilarity?: Prisma.SortOrder
   pageCount?: Prisma.SortOrder
   wordCount?: Prisma.SortOrder
   language?: Prisma.SortOrder
+  summary?: Prisma.SortOrder
+  summaryModel?: Prisma.SortOrder
+  summaryGeneratedAt?: Prisma.SortOrder
   ingestionStatus?: Prisma.SortOrder
   ingestionStartedAt?: Prisma.SortOrder
   ingestionCompletedAt?: Prisma.SortOrder
   ingestionError?: Prisma.SortOrder
+  ingestionJobId?: Prisma.SortOrder
   chunkCount?: Prisma.SortOrder
   embeddingCount?: Prisma.SortOrder
   qdrantCollectionId?: Prisma.SortOrder
+  indexVersion?: Prisma.SortOrder
   uploadedAt?: Prisma.SortOrder
   processedAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
@@ -908,10 +1276,13 @@ export type DocumentMinOrderByAggregateInput = {
 
 export type DocumentSumOrderByAggregateInput = {
   size?: Prisma.SortOrder
+  duplicateSimilarity?: Prisma.SortOrder
+  minhash?: Prisma.SortOrder
   pageCount?: Prisma.SortOrder
   wordCount?: Prisma.SortOrder
   chunkCount?: Prisma.SortOrder
   embeddingCount?: Prisma.SortOrder
+  indexVersion?: Prisma.SortOrder
 }
 
 export type DocumentScalarRelationFilter = {
@@ -961,6 +1332,58 @@ export type DocumentUncheckedUpdateManyWithoutWorkspaceNestedInput = {
   deleteMany?: Prisma.DocumentScalarWhereInput | Prisma.DocumentScalarWhereInput[]
 }
 
+export type DocumentCreateminhashInput = {
+  set: number[]
+}
+
+export type DocumentCreatetopicsInput = {
+  set: string[]
+}
+
+export type DocumentCreatetagsInput = {
+  set: string[]
+}
+
+export type DocumentCreateNestedOneWithoutAttachmentsInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutAttachmentsInput, Prisma.DocumentUncheckedCreateWithoutAttachmentsInput>
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutAttachmentsInput
+  connect?: Prisma.DocumentWhereUniqueInput
+}
+
+export type DocumentCreateNestedManyWithoutParentDocumentInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutParentDocumentInput, Prisma.DocumentUncheckedCreateWithoutParentDocumentInput> | Prisma.DocumentCreateWithoutParentDocumentInput[] | Prisma.DocumentUncheckedCreateWithoutParentDocumentInput[]
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutParentDocumentInput | Prisma.DocumentCreateOrConnectWithoutParentDocumentInput[]
+  createMany?: Prisma.DocumentCreateManyParentDocumentInputEnvelope
+  connect?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+}
+
+export type DocumentCreateNestedOneWithoutDuplicatesInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutDuplicatesInput, Prisma.DocumentUncheckedCreateWithoutDuplicatesInput>
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutDuplicatesInput
+  connect?: Prisma.DocumentWhereUniqueInput
+}
+
+export type DocumentCreateNestedManyWithoutDuplicateOfInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutDuplicateOfInput, Prisma.DocumentUncheckedCreateWithoutDuplicateOfInput> | Prisma.DocumentCreateWithoutDuplicateOfInput[] | Prisma.DocumentUncheckedCreateWithoutDuplicateOfInput[]
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutDuplicateOfInput | Prisma.DocumentCreateOrConnectWithoutDuplicateOfInput[]
+  createMany?: Prisma.DocumentCreateManyDuplicateOfInputEnvelope
+  connect?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+}
+
+export type DocumentUncheckedCreateNestedManyWithoutParentDocumentInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutParentDocumentInput, Prisma.DocumentUncheckedCreateWithoutParentDocumentInput> | Prisma.DocumentCreateWithoutParentDocumentInput[] | Prisma.DocumentUncheckedCreateWithoutParentDocumentInput[]
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutParentDocumentInput | Prisma.DocumentCreateOrConnectWithoutParentDocumentInput[]
+  createMany?: Prisma.DocumentCreateManyParentDocumentInputEnvelope
+  connect?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+}
+
+export type DocumentUncheckedCreateNestedManyWithoutDuplicateOfInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutDuplicateOfInput, Prisma.DocumentUncheckedCreateWithoutDuplicateOfInput> | Prisma.DocumentCreateWithoutDuplicateOfInput[] | Prisma.DocumentUncheckedCreateWithoutDuplicateOfInput[]
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutDuplicateOfInput | Prisma.DocumentCreateOrConnectWithoutDuplicateOfInput[]
+  createMany?: Prisma.DocumentCreateManyDuplicateOfInputEnvelope
+  connect?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+}
+
 export type EnumDocumentTypeFieldUpdateOperationsInput = {
   set?: $Enums.DocumentType
 }
@@ -977,6 +1400,19 @@ export type EnumDocumentStatusFieldUpdateOperationsInput = {
   set?: $Enums.DocumentStatus
 }
 
+export type NullableFloatFieldUpdateOperationsInput = {
+  set?: number | null
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type DocumentUpdateminhashInput = {
+  set?: number[]
+  push?: number | number[]
+}
+
 export type NullableIntFieldUpdateOperationsInput = {
   set?: number | null
   increment?: number
@@ -985,6 +1421,16 @@ export type NullableIntFieldUpdateOperationsInput = {
   divide?: number
 }
 
+export type DocumentUpdatetopicsInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type DocumentUpdatetagsInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
 export type EnumIngestionStatusFieldUpdateOperationsInput = {
   set?: $Enums.IngestionStatus
 }
@@ -997,6 +1443,124 @@ export type IntFieldUpdateOperationsInput = {
   divide?: number
 }
 
+export type DocumentUpdateOneWithoutAttachmentsNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutAttachmentsInput, Prisma.DocumentUncheckedCreateWithoutAttachmentsInput>
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutAttachmentsInput
+  upsert?: Prisma.DocumentUpsertWithoutAttachmentsInput
+  disconnect?: Prisma.DocumentWhereInput | boolean
+  delete?: Prisma.DocumentWhereInput | boolean
+  connect?: Prisma.DocumentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.DocumentUpdateToOneWithWhereWithoutAttachmentsInput, Prisma.DocumentUpdateWithoutAttachmentsInput>, Prisma.DocumentUncheckedUpdateWithoutAttachmentsInput>
+}
+
+export type DocumentUpdateManyWithoutParentDocumentNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutParentDocumentInput, Prisma.DocumentUncheckedCreateWithoutParentDocumentInput> | Prisma.DocumentCreateWithoutParentDocumentInput[] | Prisma.DocumentUncheckedCreateWithoutParentDocumentInput[]
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutParentDocumentInput | Prisma.DocumentCreateOrConnectWithoutParentDocumentInput[]
+  upsert?: Prisma.DocumentUpsertWithWhereUniqueWithoutParentDocumentInput | Prisma.DocumentUpsertWithWhereUniqueWithoutParentDocumentInput[]
+  createMany?: Prisma.DocumentCreateManyParentDocumentInputEnvelope
+  set?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  disconnect?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  delete?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  connect?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  update?: Prisma.DocumentUpdateWithWhereUniqueWithoutParentDocumentInput | Prisma.DocumentUpdateWithWhereUniqueWithoutParentDocumentInput[]
+  updateMany?: Prisma.DocumentUpdateManyWithWhereWithoutParentDocumentInput | Prisma.DocumentUpdateManyWithWhereWithoutParentDocumentInput[]
+  deleteMany?: Prisma.DocumentScalarWhereInput | Prisma.DocumentScalarWhereInput[]
+}
+
+export type DocumentUpdateOneWithoutDuplicatesNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutDuplicatesInput, Prisma.DocumentUncheckedCreateWithoutDuplicatesInput>
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutDuplicatesInput
+  upsert?: Prisma.DocumentUpsertWithoutDuplicatesInput
+  disconnect?: Prisma.DocumentWhereInput | boolean
+  delete?: Prisma.DocumentWhereInput | boolean
+  connect?: Prisma.DocumentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.DocumentUpdateToOneWithWhereWithoutDuplicatesInput, Prisma.DocumentUpdateWithoutDuplicatesInput>, Prisma.DocumentUncheckedUpdateWithoutDuplicatesInput>
+}
+
+export type DocumentUpdateManyWithoutDuplicateOfNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutDuplicateOfInput, Prisma.DocumentUncheckedCreateWithoutDuplicateOfInput> | Prisma.DocumentCreateWithoutDuplicateOfInput[] | Prisma.DocumentUncheckedCreateWithoutDuplicateOfInput[]
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutDuplicateOfInput | Prisma.DocumentCreateOrConnectWithoutDuplicateOfInput[]
+  upsert?: Prisma.DocumentUpsertWithWhereUniqueWithoutDuplicateOfInput | Prisma.DocumentUpsertWithWhereUniqueWithoutDuplicateOfInput[]
+  createMany?: Prisma.DocumentCreateManyDuplicateOfInputEnvelope
+  set?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  disconnect?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  delete?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  connect?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  update?: Prisma.DocumentUpdateWithWhereUniqueWithoutDuplicateOfInput | Prisma.DocumentUpdateWithWhereUniqueWithoutDuplicateOfInput[]
+  updateMany?: Prisma.DocumentUpdateManyWithWhereWithoutDuplicateOfInput | Prisma.DocumentUpdateManyWithWhereWithoutDuplicateOfInput[]
+  deleteMany?: Prisma.DocumentScalarWhereInput | Prisma.DocumentScalarWhereInput[]
+}
+
+export type DocumentUncheckedUpdateManyWithoutParentDocumentNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutParentDocumentInput, Prisma.DocumentUncheckedCreateWithoutParentDocumentInput> | Prisma.DocumentCreateWithoutParentDocumentInput[] | Prisma.DocumentUncheckedCreateWithoutParentDocumentInput[]
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutParentDocumentInput | Prisma.DocumentCreateOrConnectWithoutParentDocumentInput[]
+  upsert?: Prisma.DocumentUpsertWithWhereUniqueWithoutParentDocumentInput | Prisma.DocumentUpsertWithWhereUniqueWithoutParentDocumentInput[]
+  createMany?: Prisma.DocumentCreateManyParentDocumentInputEnvelope
+  set?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  disconnect?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  delete?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  connect?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  update?: Prisma.DocumentUpdateWithWhereUniqueWithoutParentDocumentInput | Prisma.DocumentUpdateWithWhereUniqueWithoutParentDocumentInput[]
+  updateMany?: Prisma.DocumentUpdateManyWithWhereWithoutParentDocumentInput | Prisma.DocumentUpdateManyWithWhereWithoutParentDocumentInput[]
+  deleteMany?: Prisma.DocumentScalarWhereInput | Prisma.DocumentScalarWhereInput[]
+}
+
+export type DocumentUncheckedUpdateManyWithoutDuplicateOfNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutDuplicateOfInput, Prisma.DocumentUncheckedCreateWithoutDuplicateOfInput> | Prisma.DocumentCreateWithoutDuplicateOfInput[] | Prisma.DocumentUncheckedCreateWithoutDuplicateOfInput[]
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutDuplicateOfInput | Prisma.DocumentCreateOrConnectWithoutDuplicateOfInput[]
+  upsert?: Prisma.DocumentUpsertWithWhereUniqueWithoutDuplicateOfInput | Prisma.DocumentUpsertWithWhereUniqueWithoutDuplicateOfInput[]
+  createMany?: Prisma.DocumentCreateManyDuplicateOfInputEnvelope
+  set?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  disconnect?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  delete?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  connect?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  update?: Prisma.DocumentUpdateWithWhereUniqueWithoutDuplicateOfInput | Prisma.DocumentUpdateWithWhereUniqueWithoutDuplicateOfInput[]
+  updateMany?: Prisma.DocumentUpdateManyWithWhereWithoutDuplicateOfInput | Prisma.DocumentUpdateManyWithWhereWithoutDuplicateOfInput[]
+  deleteMany?: Prisma.DocumentScalarWhereInput | Prisma.DocumentScalarWhereInput[]
+}
+
+export type DocumentCreateNestedManyWithoutArchiveUploadInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutArchiveUploadInput, Prisma.DocumentUncheckedCreateWithoutArchiveUploadInput> | Prisma.DocumentCreateWithoutArchiveUploadInput[] | Prisma.DocumentUncheckedCreateWithoutArchiveUploadInput[]
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutArchiveUploadInput | Prisma.DocumentCreateOrConnectWithoutArchiveUploadInput[]
+  createMany?: Prisma.DocumentCreateManyArchiveUploadInputEnvelope
+  connect?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+}
+
+export type DocumentUncheckedCreateNestedManyWithoutArchiveUploadInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutArchiveUploadInput, Prisma.DocumentUncheckedCreateWithoutArchiveUploadInput> | Prisma.DocumentCreateWithoutArchiveUploadInput[] | Prisma.DocumentUncheckedCreateWithoutArchiveUploadInput[]
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutArchiveUploadInput | Prisma.DocumentCreateOrConnectWithoutArchiveUploadInput[]
+  createMany?: Prisma.DocumentCreateManyArchiveUploadInputEnvelope
+  connect?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+}
+
+export type DocumentUpdateManyWithoutArchiveUploadNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutArchiveUploadInput, Prisma.DocumentUncheckedCreateWithoutArchiveUploadInput> | Prisma.DocumentCreateWithoutArchiveUploadInput[] | Prisma.DocumentUncheckedCreateWithoutArchiveUploadInput[]
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutArchiveUploadInput | Prisma.DocumentCreateOrConnectWithoutArchiveUploadInput[]
+  upsert?: Prisma.DocumentUpsertWithWhereUniqueWithoutArchiveUploadInput | Prisma.DocumentUpsertWithWhereUniqueWithoutArchiveUploadInput[]
+  createMany?: Prisma.DocumentCreateManyArchiveUploadInputEnvelope
+  set?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  disconnect?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  delete?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  connect?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  update?: Prisma.DocumentUpdateWithWhereUniqueWithoutArchiveUploadInput | Prisma.DocumentUpdateWithWhereUniqueWithoutArchiveUploadInput[]
+  updateMany?: Prisma.DocumentUpdateManyWithWhereWithoutArchiveUploadInput | Prisma.DocumentUpdateManyWithWhereWithoutArchiveUploadInput[]
+  deleteMany?: Prisma.DocumentScalarWhereInput | Prisma.DocumentScalarWhereInput[]
+}
+
+export type DocumentUncheckedUpdateManyWithoutArchiveUploadNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutArchiveUploadInput, Prisma.DocumentUncheckedCreateWithoutArchiveUploadInput> | Prisma.DocumentCreateWithoutArchiveUploadInput[] | Prisma.DocumentUncheckedCreateWithoutArchiveUploadInput[]
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutArchiveUploadInput | Prisma.DocumentCreateOrConnectWithoutArchiveUploadInput[]
+  upsert?: Prisma.DocumentUpsertWithWhereUniqueWithoutArchiveUploadInput | Prisma.DocumentUpsertWithWhereUniqueWithoutArchiveUploadInput[]
+  createMany?: Prisma.DocumentCreateManyArchiveUploadInputEnvelope
+  set?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  disconnect?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  delete?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  connect?: Prisma.DocumentWhereUniqueInput | Prisma.DocumentWhereUniqueInput[]
+  update?: Prisma.DocumentUpdateWithWhereUniqueWithoutArchiveUploadInput | Prisma.DocumentUpdateWithWhereUniqueWithoutArchiveUploadInput[]
+  updateMany?: Prisma.DocumentUpdateManyWithWhereWithoutArchiveUploadInput | Prisma.DocumentUpdateManyWithWhereWithoutArchiveUploadInput[]
+  deleteMany?: Prisma.DocumentScalarWhereInput | Prisma.DocumentScalarWhereInput[]
+}
+
 export type DocumentCreateNestedOneWithoutChunksInput = {
   create?: Prisma.XOR<Prisma.DocumentCreateWithoutChunksInput, Prisma.DocumentUncheckedCreateWithoutChunksInput>
   connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutChunksInput
@@ -1024,22 +1588,39 @@ export type DocumentCreateWithoutWorkspaceInput = {
   s3Region: string
   s3Url?: string | null
   thumbnailUrl?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
   pageCount?: number | null
   wordCount?: number | null
   language?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
   ingestionStatus?: $Enums.IngestionStatus
   ingestionStartedAt?: Date | string | null
   ingestionCompletedAt?: Date | string | null
   ingestionError?: string | null
+  ingestionJobId?: string | null
   chunkCount?: number
   embeddingCount?: number
   qdrantCollectionId?: string | null
+  indexVersion?: number
   uploadedAt?: Date | string | null
   processedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   deletedAt?: Date | string | null
+  parentDocument?: Prisma.DocumentCreateNestedOneWithoutAttachmentsInput
+  attachments?: Prisma.DocumentCreateNestedManyWithoutParentDocumentInput
+  archiveUpload?: Prisma.ArchiveUploadCreateNestedOneWithoutDocumentsInput
+  duplicateOf?: Prisma.DocumentCreateNestedOneWithoutDuplicatesInput
+  duplicates?: Prisma.DocumentCreateNestedManyWithoutDuplicateOfInput
   chunks?: Prisma.ChunkCreateNestedManyWithoutDocumentInput
 }
 
@@ -1056,22 +1637,39 @@ export type DocumentUncheckedCreateWithoutWorkspaceInput = {
   s3Region: string
   s3Url?: string | null
   thumbnailUrl?: string | null
+  parentDocumentId?: string | null
+  archiveUploadId?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateOfId?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
   pageCount?: number | null
   wordCount?: number | null
   language?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
   ingestionStatus?: $Enums.IngestionStatus
   ingestionStartedAt?: Date | string | null
   ingestionCompletedAt?: Date | string | null
   ingestionError?: string | null
+  ingestionJobId?: string | null
   chunkCount?: number
   embeddingCount?: number
   qdrantCollectionId?: string | null
+  indexVersion?: number
   uploadedAt?: Date | string | null
   processedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   deletedAt?: Date | string | null
+  attachments?: Prisma.DocumentUncheckedCreateNestedManyWithoutParentDocumentInput
+  duplicates?: Prisma.DocumentUncheckedCreateNestedManyWithoutDuplicateOfInput
   chunks?: Prisma.ChunkUncheckedCreateNestedManyWithoutDocumentInput
 }
 
@@ -1118,17 +1716,32 @@ export type DocumentScalarWhereInput = {
   s3Region?: Prisma.StringFilter<"Document"> | string
   s3Url?: Prisma.StringNullableFilter<"Document"> | string | null
   thumbnailUrl?: Prisma.StringNullableFilter<"Document"> | string | null
+  parentDocumentId?: Prisma.StringNullableFilter<"Document"> | string | null
+  archiveUploadId?: Prisma.StringNullableFilter<"Document"> | string | null
+  folder?: Prisma.StringNullableFilter<"Document"> | string | null
+  uploadedById?: Prisma.StringNullableFilter<"Document"> | string | null
+  checksum?: Prisma.StringNullableFilter<"Document"> | string | null
+  duplicateOfId?: Prisma.StringNullableFilter<"Document"> | string | null
+  duplicateSimilarity?: Prisma.FloatNullableFilter<"Document"> | number | null
+  minhash?: Prisma.IntNullableListFilter<"Document">
   pageCount?: Prisma.IntNullableFilter<"Document"> | number | null
   wordCount?: Prisma.IntNullableFilter<"Document"> | number | null
   language?: Prisma.StringNullableFilter<"Document"> | string | null
   metadata?: Prisma.JsonNullableFilter<"Document">
+  summary?: Prisma.StringNullableFilter<"Document"> | string | null
+  topics?: Prisma.StringNullableListFilter<"Document">
+  tags?: Prisma.StringNullableListFilter<"Document">
+  summaryModel?: Prisma.StringNullableFilter<"Document"> | string | null
+  summaryGeneratedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   ingestionStatus?: Prisma.EnumIngestionStatusFilter<"Document"> | $Enums.IngestionStatus
   ingestionStartedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   ingestionCompletedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   ingestionError?: Prisma.StringNullableFilter<"Document"> | string | null
+  ingestionJobId?: Prisma.StringNullableFilter<"Document"> | string | null
   chunkCount?: Prisma.IntFilter<"Document"> | number
   embeddingCount?: Prisma.IntFilter<"Document"> | number
   qdrantCollectionId?: Prisma.StringNullableFilter<"Document"> | string | null
+  indexVersion?: Prisma.IntFilter<"Document"> | number
   uploadedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   processedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"Document"> | Date | string
@@ -1136,8 +1749,1207 @@ export type DocumentScalarWhereInput = {
   deletedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
 }
 
-export type DocumentCreateWithoutChunksInput = {
+export type DocumentCreateWithoutAttachmentsInput = {
+  id?: string
+  name: string
+  originalName: string
+  type: $Enums.DocumentType
+  mimeType: string
+  size: bigint | number
+  status?: $Enums.DocumentStatus
+  s3Key: string
+  s3Bucket: string
+  s3Region: string
+  s3Url?: string | null
+  thumbnailUrl?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
+  pageCount?: number | null
+  wordCount?: number | null
+  language?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
+  ingestionStatus?: $Enums.IngestionStatus
+  ingestionStartedAt?: Date | string | null
+  ingestionCompletedAt?: Date | string | null
+  ingestionError?: string | null
+  ingestionJobId?: string | null
+  chunkCount?: number
+  embeddingCount?: number
+  qdrantCollectionId?: string | null
+  indexVersion?: number
+  uploadedAt?: Date | string | null
+  processedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  workspace: Prisma.WorkspaceCreateNestedOneWithoutDocumentsInput
+  parentDocument?: Prisma.DocumentCreateNestedOneWithoutAttachmentsInput
+  archiveUpload?: Prisma.ArchiveUploadCreateNestedOneWithoutDocumentsInput
+  duplicateOf?: Prisma.DocumentCreateNestedOneWithoutDuplicatesInput
+  duplicates?: Prisma.DocumentCreateNestedManyWithoutDuplicateOfInput
+  chunks?: Prisma.ChunkCreateNestedManyWithoutDocumentInput
+}
+
+export type DocumentUncheckedCreateWithoutAttachmentsInput = {
+  id?: string
+  workspaceId: string
+  name: string
+  originalName: string
+  type: $Enums.DocumentType
+  mimeType: string
+  size: bigint | number
+  status?: $Enums.DocumentStatus
+  s3Key: string
+  s3Bucket: string
+  s3Region: string
+  s3Url?: string | null
+  thumbnailUrl?: string | null
+  parentDocumentId?: string | null
+  archiveUploadId?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateOfId?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
+  pageCount?: number | null
+  wordCount?: number | null
+  language?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
+  ingestionStatus?: $Enums.IngestionStatus
+  ingestionStartedAt?: Date | string | null
+  ingestionCompletedAt?: Date | string | null
+  ingestionError?: string | null
+  ingestionJobId?: string | null
+  chunkCount?: number
+  embeddingCount?: number
+  qdrantCollectionId?: string | null
+  indexVersion?: number
+  uploadedAt?: Date | string | null
+  processedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  duplicates?: Prisma.DocumentUncheckedCreateNestedManyWithoutDuplicateOfInput
+  chunks?: Prisma.ChunkUncheckedCreateNestedManyWithoutDocumentInput
+}
+
+export type DocumentCreateOrConnectWithoutAttachmentsInput = {
+  where: Prisma.DocumentWhereUniqueInput
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutAttachmentsInput, Prisma.DocumentUncheckedCreateWithoutAttachmentsInput>
+}
+
+export type DocumentCreateWithoutParentDocumentInput = {
+  id?: string
+  name: string
+  originalName: string
+  type: $Enums.DocumentType
+  mimeType: string
+  size: bigint | number
+  status?: $Enums.DocumentStatus
+  s3Key: string
+  s3Bucket: string
+  s3Region: string
+  s3Url?: string | null
+  thumbnailUrl?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
+  pageCount?: number | null
+  wordCount?: number | null
+  language?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
+  ingestionStatus?: $Enums.IngestionStatus
+  ingestionStartedAt?: Date | string | null
+  ingestionCompletedAt?: Date | string | null
+  ingestionError?: string | null
+  ingestionJobId?: string | null
+  chunkCount?: number
+  embeddingCount?: number
+  qdrantCollectionId?: string | null
+  indexVersion?: number
+  uploadedAt?: Date | string | null
+  processedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  workspace: Prisma.WorkspaceCreateNestedOneWithoutDocumentsInput
+  attachments?: Prisma.DocumentCreateNestedManyWithoutParentDocumentInput
+  archiveUpload?: Prisma.ArchiveUploadCreateNestedOneWithoutDocumentsInput
+  duplicateOf?: Prisma.DocumentCreateNestedOneWithoutDuplicatesInput
+  duplicates?: Prisma.DocumentCreateNestedManyWithoutDuplicateOfInput
+  chunks?: Prisma.ChunkCreateNestedManyWithoutDocumentInput
+}
+
+export type DocumentUncheckedCreateWithoutParentDocumentInput = {
+  id?: string
+  workspaceId: string
+  name: string
+  originalName: string
+  type: $Enums.DocumentType
+  mimeType: string
+  size: bigint | number
+  status?: $Enums.DocumentStatus
+  s3Key: string
+  s3Bucket: string
+  s3Region: string
+  s3Url?: string | null
+  thumbnailUrl?: string | null
+  archiveUploadId?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateOfId?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
+  pageCount?: number | null
+  wordCount?: number | null
+  language?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
+  ingestionStatus?: $Enums.IngestionStatus
+  ingestionStartedAt?: Date | string | null
+  ingestionCompletedAt?: Date | string | null
+  ingestionError?: string | null
+  ingestionJobId?: string | null
+  chunkCount?: number
+  embeddingCount?: number
+  qdrantCollectionId?: string | null
+  indexVersion?: number
+  uploadedAt?: Date | string | null
+  processedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  attachments?: Prisma.DocumentUncheckedCreateNestedManyWithoutParentDocumentInput
+  duplicates?: Prisma.DocumentUncheckedCreateNestedManyWithoutDuplicateOfInput
+  chunks?: Prisma.ChunkUncheckedCreateNestedManyWithoutDocumentInput
+}
+
+export type DocumentCreateOrConnectWithoutParentDocumentInput = {
+  where: Prisma.DocumentWhereUniqueInput
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutParentDocumentInput, Prisma.DocumentUncheckedCreateWithoutParentDocumentInput>
+}
+
+export type DocumentCreateManyParentDocumentInputEnvelope = {
+  data: Prisma.DocumentCreateManyParentDocumentInput | Prisma.DocumentCreateManyParentDocumentInput[]
+  skipDuplicates?: boolean
+}
+
+export type DocumentCreateWithoutDuplicatesInput = {
+  id?: string
+  name: string
+  originalName: string
+  type: $Enums.DocumentType
+  mimeType: string
+  size: bigint | number
+  status?: $Enums.DocumentStatus
+  s3Key: string
+  s3Bucket: string
+  s3Region: string
+  s3Url?: string | null
+  thumbnailUrl?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
+  pageCount?: number | null
+  wordCount?: number | null
+  language?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
+  ingestionStatus?: $Enums.IngestionStatus
+  ingestionStartedAt?: Date | string | null
+  ingestionCompletedAt?: Date | string | null
+  ingestionError?: string | null
+  ingestionJobId?: string | null
+  chunkCount?: number
+  embeddingCount?: number
+  qdrantCollectionId?: string | null
+  indexVersion?: number
+  uploadedAt?: Date | string | null
+  processedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  workspace: Prisma.WorkspaceCreateNestedOneWithoutDocumentsInput
+  parentDocument?: Prisma.DocumentCreateNestedOneWithoutAttachmentsInput
+  attachments?: Prisma.DocumentCreateNestedManyWithoutParentDocumentInput
+  archiveUpload?: Prisma.ArchiveUploadCreateNestedOneWithoutDocumentsInput
+  duplicateOf?: Prisma.DocumentCreateNestedOneWithoutDuplicatesInput
+  chunks?: Prisma.ChunkCreateNestedManyWithoutDocumentInput
+}
+
+export type DocumentUncheckedCreateWithoutDuplicatesInput = {
+  id?: string
+  workspaceId: string
+  name: string
+  originalName: string
+  type: $Enums.DocumentType
+  mimeType: string
+  size: bigint | number
+  status?: $Enums.DocumentStatus
+  s3Key: string
+  s3Bucket: string
+  s3Region: string
+  s3Url?: string | null
+  thumbnailUrl?: string | null
+  parentDocumentId?: string | null
+  archiveUploadId?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateOfId?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
+  pageCount?: number | null
+  wordCount?: number | null
+  language?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
+  ingestionStatus?: $Enums.IngestionStatus
+  ingestionStartedAt?: Date | string | null
+  ingestionCompletedAt?: Date | string | null
+  ingestionError?: string | null
+  ingestionJobId?: string | null
+  chunkCount?: number
+  embeddingCount?: number
+  qdrantCollectionId?: string | null
+  indexVersion?: number
+  uploadedAt?: Date | string | null
+  processedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  attachments?: Prisma.DocumentUncheckedCreateNestedManyWithoutParentDocumentInput
+  chunks?: Prisma.ChunkUncheckedCreateNestedManyWithoutDocumentInput
+}
+
+export type DocumentCreateOrConnectWithoutDuplicatesInput = {
+  where: Prisma.DocumentWhereUniqueInput
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutDuplicatesInput, Prisma.DocumentUncheckedCreateWithoutDuplicatesInput>
+}
+
+export type DocumentCreateWithoutDuplicateOfInput = {
+  id?: string
+  name: string
+  originalName: string
+  type: $Enums.DocumentType
+  mimeType: string
+  size: bigint | number
+  status?: $Enums.DocumentStatus
+  s3Key: string
+  s3Bucket: string
+  s3Region: string
+  s3Url?: string | null
+  thumbnailUrl?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
+  pageCount?: number | null
+  wordCount?: number | null
+  language?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
+  ingestionStatus?: $Enums.IngestionStatus
+  ingestionStartedAt?: Date | string | null
+  ingestionCompletedAt?: Date | string | null
+  ingestionError?: string | null
+  ingestionJobId?: string | null
+  chunkCount?: number
+  embeddingCount?: number
+  qdrantCollectionId?: string | null
+  indexVersion?: number
+  uploadedAt?: Date | string | null
+  processedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  workspace: Prisma.WorkspaceCreateNestedOneWithoutDocumentsInput
+  parentDocument?: Prisma.DocumentCreateNestedOneWithoutAttachmentsInput
+  attachments?: Prisma.DocumentCreateNestedManyWithoutParentDocumentInput
+  archiveUpload?: Prisma.ArchiveUploadCreateNestedOneWithoutDocumentsInput
+  duplicates?: Prisma.DocumentCreateNestedManyWithoutDuplicateOfInput
+  chunks?: Prisma.ChunkCreateNestedManyWithoutDocumentInput
+}
+
+export type DocumentUncheckedCreateWithoutDuplicateOfInput = {
+  id?: string
+  workspaceId: string
+  name: string
+  originalName: string
+  type: $Enums.DocumentType
+  mimeType: string
+  size: bigint | number
+  status?: $Enums.DocumentStatus
+  s3Key: string
+  s3Bucket: string
+  s3Region: string
+  s3Url?: string | null
+  thumbnailUrl?: string | null
+  parentDocumentId?: string | null
+  archiveUploadId?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
+  pageCount?: number | null
+  wordCount?: number | null
+  language?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
+  ingestionStatus?: $Enums.IngestionStatus
+  ingestionStartedAt?: Date | string | null
+  ingestionCompletedAt?: Date | string | null
+  ingestionError?: string | null
+  ingestionJobId?: string | null
+  chunkCount?: number
+  embeddingCount?: number
+  qdrantCollectionId?: string | null
+  indexVersion?: number
+  uploadedAt?: Date | string | null
+  processedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  attachments?: Prisma.DocumentUncheckedCreateNestedManyWithoutParentDocumentInput
+  duplicates?: Prisma.DocumentUncheckedCreateNestedManyWithoutDuplicateOfInput
+  chunks?: Prisma.ChunkUncheckedCreateNestedManyWithoutDocumentInput
+}
+
+export type DocumentCreateOrConnectWithoutDuplicateOfInput = {
+  where: Prisma.DocumentWhereUniqueInput
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutDuplicateOfInput, Prisma.DocumentUncheckedCreateWithoutDuplicateOfInput>
+}
+
+export type DocumentCreateManyDuplicateOfInputEnvelope = {
+  data: Prisma.DocumentCreateManyDuplicateOfInput | Prisma.DocumentCreateManyDuplicateOfInput[]
+  skipDuplicates?: boolean
+}
+
+export type DocumentUpsertWithoutAttachmentsInput = {
+  update: Prisma.XOR<Prisma.DocumentUpdateWithoutAttachmentsInput, Prisma.DocumentUncheckedUpdateWithoutAttachmentsInput>
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutAttachmentsInput, Prisma.DocumentUncheckedCreateWithoutAttachmentsInput>
+  where?: Prisma.DocumentWhereInput
+}
+
+export type DocumentUpdateToOneWithWhereWithoutAttachmentsInput = {
+  where?: Prisma.DocumentWhereInput
+  data: Prisma.XOR<Prisma.DocumentUpdateWithoutAttachmentsInput, Prisma.DocumentUncheckedUpdateWithoutAttachmentsInput>
+}
+
+export type DocumentUpdateWithoutAttachmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  originalName?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumDocumentTypeFieldUpdateOperationsInput | $Enums.DocumentType
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumDocumentStatusFieldUpdateOperationsInput | $Enums.DocumentStatus
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Bucket?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Region?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
+  pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
+  ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
+  embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  workspace?: Prisma.WorkspaceUpdateOneRequiredWithoutDocumentsNestedInput
+  parentDocument?: Prisma.DocumentUpdateOneWithoutAttachmentsNestedInput
+  archiveUpload?: Prisma.ArchiveUploadUpdateOneWithoutDocumentsNestedInput
+  duplicateOf?: Prisma.DocumentUpdateOneWithoutDuplicatesNestedInput
+  duplicates?: Prisma.DocumentUpdateManyWithoutDuplicateOfNestedInput
+  chunks?: Prisma.ChunkUpdateManyWithoutDocumentNestedInput
+}
+
+export type DocumentUncheckedUpdateWithoutAttachmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workspaceId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  originalName?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumDocumentTypeFieldUpdateOperationsInput | $Enums.DocumentType
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumDocumentStatusFieldUpdateOperationsInput | $Enums.DocumentStatus
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Bucket?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Region?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  parentDocumentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  archiveUploadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
+  pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
+  ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
+  embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  duplicates?: Prisma.DocumentUncheckedUpdateManyWithoutDuplicateOfNestedInput
+  chunks?: Prisma.ChunkUncheckedUpdateManyWithoutDocumentNestedInput
+}
+
+export type DocumentUpsertWithWhereUniqueWithoutParentDocumentInput = {
+  where: Prisma.DocumentWhereUniqueInput
+  update: Prisma.XOR<Prisma.DocumentUpdateWithoutParentDocumentInput, Prisma.DocumentUncheckedUpdateWithoutParentDocumentInput>
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutParentDocumentInput, Prisma.DocumentUncheckedCreateWithoutParentDocumentInput>
+}
+
+export type DocumentUpdateWithWhereUniqueWithoutParentDocumentInput = {
+  where: Prisma.DocumentWhereUniqueInput
+  data: Prisma.XOR<Prisma.DocumentUpdateWithoutParentDocumentInput, Prisma.DocumentUncheckedUpdateWithoutParentDocumentInput>
+}
+
+export type DocumentUpdateManyWithWhereWithoutParentDocumentInput = {
+  where: Prisma.DocumentScalarWhereInput
+  data: Prisma.XOR<Prisma.DocumentUpdateManyMutationInput, Prisma.DocumentUncheckedUpdateManyWithoutParentDocumentInput>
+}
+
+export type DocumentUpsertWithoutDuplicatesInput = {
+  update: Prisma.XOR<Prisma.DocumentUpdateWithoutDuplicatesInput, Prisma.DocumentUncheckedUpdateWithoutDuplicatesInput>
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutDuplicatesInput, Prisma.DocumentUncheckedCreateWithoutDuplicatesInput>
+  where?: Prisma.DocumentWhereInput
+}
+
+export type DocumentUpdateToOneWithWhereWithoutDuplicatesInput = {
+  where?: Prisma.DocumentWhereInput
+  data: Prisma.XOR<Prisma.DocumentUpdateWithoutDuplicatesInput, Prisma.DocumentUncheckedUpdateWithoutDuplicatesInput>
+}
+
+export type DocumentUpdateWithoutDuplicatesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  originalName?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumDocumentTypeFieldUpdateOperationsInput | $Enums.DocumentType
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumDocumentStatusFieldUpdateOperationsInput | $Enums.DocumentStatus
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Bucket?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Region?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
+  pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
+  ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
+  embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  workspace?: Prisma.WorkspaceUpdateOneRequiredWithoutDocumentsNestedInput
+  parentDocument?: Prisma.DocumentUpdateOneWithoutAttachmentsNestedInput
+  attachments?: Prisma.DocumentUpdateManyWithoutParentDocumentNestedInput
+  archiveUpload?: Prisma.ArchiveUploadUpdateOneWithoutDocumentsNestedInput
+  duplicateOf?: Prisma.DocumentUpdateOneWithoutDuplicatesNestedInput
+  chunks?: Prisma.ChunkUpdateManyWithoutDocumentNestedInput
+}
+
+export type DocumentUncheckedUpdateWithoutDuplicatesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workspaceId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  originalName?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumDocumentTypeFieldUpdateOperationsInput | $Enums.DocumentType
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumDocumentStatusFieldUpdateOperationsInput | $Enums.DocumentStatus
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Bucket?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Region?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  parentDocumentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  archiveUploadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
+  pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
+  ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
+  embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  attachments?: Prisma.DocumentUncheckedUpdateManyWithoutParentDocumentNestedInput
+  chunks?: Prisma.ChunkUncheckedUpdateManyWithoutDocumentNestedInput
+}
+
+export type DocumentUpsertWithWhereUniqueWithoutDuplicateOfInput = {
+  where: Prisma.DocumentWhereUniqueInput
+  update: Prisma.XOR<Prisma.DocumentUpdateWithoutDuplicateOfInput, Prisma.DocumentUncheckedUpdateWithoutDuplicateOfInput>
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutDuplicateOfInput, Prisma.DocumentUncheckedCreateWithoutDuplicateOfInput>
+}
+
+export type DocumentUpdateWithWhereUniqueWithoutDuplicateOfInput = {
+  where: Prisma.DocumentWhereUniqueInput
+  data: Prisma.XOR<Prisma.DocumentUpdateWithoutDuplicateOfInput, Prisma.DocumentUncheckedUpdateWithoutDuplicateOfInput>
+}
+
+export type DocumentUpdateManyWithWhereWithoutDuplicateOfInput = {
+  where: Prisma.DocumentScalarWhereInput
+  data: Prisma.XOR<Prisma.DocumentUpdateManyMutationInput, Prisma.DocumentUncheckedUpdateManyWithoutDuplicateOfInput>
+}
+
+export type DocumentCreateWithoutArchiveUploadInput = {
+  id?: string
+  name: string
+  originalName: string
+  type: $Enums.DocumentType
+  mimeType: string
+  size: bigint | number
+  status?: $Enums.DocumentStatus
+  s3Key: string
+  s3Bucket: string
+  s3Region: string
+  s3Url?: string | null
+  thumbnailUrl?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
+  pageCount?: number | null
+  wordCount?: number | null
+  language?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
+  ingestionStatus?: $Enums.IngestionStatus
+  ingestionStartedAt?: Date | string | null
+  ingestionCompletedAt?: Date | string | null
+  ingestionError?: string | null
+  ingestionJobId?: string | null
+  chunkCount?: number
+  embeddingCount?: number
+  qdrantCollectionId?: string | null
+  indexVersion?: number
+  uploadedAt?: Date | string | null
+  processedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  workspace: Prisma.WorkspaceCreateNestedOneWithoutDocumentsInput
+  parentDocument?: Prisma.DocumentCreateNestedOneWithoutAttachmentsInput
+  attachments?: Prisma.DocumentCreateNestedManyWithoutParentDocumentInput
+  duplicateOf?: Prisma.DocumentCreateNestedOneWithoutDuplicatesInput
+  duplicates?: Prisma.DocumentCreateNestedManyWithoutDuplicateOfInput
+  chunks?: Prisma.ChunkCreateNestedManyWithoutDocumentInput
+}
+
+export type DocumentUncheckedCreateWithoutArchiveUploadInput = {
+  id?: string
+  workspaceId: string
+  name: string
+  originalName: string
+  type: $Enums.DocumentType
+  mimeType: string
+  size: bigint | number
+  status?: $Enums.DocumentStatus
+  s3Key: string
+  s3Bucket: string
+  s3Region: string
+  s3Url?: string | null
+  thumbnailUrl?: string | null
+  parentDocumentId?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateOfId?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
+  pageCount?: number | null
+  wordCount?: number | null
+  language?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
+  ingestionStatus?: $Enums.IngestionStatus
+  ingestionStartedAt?: Date | string | null
+  ingestionCompletedAt?: Date | string | null
+  ingestionError?: string | null
+  ingestionJobId?: string | null
+  chunkCount?: number
+  embeddingCount?: number
+  qdrantCollectionId?: string | null
+  indexVersion?: number
+  uploadedAt?: Date | string | null
+  processedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  attachments?: Prisma.DocumentUncheckedCreateNestedManyWithoutParentDocumentInput
+  duplicates?: Prisma.DocumentUncheckedCreateNestedManyWithoutDuplicateOfInput
+  chunks?: Prisma.ChunkUncheckedCreateNestedManyWithoutDocumentInput
+}
+
+export type DocumentCreateOrConnectWithoutArchiveUploadInput = {
+  where: Prisma.DocumentWhereUniqueInput
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutArchiveUploadInput, Prisma.DocumentUncheckedCreateWithoutArchiveUploadInput>
+}
+
+export type DocumentCreateManyArchiveUploadInputEnvelope = {
+  data: Prisma.DocumentCreateManyArchiveUploadInput | Prisma.DocumentCreateManyArchiveUploadInput[]
+  skipDuplicates?: boolean
+}
+
+export type DocumentUpsertWithWhereUniqueWithoutArchiveUploadInput = {
+  where: Prisma.DocumentWhereUniqueInput
+  update: Prisma.XOR<Prisma.DocumentUpdateWithoutArchiveUploadInput, Prisma.DocumentUncheckedUpdateWithoutArchiveUploadInput>
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutArchiveUploadInput, Prisma.DocumentUncheckedCreateWithoutArchiveUploadInput>
+}
+
+export type DocumentUpdateWithWhereUniqueWithoutArchiveUploadInput = {
+  where: Prisma.DocumentWhereUniqueInput
+  data: Prisma.XOR<Prisma.DocumentUpdateWithoutArchiveUploadInput, Prisma.DocumentUncheckedUpdateWithoutArchiveUploadInput>
+}
+
+export type DocumentUpdateManyWithWhereWithoutArchiveUploadInput = {
+  where: Prisma.DocumentScalarWhereInput
+  data: Prisma.XOR<Prisma.DocumentUpdateManyMutationInput, Prisma.DocumentUncheckedUpdateManyWithoutArchiveUploadInput>
+}
+
+export type DocumentCreateWithoutChunksInput = {
+  id?: string
+  name: string
+  originalName: string
+  type: $Enums.DocumentType
+  mimeType: string
+  size: bigint | number
+  status?: $Enums.DocumentStatus
+  s3Key: string
+  s3Bucket: string
+  s3Region: string
+  s3Url?: string | null
+  thumbnailUrl?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
+  pageCount?: number | null
+  wordCount?: number | null
+  language?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
+  ingestionStatus?: $Enums.IngestionStatus
+  ingestionStartedAt?: Date | string | null
+  ingestionCompletedAt?: Date | string | null
+  ingestionError?: string | null
+  ingestionJobId?: string | null
+  chunkCount?: number
+  embeddingCount?: number
+  qdrantCollectionId?: string | null
+  indexVersion?: number
+  uploadedAt?: Date | string | null
+  processedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  workspace: Prisma.WorkspaceCreateNestedOneWithoutDocumentsInput
+  parentDocument?: Prisma.DocumentCreateNestedOneWithoutAttachmentsInput
+  attachments?: Prisma.DocumentCreateNestedManyWithoutParentDocumentInput
+  archiveUpload?: Prisma.ArchiveUploadCreateNestedOneWithoutDocumentsInput
+  duplicateOf?: Prisma.DocumentCreateNestedOneWithoutDuplicatesInput
+  duplicates?: Prisma.DocumentCreateNestedManyWithoutDuplicateOfInput
+}
+
+export type DocumentUncheckedCreateWithoutChunksInput = {
+  id?: string
+  workspaceId: string
+  name: string
+  originalName: string
+  type: $Enums.DocumentType
+  mimeType: string
+  size: bigint | number
+  status?: $Enums.DocumentStatus
+  s3Key: string
+  s3Bucket: string
+  s3Region: string
+  s3Url?: string | null
+  thumbnailUrl?: string | null
+  parentDocumentId?: string | null
+  archiveUploadId?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateOfId?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
+  pageCount?: number | null
+  wordCount?: number | null
+  language?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
+  ingestionStatus?: $Enums.IngestionStatus
+  ingestionStartedAt?: Date | string | null
+  ingestionCompletedAt?: Date | string | null
+  ingestionError?: string | null
+  ingestionJobId?: string | null
+  chunkCount?: number
+  embeddingCount?: number
+  qdrantCollectionId?: string | null
+  indexVersion?: number
+  uploadedAt?: Date | string | null
+  processedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  attachments?: Prisma.DocumentUncheckedCreateNestedManyWithoutParentDocumentInput
+  duplicates?: Prisma.DocumentUncheckedCreateNestedManyWithoutDuplicateOfInput
+}
+
+export type DocumentCreateOrConnectWithoutChunksInput = {
+  where: Prisma.DocumentWhereUniqueInput
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutChunksInput, Prisma.DocumentUncheckedCreateWithoutChunksInput>
+}
+
+export type DocumentUpsertWithoutChunksInput = {
+  update: Prisma.XOR<Prisma.DocumentUpdateWithoutChunksInput, Prisma.DocumentUncheckedUpdateWithoutChunksInput>
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutChunksInput, Prisma.DocumentUncheckedCreateWithoutChunksInput>
+  where?: Prisma.DocumentWhereInput
+}
+
+export type DocumentUpdateToOneWithWhereWithoutChunksInput = {
+  where?: Prisma.DocumentWhereInput
+  data: Prisma.XOR<Prisma.DocumentUpdateWithoutChunksInput, Prisma.DocumentUncheckedUpdateWithoutChunksInput>
+}
+
+export type DocumentUpdateWithoutChunksInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  originalName?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumDocumentTypeFieldUpdateOperationsInput | $Enums.DocumentType
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumDocumentStatusFieldUpdateOperationsInput | $Enums.DocumentStatus
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Bucket?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Region?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
+  pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
+  ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
+  embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  workspace?: Prisma.WorkspaceUpdateOneRequiredWithoutDocumentsNestedInput
+  parentDocument?: Prisma.DocumentUpdateOneWithoutAttachmentsNestedInput
+  attachments?: Prisma.DocumentUpdateManyWithoutParentDocumentNestedInput
+  archiveUpload?: Prisma.ArchiveUploadUpdateOneWithoutDocumentsNestedInput
+  duplicateOf?: Prisma.DocumentUpdateOneWithoutDuplicatesNestedInput
+  duplicates?: Prisma.DocumentUpdateManyWithoutDuplicateOfNestedInput
+}
+
+export type DocumentUncheckedUpdateWithoutChunksInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workspaceId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  originalName?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumDocumentTypeFieldUpdateOperationsInput | $Enums.DocumentType
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumDocumentStatusFieldUpdateOperationsInput | $Enums.DocumentStatus
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Bucket?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Region?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  parentDocumentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  archiveUploadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
+  pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
+  ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
+  embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  attachments?: Prisma.DocumentUncheckedUpdateManyWithoutParentDocumentNestedInput
+  duplicates?: Prisma.DocumentUncheckedUpdateManyWithoutDuplicateOfNestedInput
+}
+
+export type DocumentCreateManyWorkspaceInput = {
+  id?: string
+  name: string
+  originalName: string
+  type: $Enums.DocumentType
+  mimeType: string
+  size: bigint | number
+  status?: $Enums.DocumentStatus
+  s3Key: string
+  s3Bucket: string
+  s3Region: string
+  s3Url?: string | null
+  thumbnailUrl?: string | null
+  parentDocumentId?: string | null
+  archiveUploadId?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateOfId?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
+  pageCount?: number | null
+  wordCount?: number | null
+  language?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
+  ingestionStatus?: $Enums.IngestionStatus
+  ingestionStartedAt?: Date | string | null
+  ingestionCompletedAt?: Date | string | null
+  ingestionError?: string | null
+  ingestionJobId?: string | null
+  chunkCount?: number
+  embeddingCount?: number
+  qdrantCollectionId?: string | null
+  indexVersion?: number
+  uploadedAt?: Date | string | null
+  processedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+}
+
+export type DocumentUpdateWithoutWorkspaceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  originalName?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumDocumentTypeFieldUpdateOperationsInput | $Enums.DocumentType
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumDocumentStatusFieldUpdateOperationsInput | $Enums.DocumentStatus
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Bucket?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Region?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
+  pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
+  ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
+  embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parentDocument?: Prisma.DocumentUpdateOneWithoutAttachmentsNestedInput
+  attachments?: Prisma.DocumentUpdateManyWithoutParentDocumentNestedInput
+  archiveUpload?: Prisma.ArchiveUploadUpdateOneWithoutDocumentsNestedInput
+  duplicateOf?: Prisma.DocumentUpdateOneWithoutDuplicatesNestedInput
+  duplicates?: Prisma.DocumentUpdateManyWithoutDuplicateOfNestedInput
+  chunks?: Prisma.ChunkUpdateManyWithoutDocumentNestedInput
+}
+
+export type DocumentUncheckedUpdateWithoutWorkspaceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  originalName?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumDocumentTypeFieldUpdateOperationsInput | $Enums.DocumentType
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumDocumentStatusFieldUpdateOperationsInput | $Enums.DocumentStatus
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Bucket?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Region?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  parentDocumentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  archiveUploadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
+  pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
+  ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
+  embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  attachments?: Prisma.DocumentUncheckedUpdateManyWithoutParentDocumentNestedInput
+  duplicates?: Prisma.DocumentUncheckedUpdateManyWithoutDuplicateOfNestedInput
+  chunks?: Prisma.ChunkUncheckedUpdateManyWithoutDocumentNestedInput
+}
+
+export type DocumentUncheckedUpdateManyWithoutWorkspaceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  originalName?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumDocumentTypeFieldUpdateOperationsInput | $Enums.DocumentType
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumDocumentStatusFieldUpdateOperationsInput | $Enums.DocumentStatus
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Bucket?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Region?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  parentDocumentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  archiveUploadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
+  pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
+  ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
+  embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type DocumentCreateManyParentDocumentInput = {
   id?: string
+  workspaceId: string
   name: string
   originalName: string
   type: $Enums.DocumentType
@@ -1149,26 +2961,39 @@ export type DocumentCreateWithoutChunksInput = {
   s3Region: string
   s3Url?: string | null
   thumbnailUrl?: string | null
+  archiveUploadId?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateOfId?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
   pageCount?: number | null
   wordCount?: number | null
   language?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
   ingestionStatus?: $Enums.IngestionStatus
   ingestionStartedAt?: Date | string | null
   ingestionCompletedAt?: Date | string | null
   ingestionError?: string | null
+  ingestionJobId?: string | null
   chunkCount?: number
   embeddingCount?: number
   qdrantCollectionId?: string | null
+  indexVersion?: number
   uploadedAt?: Date | string | null
   processedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   deletedAt?: Date | string | null
-  workspace: Prisma.WorkspaceCreateNestedOneWithoutDocumentsInput
 }
 
-export type DocumentUncheckedCreateWithoutChunksInput = {
+export type DocumentCreateManyDuplicateOfInput = {
   id?: string
   workspaceId: string
   name: string
@@ -1182,17 +3007,31 @@ export type DocumentUncheckedCreateWithoutChunksInput = {
   s3Region: string
   s3Url?: string | null
   thumbnailUrl?: string | null
+  parentDocumentId?: string | null
+  archiveUploadId?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
   pageCount?: number | null
   wordCount?: number | null
   language?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
   ingestionStatus?: $Enums.IngestionStatus
   ingestionStartedAt?: Date | string | null
   ingestionCompletedAt?: Date | string | null
   ingestionError?: string | null
+  ingestionJobId?: string | null
   chunkCount?: number
   embeddingCount?: number
   qdrantCollectionId?: string | null
+  indexVersion?: number
   uploadedAt?: Date | string | null
   processedAt?: Date | string | null
   createdAt?: Date | string
@@ -1200,23 +3039,151 @@ export type DocumentUncheckedCreateWithoutChunksInput = {
   deletedAt?: Date | string | null
 }
 
-export type DocumentCreateOrConnectWithoutChunksInput = {
-  where: Prisma.DocumentWhereUniqueInput
-  create: Prisma.XOR<Prisma.DocumentCreateWithoutChunksInput, Prisma.DocumentUncheckedCreateWithoutChunksInput>
+export type DocumentUpdateWithoutParentDocumentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  originalName?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumDocumentTypeFieldUpdateOperationsInput | $Enums.DocumentType
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumDocumentStatusFieldUpdateOperationsInput | $Enums.DocumentStatus
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Bucket?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Region?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
+  pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
+  ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
+  embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  workspace?: Prisma.WorkspaceUpdateOneRequiredWithoutDocumentsNestedInput
+  attachments?: Prisma.DocumentUpdateManyWithoutParentDocumentNestedInput
+  archiveUpload?: Prisma.ArchiveUploadUpdateOneWithoutDocumentsNestedInput
+  duplicateOf?: Prisma.DocumentUpdateOneWithoutDuplicatesNestedInput
+  duplicates?: Prisma.DocumentUpdateManyWithoutDuplicateOfNestedInput
+  chunks?: Prisma.ChunkUpdateManyWithoutDocumentNestedInput
 }
 
-export type DocumentUpsertWithoutChunksInput = {
-  update: Prisma.XOR<Prisma.DocumentUpdateWithoutChunksInput, Prisma.DocumentUncheckedUpdateWithoutChunksInput>
-  create: Prisma.XOR<Prisma.DocumentCreateWithoutChunksInput, Prisma.DocumentUncheckedCreateWithoutChunksInput>
-  where?: Prisma.DocumentWhereInput
+export type DocumentUncheckedUpdateWithoutParentDocumentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workspaceId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  originalName?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumDocumentTypeFieldUpdateOperationsInput | $Enums.DocumentType
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumDocumentStatusFieldUpdateOperationsInput | $Enums.DocumentStatus
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Bucket?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Region?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  archiveUploadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
+  pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
+  ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
+  embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  attachments?: Prisma.DocumentUncheckedUpdateManyWithoutParentDocumentNestedInput
+  duplicates?: Prisma.DocumentUncheckedUpdateManyWithoutDuplicateOfNestedInput
+  chunks?: Prisma.ChunkUncheckedUpdateManyWithoutDocumentNestedInput
 }
 
-export type DocumentUpdateToOneWithWhereWithoutChunksInput = {
-  where?: Prisma.DocumentWhereInput
-  data: Prisma.XOR<Prisma.DocumentUpdateWithoutChunksInput, Prisma.DocumentUncheckedUpdateWithoutChunksInput>
+export type DocumentUncheckedUpdateManyWithoutParentDocumentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workspaceId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  originalName?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumDocumentTypeFieldUpdateOperationsInput | $Enums.DocumentType
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumDocumentStatusFieldUpdateOperationsInput | $Enums.DocumentStatus
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Bucket?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Region?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  archiveUploadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
+  pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
+  ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
+  embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
-export type DocumentUpdateWithoutChunksInput = {
+export type DocumentUpdateWithoutDuplicateOfInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   originalName?: Prisma.StringFieldUpdateOperationsInput | string
@@ -1229,26 +3196,43 @@ export type DocumentUpdateWithoutChunksInput = {
   s3Region?: Prisma.StringFieldUpdateOperationsInput | string
   s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
   pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
   ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
   embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
   qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
   uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   workspace?: Prisma.WorkspaceUpdateOneRequiredWithoutDocumentsNestedInput
+  parentDocument?: Prisma.DocumentUpdateOneWithoutAttachmentsNestedInput
+  attachments?: Prisma.DocumentUpdateManyWithoutParentDocumentNestedInput
+  archiveUpload?: Prisma.ArchiveUploadUpdateOneWithoutDocumentsNestedInput
+  duplicates?: Prisma.DocumentUpdateManyWithoutDuplicateOfNestedInput
+  chunks?: Prisma.ChunkUpdateManyWithoutDocumentNestedInput
 }
 
-export type DocumentUncheckedUpdateWithoutChunksInput = {
+export type DocumentUncheckedUpdateWithoutDuplicateOfInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   workspaceId?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -1262,26 +3246,90 @@ export type DocumentUncheckedUpdateWithoutChunksInput = {
   s3Region?: Prisma.StringFieldUpdateOperationsInput | string
   s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  parentDocumentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  archiveUploadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
   pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
   ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
   embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
   qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
   uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  attachments?: Prisma.DocumentUncheckedUpdateManyWithoutParentDocumentNestedInput
+  duplicates?: Prisma.DocumentUncheckedUpdateManyWithoutDuplicateOfNestedInput
+  chunks?: Prisma.ChunkUncheckedUpdateManyWithoutDocumentNestedInput
 }
 
-export type DocumentCreateManyWorkspaceInput = {
+export type DocumentUncheckedUpdateManyWithoutDuplicateOfInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workspaceId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  originalName?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumDocumentTypeFieldUpdateOperationsInput | $Enums.DocumentType
+  mimeType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  status?: Prisma.EnumDocumentStatusFieldUpdateOperationsInput | $Enums.DocumentStatus
+  s3Key?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Bucket?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Region?: Prisma.StringFieldUpdateOperationsInput | string
+  s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  parentDocumentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  archiveUploadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
+  pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
+  ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
+  embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type DocumentCreateManyArchiveUploadInput = {
   id?: string
+  workspaceId: string
   name: string
   originalName: string
   type: $Enums.DocumentType
@@ -1293,17 +3341,31 @@ export type DocumentCreateManyWorkspaceInput = {
   s3Region: string
   s3Url?: string | null
   thumbnailUrl?: string | null
+  parentDocumentId?: string | null
+  folder?: string | null
+  uploadedById?: string | null
+  checksum?: string | null
+  duplicateOfId?: string | null
+  duplicateSimilarity?: number | null
+  minhash?: Prisma.DocumentCreateminhashInput | number[]
   pageCount?: number | null
   wordCount?: number | null
   language?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: string | null
+  topics?: Prisma.DocumentCreatetopicsInput | string[]
+  tags?: Prisma.DocumentCreatetagsInput | string[]
+  summaryModel?: string | null
+  summaryGeneratedAt?: Date | string | null
   ingestionStatus?: $Enums.IngestionStatus
   ingestionStartedAt?: Date | string | null
   ingestionCompletedAt?: Date | string | null
   ingestionError?: string | null
+  ingestionJobId?: string | null
   chunkCount?: number
   embeddingCount?: number
   qdrantCollectionId?: string | null
+  indexVersion?: number
   uploadedAt?: Date | string | null
   processedAt?: Date | string | null
   createdAt?: Date | string
@@ -1311,7 +3373,7 @@ export type DocumentCreateManyWorkspaceInput = {
   deletedAt?: Date | string | null
 }
 
-export type DocumentUpdateWithoutWorkspaceInput = {
+export type DocumentUpdateWithoutArchiveUploadInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   originalName?: Prisma.StringFieldUpdateOperationsInput | string
@@ -1324,27 +3386,45 @@ export type DocumentUpdateWithoutWorkspaceInput = {
   s3Region?: Prisma.StringFieldUpdateOperationsInput | string
   s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
   pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
   ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
   embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
   qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
   uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  workspace?: Prisma.WorkspaceUpdateOneRequiredWithoutDocumentsNestedInput
+  parentDocument?: Prisma.DocumentUpdateOneWithoutAttachmentsNestedInput
+  attachments?: Prisma.DocumentUpdateManyWithoutParentDocumentNestedInput
+  duplicateOf?: Prisma.DocumentUpdateOneWithoutDuplicatesNestedInput
+  duplicates?: Prisma.DocumentUpdateManyWithoutDuplicateOfNestedInput
   chunks?: Prisma.ChunkUpdateManyWithoutDocumentNestedInput
 }
 
-export type DocumentUncheckedUpdateWithoutWorkspaceInput = {
+export type DocumentUncheckedUpdateWithoutArchiveUploadInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  workspaceId?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   originalName?: Prisma.StringFieldUpdateOperationsInput | string
   type?: Prisma.EnumDocumentTypeFieldUpdateOperationsInput | $Enums.DocumentType
@@ -1356,27 +3436,44 @@ export type DocumentUncheckedUpdateWithoutWorkspaceInput = {
   s3Region?: Prisma.StringFieldUpdateOperationsInput | string
   s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  parentDocumentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
   pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
   ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
   embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
   qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
   uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  attachments?: Prisma.DocumentUncheckedUpdateManyWithoutParentDocumentNestedInput
+  duplicates?: Prisma.DocumentUncheckedUpdateManyWithoutDuplicateOfNestedInput
   chunks?: Prisma.ChunkUncheckedUpdateManyWithoutDocumentNestedInput
 }
 
-export type DocumentUncheckedUpdateManyWithoutWorkspaceInput = {
+export type DocumentUncheckedUpdateManyWithoutArchiveUploadInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  workspaceId?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   originalName?: Prisma.StringFieldUpdateOperationsInput | string
   type?: Prisma.EnumDocumentTypeFieldUpdateOperationsInput | $Enums.DocumentType
@@ -1388,17 +3485,31 @@ export type DocumentUncheckedUpdateManyWithoutWorkspaceInput = {
   s3Region?: Prisma.StringFieldUpdateOperationsInput | string
   s3Url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   thumbnailUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  parentDocumentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  folder?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateSimilarity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minhash?: Prisma.DocumentUpdateminhashInput | number[]
   pageCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   wordCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   language?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  topics?: Prisma.DocumentUpdatetopicsInput | string[]
+  tags?: Prisma.DocumentUpdatetagsInput | string[]
+  summaryModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryGeneratedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionStatus?: Prisma.EnumIngestionStatusFieldUpdateOperationsInput | $Enums.IngestionStatus
   ingestionStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   ingestionError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ingestionJobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   chunkCount?: Prisma.IntFieldUpdateOperationsInput | number
   embeddingCount?: Prisma.IntFieldUpdateOperationsInput | number
   qdrantCollectionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indexVersion?: Prisma.IntFieldUpdateOperationsInput | number
   uploadedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1412,10 +3523,14 @@ export type DocumentUncheckedUpdateManyWithoutWorkspaceInput = {
  */
 
 export type DocumentCountOutputType = {
+  attachments: number
+  duplicates: number
   chunks: number
 }
 
 export type DocumentCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  attachments?: boolean | DocumentCountOutputTypeCountAttachmentsArgs
+  duplicates?: boolean | DocumentCountOutputTypeCountDuplicatesArgs
   chunks?: boolean | DocumentCountOutputTypeCountChunksArgs
 }
 
@@ -1429,6 +3544,20 @@ export type DocumentCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Ext
   select?: Prisma.DocumentCountOutputTypeSelect<ExtArgs> | null
 }
 
+/**
+ * DocumentCountOutputType without action
+ */
+export type DocumentCountOutputTypeCountAttachmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DocumentWhereInput
+}
+
+/**
+ * DocumentCountOutputType without action
+ */
+export type DocumentCountOutputTypeCountDuplicatesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DocumentWhereInput
+}
+
 /**
  * DocumentCountOutputType without action
  */
@@ -1451,23 +3580,43 @@ export type DocumentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   s3Region?: boolean
   s3Url?: boolean
   thumbnailUrl?: boolean
+  parentDocumentId?: boolean
+  archiveUploadId?: boolean
+  folder?: boolean
+  uploadedById?: boolean
+  checksum?: boolean
+  duplicateOfId?: boolean
+  duplicateSimilarity?: boolean
+  minhash?: boolean
   pageCount?: boolean
   wordCount?: boolean
   language?: boolean
   metadata?: boolean
+  summary?: boolean
+  topics?: boolean
+  tags?: boolean
+  summaryModel?: boolean
+  summaryGeneratedAt?: boolean
   ingestionStatus?: boolean
   ingestionStartedAt?: boolean
   ingestionCompletedAt?: boolean
   ingestionError?: boolean
+  ingestionJobId?: boolean
   chunkCount?: boolean
   embeddingCount?: boolean
   qdrantCollectionId?: boolean
+  indexVersion?: boolean
   uploadedAt?: boolean
   processedAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   deletedAt?: boolean
   workspace?: boolean | Prisma.WorkspaceDefaultArgs<ExtArgs>
+  parentDocument?: boolean | Prisma.Document$parentDocumentArgs<ExtArgs>
+  attachments?: boolean | Prisma.Document$attachmentsArgs<ExtArgs>
+  archiveUpload?: boolean | Prisma.Document$archiveUploadArgs<ExtArgs>
+  duplicateOf?: boolean | Prisma.Document$duplicateOfArgs<ExtArgs>
+  duplicates?: boolean | Prisma.Document$duplicatesArgs<ExtArgs>
   chunks?: boolean | Prisma.Document$chunksArgs<ExtArgs>
   _count?: boolean | Prisma.DocumentCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["document"]>
@@ -1486,23 +3635,41 @@ export type DocumentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exte
   s3Region?: boolean
   s3Url?: boolean
   thumbnailUrl?: boolean
+  parentDocumentId?: boolean
+  archiveUploadId?: boolean
+  folder?: boolean
+  uploadedById?: boolean
+  checksum?: boolean
+  duplicateOfId?: boolean
+  duplicateSimilarity?: boolean
+  minhash?: boolean
   pageCount?: boolean
   wordCount?: boolean
   language?: boolean
   metadata?: boolean
+  summary?: boolean
+  topics?: boolean
+  tags?: boolean
+  summaryModel?: boolean
+  summaryGeneratedAt?: boolean
   ingestionStatus?: boolean
   ingestionStartedAt?: boolean
   ingestionCompletedAt?: boolean
   ingestionError?: boolean
+  ingestionJobId?: boolean
   chunkCount?: boolean
   embeddingCount?: boolean
   qdrantCollectionId?: boolean
+  indexVersion?: boolean
   uploadedAt?: boolean
   processedAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   deletedAt?: boolean
   workspace?: boolean | Prisma.WorkspaceDefaultArgs<ExtArgs>
+  parentDocument?: boolean | Prisma.Document$parentDocumentArgs<ExtArgs>
+  archiveUpload?: boolean | Prisma.Document$archiveUploadArgs<ExtArgs>
+  duplicateOf?: boolean | Prisma.Document$duplicateOfArgs<ExtArgs>
 }, ExtArgs["result"]["document"]>
 
 export type DocumentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -1519,23 +3686,41 @@ export type DocumentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exte
   s3Region?: boolean
   s3Url?: boolean
   thumbnailUrl?: boolean
+  parentDocumentId?: boolean
+  archiveUploadId?: boolean
+  folder?: boolean
+  uploadedById?: boolean
+  checksum?: boolean
+  duplicateOfId?: boolean
+  duplicateSimilarity?: boolean
+  minhash?: boolean
   pageCount?: boolean
   wordCount?: boolean
   language?: boolean
   metadata?: boolean
+  summary?: boolean
+  topics?: boolean
+  tags?: boolean
+  summaryModel?: boolean
+  summaryGeneratedAt?: boolean
   ingestionStatus?: boolean
   ingestionStartedAt?: boolean
   ingestionCompletedAt?: boolean
   ingestionError?: boolean
+  ingestionJobId?: boolean
   chunkCount?: boolean
   embeddingCount?: boolean
   qdrantCollectionId?: boolean
+  indexVersion?: boolean
   uploadedAt?: boolean
   processedAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   deletedAt?: boolean
   workspace?: boolean | Prisma.WorkspaceDefaultArgs<ExtArgs>
+  parentDocument?: boolean | Prisma.Document$parentDocumentArgs<ExtArgs>
+  archiveUpload?: boolean | Prisma.Document$archiveUploadArgs<ExtArgs>
+  duplicateOf?: boolean | Prisma.Document$duplicateOfArgs<ExtArgs>
 }, ExtArgs["result"]["document"]>
 
 export type DocumentSelectScalar = {
@@ -1552,17 +3737,32 @@ export type DocumentSelectScalar = {
   s3Region?: boolean
   s3Url?: boolean
   thumbnailUrl?: boolean
+  parentDocumentId?: boolean
+  archiveUploadId?: boolean
+  folder?: boolean
+  uploadedById?: boolean
+  checksum?: boolean
+  duplicateOfId?: boolean
+  duplicateSimilarity?: boolean
+  minhash?: boolean
   pageCount?: boolean
   wordCount?: boolean
   language?: boolean
   metadata?: boolean
+  summary?: boolean
+  topics?: boolean
+  tags?: boolean
+  summaryModel?: boolean
+  summaryGeneratedAt?: boolean
   ingestionStatus?: boolean
   ingestionStartedAt?: boolean
   ingestionCompletedAt?: boolean
   ingestionError?: boolean
+  ingestionJobId?: boolean
   chunkCount?: boolean
   embeddingCount?: boolean
   qdrantCollectionId?: boolean
+  indexVersion?: boolean
   uploadedAt?: boolean
   processedAt?: boolean
   createdAt?: boolean
@@ -1570,23 +3770,39 @@ export type DocumentSelectScalar = {
   deletedAt?: boolean
 }
 
-export type DocumentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "workspaceId" | "name" | "originalName" | "type" | "mimeType" | "size" | "status" | "s3Key" | "s3Bucket" | "s3Region" | "s3Url" | "thumbnailUrl" | "pageCount" | "wordCount" | "language" | "metadata" | "ingestionStatus" | "ingestionStartedAt" | "ingestionCompletedAt" | "ingestionError" | "chunkCount" | "embeddingCount" | "qdrantCollectionId" | "uploadedAt" | "processedAt" | "createdAt" | "updatedAt" | "deletedAt", ExtArgs["result"]["document"]>
+export type DocumentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "workspaceId" | "name" | "originalName" | "type" | "mimeType" | "size" | "status" | "s3Key" | "s3Bucket" | "s3Region" | "s3Url" | "thumbnailUrl" | "parentDocumentId" | "archiveUploadId" | "folder" | "uploadedById" | "checksum" | "duplicateOfId" | "duplicateSimilarity" | "minhash" | "pageCount" | "wordCount" | "language" | "metadata" | "summary" | "topics" | "tags" | "summaryModel" | "summaryGeneratedAt" | "ingestionStatus" | "ingestionStartedAt" | "ingestionCompletedAt" | "ingestionError" | "ingestionJobId" | "chunkCount" | "embeddingCount" | "qdrantCollectionId" | "indexVersion" | "uploadedAt" | "processedAt" | "createdAt" | "updatedAt" | "deletedAt", ExtArgs["result"]["document"]>
 export type DocumentInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   workspace?: boolean | Prisma.WorkspaceDefaultArgs<ExtArgs>
+  parentDocument?: boolean | Prisma.Document$parentDocumentArgs<ExtArgs>
+  attachments?: boolean | Prisma.Document$attachmentsArgs<ExtArgs>
+  archiveUpload?: boolean | Prisma.Document$archiveUploadArgs<ExtArgs>
+  duplicateOf?: boolean | Prisma.Document$duplicateOfArgs<ExtArgs>
+  duplicates?: boolean | Prisma.Document$duplicatesArgs<ExtArgs>
   chunks?: boolean | Prisma.Document$chunksArgs<ExtArgs>
   _count?: boolean | Prisma.DocumentCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type DocumentIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   workspace?: boolean | Prisma.WorkspaceDefaultArgs<ExtArgs>
+  parentDocument?: boolean | Prisma.Document$parentDocumentArgs<ExtArgs>
+  archiveUpload?: boolean | Prisma.Document$archiveUploadArgs<ExtArgs>
+  duplicateOf?: boolean | Prisma.Document$duplicateOfArgs<ExtArgs>
 }
 export type DocumentIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   workspace?: boolean | Prisma.WorkspaceDefaultArgs<ExtArgs>
+  parentDocument?: boolean | Prisma.Document$parentDocumentArgs<ExtArgs>
+  archiveUpload?: boolean | Prisma.Document$archiveUploadArgs<ExtArgs>
+  duplicateOf?: boolean | Prisma.Document$duplicateOfArgs<ExtArgs>
 }
 
 export type $DocumentPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "Document"
   objects: {
     workspace: Prisma.$WorkspacePayload<ExtArgs>
+    parentDocument: Prisma.$DocumentPayload<ExtArgs> | null
+    attachments: Prisma.$DocumentPayload<ExtArgs>[]
+    archiveUpload: Prisma.$ArchiveUploadPayload<ExtArgs> | null
+    duplicateOf: Prisma.$DocumentPayload<ExtArgs> | null
+    duplicates: Prisma.$DocumentPayload<ExtArgs>[]
     chunks: Prisma.$ChunkPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
@@ -1603,17 +3819,32 @@ export type $DocumentPayload<ExtArgs extends runtime.Types.Extensions.InternalAr
     s3Region: string
     s3Url: string | null
     thumbnailUrl: string | null
+    parentDocumentId: string | null
+    archiveUploadId: string | null
+    folder: string | null
+    uploadedById: string | null
+    checksum: string | null
+    duplicateOfId: string | null
+    duplicateSimilarity: number | null
+    minhash: number[]
     pageCount: number | null
     wordCount: number | null
     language: string | null
     metadata: runtime.JsonValue | null
+    summary: string | null
+    topics: string[]
+    tags: string[]
+    summaryModel: string | null
+    summaryGeneratedAt: Date | null
     ingestionStatus: $Enums.IngestionStatus
     ingestionStartedAt: Date | null
     ingestionCompletedAt: Date | null
     ingestionError: string | null
+    ingestionJobId: string | null
     chunkCount: number
     embeddingCount: number
     qdrantCollectionId: string | null
+    indexVersion: number
     uploadedAt: Date | null
     processedAt: Date | null
     createdAt: Date
@@ -2014,6 +4245,11 @@ readonly fields: DocumentFieldRefs;
 export interface Prisma__DocumentClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   workspace<T extends Prisma.WorkspaceDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WorkspaceDefaultArgs<ExtArgs>>): Prisma.Prisma__WorkspaceClient<runtime.Types.Result.GetResult<Prisma.$WorkspacePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  parentDocument<T extends Prisma.Document$parentDocumentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Document$parentDocumentArgs<ExtArgs>>): Prisma.Prisma__DocumentClient<runtime.Types.Result.GetResult<Prisma.$DocumentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  attachments<T extends Prisma.Document$attachmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Document$attachmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  archiveUpload<T extends Prisma.Document$archiveUploadArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Document$archiveUploadArgs<ExtArgs>>): Prisma.Prisma__ArchiveUploadClient<runtime.Types.Result.GetResult<Prisma.$ArchiveUploadPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  duplicateOf<T extends Prisma.Document$duplicateOfArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Document$duplicateOfArgs<ExtArgs>>): Prisma.Prisma__DocumentClient<runtime.Types.Result.GetResult<Prisma.$DocumentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  duplicates<T extends Prisma.Document$duplicatesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Document$duplicatesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   chunks<T extends Prisma.Document$chunksArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Document$chunksArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ChunkPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
@@ -2057,17 +4293,32 @@ export interface DocumentFieldRefs {
   readonly s3Region: Prisma.FieldRef<"Document", 'String'>
   readonly s3Url: Prisma.FieldRef<"Document", 'String'>
   readonly thumbnailUrl: Prisma.FieldRef<"Document", 'String'>
+  readonly parentDocumentId: Prisma.FieldRef<"Document", 'String'>
+  readonly archiveUploadId: Prisma.FieldRef<"Document", 'String'>
+  readonly folder: Prisma.FieldRef<"Document", 'String'>
+  readonly uploadedById: Prisma.FieldRef<"Document", 'String'>
+  readonly checksum: Prisma.FieldRef<"Document", 'String'>
+  readonly duplicateOfId: Prisma.FieldRef<"Document", 'String'>
+  readonly duplicateSimilarity: Prisma.FieldRef<"Document", 'Float'>
+  readonly minhash: Prisma.FieldRef<"Document", 'Int[]'>
   readonly pageCount: Prisma.FieldRef<"Document", 'Int'>
   readonly wordCount: Prisma.FieldRef<"Document", 'Int'>
   readonly language: Prisma.FieldRef<"Document", 'String'>
   readonly metadata: Prisma.FieldRef<"Document", 'Json'>
+  readonly summary: Prisma.FieldRef<"Document", 'String'>
+  readonly topics: Prisma.FieldRef<"Document", 'String[]'>
+  readonly tags: Prisma.FieldRef<"Document", 'String[]'>
+  readonly summaryModel: Prisma.FieldRef<"Document", 'String'>
+  readonly summaryGeneratedAt: Prisma.FieldRef<"Document", 'DateTime'>
   readonly ingestionStatus: Prisma.FieldRef<"Document", 'IngestionStatus'>
   readonly ingestionStartedAt: Prisma.FieldRef<"Document", 'DateTime'>
   readonly ingestionCompletedAt: Prisma.FieldRef<"Document", 'DateTime'>
   readonly ingestionError: Prisma.FieldRef<"Document", 'String'>
+  readonly ingestionJobId: Prisma.FieldRef<"Document", 'String'>
   readonly chunkCount: Prisma.FieldRef<"Document", 'Int'>
   readonly embeddingCount: Prisma.FieldRef<"Document", 'Int'>
   readonly qdrantCollectionId: Prisma.FieldRef<"Document", 'String'>
+  readonly indexVersion: Prisma.FieldRef<"Document", 'Int'>
   readonly uploadedAt: Prisma.FieldRef<"Document", 'DateTime'>
   readonly processedAt: Prisma.FieldRef<"Document", 'DateTime'>
   readonly createdAt: Prisma.FieldRef<"Document", 'DateTime'>
@@ -2468,6 +4719,111 @@ export type DocumentDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.Inte
   limit?: number
 }
 
+/**
+ * Document.parentDocument
+ */
+export type Document$parentDocumentArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Document
+   */
+  select?: Prisma.DocumentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Document
+   */
+  omit?: Prisma.DocumentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentInclude<ExtArgs> | null
+  where?: Prisma.DocumentWhereInput
+}
+
+/**
+ * Document.attachments
+ */
+export type Document$attachmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Document
+   */
+  select?: Prisma.DocumentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Document
+   */
+  omit?: Prisma.DocumentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentInclude<ExtArgs> | null
+  where?: Prisma.DocumentWhereInput
+  orderBy?: Prisma.DocumentOrderByWithRelationInput | Prisma.DocumentOrderByWithRelationInput[]
+  cursor?: Prisma.DocumentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.DocumentScalarFieldEnum | Prisma.DocumentScalarFieldEnum[]
+}
+
+/**
+ * Document.archiveUpload
+ */
+export type Document$archiveUploadArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ArchiveUpload
+   */
+  select?: Prisma.ArchiveUploadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ArchiveUpload
+   */
+  omit?: Prisma.ArchiveUploadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ArchiveUploadInclude<ExtArgs> | null
+  where?: Prisma.ArchiveUploadWhereInput
+}
+
+/**
+ * Document.duplicateOf
+ */
+export type Document$duplicateOfArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Document
+   */
+  select?: Prisma.DocumentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Document
+   */
+  omit?: Prisma.DocumentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentInclude<ExtArgs> | null
+  where?: Prisma.DocumentWhereInput
+}
+
+/**
+ * Document.duplicates
+ */
+export type Document$duplicatesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Document
+   */
+  select?: Prisma.DocumentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Document
+   */
+  omit?: Prisma.DocumentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentInclude<ExtArgs> | null
+  where?: Prisma.DocumentWhereInput
+  orderBy?: Prisma.DocumentOrderByWithRelationInput | Prisma.DocumentOrderByWithRelationInput[]
+  cursor?: Prisma.DocumentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.DocumentScalarFieldEnum | Prisma.DocumentScalarFieldEnum[]
+}
+
 /**
  * Document.chunks
  */
@@ -0,0 +1,1254 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `EmbeddingCache` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model EmbeddingCache
+ * 
+ */
+export type EmbeddingCacheModel = runtime.Types.Result.DefaultSelection<Prisma.$EmbeddingCachePayload>
+
+export type AggregateEmbeddingCache = {
+  _count: EmbeddingCacheCountAggregateOutputType | null
+  _avg: EmbeddingCacheAvgAggregateOutputType | null
+  _sum: EmbeddingCacheSumAggregateOutputType | null
+  _min: EmbeddingCacheMinAggregateOutputType | null
+  _max: EmbeddingCacheMaxAggregateOutputType | null
+}
+
+export type EmbeddingCacheAvgAggregateOutputType = {
+  hitCount: number | null
+}
+
+export type EmbeddingCacheSumAggregateOutputType = {
+  hitCount: number | null
+}
+
+export type EmbeddingCacheMinAggregateOutputType = {
+  id: string | null
+  contentHash: string | null
+  embeddingModel: string | null
+  embedding: runtime.Bytes | null
+  hitCount: number | null
+  createdAt: Date | null
+  lastUsedAt: Date | null
+}
+
+export type EmbeddingCacheMaxAggregateOutputType = {
+  id: string | null
+  contentHash: string | null
+  embeddingModel: string | null
+  embedding: runtime.Bytes | null
+  hitCount: number | null
+  createdAt: Date | null
+  lastUsedAt: Date | null
+}
+
+export type EmbeddingCacheCountAggregateOutputType = {
+  id: number
+  contentHash: number
+  embeddingModel: number
+  embedding: number
+  hitCount: number
+  createdAt: number
+  lastUsedAt: number
+  _all: number
+}
+
+
+export type EmbeddingCacheAvgAggregateInputType = {
+  hitCount?: true
+}
+
+export type EmbeddingCacheSumAggregateInputType = {
+  hitCount?: true
+}
+
+export type EmbeddingCacheMinAggregateInputType = {
+  id?: true
+  contentHash?: true
+  embeddingModel?: true
+  embedding?: true
+  hitCount?: true
+  createdAt?: true
+  lastUsedAt?: true
+}
+
+export type EmbeddingCacheMaxAggregateInputType = {
+  id?: true
+  contentHash?: true
+  embeddingModel?: true
+  embedding?: true
+  hitCount?: true
+  createdAt?: true
+  lastUsedAt?: true
+}
+
+export type EmbeddingCacheCountAggregateInputType = {
+  id?: true
+  contentHash?: true
+  embeddingModel?: true
+  embedding?: true
+  hitCount?: true
+  createdAt?: true
+  lastUsedAt?: true
+  _all?: true
+}
+
+export type EmbeddingCacheAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which EmbeddingCache to aggregate.
+   */
+  where?: Prisma.EmbeddingCacheWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EmbeddingCaches to fetch.
+   */
+  orderBy?: Prisma.EmbeddingCacheOrderByWithRelationInput | Prisma.EmbeddingCacheOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.EmbeddingCacheWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EmbeddingCaches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EmbeddingCaches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned EmbeddingCaches
+  **/
+  _count?: true | EmbeddingCacheCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: EmbeddingCacheAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: EmbeddingCacheSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: EmbeddingCacheMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: EmbeddingCacheMaxAggregateInputType
+}
+
+export type GetEmbeddingCacheAggregateType<T extends EmbeddingCacheAggregateArgs> = {
+      [P in keyof T & keyof AggregateEmbeddingCache]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateEmbeddingCache[P]>
+    : Prisma.GetScalarType<T[P], AggregateEmbeddingCache[P]>
+}
+
+
+
+
+export type EmbeddingCacheGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.EmbeddingCacheWhereInput
+  orderBy?: Prisma.EmbeddingCacheOrderByWithAggregationInput | Prisma.EmbeddingCacheOrderByWithAggregationInput[]
+  by: Prisma.EmbeddingCacheScalarFieldEnum[] | Prisma.EmbeddingCacheScalarFieldEnum
+  having?: Prisma.EmbeddingCacheScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: EmbeddingCacheCountAggregateInputType | true
+  _avg?: EmbeddingCacheAvgAggregateInputType
+  _sum?: EmbeddingCacheSumAggregateInputType
+  _min?: EmbeddingCacheMinAggregateInputType
+  _max?: EmbeddingCacheMaxAggregateInputType
+}
+
+export type EmbeddingCacheGroupByOutputType = {
+  id: string
+  contentHash: string
+  embeddingModel: string
+  embedding: runtime.Bytes
+  hitCount: number
+  createdAt: Date
+  lastUsedAt: Date
+  _count: EmbeddingCacheCountAggregateOutputType | null
+  _avg: EmbeddingCacheAvgAggregateOutputType | null
+  _sum: EmbeddingCacheSumAggregateOutputType | null
+  _min: EmbeddingCacheMinAggregateOutputType | null
+  _max: EmbeddingCacheMaxAggregateOutputType | null
+}
+
+type GetEmbeddingCacheGroupByPayload<T extends EmbeddingCacheGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<EmbeddingCacheGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof EmbeddingCacheGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], EmbeddingCacheGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], EmbeddingCacheGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type EmbeddingCacheWhereInput = {
+  AND?: Prisma.EmbeddingCacheWhereInput | Prisma.EmbeddingCacheWhereInput[]
+  OR?: Prisma.EmbeddingCacheWhereInput[]
+  NOT?: Prisma.EmbeddingCacheWhereInput | Prisma.EmbeddingCacheWhereInput[]
+  id?: Prisma.StringFilter<"EmbeddingCache"> | string
+  contentHash?: Prisma.StringFilter<"EmbeddingCache"> | string
+  embeddingModel?: Prisma.StringFilter<"EmbeddingCache"> | string
+  embedding?: Prisma.BytesFilter<"EmbeddingCache"> | runtime.Bytes
+  hitCount?: Prisma.IntFilter<"EmbeddingCache"> | number
+  createdAt?: Prisma.DateTimeFilter<"EmbeddingCache"> | Date | string
+  lastUsedAt?: Prisma.DateTimeFilter<"EmbeddingCache"> | Date | string
+}
+
+export type EmbeddingCacheOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrder
+  embedding?: Prisma.SortOrder
+  hitCount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrder
+}
+
+export type EmbeddingCacheWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  contentHash_embeddingModel?: Prisma.EmbeddingCacheContentHashEmbeddingModelCompoundUniqueInput
+  AND?: Prisma.EmbeddingCacheWhereInput | Prisma.EmbeddingCacheWhereInput[]
+  OR?: Prisma.EmbeddingCacheWhereInput[]
+  NOT?: Prisma.EmbeddingCacheWhereInput | Prisma.EmbeddingCacheWhereInput[]
+  contentHash?: Prisma.StringFilter<"EmbeddingCache"> | string
+  embeddingModel?: Prisma.StringFilter<"EmbeddingCache"> | string
+  embedding?: Prisma.BytesFilter<"EmbeddingCache"> | runtime.Bytes
+  hitCount?: Prisma.IntFilter<"EmbeddingCache"> | number
+  createdAt?: Prisma.DateTimeFilter<"EmbeddingCache"> | Date | string
+  lastUsedAt?: Prisma.DateTimeFilter<"EmbeddingCache"> | Date | string
+}, "id" | "contentHash_embeddingModel">
+
+export type EmbeddingCacheOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrder
+  embedding?: Prisma.SortOrder
+  hitCount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrder
+  _count?: Prisma.EmbeddingCacheCountOrderByAggregateInput
+  _avg?: Prisma.EmbeddingCacheAvgOrderByAggregateInput
+  _max?: Prisma.EmbeddingCacheMaxOrderByAggregateInput
+  _min?: Prisma.EmbeddingCacheMinOrderByAggregateInput
+  _sum?: Prisma.EmbeddingCacheSumOrderByAggregateInput
+}
+
+export type EmbeddingCacheScalarWhereWithAggregatesInput = {
+  AND?: Prisma.EmbeddingCacheScalarWhereWithAggregatesInput | Prisma.EmbeddingCacheScalarWhereWithAggregatesInput[]
+  OR?: Prisma.EmbeddingCacheScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.EmbeddingCacheScalarWhereWithAggregatesInput | Prisma.EmbeddingCacheScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"EmbeddingCache"> | string
+  contentHash?: Prisma.StringWithAggregatesFilter<"EmbeddingCache"> | string
+  embeddingModel?: Prisma.StringWithAggregatesFilter<"EmbeddingCache"> | string
+  embedding?: Prisma.BytesWithAggregatesFilter<"EmbeddingCache"> | runtime.Bytes
+  hitCount?: Prisma.IntWithAggregatesFilter<"EmbeddingCache"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"EmbeddingCache"> | Date | string
+  lastUsedAt?: Prisma.DateTimeWithAggregatesFilter<"EmbeddingCache"> | Date | string
+}
+
+export type EmbeddingCacheCreateInput = {
+  id?: string
+  contentHash: string
+  embeddingModel: string
+  embedding: runtime.Bytes
+  hitCount?: number
+  createdAt?: Date | string
+  lastUsedAt?: Date | string
+}
+
+export type EmbeddingCacheUncheckedCreateInput = {
+  id?: string
+  contentHash: string
+  embeddingModel: string
+  embedding: runtime.Bytes
+  hitCount?: number
+  createdAt?: Date | string
+  lastUsedAt?: Date | string
+}
+
+export type EmbeddingCacheUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
+  embedding?: Prisma.BytesFieldUpdateOperationsInput | runtime.Bytes
+  hitCount?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastUsedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EmbeddingCacheUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
+  embedding?: Prisma.BytesFieldUpdateOperationsInput | runtime.Bytes
+  hitCount?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastUsedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EmbeddingCacheCreateManyInput = {
+  id?: string
+  contentHash: string
+  embeddingModel: string
+  embedding: runtime.Bytes
+  hitCount?: number
+  createdAt?: Date | string
+  lastUsedAt?: Date | string
+}
+
+export type EmbeddingCacheUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
+  embedding?: Prisma.BytesFieldUpdateOperationsInput | runtime.Bytes
+  hitCount?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastUsedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EmbeddingCacheUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
+  embedding?: Prisma.BytesFieldUpdateOperationsInput | runtime.Bytes
+  hitCount?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastUsedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EmbeddingCacheContentHashEmbeddingModelCompoundUniqueInput = {
+  contentHash: string
+  embeddingModel: string
+}
+
+export type EmbeddingCacheCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrder
+  embedding?: Prisma.SortOrder
+  hitCount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrder
+}
+
+export type EmbeddingCacheAvgOrderByAggregateInput = {
+  hitCount?: Prisma.SortOrder
+}
+
+export type EmbeddingCacheMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrder
+  embedding?: Prisma.SortOrder
+  hitCount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrder
+}
+
+export type EmbeddingCacheMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrder
+  embedding?: Prisma.SortOrder
+  hitCount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrder
+}
+
+export type EmbeddingCacheSumOrderByAggregateInput = {
+  hitCount?: Prisma.SortOrder
+}
+
+export type BytesFieldUpdateOperationsInput = {
+  set?: runtime.Bytes
+}
+
+
+
+export type EmbeddingCacheSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  contentHash?: boolean
+  embeddingModel?: boolean
+  embedding?: boolean
+  hitCount?: boolean
+  createdAt?: boolean
+  lastUsedAt?: boolean
+}, ExtArgs["result"]["embeddingCache"]>
+
+export type EmbeddingCacheSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  contentHash?: boolean
+  embeddingModel?: boolean
+  embedding?: boolean
+  hitCount?: boolean
+  createdAt?: boolean
+  lastUsedAt?: boolean
+}, ExtArgs["result"]["embeddingCache"]>
+
+export type EmbeddingCacheSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  contentHash?: boolean
+  embeddingModel?: boolean
+  embedding?: boolean
+  hitCount?: boolean
+  createdAt?: boolean
+  lastUsedAt?: boolean
+}, ExtArgs["result"]["embeddingCache"]>
+
+export type EmbeddingCacheSelectScalar = {
+  id?: boolean
+  contentHash?: boolean
+  embeddingModel?: boolean
+  embedding?: boolean
+  hitCount?: boolean
+  createdAt?: boolean
+  lastUsedAt?: boolean
+}
+
+export type EmbeddingCacheOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "contentHash" | "embeddingModel" | "embedding" | "hitCount" | "createdAt" | "lastUsedAt", ExtArgs["result"]["embeddingCache"]>
+
+export type $EmbeddingCachePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "EmbeddingCache"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    contentHash: string
+    embeddingModel: string
+    embedding: runtime.Bytes
+    hitCount: number
+    createdAt: Date
+    lastUsedAt: Date
+  }, ExtArgs["result"]["embeddingCache"]>
+  composites: {}
+}
+
+export type EmbeddingCacheGetPayload<S extends boolean | null | undefined | EmbeddingCacheDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$EmbeddingCachePayload, S>
+
+export type EmbeddingCacheCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<EmbeddingCacheFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: EmbeddingCacheCountAggregateInputType | true
+  }
+
+export interface EmbeddingCacheDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['EmbeddingCache'], meta: { name: 'EmbeddingCache' } }
+  /**
+   * Find zero or one EmbeddingCache that matches the filter.
+   * @param {EmbeddingCacheFindUniqueArgs} args - Arguments to find a EmbeddingCache
+   * @example
+   * // Get one EmbeddingCache
+   * const embeddingCache = await prisma.embeddingCache.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends EmbeddingCacheFindUniqueArgs>(args: Prisma.SelectSubset<T, EmbeddingCacheFindUniqueArgs<ExtArgs>>): Prisma.Prisma__EmbeddingCacheClient<runtime.Types.Result.GetResult<Prisma.$EmbeddingCachePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one EmbeddingCache that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {EmbeddingCacheFindUniqueOrThrowArgs} args - Arguments to find a EmbeddingCache
+   * @example
+   * // Get one EmbeddingCache
+   * const embeddingCache = await prisma.embeddingCache.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends EmbeddingCacheFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, EmbeddingCacheFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__EmbeddingCacheClient<runtime.Types.Result.GetResult<Prisma.$EmbeddingCachePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first EmbeddingCache that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmbeddingCacheFindFirstArgs} args - Arguments to find a EmbeddingCache
+   * @example
+   * // Get one EmbeddingCache
+   * const embeddingCache = await prisma.embeddingCache.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends EmbeddingCacheFindFirstArgs>(args?: Prisma.SelectSubset<T, EmbeddingCacheFindFirstArgs<ExtArgs>>): Prisma.Prisma__EmbeddingCacheClient<runtime.Types.Result.GetResult<Prisma.$EmbeddingCachePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first EmbeddingCache that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmbeddingCacheFindFirstOrThrowArgs} args - Arguments to find a EmbeddingCache
+   * @example
+   * // Get one EmbeddingCache
+   * const embeddingCache = await prisma.embeddingCache.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends EmbeddingCacheFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, EmbeddingCacheFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__EmbeddingCacheClient<runtime.Types.Result.GetResult<Prisma.$EmbeddingCachePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more EmbeddingCaches that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmbeddingCacheFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all EmbeddingCaches
+   * const embeddingCaches = await prisma.embeddingCache.findMany()
+   * 
+   * // Get first 10 EmbeddingCaches
+   * const embeddingCaches = await prisma.embeddingCache.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const embeddingCacheWithIdOnly = await prisma.embeddingCache.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends EmbeddingCacheFindManyArgs>(args?: Prisma.SelectSubset<T, EmbeddingCacheFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EmbeddingCachePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a EmbeddingCache.
+   * @param {EmbeddingCacheCreateArgs} args - Arguments to create a EmbeddingCache.
+   * @example
+   * // Create one EmbeddingCache
+   * const EmbeddingCache = await prisma.embeddingCache.create({
+   *   data: {
+   *     // ... data to create a EmbeddingCache
+   *   }
+   * })
+   * 
+   */
+  create<T extends EmbeddingCacheCreateArgs>(args: Prisma.SelectSubset<T, EmbeddingCacheCreateArgs<ExtArgs>>): Prisma.Prisma__EmbeddingCacheClient<runtime.Types.Result.GetResult<Prisma.$EmbeddingCachePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many EmbeddingCaches.
+   * @param {EmbeddingCacheCreateManyArgs} args - Arguments to create many EmbeddingCaches.
+   * @example
+   * // Create many EmbeddingCaches
+   * const embeddingCache = await prisma.embeddingCache.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends EmbeddingCacheCreateManyArgs>(args?: Prisma.SelectSubset<T, EmbeddingCacheCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many EmbeddingCaches and returns the data saved in the database.
+   * @param {EmbeddingCacheCreateManyAndReturnArgs} args - Arguments to create many EmbeddingCaches.
+   * @example
+   * // Create many EmbeddingCaches
+   * const embeddingCache = await prisma.embeddingCache.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many EmbeddingCaches and only return the `id`
+   * const embeddingCacheWithIdOnly = await prisma.embeddingCache.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends EmbeddingCacheCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, EmbeddingCacheCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EmbeddingCachePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a EmbeddingCache.
+   * @param {EmbeddingCacheDeleteArgs} args - Arguments to delete one EmbeddingCache.
+   * @example
+   * // Delete one EmbeddingCache
+   * const EmbeddingCache = await prisma.embeddingCache.delete({
+   *   where: {
+   *     // ... filter to delete one EmbeddingCache
+   *   }
+   * })
+   * 
+   */
+  delete<T extends EmbeddingCacheDeleteArgs>(args: Prisma.SelectSubset<T, EmbeddingCacheDeleteArgs<ExtArgs>>): Prisma.Prisma__EmbeddingCacheClient<runtime.Types.Result.GetResult<Prisma.$EmbeddingCachePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one EmbeddingCache.
+   * @param {EmbeddingCacheUpdateArgs} args - Arguments to update one EmbeddingCache.
+   * @example
+   * // Update one EmbeddingCache
+   * const embeddingCache = await prisma.embeddingCache.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends EmbeddingCacheUpdateArgs>(args: Prisma.SelectSubset<T, EmbeddingCacheUpdateArgs<ExtArgs>>): Prisma.Prisma__EmbeddingCacheClient<runtime.Types.Result.GetResult<Prisma.$EmbeddingCachePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more EmbeddingCaches.
+   * @param {EmbeddingCacheDeleteManyArgs} args - Arguments to filter EmbeddingCaches to delete.
+   * @example
+   * // Delete a few EmbeddingCaches
+   * const { count } = await prisma.embeddingCache.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends EmbeddingCacheDeleteManyArgs>(args?: Prisma.SelectSubset<T, EmbeddingCacheDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more EmbeddingCaches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmbeddingCacheUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many EmbeddingCaches
+   * const embeddingCache = await prisma.embeddingCache.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends EmbeddingCacheUpdateManyArgs>(args: Prisma.SelectSubset<T, EmbeddingCacheUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more EmbeddingCaches and returns the data updated in the database.
+   * @param {EmbeddingCacheUpdateManyAndReturnArgs} args - Arguments to update many EmbeddingCaches.
+   * @example
+   * // Update many EmbeddingCaches
+   * const embeddingCache = await prisma.embeddingCache.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more EmbeddingCaches and only return the `id`
+   * const embeddingCacheWithIdOnly = await prisma.embeddingCache.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends EmbeddingCacheUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, EmbeddingCacheUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EmbeddingCachePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one EmbeddingCache.
+   * @param {EmbeddingCacheUpsertArgs} args - Arguments to update or create a EmbeddingCache.
+   * @example
+   * // Update or create a EmbeddingCache
+   * const embeddingCache = await prisma.embeddingCache.upsert({
+   *   create: {
+   *     // ... data to create a EmbeddingCache
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the EmbeddingCache we want to update
+   *   }
+   * })
+   */
+  upsert<T extends EmbeddingCacheUpsertArgs>(args: Prisma.SelectSubset<T, EmbeddingCacheUpsertArgs<ExtArgs>>): Prisma.Prisma__EmbeddingCacheClient<runtime.Types.Result.GetResult<Prisma.$EmbeddingCachePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of EmbeddingCaches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmbeddingCacheCountArgs} args - Arguments to filter EmbeddingCaches to count.
+   * @example
+   * // Count the number of EmbeddingCaches
+   * const count = await prisma.embeddingCache.count({
+   *   where: {
+   *     // ... the filter for the EmbeddingCaches we want to count
+   *   }
+   * })
+  **/
+  count<T extends EmbeddingCacheCountArgs>(
+    args?: Prisma.Subset<T, EmbeddingCacheCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], EmbeddingCacheCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a EmbeddingCache.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmbeddingCacheAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends EmbeddingCacheAggregateArgs>(args: Prisma.Subset<T, EmbeddingCacheAggregateArgs>): Prisma.PrismaPromise<GetEmbeddingCacheAggregateType<T>>
+
+  /**
+   * Group by EmbeddingCache.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmbeddingCacheGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends EmbeddingCacheGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: EmbeddingCacheGroupByArgs['orderBy'] }
+      : { orderBy?: EmbeddingCacheGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, EmbeddingCacheGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetEmbeddingCacheGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the EmbeddingCache model
+ */
+readonly fields: EmbeddingCacheFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for EmbeddingCache.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__EmbeddingCacheClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the EmbeddingCache model
+ */
+export interface EmbeddingCacheFieldRefs {
+  readonly id: Prisma.FieldRef<"EmbeddingCache", 'String'>
+  readonly contentHash: Prisma.FieldRef<"EmbeddingCache", 'String'>
+  readonly embeddingModel: Prisma.FieldRef<"EmbeddingCache", 'String'>
+  readonly embedding: Prisma.FieldRef<"EmbeddingCache", 'Bytes'>
+  readonly hitCount: Prisma.FieldRef<"EmbeddingCache", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"EmbeddingCache", 'DateTime'>
+  readonly lastUsedAt: Prisma.FieldRef<"EmbeddingCache", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * EmbeddingCache findUnique
+ */
+export type EmbeddingCacheFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingCache
+   */
+  select?: Prisma.EmbeddingCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingCache
+   */
+  omit?: Prisma.EmbeddingCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which EmbeddingCache to fetch.
+   */
+  where: Prisma.EmbeddingCacheWhereUniqueInput
+}
+
+/**
+ * EmbeddingCache findUniqueOrThrow
+ */
+export type EmbeddingCacheFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingCache
+   */
+  select?: Prisma.EmbeddingCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingCache
+   */
+  omit?: Prisma.EmbeddingCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which EmbeddingCache to fetch.
+   */
+  where: Prisma.EmbeddingCacheWhereUniqueInput
+}
+
+/**
+ * EmbeddingCache findFirst
+ */
+export type EmbeddingCacheFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingCache
+   */
+  select?: Prisma.EmbeddingCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingCache
+   */
+  omit?: Prisma.EmbeddingCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which EmbeddingCache to fetch.
+   */
+  where?: Prisma.EmbeddingCacheWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EmbeddingCaches to fetch.
+   */
+  orderBy?: Prisma.EmbeddingCacheOrderByWithRelationInput | Prisma.EmbeddingCacheOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for EmbeddingCaches.
+   */
+  cursor?: Prisma.EmbeddingCacheWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EmbeddingCaches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EmbeddingCaches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of EmbeddingCaches.
+   */
+  distinct?: Prisma.EmbeddingCacheScalarFieldEnum | Prisma.EmbeddingCacheScalarFieldEnum[]
+}
+
+/**
+ * EmbeddingCache findFirstOrThrow
+ */
+export type EmbeddingCacheFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingCache
+   */
+  select?: Prisma.EmbeddingCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingCache
+   */
+  omit?: Prisma.EmbeddingCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which EmbeddingCache to fetch.
+   */
+  where?: Prisma.EmbeddingCacheWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EmbeddingCaches to fetch.
+   */
+  orderBy?: Prisma.EmbeddingCacheOrderByWithRelationInput | Prisma.EmbeddingCacheOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for EmbeddingCaches.
+   */
+  cursor?: Prisma.EmbeddingCacheWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EmbeddingCaches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EmbeddingCaches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of EmbeddingCaches.
+   */
+  distinct?: Prisma.EmbeddingCacheScalarFieldEnum | Prisma.EmbeddingCacheScalarFieldEnum[]
+}
+
+/**
+ * EmbeddingCache findMany
+ */
+export type EmbeddingCacheFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingCache
+   */
+  select?: Prisma.EmbeddingCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingCache
+   */
+  omit?: Prisma.EmbeddingCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which EmbeddingCaches to fetch.
+   */
+  where?: Prisma.EmbeddingCacheWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EmbeddingCaches to fetch.
+   */
+  orderBy?: Prisma.EmbeddingCacheOrderByWithRelationInput | Prisma.EmbeddingCacheOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing EmbeddingCaches.
+   */
+  cursor?: Prisma.EmbeddingCacheWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EmbeddingCaches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EmbeddingCaches.
+   */
+  skip?: number
+  distinct?: Prisma.EmbeddingCacheScalarFieldEnum | Prisma.EmbeddingCacheScalarFieldEnum[]
+}
+
+/**
+ * EmbeddingCache create
+ */
+export type EmbeddingCacheCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingCache
+   */
+  select?: Prisma.EmbeddingCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingCache
+   */
+  omit?: Prisma.EmbeddingCacheOmit<ExtArgs> | null
+  /**
+   * The data needed to create a EmbeddingCache.
+   */
+  data: Prisma.XOR<Prisma.EmbeddingCacheCreateInput, Prisma.EmbeddingCacheUncheckedCreateInput>
+}
+
+/**
+ * EmbeddingCache createMany
+ */
+export type EmbeddingCacheCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many EmbeddingCaches.
+   */
+  data: Prisma.EmbeddingCacheCreateManyInput | Prisma.EmbeddingCacheCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * EmbeddingCache createManyAndReturn
+ */
+export type EmbeddingCacheCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingCache
+   */
+  select?: Prisma.EmbeddingCacheSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingCache
+   */
+  omit?: Prisma.EmbeddingCacheOmit<ExtArgs> | null
+  /**
+   * The data used to create many EmbeddingCaches.
+   */
+  data: Prisma.EmbeddingCacheCreateManyInput | Prisma.EmbeddingCacheCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * EmbeddingCache update
+ */
+export type EmbeddingCacheUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingCache
+   */
+  select?: Prisma.EmbeddingCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingCache
+   */
+  omit?: Prisma.EmbeddingCacheOmit<ExtArgs> | null
+  /**
+   * The data needed to update a EmbeddingCache.
+   */
+  data: Prisma.XOR<Prisma.EmbeddingCacheUpdateInput, Prisma.EmbeddingCacheUncheckedUpdateInput>
+  /**
+   * Choose, which EmbeddingCache to update.
+   */
+  where: Prisma.EmbeddingCacheWhereUniqueInput
+}
+
+/**
+ * EmbeddingCache updateMany
+ */
+export type EmbeddingCacheUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update EmbeddingCaches.
+   */
+  data: Prisma.XOR<Prisma.EmbeddingCacheUpdateManyMutationInput, Prisma.EmbeddingCacheUncheckedUpdateManyInput>
+  /**
+   * Filter which EmbeddingCaches to update
+   */
+  where?: Prisma.EmbeddingCacheWhereInput
+  /**
+   * Limit how many EmbeddingCaches to update.
+   */
+  limit?: number
+}
+
+/**
+ * EmbeddingCache updateManyAndReturn
+ */
+export type EmbeddingCacheUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingCache
+   */
+  select?: Prisma.EmbeddingCacheSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingCache
+   */
+  omit?: Prisma.EmbeddingCacheOmit<ExtArgs> | null
+  /**
+   * The data used to update EmbeddingCaches.
+   */
+  data: Prisma.XOR<Prisma.EmbeddingCacheUpdateManyMutationInput, Prisma.EmbeddingCacheUncheckedUpdateManyInput>
+  /**
+   * Filter which EmbeddingCaches to update
+   */
+  where?: Prisma.EmbeddingCacheWhereInput
+  /**
+   * Limit how many EmbeddingCaches to update.
+   */
+  limit?: number
+}
+
+/**
+ * EmbeddingCache upsert
+ */
+export type EmbeddingCacheUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingCache
+   */
+  select?: Prisma.EmbeddingCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingCache
+   */
+  omit?: Prisma.EmbeddingCacheOmit<ExtArgs> | null
+  /**
+   * The filter to search for the EmbeddingCache to update in case it exists.
+   */
+  where: Prisma.EmbeddingCacheWhereUniqueInput
+  /**
+   * In case the EmbeddingCache found by the `where` argument doesn't exist, create a new EmbeddingCache with this data.
+   */
+  create: Prisma.XOR<Prisma.EmbeddingCacheCreateInput, Prisma.EmbeddingCacheUncheckedCreateInput>
+  /**
+   * In case the EmbeddingCache was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.EmbeddingCacheUpdateInput, Prisma.EmbeddingCacheUncheckedUpdateInput>
+}
+
+/**
+ * EmbeddingCache delete
+ */
+export type EmbeddingCacheDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingCache
+   */
+  select?: Prisma.EmbeddingCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingCache
+   */
+  omit?: Prisma.EmbeddingCacheOmit<ExtArgs> | null
+  /**
+   * Filter which EmbeddingCache to delete.
+   */
+  where: Prisma.EmbeddingCacheWhereUniqueInput
+}
+
+/**
+ * EmbeddingCache deleteMany
+ */
+export type EmbeddingCacheDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which EmbeddingCaches to delete
+   */
+  where?: Prisma.EmbeddingCacheWhereInput
+  /**
+   * Limit how many EmbeddingCaches to delete.
+   */
+  limit?: number
+}
+
+/**
+ * EmbeddingCache without action
+ */
+export type EmbeddingCacheDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingCache
+   */
+  select?: Prisma.EmbeddingCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingCache
+   */
+  omit?: Prisma.EmbeddingCacheOmit<ExtArgs> | null
+}
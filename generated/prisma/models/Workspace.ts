@@ -220,6 +220,7 @@ export type WorkspaceWhereInput = {
   deletedAt?: Prisma.DateTimeNullableFilter<"Workspace"> | Date | string | null
   members?: Prisma.WorkspaceMemberListRelationFilter
   documents?: Prisma.DocumentListRelationFilter
+  archiveUploads?: Prisma.ArchiveUploadListRelationFilter
   queries?: Prisma.QueryListRelationFilter
   auditLogs?: Prisma.AuditLogListRelationFilter
 }
@@ -237,6 +238,7 @@ export type WorkspaceOrderByWithRelationInput = {
   deletedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   members?: Prisma.WorkspaceMemberOrderByRelationAggregateInput
   documents?: Prisma.DocumentOrderByRelationAggregateInput
+  archiveUploads?: Prisma.ArchiveUploadOrderByRelationAggregateInput
   queries?: Prisma.QueryOrderByRelationAggregateInput
   auditLogs?: Prisma.AuditLogOrderByRelationAggregateInput
 }
@@ -257,6 +259,7 @@ export type WorkspaceWhereUniqueInput = Prisma.AtLeast<{
   deletedAt?: Prisma.DateTimeNullableFilter<"Workspace"> | Date | string | null
   members?: Prisma.WorkspaceMemberListRelationFilter
   documents?: Prisma.DocumentListRelationFilter
+  archiveUploads?: Prisma.ArchiveUploadListRelationFilter
   queries?: Prisma.QueryListRelationFilter
   auditLogs?: Prisma.AuditLogListRelationFilter
 }, "id" | "slug">
@@ -306,6 +309,7 @@ export type WorkspaceCreateInput = {
   deletedAt?: Date | string | null
   members?: Prisma.WorkspaceMemberCreateNestedManyWithoutWorkspaceInput
   documents?: Prisma.DocumentCreateNestedManyWithoutWorkspaceInput
+  archiveUploads?: Prisma.ArchiveUploadCreateNestedManyWithoutWorkspaceInput
   queries?: Prisma.QueryCreateNestedManyWithoutWorkspaceInput
   auditLogs?: Prisma.AuditLogCreateNestedManyWithoutWorkspaceInput
 }
@@ -323,6 +327,7 @@ export type WorkspaceUncheckedCreateInput = {
   deletedAt?: Date | string | null
   members?: Prisma.WorkspaceMemberUncheckedCreateNestedManyWithoutWorkspaceInput
   documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutWorkspaceInput
+  archiveUploads?: Prisma.ArchiveUploadUncheckedCreateNestedManyWithoutWorkspaceInput
   queries?: Prisma.QueryUncheckedCreateNestedManyWithoutWorkspaceInput
   auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutWorkspaceInput
 }
@@ -340,6 +345,7 @@ export type WorkspaceUpdateInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   members?: Prisma.WorkspaceMemberUpdateManyWithoutWorkspaceNestedInput
   documents?: Prisma.DocumentUpdateManyWithoutWorkspaceNestedInput
+  archiveUploads?: Prisma.ArchiveUploadUpdateManyWithoutWorkspaceNestedInput
   queries?: Prisma.QueryUpdateManyWithoutWorkspaceNestedInput
   auditLogs?: Prisma.AuditLogUpdateManyWithoutWorkspaceNestedInput
 }
@@ -357,6 +363,7 @@ export type WorkspaceUncheckedUpdateInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   members?: Prisma.WorkspaceMemberUncheckedUpdateManyWithoutWorkspaceNestedInput
   documents?: Prisma.DocumentUncheckedUpdateManyWithoutWorkspaceNestedInput
+  archiveUploads?: Prisma.ArchiveUploadUncheckedUpdateManyWithoutWorkspaceNestedInput
   queries?: Prisma.QueryUncheckedUpdateManyWithoutWorkspaceNestedInput
   auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutWorkspaceNestedInput
 }
@@ -475,6 +482,20 @@ export type WorkspaceUpdateOneRequiredWithoutDocumentsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.WorkspaceUpdateToOneWithWhereWithoutDocumentsInput, Prisma.WorkspaceUpdateWithoutDocumentsInput>, Prisma.WorkspaceUncheckedUpdateWithoutDocumentsInput>
 }
 
+export type WorkspaceCreateNestedOneWithoutArchiveUploadsInput = {
+  create?: Prisma.XOR<Prisma.WorkspaceCreateWithoutArchiveUploadsInput, Prisma.WorkspaceUncheckedCreateWithoutArchiveUploadsInput>
+  connectOrCreate?: Prisma.WorkspaceCreateOrConnectWithoutArchiveUploadsInput
+  connect?: Prisma.WorkspaceWhereUniqueInput
+}
+
+export type WorkspaceUpdateOneRequiredWithoutArchiveUploadsNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkspaceCreateWithoutArchiveUploadsInput, Prisma.WorkspaceUncheckedCreateWithoutArchiveUploadsInput>
+  connectOrCreate?: Prisma.WorkspaceCreateOrConnectWithoutArchiveUploadsInput
+  upsert?: Prisma.WorkspaceUpsertWithoutArchiveUploadsInput
+  connect?: Prisma.WorkspaceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WorkspaceUpdateToOneWithWhereWithoutArchiveUploadsInput, Prisma.WorkspaceUpdateWithoutArchiveUploadsInput>, Prisma.WorkspaceUncheckedUpdateWithoutArchiveUploadsInput>
+}
+
 export type WorkspaceCreateNestedOneWithoutQueriesInput = {
   create?: Prisma.XOR<Prisma.WorkspaceCreateWithoutQueriesInput, Prisma.WorkspaceUncheckedCreateWithoutQueriesInput>
   connectOrCreate?: Prisma.WorkspaceCreateOrConnectWithoutQueriesInput
@@ -517,6 +538,7 @@ export type WorkspaceCreateWithoutMembersInput = {
   updatedAt?: Date | string
   deletedAt?: Date | string | null
   documents?: Prisma.DocumentCreateNestedManyWithoutWorkspaceInput
+  archiveUploads?: Prisma.ArchiveUploadCreateNestedManyWithoutWorkspaceInput
   queries?: Prisma.QueryCreateNestedManyWithoutWorkspaceInput
   auditLogs?: Prisma.AuditLogCreateNestedManyWithoutWorkspaceInput
 }
@@ -533,6 +555,7 @@ export type WorkspaceUncheckedCreateWithoutMembersInput = {
   updatedAt?: Date | string
   deletedAt?: Date | string | null
   documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutWorkspaceInput
+  archiveUploads?: Prisma.ArchiveUploadUncheckedCreateNestedManyWithoutWorkspaceInput
   queries?: Prisma.QueryUncheckedCreateNestedManyWithoutWorkspaceInput
   auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutWorkspaceInput
 }
@@ -565,6 +588,7 @@ export type WorkspaceUpdateWithoutMembersInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   documents?: Prisma.DocumentUpdateManyWithoutWorkspaceNestedInput
+  archiveUploads?: Prisma.ArchiveUploadUpdateManyWithoutWorkspaceNestedInput
   queries?: Prisma.QueryUpdateManyWithoutWorkspaceNestedInput
   auditLogs?: Prisma.AuditLogUpdateManyWithoutWorkspaceNestedInput
 }
@@ -581,6 +605,7 @@ export type WorkspaceUncheckedUpdateWithoutMembersInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   documents?: Prisma.DocumentUncheckedUpdateManyWithoutWorkspaceNestedInput
+  archiveUploads?: Prisma.ArchiveUploadUncheckedUpdateManyWithoutWorkspaceNestedInput
   queries?: Prisma.QueryUncheckedUpdateManyWithoutWorkspaceNestedInput
   auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutWorkspaceNestedInput
 }
@@ -597,6 +622,7 @@ export type WorkspaceCreateWithoutDocumentsInput = {
   updatedAt?: Date | string
   deletedAt?: Date | string | null
   members?: Prisma.WorkspaceMemberCreateNestedManyWithoutWorkspaceInput
+  archiveUploads?: Prisma.ArchiveUploadCreateNestedManyWithoutWorkspaceInput
   queries?: Prisma.QueryCreateNestedManyWithoutWorkspaceInput
   auditLogs?: Prisma.AuditLogCreateNestedManyWithoutWorkspaceInput
 }
@@ -613,6 +639,7 @@ export type WorkspaceUncheckedCreateWithoutDocumentsInput = {
   updatedAt?: Date | string
   deletedAt?: Date | string | null
   members?: Prisma.WorkspaceMemberUncheckedCreateNestedManyWithoutWorkspaceInput
+  archiveUploads?: Prisma.ArchiveUploadUncheckedCreateNestedManyWithoutWorkspaceInput
   queries?: Prisma.QueryUncheckedCreateNestedManyWithoutWorkspaceInput
   auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutWorkspaceInput
 }
@@ -645,6 +672,7 @@ export type WorkspaceUpdateWithoutDocumentsInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   members?: Prisma.WorkspaceMemberUpdateManyWithoutWorkspaceNestedInput
+  archiveUploads?: Prisma.ArchiveUploadUpdateManyWithoutWorkspaceNestedInput
   queries?: Prisma.QueryUpdateManyWithoutWorkspaceNestedInput
   auditLogs?: Prisma.AuditLogUpdateManyWithoutWorkspaceNestedInput
 }
@@ -661,6 +689,91 @@ export type WorkspaceUncheckedUpdateWithoutDocumentsInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   members?: Prisma.WorkspaceMemberUncheckedUpdateManyWithoutWorkspaceNestedInput
+  archiveUploads?: Prisma.ArchiveUploadUncheckedUpdateManyWithoutWorkspaceNestedInput
+  queries?: Prisma.QueryUncheckedUpdateManyWithoutWorkspaceNestedInput
+  auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutWorkspaceNestedInput
+}
+
+export type WorkspaceCreateWithoutArchiveUploadsInput = {
+  id?: string
+  name: string
+  slug: string
+  description?: string | null
+  logo?: string | null
+  isActive?: boolean
+  settings?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  members?: Prisma.WorkspaceMemberCreateNestedManyWithoutWorkspaceInput
+  documents?: Prisma.DocumentCreateNestedManyWithoutWorkspaceInput
+  queries?: Prisma.QueryCreateNestedManyWithoutWorkspaceInput
+  auditLogs?: Prisma.AuditLogCreateNestedManyWithoutWorkspaceInput
+}
+
+export type WorkspaceUncheckedCreateWithoutArchiveUploadsInput = {
+  id?: string
+  name: string
+  slug: string
+  description?: string | null
+  logo?: string | null
+  isActive?: boolean
+  settings?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  members?: Prisma.WorkspaceMemberUncheckedCreateNestedManyWithoutWorkspaceInput
+  documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutWorkspaceInput
+  queries?: Prisma.QueryUncheckedCreateNestedManyWithoutWorkspaceInput
+  auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutWorkspaceInput
+}
+
+export type WorkspaceCreateOrConnectWithoutArchiveUploadsInput = {
+  where: Prisma.WorkspaceWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkspaceCreateWithoutArchiveUploadsInput, Prisma.WorkspaceUncheckedCreateWithoutArchiveUploadsInput>
+}
+
+export type WorkspaceUpsertWithoutArchiveUploadsInput = {
+  update: Prisma.XOR<Prisma.WorkspaceUpdateWithoutArchiveUploadsInput, Prisma.WorkspaceUncheckedUpdateWithoutArchiveUploadsInput>
+  create: Prisma.XOR<Prisma.WorkspaceCreateWithoutArchiveUploadsInput, Prisma.WorkspaceUncheckedCreateWithoutArchiveUploadsInput>
+  where?: Prisma.WorkspaceWhereInput
+}
+
+export type WorkspaceUpdateToOneWithWhereWithoutArchiveUploadsInput = {
+  where?: Prisma.WorkspaceWhereInput
+  data: Prisma.XOR<Prisma.WorkspaceUpdateWithoutArchiveUploadsInput, Prisma.WorkspaceUncheckedUpdateWithoutArchiveUploadsInput>
+}
+
+export type WorkspaceUpdateWithoutArchiveUploadsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  settings?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  members?: Prisma.WorkspaceMemberUpdateManyWithoutWorkspaceNestedInput
+  documents?: Prisma.DocumentUpdateManyWithoutWorkspaceNestedInput
+  queries?: Prisma.QueryUpdateManyWithoutWorkspaceNestedInput
+  auditLogs?: Prisma.AuditLogUpdateManyWithoutWorkspaceNestedInput
+}
+
+export type WorkspaceUncheckedUpdateWithoutArchiveUploadsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  settings?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  members?: Prisma.WorkspaceMemberUncheckedUpdateManyWithoutWorkspaceNestedInput
+  documents?: Prisma.DocumentUncheckedUpdateManyWithoutWorkspaceNestedInput
   queries?: Prisma.QueryUncheckedUpdateManyWithoutWorkspaceNestedInput
   auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutWorkspaceNestedInput
 }
@@ -678,6 +791,7 @@ export type WorkspaceCreateWithoutQueriesInput = {
   deletedAt?: Date | string | null
   members?: Prisma.WorkspaceMemberCreateNestedManyWithoutWorkspaceInput
   documents?: Prisma.DocumentCreateNestedManyWithoutWorkspaceInput
+  archiveUploads?: Prisma.ArchiveUploadCreateNestedManyWithoutWorkspaceInput
   auditLogs?: Prisma.AuditLogCreateNestedManyWithoutWorkspaceInput
 }
 
@@ -694,6 +808,7 @@ export type WorkspaceUncheckedCreateWithoutQueriesInput = {
   deletedAt?: Date | string | null
   members?: Prisma.WorkspaceMemberUncheckedCreateNestedManyWithoutWorkspaceInput
   documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutWorkspaceInput
+  archiveUploads?: Prisma.ArchiveUploadUncheckedCreateNestedManyWithoutWorkspaceInput
   auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutWorkspaceInput
 }
 
@@ -726,6 +841,7 @@ export type WorkspaceUpdateWithoutQueriesInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   members?: Prisma.WorkspaceMemberUpdateManyWithoutWorkspaceNestedInput
   documents?: Prisma.DocumentUpdateManyWithoutWorkspaceNestedInput
+  archiveUploads?: Prisma.ArchiveUploadUpdateManyWithoutWorkspaceNestedInput
   auditLogs?: Prisma.AuditLogUpdateManyWithoutWorkspaceNestedInput
 }
 
@@ -742,6 +858,7 @@ export type WorkspaceUncheckedUpdateWithoutQueriesInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   members?: Prisma.WorkspaceMemberUncheckedUpdateManyWithoutWorkspaceNestedInput
   documents?: Prisma.DocumentUncheckedUpdateManyWithoutWorkspaceNestedInput
+  archiveUploads?: Prisma.ArchiveUploadUncheckedUpdateManyWithoutWorkspaceNestedInput
   auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutWorkspaceNestedInput
 }
 
@@ -758,6 +875,7 @@ export type WorkspaceCreateWithoutAuditLogsInput = {
   deletedAt?: Date | string | null
   members?: Prisma.WorkspaceMemberCreateNestedManyWithoutWorkspaceInput
   documents?: Prisma.DocumentCreateNestedManyWithoutWorkspaceInput
+  archiveUploads?: Prisma.ArchiveUploadCreateNestedManyWithoutWorkspaceInput
   queries?: Prisma.QueryCreateNestedManyWithoutWorkspaceInput
 }
 
@@ -774,6 +892,7 @@ export type WorkspaceUncheckedCreateWithoutAuditLogsInput = {
   deletedAt?: Date | string | null
   members?: Prisma.WorkspaceMemberUncheckedCreateNestedManyWithoutWorkspaceInput
   documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutWorkspaceInput
+  archiveUploads?: Prisma.ArchiveUploadUncheckedCreateNestedManyWithoutWorkspaceInput
   queries?: Prisma.QueryUncheckedCreateNestedManyWithoutWorkspaceInput
 }
 
@@ -806,6 +925,7 @@ export type WorkspaceUpdateWithoutAuditLogsInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   members?: Prisma.WorkspaceMemberUpdateManyWithoutWorkspaceNestedInput
   documents?: Prisma.DocumentUpdateManyWithoutWorkspaceNestedInput
+  archiveUploads?: Prisma.ArchiveUploadUpdateManyWithoutWorkspaceNestedInput
   queries?: Prisma.QueryUpdateManyWithoutWorkspaceNestedInput
 }
 
@@ -822,6 +942,7 @@ export type WorkspaceUncheckedUpdateWithoutAuditLogsInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   members?: Prisma.WorkspaceMemberUncheckedUpdateManyWithoutWorkspaceNestedInput
   documents?: Prisma.DocumentUncheckedUpdateManyWithoutWorkspaceNestedInput
+  archiveUploads?: Prisma.ArchiveUploadUncheckedUpdateManyWithoutWorkspaceNestedInput
   queries?: Prisma.QueryUncheckedUpdateManyWithoutWorkspaceNestedInput
 }
 
@@ -833,6 +954,7 @@ export type WorkspaceUncheckedUpdateWithoutAuditLogsInput = {
 export type WorkspaceCountOutputType = {
   members: number
   documents: number
+  archiveUploads: number
   queries: number
   auditLogs: number
 }
@@ -840,6 +962,7 @@ export type WorkspaceCountOutputType = {
 export type WorkspaceCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   members?: boolean | WorkspaceCountOutputTypeCountMembersArgs
   documents?: boolean | WorkspaceCountOutputTypeCountDocumentsArgs
+  archiveUploads?: boolean | WorkspaceCountOutputTypeCountArchiveUploadsArgs
   queries?: boolean | WorkspaceCountOutputTypeCountQueriesArgs
   auditLogs?: boolean | WorkspaceCountOutputTypeCountAuditLogsArgs
 }
@@ -868,6 +991,13 @@ export type WorkspaceCountOutputTypeCountDocumentsArgs<ExtArgs extends runtime.T
   where?: Prisma.DocumentWhereInput
 }
 
+/**
+ * WorkspaceCountOutputType without action
+ */
+export type WorkspaceCountOutputTypeCountArchiveUploadsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ArchiveUploadWhereInput
+}
+
 /**
  * WorkspaceCountOutputType without action
  */
@@ -896,6 +1026,7 @@ export type WorkspaceSelect<ExtArgs extends runtime.Types.Extensions.InternalArg
   deletedAt?: boolean
   members?: boolean | Prisma.Workspace$membersArgs<ExtArgs>
   documents?: boolean | Prisma.Workspace$documentsArgs<ExtArgs>
+  archiveUploads?: boolean | Prisma.Workspace$archiveUploadsArgs<ExtArgs>
   queries?: boolean | Prisma.Workspace$queriesArgs<ExtArgs>
   auditLogs?: boolean | Prisma.Workspace$auditLogsArgs<ExtArgs>
   _count?: boolean | Prisma.WorkspaceCountOutputTypeDefaultArgs<ExtArgs>
@@ -944,6 +1075,7 @@ export type WorkspaceOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs
 export type WorkspaceInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   members?: boolean | Prisma.Workspace$membersArgs<ExtArgs>
   documents?: boolean | Prisma.Workspace$documentsArgs<ExtArgs>
+  archiveUploads?: boolean | Prisma.Workspace$archiveUploadsArgs<ExtArgs>
   queries?: boolean | Prisma.Workspace$queriesArgs<ExtArgs>
   auditLogs?: boolean | Prisma.Workspace$auditLogsArgs<ExtArgs>
   _count?: boolean | Prisma.WorkspaceCountOutputTypeDefaultArgs<ExtArgs>
@@ -956,6 +1088,7 @@ export type $WorkspacePayload<ExtArgs extends runtime.Types.Extensions.InternalA
   objects: {
     members: Prisma.$WorkspaceMemberPayload<ExtArgs>[]
     documents: Prisma.$DocumentPayload<ExtArgs>[]
+    archiveUploads: Prisma.$ArchiveUploadPayload<ExtArgs>[]
     queries: Prisma.$QueryPayload<ExtArgs>[]
     auditLogs: Prisma.$AuditLogPayload<ExtArgs>[]
   }
@@ -1366,6 +1499,7 @@ export interface Prisma__WorkspaceClient<T, Null = never, ExtArgs extends runtim
   readonly [Symbol.toStringTag]: "PrismaPromise"
   members<T extends Prisma.Workspace$membersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Workspace$membersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkspaceMemberPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   documents<T extends Prisma.Workspace$documentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Workspace$documentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  archiveUploads<T extends Prisma.Workspace$archiveUploadsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Workspace$archiveUploadsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ArchiveUploadPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   queries<T extends Prisma.Workspace$queriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Workspace$queriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$QueryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   auditLogs<T extends Prisma.Workspace$auditLogsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Workspace$auditLogsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AuditLogPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
@@ -1842,6 +1976,30 @@ export type Workspace$documentsArgs<ExtArgs extends runtime.Types.Extensions.Int
   distinct?: Prisma.DocumentScalarFieldEnum | Prisma.DocumentScalarFieldEnum[]
 }
 
+/**
+ * Workspace.archiveUploads
+ */
+export type Workspace$archiveUploadsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ArchiveUpload
+   */
+  select?: Prisma.ArchiveUploadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ArchiveUpload
+   */
+  omit?: Prisma.ArchiveUploadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ArchiveUploadInclude<ExtArgs> | null
+  where?: Prisma.ArchiveUploadWhereInput
+  orderBy?: Prisma.ArchiveUploadOrderByWithRelationInput | Prisma.ArchiveUploadOrderByWithRelationInput[]
+  cursor?: Prisma.ArchiveUploadWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ArchiveUploadScalarFieldEnum | Prisma.ArchiveUploadScalarFieldEnum[]
+}
+
 /**
  * Workspace.queries
  */
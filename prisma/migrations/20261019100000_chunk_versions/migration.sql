@@ -0,0 +1,14 @@
+-- DropIndex
+DROP INDEX "chunks_documentId_chunkIndex_key";
+
+-- AlterTable
+ALTER TABLE "chunks" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN     "indexVersion" INTEGER NOT NULL DEFAULT 0;
+
+-- Existing chunks become version 1 of their document
+UPDATE "documents" SET "indexVersion" = 1 WHERE "id" IN (SELECT DISTINCT "documentId" FROM "chunks");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chunks_documentId_version_chunkIndex_key" ON "chunks"("documentId", "version", "chunkIndex");
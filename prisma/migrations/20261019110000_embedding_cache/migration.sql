@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "embedding_cache" (
+    "id" TEXT NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "embeddingModel" TEXT NOT NULL,
+    "embedding" BYTEA NOT NULL,
+    "hitCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "embedding_cache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "embedding_cache_embeddingModel_idx" ON "embedding_cache"("embeddingModel");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "embedding_cache_contentHash_embeddingModel_key" ON "embedding_cache"("contentHash", "embeddingModel");
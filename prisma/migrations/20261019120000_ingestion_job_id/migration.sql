@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN     "ingestionJobId" TEXT;
+
+-- Uploads queued before this column existed used the document ID as their job ID
+UPDATE "documents" SET "ingestionJobId" = "id" WHERE "ingestionStatus" NOT IN ('COMPLETED', 'FAILED');
@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "DocumentType" ADD VALUE 'HTML' BEFORE 'OTHER';
+ALTER TYPE "DocumentType" ADD VALUE 'EMAIL' BEFORE 'OTHER';
+ALTER TYPE "DocumentType" ADD VALUE 'RTF' BEFORE 'OTHER';
+ALTER TYPE "DocumentType" ADD VALUE 'JSON' BEFORE 'OTHER';
+
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN     "parentDocumentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "documents_parentDocumentId_idx" ON "documents"("parentDocumentId");
+
+-- AddForeignKey
+ALTER TABLE "documents" ADD CONSTRAINT "documents_parentDocumentId_fkey" FOREIGN KEY ("parentDocumentId") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
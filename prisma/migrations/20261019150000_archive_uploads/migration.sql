@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "ArchiveStatus" AS ENUM ('PENDING', 'EXPANDING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN     "archiveUploadId" TEXT,
+ADD COLUMN     "folder" TEXT;
+
+-- CreateTable
+CREATE TABLE "archive_uploads" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "uploadedById" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "s3Key" TEXT NOT NULL,
+    "size" BIGINT NOT NULL,
+    "status" "ArchiveStatus" NOT NULL DEFAULT 'PENDING',
+    "entryCount" INTEGER NOT NULL DEFAULT 0,
+    "documentCount" INTEGER NOT NULL DEFAULT 0,
+    "skippedEntries" JSONB,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "archive_uploads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "archive_uploads_s3Key_key" ON "archive_uploads"("s3Key");
+
+-- CreateIndex
+CREATE INDEX "archive_uploads_workspaceId_idx" ON "archive_uploads"("workspaceId");
+
+-- CreateIndex
+CREATE INDEX "archive_uploads_status_idx" ON "archive_uploads"("status");
+
+-- CreateIndex
+CREATE INDEX "documents_archiveUploadId_idx" ON "documents"("archiveUploadId");
+
+-- CreateIndex
+CREATE INDEX "documents_folder_idx" ON "documents"("folder");
+
+-- AddForeignKey
+ALTER TABLE "documents" ADD CONSTRAINT "documents_archiveUploadId_fkey" FOREIGN KEY ("archiveUploadId") REFERENCES "archive_uploads"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "archive_uploads" ADD CONSTRAINT "archive_uploads_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
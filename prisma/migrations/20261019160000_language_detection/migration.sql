@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "chunks" ADD COLUMN     "language" TEXT;
+
+-- AlterTable
+ALTER TABLE "documents" ALTER COLUMN "language" DROP DEFAULT;
+
+-- The stored language was the column default, never detected; re-indexing fills it in
+UPDATE "documents" SET "language" = NULL;
+
+-- CreateIndex
+CREATE INDEX "chunks_language_idx" ON "chunks"("language");
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "IngestionStatus" ADD VALUE 'ENRICHING' BEFORE 'CHUNKING';
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN     "summary" TEXT,
+ADD COLUMN     "summaryGeneratedAt" TIMESTAMP(3),
+ADD COLUMN     "summaryModel" TEXT,
+ADD COLUMN     "tags" TEXT[],
+ADD COLUMN     "topics" TEXT[];
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN     "checksum" TEXT,
+ADD COLUMN     "duplicateOfId" TEXT,
+ADD COLUMN     "duplicateSimilarity" DOUBLE PRECISION,
+ADD COLUMN     "minhash" INTEGER[];
+
+-- CreateIndex
+CREATE INDEX "documents_workspaceId_checksum_idx" ON "documents"("workspaceId", "checksum");
+
+-- CreateIndex
+CREATE INDEX "documents_duplicateOfId_idx" ON "documents"("duplicateOfId");
+
+-- AddForeignKey
+ALTER TABLE "documents" ADD CONSTRAINT "documents_duplicateOfId_fkey" FOREIGN KEY ("duplicateOfId") REFERENCES "documents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- The optional index from add-fulltext-indexes.sql, superseded by "searchVector"
+DROP INDEX IF EXISTS "chunks_content_fts_idx";
+
+-- AlterTable
+ALTER TABLE "chunks" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+  to_tsvector(
+    CASE "language"
+      WHEN 'ar' THEN 'arabic'::regconfig
+      WHEN 'da' THEN 'danish'::regconfig
+      WHEN 'de' THEN 'german'::regconfig
+      WHEN 'el' THEN 'greek'::regconfig
+      WHEN 'en' THEN 'english'::regconfig
+      WHEN 'es' THEN 'spanish'::regconfig
+      WHEN 'fi' THEN 'finnish'::regconfig
+      WHEN 'fr' THEN 'french'::regconfig
+      WHEN 'it' THEN 'italian'::regconfig
+      WHEN 'nl' THEN 'dutch'::regconfig
+      WHEN 'no' THEN 'norwegian'::regconfig
+      WHEN 'pt' THEN 'portuguese'::regconfig
+      WHEN 'ro' THEN 'romanian'::regconfig
+      WHEN 'ru' THEN 'russian'::regconfig
+      WHEN 'sv' THEN 'swedish'::regconfig
+      WHEN 'tr' THEN 'turkish'::regconfig
+      ELSE 'simple'::regconfig
+    END,
+    "content"
+  )
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "chunks_searchVector_idx" ON "chunks" USING GIN ("searchVector");
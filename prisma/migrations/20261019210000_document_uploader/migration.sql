@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN     "uploadedById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "documents_uploadedById_idx" ON "documents"("uploadedById");
+
+-- Backfill: direct uploads from their creation audit log, archive entries from their archive
+UPDATE "documents" d
+SET "uploadedById" = a."userId"
+FROM "audit_logs" a
+WHERE a."action" = 'document.create'
+  AND a."resourceId" = d."id"
+  AND a."userId" IS NOT NULL;
+
+UPDATE "documents" d
+SET "uploadedById" = u."uploadedById"
+FROM "archive_uploads" u
+WHERE d."archiveUploadId" = u."id"
+  AND d."uploadedById" IS NULL;
+
+-- Email attachments from the upload they were extracted from (attachments can be nested)
+WITH RECURSIVE "ancestors" AS (
+  SELECT "id", "parentDocumentId" AS "ancestorId"
+  FROM "documents"
+  WHERE "parentDocumentId" IS NOT NULL AND "uploadedById" IS NULL
+  UNION ALL
+  SELECT a."id", p."parentDocumentId"
+  FROM "ancestors" a
+  JOIN "documents" p ON p."id" = a."ancestorId"
+  WHERE p."parentDocumentId" IS NOT NULL AND p."uploadedById" IS NULL
+)
+UPDATE "documents" d
+SET "uploadedById" = p."uploadedById"
+FROM "ancestors" a
+JOIN "documents" p ON p."id" = a."ancestorId"
+WHERE d."id" = a."id"
+  AND p."uploadedById" IS NOT NULL;
@@ -23,6 +23,30 @@ export const env = {
 
   // OpenAI
   OPENAI_API_KEY: process.env.OPENAI_API_KEY || '',
+  EMBEDDING_BATCH_SIZE: parseInt(process.env.EMBEDDING_BATCH_SIZE || '100', 10), // Inputs per request
+  EMBEDDING_BATCH_TOKENS: parseInt(process.env.EMBEDDING_BATCH_TOKENS || '100000', 10), // Tokens per request
+  EMBEDDING_CONCURRENCY: parseInt(process.env.EMBEDDING_CONCURRENCY || '2', 10),
+  EMBEDDING_MAX_RETRIES: parseInt(process.env.EMBEDDING_MAX_RETRIES || '5', 10),
+  SUMMARY_MODEL: process.env.SUMMARY_MODEL || 'gpt-4o-mini', // Document summaries and tags
+  LLM_STUB: process.env.LLM_STUB === 'true', // Local stub instead of chat completions (tests, offline)
+
+  // Search reranking
+  RERANK_MODEL: process.env.RERANK_MODEL || 'Xenova/ms-marco-MiniLM-L-6-v2', // Cross-encoder (ONNX)
+  RERANK_MODEL_PATH: process.env.RERANK_MODEL_PATH || '', // Local directory of models (offline)
+  RERANK_CACHE_PATH: process.env.RERANK_CACHE_PATH || '', // Where downloaded models are cached
+  RERANK_LLM_MODEL: process.env.RERANK_LLM_MODEL || 'gpt-4o-mini', // LLM reranker
+
+  // OCR (Tesseract)
+  OCR_LANG_PATH: process.env.OCR_LANG_PATH || '', // Local directory of <lang>.traineddata files (offline)
+  OCR_CACHE_PATH: process.env.OCR_CACHE_PATH || '', // Where downloaded language data is cached
+
+  // ZIP archive uploads (zip bomb limits)
+  ARCHIVE_MAX_ENTRIES: parseInt(process.env.ARCHIVE_MAX_ENTRIES || '1000', 10),
+  ARCHIVE_MAX_UNCOMPRESSED_BYTES: parseInt(
+    process.env.ARCHIVE_MAX_UNCOMPRESSED_BYTES || String(2 * 1024 * 1024 * 1024),
+    10
+  ), // Total size of all entries
+  ARCHIVE_MAX_COMPRESSION_RATIO: parseInt(process.env.ARCHIVE_MAX_COMPRESSION_RATIO || '100', 10),
 
   // Qdrant
   QDRANT_URL: process.env.QDRANT_URL || 'http://localhost:6333',
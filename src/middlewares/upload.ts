@@ -2,6 +2,8 @@ import multer from 'multer';
 import multerS3 from 'multer-s3';
 import AWS from 'aws-sdk';
 import { Request } from 'express';
+import * as crypto from 'crypto';
+import { Transform } from 'stream';
 import { env } from '../config/env';
 import { ApiError } from '../utils/apiError';
 import { WorkspaceRequest } from './workspace';
@@ -25,11 +27,34 @@ const ALLOWED_MIME_TYPES = [
   'text/plain', // .txt
   'text/markdown', // .md
   'text/csv', // .csv
+  'image/png', // .png
+  'image/jpeg', // .jpg, .jpeg
+  'image/tiff', // .tif, .tiff
+  'text/html', // .html, .htm
+  'application/xhtml+xml', // .xhtml
+  'message/rfc822', // .eml
+  'application/vnd.ms-outlook', // .msg
+  'application/rtf', // .rtf
+  'text/rtf', // .rtf
+  'application/json', // .json
+  'application/x-ndjson', // .jsonl, .ndjson
+  'application/jsonl', // .jsonl
+];
+
+// ZIP archives (some browsers send generic binary types for .zip files)
+const ARCHIVE_MIME_TYPES = [
+  'application/zip',
+  'application/x-zip-compressed',
+  'multipart/x-zip',
+  'application/octet-stream',
 ];
 
 // Max file size: 100MB
 const MAX_FILE_SIZE = 100 * 1024 * 1024;
 
+// Max archive size: 500MB
+const MAX_ARCHIVE_SIZE = 500 * 1024 * 1024;
+
 /**
  * File filter function
  */
@@ -43,12 +68,27 @@ const fileFilter = (
   } else {
     cb(
       ApiError.badRequest(
-        `File type not allowed. Allowed types: PDF, DOCX, DOC, XLSX, XLS, PPTX, PPT, TXT, MD, CSV`
+        `File type not allowed. Allowed types: PDF, DOCX, DOC, XLSX, XLS, PPTX, PPT, TXT, MD, CSV, PNG, JPEG, TIFF, HTML, EML, MSG, RTF, JSON, JSONL`
       )
     );
   }
 };
 
+/**
+ * File filter function for ZIP archives
+ */
+const archiveFilter = (
+  req: Request,
+  file: Express.Multer.File,
+  cb: multer.FileFilterCallback
+): void => {
+  if (ARCHIVE_MIME_TYPES.includes(file.mimetype) && /\.zip$/i.test(file.originalname)) {
+    cb(null, true);
+  } else {
+    cb(ApiError.badRequest('File type not allowed. Upload a ZIP archive'));
+  }
+};
+
 /**
  * Generate S3 key for uploaded file
  */
@@ -88,11 +128,35 @@ const s3Storage = multerS3({
   },
 });
 
+/**
+ * Wrap a storage engine to record the SHA-256 checksum of each file (file.checksum)
+ * as it streams through, for duplicate detection
+ */
+const withChecksum = (storage: multer.StorageEngine): multer.StorageEngine => ({
+  _handleFile(req, file, cb) {
+    const hash = crypto.createHash('sha256');
+    const stream = new Transform({
+      transform(chunk, _encoding, next) {
+        hash.update(chunk);
+        next(null, chunk);
+      },
+    });
+    file.stream.on('error', error => stream.destroy(error));
+
+    storage._handleFile(req, { ...file, stream: file.stream.pipe(stream) }, (error, info) =>
+      cb(error, info && ({ ...info, checksum: hash.digest('hex') } as typeof info))
+    );
+  },
+  _removeFile(req, file, cb) {
+    storage._removeFile(req, file, cb);
+  },
+});
+
 /**
  * Multer upload middleware for single file
  */
 export const uploadSingle = multer({
-  storage: s3Storage,
+  storage: withChecksum(s3Storage),
   fileFilter,
   limits: {
     fileSize: MAX_FILE_SIZE,
@@ -104,7 +168,7 @@ export const uploadSingle = multer({
  * Multer upload middleware for multiple files
  */
 export const uploadMultiple = multer({
-  storage: s3Storage,
+  storage: withChecksum(s3Storage),
   fileFilter,
   limits: {
     fileSize: MAX_FILE_SIZE,
@@ -112,13 +176,26 @@ export const uploadMultiple = multer({
   },
 }).array('files', 10);
 
+/**
+ * Multer upload middleware for a ZIP archive (expanded into documents in the background)
+ */
+export const uploadArchive = multer({
+  storage: s3Storage,
+  fileFilter: archiveFilter,
+  limits: {
+    fileSize: MAX_ARCHIVE_SIZE,
+    files: 1,
+  },
+}).single('archive');
+
 /**
  * Error handler for multer errors
  */
 export const handleUploadError = (error: any, req: Request, res: any, next: any): void => {
   if (error instanceof multer.MulterError) {
     if (error.code === 'LIMIT_FILE_SIZE') {
-      throw ApiError.badRequest(`File size exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit`);
+      const maxSize = error.field === 'archive' ? MAX_ARCHIVE_SIZE : MAX_FILE_SIZE;
+      throw ApiError.badRequest(`File size exceeds ${maxSize / 1024 / 1024}MB limit`);
     }
     if (error.code === 'LIMIT_FILE_COUNT') {
       throw ApiError.badRequest('Too many files. Maximum 10 files allowed');
@@ -0,0 +1,125 @@
+import { Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { AdminService } from './admin.service';
+import { catchAsync, sendResponse } from '../../utils';
+import { AuthenticatedRequest } from '../user/user.interface';
+import type { IngestionErrorClass } from '../../utils/ingestionErrors';
+
+export class AdminController {
+  /**
+   * Get embedding cache statistics
+   * GET /api/admin/embedding-cache
+   */
+  static getEmbeddingCache = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    const stats = await AdminService.getEmbeddingCacheStats();
+
+    sendResponse(res, {
+      statusCode: StatusCodes.OK,
+      success: true,
+      message: 'Embedding cache statistics retrieved successfully',
+      data: stats,
+    });
+  });
+
+  /**
+   * Purge cached embeddings of a model
+   * DELETE /api/admin/embedding-cache?model=
+   */
+  static purgeEmbeddingCache = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const result = await AdminService.purgeEmbeddingCache(
+      req.query.model as string,
+      req.user.userId
+    );
+
+    sendResponse(res, {
+      statusCode: StatusCodes.OK,
+      success: true,
+      message: 'Embedding cache purged successfully',
+      data: result,
+    });
+  });
+
+  /**
+   * List failed ingestion jobs (dead-letter queue)
+   * GET /api/admin/ingestion-failures
+   */
+  static getIngestionFailures = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    const { page, limit, workspaceId, errorClass } = req.query;
+
+    const result = await AdminService.getIngestionFailures({
+      page: page ? Number(page) : undefined,
+      limit: limit ? Number(limit) : undefined,
+      workspaceId: workspaceId as string | undefined,
+      errorClass: errorClass as IngestionErrorClass | undefined,
+    });
+
+    sendResponse(res, {
+      statusCode: StatusCodes.OK,
+      success: true,
+      message: 'Failed ingestion jobs retrieved successfully',
+      meta: result.meta,
+      data: result.data,
+    });
+  });
+
+  /**
+   * Retry a failed ingestion job
+   * POST /api/admin/ingestion-failures/:jobId/retry
+   */
+  static retryIngestionFailure = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const result = await AdminService.retryIngestionFailure(req.params.jobId, req.user.userId);
+
+    sendResponse(res, {
+      statusCode: StatusCodes.ACCEPTED,
+      success: true,
+      message: 'Ingestion job queued for retry',
+      data: result,
+    });
+  });
+
+  /**
+   * Retry failed ingestion jobs in bulk (by job IDs, workspace and/or error class)
+   * POST /api/admin/ingestion-failures/retry
+   */
+  static retryIngestionFailures = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const result = await AdminService.retryIngestionFailures(req.body, req.user.userId);
+
+    sendResponse(res, {
+      statusCode: StatusCodes.ACCEPTED,
+      success: true,
+      message: `${result.retried.length} ingestion job(s) queued for retry`,
+      data: result,
+    });
+  });
+
+  /**
+   * Copy the documents' current fields onto their vectors' search payload
+   * POST /api/admin/search-payloads/sync
+   */
+  static syncSearchPayloads = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const result = await AdminService.syncSearchPayloads(req.body.workspaceId, req.user.userId);
+
+    sendResponse(res, {
+      statusCode: StatusCodes.OK,
+      success: true,
+      message: `Search payloads of ${result.documents} document(s) synced`,
+      data: result,
+    });
+  });
+}
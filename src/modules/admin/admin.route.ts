@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import { AdminController } from './admin.controller';
+import { authenticate, authorize } from '../../middlewares/auth';
+import { validate } from '../../middlewares/validate';
+import {
+  purgeEmbeddingCacheSchema,
+  getIngestionFailuresSchema,
+  retryIngestionFailureSchema,
+  retryIngestionFailuresSchema,
+  syncSearchPayloadsSchema,
+} from './admin.validator';
+// UserRole enum from Prisma
+const UserRole = {
+  ADMIN: 'ADMIN',
+  SUPER_ADMIN: 'SUPER_ADMIN',
+} as const;
+
+const router = Router();
+
+// All admin routes require a system administrator
+router.use(authenticate, authorize(UserRole.ADMIN, UserRole.SUPER_ADMIN));
+
+// Embedding cache
+router.get('/embedding-cache', AdminController.getEmbeddingCache);
+router.delete(
+  '/embedding-cache',
+  validate(purgeEmbeddingCacheSchema),
+  AdminController.purgeEmbeddingCache
+);
+
+// Failed ingestion jobs (dead-letter queue)
+router.get(
+  '/ingestion-failures',
+  validate(getIngestionFailuresSchema),
+  AdminController.getIngestionFailures
+);
+router.post(
+  '/ingestion-failures/retry',
+  validate(retryIngestionFailuresSchema),
+  AdminController.retryIngestionFailures
+);
+router.post(
+  '/ingestion-failures/:jobId/retry',
+  validate(retryIngestionFailureSchema),
+  AdminController.retryIngestionFailure
+);
+
+// Search payloads of stored vectors
+router.post(
+  '/search-payloads/sync',
+  validate(syncSearchPayloadsSchema),
+  AdminController.syncSearchPayloads
+);
+
+export default router;
@@ -0,0 +1,85 @@
+import { logger } from '../../utils/logger';
+import { createAuditLog } from '../../utils/auditLog';
+import { EmbeddingCacheService } from '../../services/embeddingCache.service';
+import { DocumentService } from '../document/document.service';
+import type { IngestionDeadLetterFilters } from '../../services/ingestionDeadLetter.service';
+
+export class AdminService {
+  /**
+   * Get embedding cache entry and hit counts per model
+   */
+  static async getEmbeddingCacheStats() {
+    const models = await EmbeddingCacheService.getStats();
+
+    return {
+      models,
+      totalEntries: models.reduce((total, model) => total + model.entries, 0),
+    };
+  }
+
+  /**
+   * Purge cached embeddings of a model
+   */
+  static async purgeEmbeddingCache(model: string, userId: string): Promise<{ deleted: number }> {
+    const deleted = await EmbeddingCacheService.purge(model);
+
+    await createAuditLog({
+      userId,
+      action: 'embeddingCache.purge',
+      resourceType: 'embeddingCache',
+      details: { model, deleted },
+    });
+
+    logger.info('Embedding cache purged by admin', { model, deleted, userId });
+
+    return { deleted };
+  }
+
+  /**
+   * List failed ingestion jobs across all workspaces
+   */
+  static async getIngestionFailures(
+    filters: IngestionDeadLetterFilters & { page?: number; limit?: number }
+  ) {
+    return DocumentService.getIngestionFailures(filters);
+  }
+
+  /**
+   * Retry a failed ingestion job of any workspace
+   */
+  static async retryIngestionFailure(jobId: string, userId: string) {
+    return DocumentService.retryIngestionFailure(jobId, userId);
+  }
+
+  /**
+   * Retry the failed ingestion jobs matching the filters, across all workspaces
+   */
+  static async retryIngestionFailures(filters: IngestionDeadLetterFilters, userId: string) {
+    const result = await DocumentService.retryIngestionFailures(filters, userId);
+
+    logger.info('Failed ingestion jobs retried by admin', {
+      ...filters,
+      retried: result.retried.length,
+      failed: result.failed.length,
+      userId,
+    });
+
+    return result;
+  }
+
+  /**
+   * Rewrite the search payload of the indexed documents of all workspaces or of one
+   */
+  static async syncSearchPayloads(workspaceId: string | undefined, userId: string) {
+    const result = await DocumentService.syncSearchPayloads(workspaceId);
+
+    await createAuditLog({
+      userId,
+      action: 'searchPayload.sync',
+      resourceType: 'searchPayload',
+      details: { workspaceId, documents: result.documents, failed: result.failed.length },
+    });
+
+    return result;
+  }
+}
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { INGESTION_ERROR_CLASSES } from '../../utils/ingestionErrors';
+
+export const purgeEmbeddingCacheSchema = z.object({
+  query: z.object({
+    model: z.string().min(1, 'Embedding model is required'),
+  }),
+});
+
+export const getIngestionFailuresSchema = z.object({
+  query: z.object({
+    page: z.string().regex(/^\d+$/).transform(Number).optional(),
+    limit: z.string().regex(/^\d+$/).transform(Number).optional(),
+    workspaceId: z.string().cuid('Invalid workspace ID').optional(),
+    errorClass: z.enum(INGESTION_ERROR_CLASSES).optional(),
+  }),
+});
+
+export const retryIngestionFailureSchema = z.object({
+  params: z.object({
+    jobId: z.string().min(1, 'Job ID is required'),
+  }),
+});
+
+export const retryIngestionFailuresSchema = z.object({
+  body: z.object({
+    jobIds: z.array(z.string().min(1)).min(1).max(500).optional(),
+    workspaceId: z.string().cuid('Invalid workspace ID').optional(),
+    errorClass: z.enum(INGESTION_ERROR_CLASSES).optional(),
+  }),
+});
+
+export const syncSearchPayloadsSchema = z.object({
+  body: z.object({
+    workspaceId: z.string().cuid('Invalid workspace ID').optional(),
+  }),
+});
+
+export type PurgeEmbeddingCacheQuery = z.infer<typeof purgeEmbeddingCacheSchema>['query'];
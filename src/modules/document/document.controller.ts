@@ -1,11 +1,18 @@
 import { Response } from 'express';
 import { StatusCodes } from 'http-status-codes';
 import { DocumentService } from './document.service';
+import { WorkspaceService } from '../workspace/workspace.service';
 import { S3Service } from '../../services/s3.service';
 import { catchAsync, sendResponse } from '../../utils';
 import { WorkspaceRequest } from '../../middlewares/workspace';
 import { DocumentType } from '@prisma/client';
 import { ApiError } from '../../utils/apiError';
+import { logger } from '../../utils/logger';
+import type { IngestionProgressResponse } from './document.types';
+import type { IngestionErrorClass } from '../../utils/ingestionErrors';
+import type { DuplicateAction } from '../workspace/workspace.types';
+
+const SSE_HEARTBEAT_MS = 15000;
 
 export class DocumentController {
   /**
@@ -51,43 +58,20 @@ export class DocumentController {
    * Helper function to determine document type from file
    */
   private static getDocumentType(file: Express.Multer.File): DocumentType {
-    const extension = file.originalname.split('.').pop()?.toLowerCase() || '';
-    const mimeType = file.mimetype.toLowerCase();
-
-    // Map extensions to document types
-    const extensionMap: Record<string, DocumentType> = {
-      pdf: DocumentType.PDF,
-      docx: DocumentType.DOCX,
-      doc: DocumentType.DOC,
-      xlsx: DocumentType.XLSX,
-      xls: DocumentType.XLS,
-      pptx: DocumentType.PPTX,
-      ppt: DocumentType.PPT,
-      txt: DocumentType.TXT,
-      md: DocumentType.MD,
-      csv: DocumentType.CSV,
-    };
+    return DocumentService.getDocumentType(file.originalname, file.mimetype);
+  }
 
-    if (extensionMap[extension]) {
-      return extensionMap[extension];
+  /**
+   * What to do with uploads identical to an existing document: the duplicates query
+   * parameter, else the workspace setting
+   */
+  private static async getDuplicateAction(req: WorkspaceRequest): Promise<DuplicateAction> {
+    const { duplicates } = req.query;
+    if (duplicates) {
+      return duplicates as DuplicateAction;
     }
-
-    // Fallback to MIME type mapping
-    const mimeTypeMap: Record<string, DocumentType> = {
-      'application/pdf': DocumentType.PDF,
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': DocumentType.DOCX,
-      'application/msword': DocumentType.DOC,
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': DocumentType.XLSX,
-      'application/vnd.ms-excel': DocumentType.XLS,
-      'application/vnd.openxmlformats-officedocument.presentationml.presentation':
-        DocumentType.PPTX,
-      'application/vnd.ms-powerpoint': DocumentType.PPT,
-      'text/plain': DocumentType.TXT,
-      'text/markdown': DocumentType.MD,
-      'text/csv': DocumentType.CSV,
-    };
-
-    return mimeTypeMap[mimeType] || DocumentType.OTHER;
+    const settings = await WorkspaceService.getDuplicateSettings(req.workspaceId!);
+    return settings.action;
   }
 
   /**
@@ -99,7 +83,11 @@ export class DocumentController {
       throw ApiError.badRequest('Workspace context and authentication required');
     }
 
-    const file = req.file as Express.Multer.File & { location?: string; key?: string };
+    const file = req.file as Express.Multer.File & {
+      location?: string;
+      key?: string;
+      checksum?: string;
+    };
     if (!file) {
       throw ApiError.badRequest('File is required');
     }
@@ -130,14 +118,18 @@ export class DocumentController {
         s3Bucket: process.env.AWS_S3_BUCKET || '',
         s3Region: process.env.AWS_REGION || 'us-east-1',
         s3Url,
+        checksum: file.checksum,
       },
-      req.user.userId
+      req.user.userId,
+      await this.getDuplicateAction(req)
     );
 
     sendResponse(res, {
       statusCode: StatusCodes.CREATED,
       success: true,
-      message: 'Document uploaded successfully',
+      message: document.duplicateOfId
+        ? 'Document uploaded successfully (duplicate of an existing document)'
+        : 'Document uploaded successfully',
       data: document,
     });
   });
@@ -151,12 +143,16 @@ export class DocumentController {
       throw ApiError.badRequest('Workspace context and authentication required');
     }
 
-    const files = req.files as Express.Multer.File[] & Array<{ location?: string; key?: string }>;
+    const files = req.files as Array<
+      Express.Multer.File & { location?: string; key?: string; checksum?: string }
+    >;
     if (!files || files.length === 0) {
       throw ApiError.badRequest('At least one file is required');
     }
 
+    const duplicateAction = await this.getDuplicateAction(req);
     const documents = [];
+    const rejected: string[] = [];
 
     for (const file of files) {
       // Get S3 key from file (set by multer-s3)
@@ -172,34 +168,205 @@ export class DocumentController {
       // Generate S3 URL (pre-signed download URL)
       const s3Url = await S3Service.getDownloadUrl(s3Key, 3600 * 24 * 7); // 7 days
 
-      // Create document record
-      const document = await DocumentService.createDocument(
-        req.workspaceId,
-        {
-          name: file.originalname,
-          originalName: file.originalname,
-          type: documentType,
-          mimeType: file.mimetype,
-          size: file.size,
-          s3Key,
-          s3Bucket: process.env.AWS_S3_BUCKET || '',
-          s3Region: process.env.AWS_REGION || 'us-east-1',
-          s3Url,
-        },
-        req.user.userId
-      );
-
-      documents.push(document);
+      // Create document record (rejected duplicates are reported, not failing the batch)
+      try {
+        const document = await DocumentService.createDocument(
+          req.workspaceId,
+          {
+            name: file.originalname,
+            originalName: file.originalname,
+            type: documentType,
+            mimeType: file.mimetype,
+            size: file.size,
+            s3Key,
+            s3Bucket: process.env.AWS_S3_BUCKET || '',
+            s3Region: process.env.AWS_REGION || 'us-east-1',
+            s3Url,
+            checksum: file.checksum,
+          },
+          req.user.userId,
+          duplicateAction
+        );
+
+        documents.push(document);
+      } catch (error) {
+        if (
+          duplicateAction === 'reject' &&
+          error instanceof ApiError &&
+          error.statusCode === StatusCodes.CONFLICT
+        ) {
+          rejected.push(file.originalname);
+          continue;
+        }
+        throw error;
+      }
     }
 
     sendResponse(res, {
       statusCode: StatusCodes.CREATED,
       success: true,
-      message: `${documents.length} document(s) uploaded successfully`,
+      message:
+        `${documents.length} document(s) uploaded successfully` +
+        (rejected.length > 0 ? `; duplicates rejected: ${rejected.join(', ')}` : ''),
       data: documents,
     });
   });
 
+  /**
+   * Upload a ZIP archive; its files are expanded into documents in the background
+   * POST /api/workspaces/:id/documents/upload-archive
+   */
+  static uploadArchive = catchAsync(async (req: WorkspaceRequest, res: Response) => {
+    if (!req.workspaceId || !req.user) {
+      throw ApiError.badRequest('Workspace context and authentication required');
+    }
+
+    const file = req.file as Express.Multer.File & { location?: string; key?: string };
+    if (!file) {
+      throw ApiError.badRequest('Archive is required');
+    }
+
+    const s3Key = (file as any).key || file.location?.split('/').slice(-1)[0];
+    if (!s3Key) {
+      throw ApiError.internal('Failed to get S3 key from uploaded file');
+    }
+
+    const archive = await DocumentService.createArchiveUpload(
+      req.workspaceId,
+      {
+        fileName: file.originalname,
+        s3Key,
+        size: file.size,
+      },
+      req.user.userId
+    );
+
+    sendResponse(res, {
+      statusCode: StatusCodes.ACCEPTED,
+      success: true,
+      message: 'Archive uploaded and queued for expansion',
+      data: archive,
+    });
+  });
+
+  /**
+   * Get the expansion status of an uploaded archive, with the files it skipped
+   * GET /api/workspaces/:id/documents/archives/:archiveId
+   */
+  static getArchive = catchAsync(async (req: WorkspaceRequest, res: Response) => {
+    if (!req.workspaceId || !req.user) {
+      throw new Error('Workspace context and authentication required');
+    }
+
+    const archive = await DocumentService.getArchiveUpload(
+      req.workspaceId,
+      req.params.archiveId,
+      req.user.userId
+    );
+
+    sendResponse(res, {
+      statusCode: StatusCodes.OK,
+      success: true,
+      message: 'Archive upload retrieved successfully',
+      data: archive,
+    });
+  });
+
+  /**
+   * List groups of duplicate documents
+   * GET /api/workspaces/:id/documents/duplicates
+   */
+  static getDuplicates = catchAsync(async (req: WorkspaceRequest, res: Response) => {
+    if (!req.workspaceId || !req.user) {
+      throw new Error('Workspace context and authentication required');
+    }
+
+    const { page, limit } = req.query;
+    const result = await DocumentService.getDuplicateGroups(req.workspaceId, req.user.userId, {
+      page: page ? Number(page) : undefined,
+      limit: limit ? Number(limit) : undefined,
+    });
+
+    sendResponse(res, {
+      statusCode: StatusCodes.OK,
+      success: true,
+      message: 'Duplicate documents retrieved successfully',
+      meta: result.meta,
+      data: result.data,
+    });
+  });
+
+  /**
+   * List the workspace's failed ingestion jobs (dead-letter queue)
+   * GET /api/workspaces/:id/documents/ingestion-failures
+   */
+  static getIngestionFailures = catchAsync(async (req: WorkspaceRequest, res: Response) => {
+    if (!req.workspaceId) {
+      throw new Error('Workspace context required');
+    }
+
+    const { page, limit, errorClass } = req.query;
+    const result = await DocumentService.getIngestionFailures({
+      workspaceId: req.workspaceId,
+      page: page ? Number(page) : undefined,
+      limit: limit ? Number(limit) : undefined,
+      errorClass: errorClass as IngestionErrorClass | undefined,
+    });
+
+    sendResponse(res, {
+      statusCode: StatusCodes.OK,
+      success: true,
+      message: 'Failed ingestion jobs retrieved successfully',
+      meta: result.meta,
+      data: result.data,
+    });
+  });
+
+  /**
+   * Retry a failed ingestion job of the workspace
+   * POST /api/workspaces/:id/documents/ingestion-failures/:jobId/retry
+   */
+  static retryIngestionFailure = catchAsync(async (req: WorkspaceRequest, res: Response) => {
+    if (!req.workspaceId || !req.user) {
+      throw new Error('Workspace context and authentication required');
+    }
+
+    const result = await DocumentService.retryIngestionFailure(
+      req.params.jobId,
+      req.user.userId,
+      req.workspaceId
+    );
+
+    sendResponse(res, {
+      statusCode: StatusCodes.ACCEPTED,
+      success: true,
+      message: 'Ingestion job queued for retry',
+      data: result,
+    });
+  });
+
+  /**
+   * Retry failed ingestion jobs of the workspace in bulk (by job IDs and/or error class)
+   * POST /api/workspaces/:id/documents/ingestion-failures/retry
+   */
+  static retryIngestionFailures = catchAsync(async (req: WorkspaceRequest, res: Response) => {
+    if (!req.workspaceId || !req.user) {
+      throw new Error('Workspace context and authentication required');
+    }
+
+    const result = await DocumentService.retryIngestionFailures(
+      { ...req.body, workspaceId: req.workspaceId },
+      req.user.userId
+    );
+
+    sendResponse(res, {
+      statusCode: StatusCodes.ACCEPTED,
+      success: true,
+      message: `${result.retried.length} ingestion job(s) queued for retry`,
+      data: result,
+    });
+  });
+
   /**
    * Create a new document
    * POST /api/workspaces/:id/documents
@@ -252,7 +419,17 @@ export class DocumentController {
       throw new Error('Workspace context and authentication required');
     }
 
-    const { page, limit, search, type, status, ingestionStatus } = req.query;
+    const {
+      page,
+      limit,
+      search,
+      type,
+      status,
+      ingestionStatus,
+      parentDocumentId,
+      archiveUploadId,
+      folder,
+    } = req.query;
 
     const result = await DocumentService.getDocuments(req.workspaceId, req.user.userId, {
       page: page ? Number(page) : undefined,
@@ -261,6 +438,9 @@ export class DocumentController {
       type: type as any,
       status: status as any,
       ingestionStatus: ingestionStatus as any,
+      parentDocumentId: parentDocumentId as string | undefined,
+      archiveUploadId: archiveUploadId as string | undefined,
+      folder: folder as string | undefined,
     });
 
     sendResponse(res, {
@@ -331,4 +511,122 @@ export class DocumentController {
       data: document,
     });
   });
+
+  /**
+   * Regenerate document summary, topics and tags
+   * POST /api/documents/:id/summary
+   */
+  static regenerateSummary = catchAsync(async (req: WorkspaceRequest, res: Response) => {
+    if (!req.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { id } = req.params;
+    const document = await DocumentService.regenerateSummary(id, req.user.userId);
+
+    sendResponse(res, {
+      statusCode: StatusCodes.OK,
+      success: true,
+      message: 'Document summary regenerated',
+      data: document,
+    });
+  });
+
+  /**
+   * Get ingestion status and progress
+   * GET /api/documents/:id/ingestion
+   */
+  static getIngestion = catchAsync(async (req: WorkspaceRequest, res: Response) => {
+    if (!req.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { id } = req.params;
+    const ingestion = await DocumentService.getIngestionProgress(id, req.user.userId);
+
+    sendResponse(res, {
+      statusCode: StatusCodes.OK,
+      success: true,
+      message: 'Ingestion progress retrieved successfully',
+      data: ingestion,
+    });
+  });
+
+  /**
+   * Stream ingestion progress as Server-Sent Events
+   * GET /api/documents/:id/ingestion/stream
+   * Sends a "progress" event per update and ends with a "done" event once ingestion
+   * completes or fails
+   */
+  static streamIngestion = catchAsync(async (req: WorkspaceRequest, res: Response) => {
+    if (!req.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { id } = req.params;
+    const userId = req.user.userId;
+    const initial = await DocumentService.getIngestionProgress(id, userId);
+
+    res.status(StatusCodes.OK).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+    });
+    res.flushHeaders();
+
+    const send = (event: 'progress' | 'done', data: IngestionProgressResponse) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    if (!initial.jobId || DocumentService.isIngestionIdle(initial.ingestionStatus)) {
+      send('done', initial);
+      res.end();
+      return;
+    }
+
+    let closed = false;
+    let latest = initial;
+    let unsubscribe = () => {};
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_MS);
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+    };
+
+    // Re-read the stored status, ending the stream once ingestion is over
+    const refresh = async () => {
+      try {
+        latest = await DocumentService.getIngestionProgress(id, userId);
+        if (closed) return;
+        if (DocumentService.isIngestionIdle(latest.ingestionStatus)) {
+          send('done', latest);
+          close();
+        } else {
+          send('progress', latest);
+        }
+      } catch (error) {
+        logger.error('Failed to read ingestion progress', { error, documentId: id });
+        close();
+      }
+    };
+
+    req.on('close', close);
+    unsubscribe = DocumentService.subscribeToIngestion(initial.jobId, event => {
+      if (closed) return;
+      if (event.type === 'progress') {
+        latest = { ...latest, ingestionStatus: event.progress.stage, progress: event.progress };
+        send('progress', latest);
+      } else {
+        void refresh();
+      }
+    });
+
+    // The job may have moved on between the first read and subscribing
+    await refresh();
+  });
 }
@@ -1,14 +1,26 @@
 import { Router } from 'express';
+import { WorkspaceRole } from '@prisma/client';
 import { DocumentController } from './document.controller';
-import { authenticate, requireWorkspace } from '../../middlewares';
+import { authenticate, requireWorkspace, requireWorkspaceRole } from '../../middlewares';
 import { validate } from '../../middlewares/validate';
-import { uploadSingle, uploadMultiple, handleUploadError } from '../../middlewares/upload';
+import {
+  uploadSingle,
+  uploadMultiple,
+  uploadArchive,
+  handleUploadError,
+} from '../../middlewares/upload';
 import {
   createDocumentSchema,
   updateDocumentSchema,
   getDocumentSchema,
   getDocumentsSchema,
   deleteDocumentSchema,
+  getArchiveUploadSchema,
+  uploadDocumentSchema,
+  getDuplicateGroupsSchema,
+  getIngestionFailuresSchema,
+  retryIngestionFailureSchema,
+  retryIngestionFailuresSchema,
 } from './document.validator';
 
 const router = Router();
@@ -27,6 +39,7 @@ router.get(
 router.post(
   '/workspaces/:id/documents/upload',
   requireWorkspace,
+  validate(uploadDocumentSchema),
   uploadSingle,
   handleUploadError,
   DocumentController.upload
@@ -35,11 +48,59 @@ router.post(
 router.post(
   '/workspaces/:id/documents/upload-multiple',
   requireWorkspace,
+  validate(uploadDocumentSchema),
   uploadMultiple,
   handleUploadError,
   DocumentController.uploadMultiple
 );
 
+router.post(
+  '/workspaces/:id/documents/upload-archive',
+  requireWorkspace,
+  uploadArchive,
+  handleUploadError,
+  DocumentController.uploadArchive
+);
+
+router.get(
+  '/workspaces/:id/documents/archives/:archiveId',
+  requireWorkspace,
+  validate(getArchiveUploadSchema),
+  DocumentController.getArchive
+);
+
+router.get(
+  '/workspaces/:id/documents/duplicates',
+  requireWorkspace,
+  validate(getDuplicateGroupsSchema),
+  DocumentController.getDuplicates
+);
+
+// Failed ingestion jobs (dead-letter queue), for workspace owners and admins
+router.get(
+  '/workspaces/:id/documents/ingestion-failures',
+  requireWorkspace,
+  requireWorkspaceRole(WorkspaceRole.OWNER, WorkspaceRole.ADMIN),
+  validate(getIngestionFailuresSchema),
+  DocumentController.getIngestionFailures
+);
+
+router.post(
+  '/workspaces/:id/documents/ingestion-failures/retry',
+  requireWorkspace,
+  requireWorkspaceRole(WorkspaceRole.OWNER, WorkspaceRole.ADMIN),
+  validate(retryIngestionFailuresSchema),
+  DocumentController.retryIngestionFailures
+);
+
+router.post(
+  '/workspaces/:id/documents/ingestion-failures/:jobId/retry',
+  requireWorkspace,
+  requireWorkspaceRole(WorkspaceRole.OWNER, WorkspaceRole.ADMIN),
+  validate(retryIngestionFailureSchema),
+  DocumentController.retryIngestionFailure
+);
+
 // Legacy create endpoint (for backward compatibility)
 router.post(
   '/workspaces/:id/documents',
@@ -60,5 +121,12 @@ router.get('/:id', validate(getDocumentSchema), DocumentController.getById);
 router.patch('/:id', validate(updateDocumentSchema), DocumentController.update);
 router.delete('/:id', validate(deleteDocumentSchema), DocumentController.delete);
 router.post('/:id/reindex', validate(getDocumentSchema), DocumentController.reindex);
+router.post('/:id/summary', validate(getDocumentSchema), DocumentController.regenerateSummary);
+router.get('/:id/ingestion', validate(getDocumentSchema), DocumentController.getIngestion);
+router.get(
+  '/:id/ingestion/stream',
+  validate(getDocumentSchema),
+  DocumentController.streamIngestion
+);
 
 export default router;
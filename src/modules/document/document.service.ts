@@ -1,15 +1,101 @@
-import { DocumentStatus, IngestionStatus } from '@prisma/client';
+import {
+  ArchiveStatus,
+  DocumentStatus,
+  DocumentType,
+  IngestionStatus,
+  Prisma,
+} from '@prisma/client';
+import { env } from '../../config/env';
 import { ApiError } from '../../utils/apiError';
 import { logger } from '../../utils/logger';
 import { createAuditLog } from '../../utils/auditLog';
 import prisma from '../../utils/prisma';
-import { documentIngestionQueue } from '../../queues';
+import { computeMinHash, estimateSimilarity } from '../../utils/minhash';
+import {
+  archiveExpansionQueue,
+  documentIngestionQueue,
+  getDocumentIngestionQueueEvents,
+} from '../../queues';
+import { S3Service } from '../../services/s3.service';
+import { QdrantService } from '../../services/qdrant.service';
+import {
+  IngestionDeadLetterService,
+  IngestionDeadLetterFilters,
+} from '../../services/ingestionDeadLetter.service';
+import { OpenAIService } from '../../services/openai.service';
+import type { EmailAttachment } from '../../utils/parsers/emailParser';
+import type { DocumentProperties } from '../../utils/parsers/documentProperties';
+import type { ArchiveEntry, SkippedArchiveEntry } from '../../utils/parsers/zipArchive';
 import type {
   CreateDocumentInput,
   UpdateDocumentInput,
   DocumentResponse,
   DocumentQueryParams,
+  IngestionProgress,
+  IngestionProgressResponse,
+  IngestionEvent,
+  ArchiveUploadResponse,
+  DuplicateGroupResponse,
+  IngestionFailureResponse,
+  IngestionRetryResult,
 } from './document.types';
+import type { DuplicateAction } from '../workspace/workspace.types';
+import * as crypto from 'crypto';
+
+// Progress (percent) reached when each ingestion stage starts;
+// embedding fills the range up to INDEXING as chunks are embedded
+const STAGE_PROGRESS: Record<IngestionStatus, number> = {
+  PENDING: 0,
+  PARSING: 0,
+  ENRICHING: 5,
+  CHUNKING: 10,
+  EMBEDDING: 20,
+  INDEXING: 90,
+  COMPLETED: 100,
+  FAILED: 0,
+};
+
+// Document.metadata keys written by ingestion (refreshed on every run; other keys are kept)
+const EXTRACTED_METADATA_KEYS = [
+  'title',
+  'authors',
+  'subject',
+  'keywords',
+  'createdAt',
+  'modifiedAt',
+] as const;
+
+// Chunks of the served version read back as the text to summarize on regeneration
+// (more than the summary input budget, so overlap between chunks does not matter)
+const SUMMARY_SOURCE_CHUNKS = 40;
+
+// MIME types stored for files expanded from archives (the archive does not record them)
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  doc: 'application/msword',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  xls: 'application/vnd.ms-excel',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  ppt: 'application/vnd.ms-powerpoint',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  html: 'text/html',
+  htm: 'text/html',
+  xhtml: 'application/xhtml+xml',
+  eml: 'message/rfc822',
+  msg: 'application/vnd.ms-outlook',
+  rtf: 'application/rtf',
+  json: 'application/json',
+  jsonl: 'application/x-ndjson',
+  ndjson: 'application/x-ndjson',
+};
 
 export class DocumentService {
   /**
@@ -29,10 +115,22 @@ export class DocumentService {
     s3Region: string;
     s3Url: string | null;
     thumbnailUrl: string | null;
+    parentDocumentId: string | null;
+    archiveUploadId: string | null;
+    folder: string | null;
+    uploadedById: string | null;
+    checksum: string | null;
+    duplicateOfId: string | null;
+    duplicateSimilarity: number | null;
     pageCount: number | null;
     wordCount: number | null;
     language: string | null;
     metadata: any;
+    summary: string | null;
+    topics: string[];
+    tags: string[];
+    summaryModel: string | null;
+    summaryGeneratedAt: Date | null;
     ingestionStatus: any;
     ingestionStartedAt: Date | null;
     ingestionCompletedAt: Date | null;
@@ -59,10 +157,22 @@ export class DocumentService {
       s3Region: document.s3Region,
       s3Url: document.s3Url,
       thumbnailUrl: document.thumbnailUrl,
+      parentDocumentId: document.parentDocumentId,
+      archiveUploadId: document.archiveUploadId,
+      folder: document.folder,
+      uploadedById: document.uploadedById,
+      checksum: document.checksum,
+      duplicateOfId: document.duplicateOfId,
+      duplicateSimilarity: document.duplicateSimilarity,
       pageCount: document.pageCount,
       wordCount: document.wordCount,
       language: document.language,
       metadata: document.metadata as Record<string, unknown> | null,
+      summary: document.summary,
+      topics: document.topics,
+      tags: document.tags,
+      summaryModel: document.summaryModel,
+      summaryGeneratedAt: document.summaryGeneratedAt,
       ingestionStatus: document.ingestionStatus,
       ingestionStartedAt: document.ingestionStartedAt,
       ingestionCompletedAt: document.ingestionCompletedAt,
@@ -77,13 +187,150 @@ export class DocumentService {
     };
   }
 
+  /**
+   * Format archive upload response
+   */
+  private static formatArchiveUploadResponse(archive: {
+    id: string;
+    workspaceId: string;
+    fileName: string;
+    size: bigint;
+    status: ArchiveStatus;
+    entryCount: number;
+    documentCount: number;
+    skippedEntries: unknown;
+    error: string | null;
+    startedAt: Date | null;
+    completedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }): ArchiveUploadResponse {
+    return {
+      id: archive.id,
+      workspaceId: archive.workspaceId,
+      fileName: archive.fileName,
+      size: archive.size.toString(),
+      status: archive.status,
+      entryCount: archive.entryCount,
+      documentCount: archive.documentCount,
+      skippedEntries: (archive.skippedEntries as SkippedArchiveEntry[] | null) ?? [],
+      error: archive.error,
+      startedAt: archive.startedAt,
+      completedAt: archive.completedAt,
+      createdAt: archive.createdAt,
+      updatedAt: archive.updatedAt,
+    };
+  }
+
+  /**
+   * Whether no ingestion job is queued or running for a document
+   */
+  static isIngestionIdle(status: IngestionStatus): boolean {
+    return status === IngestionStatus.COMPLETED || status === IngestionStatus.FAILED;
+  }
+
+  /**
+   * Move an idle document to PENDING for a new ingestion job
+   * The status is checked and changed in one statement, so of concurrent requests only one
+   * queues a job; the others get a conflict
+   */
+  private static async claimIngestion(id: string, jobId: string): Promise<void> {
+    const { count } = await prisma.document.updateMany({
+      where: {
+        id,
+        ingestionStatus: { in: [IngestionStatus.COMPLETED, IngestionStatus.FAILED] },
+      },
+      data: {
+        ingestionStatus: IngestionStatus.PENDING,
+        ingestionStartedAt: null,
+        ingestionCompletedAt: null,
+        ingestionError: null,
+        ingestionJobId: jobId,
+      },
+    });
+
+    if (count === 0) {
+      throw ApiError.conflict('Document is already being indexed');
+    }
+  }
+
+  /**
+   * Determine the document type from a file name (extension) and MIME type
+   */
+  static getDocumentType(fileName: string, mimeType: string): DocumentType {
+    const extension = fileName.split('.').pop()?.toLowerCase() || '';
+    const normalizedMimeType = mimeType.toLowerCase();
+
+    // Map extensions to document types
+    const extensionMap: Record<string, DocumentType> = {
+      pdf: DocumentType.PDF,
+      docx: DocumentType.DOCX,
+      doc: DocumentType.DOC,
+      xlsx: DocumentType.XLSX,
+      xls: DocumentType.XLS,
+      pptx: DocumentType.PPTX,
+      ppt: DocumentType.PPT,
+      txt: DocumentType.TXT,
+      md: DocumentType.MD,
+      csv: DocumentType.CSV,
+      png: DocumentType.IMAGE,
+      jpg: DocumentType.IMAGE,
+      jpeg: DocumentType.IMAGE,
+      tif: DocumentType.IMAGE,
+      tiff: DocumentType.IMAGE,
+      html: DocumentType.HTML,
+      htm: DocumentType.HTML,
+      xhtml: DocumentType.HTML,
+      eml: DocumentType.EMAIL,
+      msg: DocumentType.EMAIL,
+      rtf: DocumentType.RTF,
+      json: DocumentType.JSON,
+      jsonl: DocumentType.JSON,
+      ndjson: DocumentType.JSON,
+    };
+
+    if (extensionMap[extension]) {
+      return extensionMap[extension];
+    }
+
+    // Fallback to MIME type mapping
+    const mimeTypeMap: Record<string, DocumentType> = {
+      'application/pdf': DocumentType.PDF,
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': DocumentType.DOCX,
+      'application/msword': DocumentType.DOC,
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': DocumentType.XLSX,
+      'application/vnd.ms-excel': DocumentType.XLS,
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation':
+        DocumentType.PPTX,
+      'application/vnd.ms-powerpoint': DocumentType.PPT,
+      'text/plain': DocumentType.TXT,
+      'text/markdown': DocumentType.MD,
+      'text/csv': DocumentType.CSV,
+      'image/png': DocumentType.IMAGE,
+      'image/jpeg': DocumentType.IMAGE,
+      'image/tiff': DocumentType.IMAGE,
+      'text/html': DocumentType.HTML,
+      'application/xhtml+xml': DocumentType.HTML,
+      'message/rfc822': DocumentType.EMAIL,
+      'application/vnd.ms-outlook': DocumentType.EMAIL,
+      'application/rtf': DocumentType.RTF,
+      'text/rtf': DocumentType.RTF,
+      'application/json': DocumentType.JSON,
+      'application/x-ndjson': DocumentType.JSON,
+      'application/jsonl': DocumentType.JSON,
+    };
+
+    return mimeTypeMap[normalizedMimeType] || DocumentType.OTHER;
+  }
+
   /**
    * Create a new document
    */
   static async createDocument(
     workspaceId: string,
     data: CreateDocumentInput,
-    userId: string
+    userId: string,
+    duplicateAction: DuplicateAction = 'allow'
   ): Promise<DocumentResponse> {
     // Verify user is a member of the workspace
     const membership = await prisma.workspaceMember.findFirst({
@@ -107,6 +354,16 @@ export class DocumentService {
       throw ApiError.conflict('Document with this S3 key already exists');
     }
 
+    // An identical file already in the workspace is ingested again, linked or rejected
+    const original = data.checksum
+      ? await this.findDuplicateOriginal(workspaceId, data.checksum)
+      : null;
+    if (original && duplicateAction === 'reject') {
+      await S3Service.deleteFile(data.s3Key); // The upload is already stored
+      throw ApiError.conflict(`This file is a duplicate of "${original.name}"`);
+    }
+    const link = Boolean(original) && duplicateAction === 'link';
+
     // Create document
     const document = await prisma.document.create({
       data: {
@@ -125,6 +382,9 @@ export class DocumentService {
         metadata: data.metadata || {},
         ingestionStatus: IngestionStatus.PENDING,
         uploadedAt: new Date(),
+        uploadedById: userId,
+        checksum: data.checksum,
+        ...this.getDuplicateFields(original, link),
       },
     });
 
@@ -139,33 +399,371 @@ export class DocumentService {
         name: document.name,
         type: document.type,
         size: data.size,
+        ...(original && { duplicateOfId: original.id }),
       },
     });
 
+    if (link) {
+      logger.info('Document linked to its duplicate instead of ingested', {
+        documentId: document.id,
+        duplicateOfId: original!.id,
+        workspaceId,
+      });
+      return this.formatDocumentResponse(document);
+    }
+
     // Queue document for ingestion
+    await this.queueIngestion(document);
+
+    logger.info('Document created and queued for ingestion', {
+      documentId: document.id,
+      workspaceId,
+      userId,
+    });
+
+    return this.formatDocumentResponse(document);
+  }
+
+  /**
+   * Store a file extracted from another upload (an email attachment or an archive entry),
+   * create its document and queue it for ingestion
+   */
+  private static async createExtractedDocument(
+    source: {
+      workspaceId: string;
+      s3Bucket: string;
+      s3Region: string;
+      uploadedById: string | null;
+    },
+    file: {
+      s3Key: string;
+      fileName: string;
+      mimeType: string;
+      content: Buffer;
+      type: DocumentType;
+      checksum: string;
+    },
+    links: { parentDocumentId?: string; archiveUploadId?: string; folder?: string | null },
+    duplicate: { original: { id: string }; link: boolean } | null
+  ): Promise<DocumentResponse> {
+    await S3Service.uploadFile(file.s3Key, file.content, file.mimeType, {
+      ...(links.parentDocumentId && { parentDocumentId: links.parentDocumentId }),
+      ...(links.archiveUploadId && { archiveUploadId: links.archiveUploadId }),
+    });
+
+    const document = await prisma.document.create({
+      data: {
+        workspaceId: source.workspaceId,
+        parentDocumentId: links.parentDocumentId,
+        archiveUploadId: links.archiveUploadId,
+        folder: links.folder,
+        name: file.fileName,
+        originalName: file.fileName,
+        type: file.type,
+        mimeType: file.mimeType,
+        size: BigInt(file.content.length),
+        status: DocumentStatus.UPLOADED,
+        s3Key: file.s3Key,
+        s3Bucket: source.s3Bucket,
+        s3Region: source.s3Region,
+        metadata: {},
+        ingestionStatus: IngestionStatus.PENDING,
+        uploadedAt: new Date(),
+        uploadedById: source.uploadedById,
+        checksum: file.checksum,
+        ...this.getDuplicateFields(duplicate?.original ?? null, duplicate?.link ?? false),
+      },
+    });
+
+    await createAuditLog({
+      workspaceId: source.workspaceId,
+      action: 'document.create',
+      resourceType: 'document',
+      resourceId: document.id,
+      details: {
+        name: document.name,
+        type: document.type,
+        size: file.content.length,
+        ...links,
+        ...(duplicate && { duplicateOfId: duplicate.original.id }),
+      },
+    });
+
+    if (!duplicate?.link) {
+      await this.queueIngestion(document);
+    }
+
+    return this.formatDocumentResponse(document);
+  }
+
+  /**
+   * Queue a new document for ingestion (the document ID is the job ID, for idempotency)
+   */
+  private static async queueIngestion(document: {
+    id: string;
+    workspaceId: string;
+    s3Key: string;
+    s3Bucket: string;
+    s3Region: string;
+    type: DocumentType;
+  }): Promise<void> {
+    await prisma.document.update({
+      where: { id: document.id },
+      data: { ingestionJobId: document.id },
+    });
     await documentIngestionQueue.add(
       'ingest-document',
       {
         documentId: document.id,
+        workspaceId: document.workspaceId,
+        s3Key: document.s3Key,
+        s3Bucket: document.s3Bucket,
+        s3Region: document.s3Region,
+        documentType: document.type,
+      },
+      {
+        jobId: document.id,
+        priority: 1,
+      }
+    );
+  }
+
+  /**
+   * Find the document an uploaded file duplicates: the earliest live document of the
+   * workspace with the same checksum
+   */
+  private static async findDuplicateOriginal(workspaceId: string, checksum: string) {
+    return prisma.document.findFirst({
+      where: { workspaceId, checksum, deletedAt: null },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true, name: true },
+    });
+  }
+
+  /**
+   * Document fields recording an identical file; a linked duplicate is not ingested
+   * and counts as processed straight away (search serves the original's chunks)
+   */
+  private static getDuplicateFields(original: { id: string } | null, link: boolean) {
+    if (!original) return {};
+
+    const now = new Date();
+    return {
+      duplicateOfId: original.id,
+      duplicateSimilarity: 1,
+      ...(link && {
+        status: DocumentStatus.PROCESSED,
+        ingestionStatus: IngestionStatus.COMPLETED,
+        ingestionCompletedAt: now,
+        processedAt: now,
+      }),
+    };
+  }
+
+  /**
+   * Create child documents for the attachments of an email and queue them for ingestion
+   * Attachment S3 keys derive from the email's key, so attachments that already exist
+   * (a re-indexed email or a retried job) are skipped; unsupported file types are not ingested
+   */
+  static async createAttachmentDocuments(
+    parentDocumentId: string,
+    attachments: EmailAttachment[],
+    duplicateAction: DuplicateAction = 'allow'
+  ): Promise<DocumentResponse[]> {
+    const parent = await prisma.document.findUniqueOrThrow({ where: { id: parentDocumentId } });
+    const documents: DocumentResponse[] = [];
+
+    for (const [index, attachment] of attachments.entries()) {
+      const type = this.getDocumentType(attachment.fileName, attachment.contentType);
+      if (type === DocumentType.OTHER) {
+        logger.info('Skipping unsupported email attachment', {
+          parentDocumentId,
+          fileName: attachment.fileName,
+          contentType: attachment.contentType,
+        });
+        continue;
+      }
+
+      const sanitizedFileName = attachment.fileName.replace(/[^a-zA-Z0-9.-]/g, '_');
+      const s3Key = `${parent.s3Key}.attachments/${index + 1}-${sanitizedFileName}`;
+      const existingDocument = await prisma.document.findUnique({ where: { s3Key } });
+      if (existingDocument) {
+        continue;
+      }
+
+      const checksum = crypto.createHash('sha256').update(attachment.content).digest('hex');
+      const original = await this.findDuplicateOriginal(parent.workspaceId, checksum);
+      if (original && duplicateAction === 'reject') {
+        logger.info('Skipping duplicate email attachment', {
+          parentDocumentId,
+          fileName: attachment.fileName,
+          duplicateOfId: original.id,
+        });
+        continue;
+      }
+
+      const document = await this.createExtractedDocument(
+        parent,
+        {
+          s3Key,
+          fileName: attachment.fileName,
+          mimeType: attachment.contentType,
+          content: attachment.content,
+          type,
+          checksum,
+        },
+        { parentDocumentId },
+        original && { original, link: duplicateAction === 'link' }
+      );
+      documents.push(document);
+    }
+
+    if (documents.length > 0) {
+      logger.info('Email attachments created and queued for ingestion', {
+        parentDocumentId,
+        count: documents.length,
+      });
+    }
+
+    return documents;
+  }
+
+  /**
+   * Record an uploaded ZIP archive and queue it for expansion
+   */
+  static async createArchiveUpload(
+    workspaceId: string,
+    data: { fileName: string; s3Key: string; size: number },
+    userId: string
+  ): Promise<ArchiveUploadResponse> {
+    const membership = await prisma.workspaceMember.findFirst({
+      where: {
+        workspaceId,
+        userId,
+        deletedAt: null,
+      },
+    });
+
+    if (!membership) {
+      throw ApiError.forbidden('You are not a member of this workspace');
+    }
+
+    const archive = await prisma.archiveUpload.create({
+      data: {
         workspaceId,
+        uploadedById: userId,
+        fileName: data.fileName,
         s3Key: data.s3Key,
-        s3Bucket: data.s3Bucket,
-        s3Region: data.s3Region,
-        documentType: data.type,
+        size: BigInt(data.size),
+        status: ArchiveStatus.PENDING,
+      },
+    });
+
+    await createAuditLog({
+      workspaceId,
+      userId,
+      action: 'archive.upload',
+      resourceType: 'archive',
+      resourceId: archive.id,
+      details: {
+        fileName: archive.fileName,
+        size: data.size,
       },
+    });
+
+    await archiveExpansionQueue.add(
+      'expand-archive',
       {
-        jobId: document.id, // Use document ID as job ID for idempotency
-        priority: 1,
+        archiveUploadId: archive.id,
+        workspaceId,
+        s3Key: data.s3Key,
+      },
+      {
+        jobId: archive.id, // Use archive ID as job ID for idempotency
       }
     );
 
-    logger.info('Document created and queued for ingestion', {
-      documentId: document.id,
+    logger.info('Archive uploaded and queued for expansion', {
+      archiveUploadId: archive.id,
       workspaceId,
       userId,
     });
 
-    return this.formatDocumentResponse(document);
+    return this.formatArchiveUploadResponse(archive);
+  }
+
+  /**
+   * Get an archive upload and the outcome of its expansion
+   */
+  static async getArchiveUpload(
+    workspaceId: string,
+    id: string,
+    userId: string
+  ): Promise<ArchiveUploadResponse> {
+    const membership = await prisma.workspaceMember.findFirst({
+      where: {
+        workspaceId,
+        userId,
+        deletedAt: null,
+      },
+    });
+
+    if (!membership) {
+      throw ApiError.forbidden('You are not a member of this workspace');
+    }
+
+    const archive = await prisma.archiveUpload.findFirst({ where: { id, workspaceId } });
+    if (!archive) {
+      throw ApiError.notFound('Archive upload not found');
+    }
+
+    return this.formatArchiveUploadResponse(archive);
+  }
+
+  /**
+   * Create a document for a file expanded from a ZIP archive and queue it for ingestion
+   * Returns the reason when the file is not ingested. Entry S3 keys derive from the archive's
+   * key and the entry's path, so entries that already exist (a retried expansion) are not
+   * created twice
+   */
+  static async createArchiveEntryDocument(
+    archive: { id: string; workspaceId: string; s3Key: string; uploadedById: string },
+    entry: ArchiveEntry,
+    duplicateAction: DuplicateAction = 'allow'
+  ): Promise<string | void> {
+    const extension = entry.fileName.split('.').pop()?.toLowerCase() || '';
+    const mimeType = MIME_TYPES_BY_EXTENSION[extension] ?? 'application/octet-stream';
+    const type = this.getDocumentType(entry.fileName, mimeType);
+    if (type === DocumentType.OTHER) {
+      return 'unsupported file type';
+    }
+
+    // Keyed by a hash of the path: sanitized paths collide (e.g. non-Latin names of one length)
+    const pathHash = crypto.createHash('sha256').update(entry.path).digest('hex').slice(0, 32);
+    const keyExtension = MIME_TYPES_BY_EXTENSION[extension] ? `.${extension}` : '';
+    const s3Key = `${archive.s3Key}.entries/${pathHash}${keyExtension}`;
+    const existingDocument = await prisma.document.findUnique({ where: { s3Key } });
+    if (existingDocument) {
+      return;
+    }
+
+    const checksum = crypto.createHash('sha256').update(entry.content).digest('hex');
+    const original = await this.findDuplicateOriginal(archive.workspaceId, checksum);
+    if (original && duplicateAction === 'reject') {
+      return `duplicate of "${original.name}"`;
+    }
+
+    await this.createExtractedDocument(
+      {
+        workspaceId: archive.workspaceId,
+        s3Bucket: env.AWS_S3_BUCKET,
+        s3Region: env.AWS_REGION,
+        uploadedById: archive.uploadedById,
+      },
+      { s3Key, fileName: entry.fileName, mimeType, content: entry.content, type, checksum },
+      { archiveUploadId: archive.id, folder: entry.folder },
+      original && { original, link: duplicateAction === 'link' }
+    );
   }
 
   /**
@@ -220,7 +818,17 @@ export class DocumentService {
       throw ApiError.forbidden('You are not a member of this workspace');
     }
 
-    const { page = 1, limit = 10, search, type, status, ingestionStatus } = params;
+    const {
+      page = 1,
+      limit = 10,
+      search,
+      type,
+      status,
+      ingestionStatus,
+      parentDocumentId,
+      archiveUploadId,
+      folder,
+    } = params;
     const skip = (page - 1) * limit;
 
     // Build filter
@@ -231,6 +839,9 @@ export class DocumentService {
       type?: any;
       status?: any;
       ingestionStatus?: any;
+      parentDocumentId?: string;
+      archiveUploadId?: string;
+      folder?: string;
     } = {
       workspaceId,
       deletedAt: null,
@@ -255,6 +866,18 @@ export class DocumentService {
       where.ingestionStatus = ingestionStatus;
     }
 
+    if (parentDocumentId) {
+      where.parentDocumentId = parentDocumentId;
+    }
+
+    if (archiveUploadId) {
+      where.archiveUploadId = archiveUploadId;
+    }
+
+    if (folder) {
+      where.folder = folder;
+    }
+
     // Get documents and total count
     const [documents, total] = await Promise.all([
       prisma.document.findMany({
@@ -327,6 +950,10 @@ export class DocumentService {
       details: { updatedFields: Object.keys(data) },
     });
 
+    if (data.metadata) {
+      await this.syncSearchPayload(id);
+    }
+
     logger.info('Document updated', { documentId: id, userId });
 
     return this.formatDocumentResponse(updatedDocument);
@@ -357,11 +984,32 @@ export class DocumentService {
       throw ApiError.forbidden('You are not a member of this workspace');
     }
 
-    // Soft delete
+    // Soft delete, together with the attachments extracted from it (and theirs)
+    const deletedAt = new Date();
     await prisma.document.update({
       where: { id },
-      data: { deletedAt: new Date(), status: DocumentStatus.DELETED },
+      data: { deletedAt, status: DocumentStatus.DELETED },
     });
+    const deletedIds = [id];
+    let parentIds = [id];
+    while (parentIds.length > 0) {
+      const attachments = await prisma.document.findMany({
+        where: { parentDocumentId: { in: parentIds }, deletedAt: null },
+        select: { id: true },
+      });
+      parentIds = attachments.map(attachment => attachment.id);
+      if (parentIds.length > 0) {
+        await prisma.document.updateMany({
+          where: { id: { in: parentIds } },
+          data: { deletedAt, status: DocumentStatus.DELETED },
+        });
+        deletedIds.push(...parentIds);
+      }
+    }
+
+    for (const deletedId of deletedIds) {
+      await this.promoteDuplicate(deletedId);
+    }
 
     // Create audit log
     await createAuditLog({
@@ -376,38 +1024,236 @@ export class DocumentService {
   }
 
   /**
-   * Update document ingestion status
-   * This is typically called by background workers
+   * Make the earliest duplicate of a deleted document the original of the others
+   * A linked duplicate was never ingested, so it is queued for ingestion when promoted
    */
-  static async updateIngestionStatus(
-    id: string,
-    status: IngestionStatus,
-    error?: string,
-    metadata?: {
-      chunkCount?: number;
-      embeddingCount?: number;
-      qdrantCollectionId?: string;
-      pageCount?: number;
-      wordCount?: number;
-    }
-  ): Promise<DocumentResponse> {
-    const updateData: any = {
-      ingestionStatus: status,
-    };
+  private static async promoteDuplicate(deletedId: string): Promise<void> {
+    const [promoted, ...others] = await prisma.document.findMany({
+      where: { duplicateOfId: deletedId, deletedAt: null },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (!promoted) return;
 
-    if (status === IngestionStatus.PARSING) {
-      updateData.ingestionStartedAt = new Date();
+    if (others.length > 0) {
+      await prisma.document.updateMany({
+        where: { id: { in: others.map(document => document.id) } },
+        data: { duplicateOfId: promoted.id },
+      });
     }
 
-    if (status === IngestionStatus.COMPLETED) {
-      updateData.ingestionCompletedAt = new Date();
-      updateData.processedAt = new Date();
-      updateData.status = DocumentStatus.PROCESSED;
+    const linked =
+      promoted.indexVersion === 0 && promoted.ingestionStatus === IngestionStatus.COMPLETED;
+    await prisma.document.update({
+      where: { id: promoted.id },
+      data: {
+        duplicateOfId: null,
+        duplicateSimilarity: null,
+        ...(linked && {
+          status: DocumentStatus.UPLOADED,
+          ingestionStatus: IngestionStatus.PENDING,
+          ingestionCompletedAt: null,
+          processedAt: null,
+        }),
+      },
+    });
+    if (linked) {
+      await this.queueIngestion(promoted);
     }
 
-    if (status === IngestionStatus.FAILED) {
+    logger.info('Duplicate promoted to original', {
+      documentId: promoted.id,
+      deletedDocumentId: deletedId,
+      queuedForIngestion: linked,
+    });
+  }
+
+  /**
+   * Record a document's MinHash signature and link it to the earlier document whose text
+   * it nearly duplicates (similarity at or above the threshold), if any
+   * Called after ingestion; links to identical files made at upload are kept
+   */
+  static async detectNearDuplicates(id: string, threshold: number): Promise<void> {
+    const document = await prisma.document.findUniqueOrThrow({
+      where: { id },
+      select: {
+        workspaceId: true,
+        indexVersion: true,
+        createdAt: true,
+        duplicateOfId: true,
+        duplicateSimilarity: true,
+      },
+    });
+
+    const chunks = await prisma.chunk.findMany({
+      where: { documentId: id, version: document.indexVersion, deletedAt: null },
+      orderBy: { chunkIndex: 'asc' },
+      select: { content: true },
+    });
+    const minhash = computeMinHash(chunks.map(chunk => chunk.content));
+
+    if (document.duplicateOfId && document.duplicateSimilarity === 1) {
+      await prisma.document.update({ where: { id }, data: { minhash } });
+      return;
+    }
+
+    // Only earlier documents can be originals, so links never form cycles
+    const candidates = await prisma.document.findMany({
+      where: {
+        workspaceId: document.workspaceId,
+        id: { not: id },
+        deletedAt: null,
+        createdAt: { lt: document.createdAt },
+        minhash: { isEmpty: false },
+      },
+      select: { id: true, minhash: true },
+    });
+
+    let best: { id: string; similarity: number } | null = null;
+    for (const candidate of candidates) {
+      const similarity = estimateSimilarity(minhash, candidate.minhash);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { id: candidate.id, similarity };
+      }
+    }
+
+    await prisma.document.update({
+      where: { id },
+      data: {
+        minhash,
+        duplicateOfId: best?.id ?? null,
+        duplicateSimilarity: best?.similarity ?? null,
+      },
+    });
+
+    if (best) {
+      logger.info('Near-duplicate document detected', {
+        documentId: id,
+        duplicateOfId: best.id,
+        similarity: best.similarity,
+      });
+    }
+  }
+
+  /**
+   * List the groups of duplicate documents in a workspace: each original with the
+   * documents that duplicate it (directly or through another duplicate)
+   * Groups with the most recent duplicates come first
+   */
+  static async getDuplicateGroups(
+    workspaceId: string,
+    userId: string,
+    params: { page?: number; limit?: number }
+  ) {
+    const membership = await prisma.workspaceMember.findFirst({
+      where: {
+        workspaceId,
+        userId,
+        deletedAt: null,
+      },
+    });
+
+    if (!membership) {
+      throw ApiError.forbidden('You are not a member of this workspace');
+    }
+
+    const page = params.page || 1;
+    const limit = params.limit || 20;
+
+    const duplicates = await prisma.document.findMany({
+      where: { workspaceId, deletedAt: null, duplicateOfId: { not: null } },
+      orderBy: { createdAt: 'desc' },
+    });
+    const originalIds = new Map(duplicates.map(document => [document.id, document.duplicateOfId!]));
+    const findRoot = (documentId: string): string => {
+      let root = documentId;
+      while (originalIds.has(root)) {
+        root = originalIds.get(root)!;
+      }
+      return root;
+    };
+
+    const groups = new Map<string, typeof duplicates>();
+    for (const document of duplicates) {
+      const root = findRoot(document.id);
+      groups.set(root, [...(groups.get(root) ?? []), document]);
+    }
+
+    const total = groups.size;
+    const rootIds = Array.from(groups.keys()).slice((page - 1) * limit, page * limit);
+    const originals = await prisma.document.findMany({
+      where: { id: { in: rootIds } },
+    });
+    const originalsById = new Map(originals.map(document => [document.id, document]));
+
+    const data: DuplicateGroupResponse[] = rootIds
+      .filter(rootId => originalsById.has(rootId))
+      .map(rootId => ({
+        original: this.formatDocumentResponse(originalsById.get(rootId)!),
+        duplicates: groups
+          .get(rootId)!
+          .reverse()
+          .map(document => ({
+            ...this.formatDocumentResponse(document),
+            linked:
+              document.indexVersion === 0 && document.ingestionStatus === IngestionStatus.COMPLETED,
+          })),
+      }));
+
+    return {
+      data,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page < Math.ceil(total / limit),
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Update document ingestion status
+   * This is typically called by background workers
+   */
+  static async updateIngestionStatus(
+    id: string,
+    status: IngestionStatus,
+    error?: string,
+    metadata?: {
+      chunkCount?: number;
+      embeddingCount?: number;
+      qdrantCollectionId?: string;
+      pageCount?: number;
+      wordCount?: number;
+      indexVersion?: number;
+    }
+  ): Promise<DocumentResponse> {
+    const updateData: any = {
+      ingestionStatus: status,
+    };
+
+    if (status === IngestionStatus.PARSING) {
+      updateData.ingestionStartedAt = new Date();
+    }
+
+    if (status === IngestionStatus.COMPLETED) {
+      updateData.ingestionCompletedAt = new Date();
+      updateData.processedAt = new Date();
+      updateData.status = DocumentStatus.PROCESSED;
+    }
+
+    if (status === IngestionStatus.FAILED) {
       updateData.ingestionError = error;
-      updateData.status = DocumentStatus.FAILED;
+
+      // A failed re-index leaves the previous version searchable
+      const current = await prisma.document.findUnique({
+        where: { id },
+        select: { indexVersion: true },
+      });
+      if (!current?.indexVersion) {
+        updateData.status = DocumentStatus.FAILED;
+      }
     }
 
     if (metadata) {
@@ -426,6 +1272,9 @@ export class DocumentService {
       if (metadata.wordCount !== undefined) {
         updateData.wordCount = metadata.wordCount;
       }
+      if (metadata.indexVersion !== undefined) {
+        updateData.indexVersion = metadata.indexVersion;
+      }
     }
 
     const document = await prisma.document.update({
@@ -442,10 +1291,144 @@ export class DocumentService {
   }
 
   /**
-   * Re-index a document
-   * Resets ingestion status and queues document for re-ingestion
+   * Store the metadata extracted from a document's file in Document.metadata
+   * Properties from an earlier run are replaced (a property removed from the file goes away);
+   * custom keys set through the API are kept
    */
-  static async reindexDocument(id: string, userId: string): Promise<DocumentResponse> {
+  static async updateExtractedMetadata(id: string, extracted: DocumentProperties): Promise<void> {
+    const document = await prisma.document.findUniqueOrThrow({
+      where: { id },
+      select: { metadata: true },
+    });
+
+    const metadata = { ...((document.metadata as Record<string, unknown> | null) ?? {}) };
+    for (const key of EXTRACTED_METADATA_KEYS) {
+      delete metadata[key];
+    }
+
+    const merged: Prisma.InputJsonValue = { ...metadata, ...extracted };
+    await prisma.document.update({
+      where: { id },
+      data: { metadata: merged },
+    });
+  }
+
+  /**
+   * Generate a document's summary, topics and tags from its text and store them
+   */
+  static async summarizeDocument(id: string, text: string): Promise<void> {
+    const { summary, topics, tags, model } = await OpenAIService.generateDocumentSummary(text);
+
+    await prisma.document.update({
+      where: { id },
+      data: {
+        summary,
+        topics,
+        tags,
+        summaryModel: model,
+        summaryGeneratedAt: new Date(),
+      },
+    });
+
+    logger.info('Document summary generated', { documentId: id, model });
+  }
+
+  /**
+   * Document fields copied onto the Qdrant point of each of its chunks, so that vector
+   * search can filter on them (see SearchService.buildQdrantFilter)
+   */
+  static buildSearchPayload(document: {
+    type: DocumentType;
+    tags: string[];
+    metadata: unknown;
+    uploadedById: string | null;
+    createdAt: Date;
+  }): Record<string, unknown> {
+    return {
+      documentType: document.type,
+      uploadedById: document.uploadedById,
+      uploadedAt: document.createdAt.toISOString(),
+      tags: document.tags,
+      metadata: document.metadata ?? {},
+    };
+  }
+
+  /**
+   * Copy a document's current fields onto the Qdrant points of its chunks (after an edit)
+   * A failure leaves search filtering on the previous values, so it is logged, not thrown
+   */
+  static async syncSearchPayload(id: string): Promise<void> {
+    const document = await prisma.document.findUnique({ where: { id } });
+    if (!document || document.deletedAt) return;
+
+    try {
+      await this.writeSearchPayload(document);
+    } catch (error) {
+      logger.warn('Failed to update the search payload of a document', { error, documentId: id });
+    }
+  }
+
+  /**
+   * Rewrite the search payload of every indexed document, in all workspaces or in one
+   * (e.g. for vectors stored before a field was added to the payload)
+   */
+  static async syncSearchPayloads(
+    workspaceId?: string
+  ): Promise<{ documents: number; failed: string[] }> {
+    const documents = await prisma.document.findMany({
+      where: { ...(workspaceId && { workspaceId }), deletedAt: null, indexVersion: { gt: 0 } },
+      orderBy: { workspaceId: 'asc' },
+    });
+
+    const failed: string[] = [];
+    const indexedCollections = new Set<string>();
+    for (const document of documents) {
+      try {
+        const collectionName = `workspace_${document.workspaceId}`;
+        if (!indexedCollections.has(collectionName)) {
+          await QdrantService.createPayloadIndexes(collectionName);
+          indexedCollections.add(collectionName);
+        }
+        await this.writeSearchPayload(document);
+      } catch (error) {
+        logger.warn('Failed to update the search payload of a document', {
+          error,
+          documentId: document.id,
+        });
+        failed.push(document.id);
+      }
+    }
+
+    logger.info('Search payloads synced', {
+      workspaceId,
+      documents: documents.length,
+      failed: failed.length,
+    });
+
+    return { documents: documents.length, failed };
+  }
+
+  private static async writeSearchPayload(document: {
+    id: string;
+    workspaceId: string;
+    type: DocumentType;
+    tags: string[];
+    metadata: unknown;
+    uploadedById: string | null;
+    createdAt: Date;
+  }): Promise<void> {
+    await QdrantService.setPayload(
+      `workspace_${document.workspaceId}`,
+      this.buildSearchPayload(document),
+      { must: [{ key: 'documentId', match: { value: document.id } }] }
+    );
+  }
+
+  /**
+   * Regenerate the summary, topics and tags of an indexed document
+   * Works from the chunks search is serving, so the file is not downloaded and parsed again
+   */
+  static async regenerateSummary(id: string, userId: string): Promise<DocumentResponse> {
     const document = await prisma.document.findUnique({
       where: { id },
     });
@@ -467,20 +1450,184 @@ export class DocumentService {
       throw ApiError.forbidden('You are not a member of this workspace');
     }
 
-    // Reset ingestion status
-    const updatedDocument = await prisma.document.update({
+    if (document.indexVersion === 0) {
+      throw ApiError.conflict('Document has not been indexed yet');
+    }
+
+    const chunks = await prisma.chunk.findMany({
+      where: { documentId: id, version: document.indexVersion, deletedAt: null },
+      orderBy: { chunkIndex: 'asc' },
+      select: { content: true },
+      take: SUMMARY_SOURCE_CHUNKS,
+    });
+    if (chunks.length === 0) {
+      throw ApiError.conflict('Document has no indexed text to summarize');
+    }
+
+    await this.summarizeDocument(id, chunks.map(chunk => chunk.content).join('\n\n'));
+    await this.syncSearchPayload(id); // New tags
+
+    // Create audit log
+    await createAuditLog({
+      workspaceId: document.workspaceId,
+      userId,
+      action: 'document.summarize',
+      resourceType: 'document',
+      resourceId: id,
+      details: {
+        name: document.name,
+      },
+    });
+
+    const updatedDocument = await prisma.document.findUniqueOrThrow({
       where: { id },
-      data: {
-        ingestionStatus: IngestionStatus.PENDING,
-        ingestionStartedAt: null,
-        ingestionCompletedAt: null,
-        ingestionError: null,
-        status: DocumentStatus.UPLOADED,
-        chunkCount: 0,
-        embeddingCount: 0,
+    });
+
+    return this.formatDocumentResponse(updatedDocument);
+  }
+
+  /**
+   * Build the progress reported for an ingestion stage
+   */
+  static buildIngestionProgress(
+    stage: IngestionStatus,
+    chunksEmbedded: number = 0,
+    chunksTotal: number = 0
+  ): IngestionProgress {
+    let percent = STAGE_PROGRESS[stage];
+    if (stage === IngestionStatus.EMBEDDING && chunksTotal > 0) {
+      const embeddingRange = STAGE_PROGRESS.INDEXING - STAGE_PROGRESS.EMBEDDING;
+      percent += Math.floor((embeddingRange * chunksEmbedded) / chunksTotal);
+    }
+
+    return { stage, chunksEmbedded, chunksTotal, percent };
+  }
+
+  /**
+   * Get the ingestion status and progress of a document
+   * Progress comes from the running job; idle documents report their stored status
+   */
+  static async getIngestionProgress(
+    id: string,
+    userId: string
+  ): Promise<IngestionProgressResponse> {
+    const document = await prisma.document.findUnique({
+      where: { id },
+    });
+
+    if (!document || document.deletedAt) {
+      throw ApiError.notFound('Document not found');
+    }
+
+    // Verify user is a member
+    const membership = await prisma.workspaceMember.findFirst({
+      where: {
+        workspaceId: document.workspaceId,
+        userId,
+        deletedAt: null,
+      },
+    });
+
+    if (!membership) {
+      throw ApiError.forbidden('You are not a member of this workspace');
+    }
+
+    const job =
+      document.ingestionJobId && !this.isIngestionIdle(document.ingestionStatus)
+        ? await documentIngestionQueue.getJob(document.ingestionJobId)
+        : undefined;
+    const jobProgress =
+      job && typeof job.progress === 'object' ? (job.progress as IngestionProgress) : null;
+
+    let progress: IngestionProgress;
+    if (jobProgress) {
+      progress = jobProgress;
+    } else if (document.ingestionStatus === IngestionStatus.COMPLETED) {
+      progress = this.buildIngestionProgress(
+        IngestionStatus.COMPLETED,
+        document.embeddingCount,
+        document.chunkCount
+      );
+    } else {
+      progress = this.buildIngestionProgress(document.ingestionStatus);
+    }
+
+    return {
+      documentId: document.id,
+      ingestionStatus: document.ingestionStatus,
+      ingestionStartedAt: document.ingestionStartedAt,
+      ingestionCompletedAt: document.ingestionCompletedAt,
+      ingestionError: document.ingestionError,
+      jobId: document.ingestionJobId,
+      attempt: job ? job.attemptsMade + 1 : null,
+      progress,
+    };
+  }
+
+  /**
+   * Listen to progress and completion events of an ingestion job
+   * Returns a function that removes the listeners
+   */
+  static subscribeToIngestion(
+    jobId: string,
+    listener: (event: IngestionEvent) => void
+  ): () => void {
+    const queueEvents = getDocumentIngestionQueueEvents();
+
+    const onProgress = (args: { jobId: string; data: unknown }) => {
+      if (args.jobId === jobId && typeof args.data === 'object') {
+        listener({ type: 'progress', progress: args.data as IngestionProgress });
+      }
+    };
+    const onFinished = (args: { jobId: string }) => {
+      if (args.jobId === jobId) {
+        listener({ type: 'finished' });
+      }
+    };
+
+    queueEvents.on('progress', onProgress);
+    queueEvents.on('completed', onFinished);
+    queueEvents.on('failed', onFinished);
+
+    return () => {
+      queueEvents.off('progress', onProgress);
+      queueEvents.off('completed', onFinished);
+      queueEvents.off('failed', onFinished);
+    };
+  }
+
+  /**
+   * Re-index a document
+   * Queues the document for re-ingestion; search keeps serving the current chunks
+   * until the new version is complete
+   */
+  static async reindexDocument(id: string, userId: string): Promise<DocumentResponse> {
+    const document = await prisma.document.findUnique({
+      where: { id },
+    });
+
+    if (!document || document.deletedAt) {
+      throw ApiError.notFound('Document not found');
+    }
+
+    // Verify user is a member
+    const membership = await prisma.workspaceMember.findFirst({
+      where: {
+        workspaceId: document.workspaceId,
+        userId,
+        deletedAt: null,
       },
     });
 
+    if (!membership) {
+      throw ApiError.forbidden('You are not a member of this workspace');
+    }
+
+    // Reset ingestion status (document status and counts stay until the new version is swapped in)
+    const jobId = `${document.id}-${Date.now()}`; // Unique job ID for re-indexing
+    await this.claimIngestion(id, jobId);
+    const updatedDocument = await prisma.document.findUniqueOrThrow({ where: { id } });
+
     // Queue document for re-ingestion
     await documentIngestionQueue.add(
       'ingest-document',
@@ -493,10 +1640,12 @@ export class DocumentService {
         documentType: document.type,
       },
       {
-        jobId: `${document.id}-${Date.now()}`, // Unique job ID for re-indexing
+        jobId,
         priority: 1,
       }
     );
+    // Earlier failures are superseded by the new build
+    await IngestionDeadLetterService.removeForDocuments([document.id]);
 
     // Create audit log
     await createAuditLog({
@@ -519,4 +1668,197 @@ export class DocumentService {
 
     return this.formatDocumentResponse(updatedDocument);
   }
+
+  /**
+   * List ingestion jobs that failed for good (the dead-letter queue), most recent first
+   * Access is checked by the routes (workspace owners and admins, or system admins)
+   */
+  static async getIngestionFailures(
+    filters: IngestionDeadLetterFilters & { page?: number; limit?: number }
+  ) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+
+    const entries = await IngestionDeadLetterService.getEntries(filters);
+    const pageEntries = entries.slice((page - 1) * limit, page * limit);
+
+    const documents = await prisma.document.findMany({
+      where: { id: { in: pageEntries.map(entry => entry.data.job.documentId) }, deletedAt: null },
+      select: { id: true, name: true },
+    });
+    const names = new Map(documents.map(document => [document.id, document.name]));
+
+    const data: IngestionFailureResponse[] = pageEntries.map(({ data: entry }) => ({
+      jobId: entry.ingestionJobId,
+      documentId: entry.job.documentId,
+      documentName: names.get(entry.job.documentId) ?? null,
+      workspaceId: entry.job.workspaceId,
+      stage: entry.stage,
+      errorClass: entry.errorClass,
+      errorName: entry.errorName,
+      errorMessage: entry.errorMessage,
+      stack: entry.stack,
+      attemptsMade: entry.attemptsMade,
+      failedAt: entry.failedAt,
+    }));
+
+    const total = entries.length;
+    return {
+      data,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page < Math.ceil(total / limit),
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Retry a failed ingestion job from the dead-letter queue
+   * The new job starts a fresh build (the failed one's chunks may be superseded by now);
+   * the entry is removed from the dead-letter queue. workspaceId restricts the entries
+   * that can be retried to one workspace
+   */
+  static async retryIngestionFailure(
+    jobId: string,
+    userId: string,
+    workspaceId?: string
+  ): Promise<{ documentId: string; newJobId: string }> {
+    const entry = await IngestionDeadLetterService.getEntry(jobId);
+    if (!entry || (workspaceId && entry.data.job.workspaceId !== workspaceId)) {
+      throw ApiError.notFound('Failed ingestion job not found');
+    }
+
+    const { documentId } = entry.data.job;
+    const document = await prisma.document.findUnique({
+      where: { id: documentId },
+    });
+
+    if (!document || document.deletedAt) {
+      await IngestionDeadLetterService.remove(jobId);
+      throw ApiError.notFound('Document not found');
+    }
+
+    // The failed attempt's progress is not carried over: its build may have been superseded
+    // (and its chunks dropped) by a later index of the document
+    const { chunksStored: _chunksStored, version: _version, ...job } = entry.data.job;
+    const newJobId = `${documentId}-${Date.now()}`;
+    await this.claimIngestion(documentId, newJobId);
+    await documentIngestionQueue.add('ingest-document', job, {
+      jobId: newJobId,
+      priority: 1,
+    });
+    await IngestionDeadLetterService.remove(jobId);
+
+    // Create audit log
+    await createAuditLog({
+      workspaceId: document.workspaceId,
+      userId,
+      action: 'document.ingestionRetry',
+      resourceType: 'document',
+      resourceId: documentId,
+      details: {
+        failedJobId: jobId,
+        jobId: newJobId,
+        errorClass: entry.data.errorClass,
+      },
+    });
+
+    logger.info('Failed ingestion job retried', { documentId, failedJobId: jobId, newJobId });
+
+    return { documentId, newJobId };
+  }
+
+  /**
+   * Retry every failed ingestion job matching the filters
+   * Jobs that cannot be retried are reported without stopping the others
+   */
+  static async retryIngestionFailures(
+    filters: IngestionDeadLetterFilters,
+    userId: string
+  ): Promise<IngestionRetryResult> {
+    const entries = await IngestionDeadLetterService.getEntries(filters);
+    const result: IngestionRetryResult = { retried: [], failed: [] };
+
+    for (const entry of entries) {
+      const jobId = entry.data.ingestionJobId;
+      try {
+        const retried = await this.retryIngestionFailure(jobId, userId, filters.workspaceId);
+        result.retried.push({ jobId, ...retried });
+      } catch (error) {
+        result.failed.push({
+          jobId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Queue every document of a workspace for re-ingestion
+   * Used when the workspace's ingestion settings change; documents already being
+   * indexed are skipped, as are linked duplicates (they have no index of their own)
+   */
+  static async reindexWorkspaceDocuments(workspaceId: string): Promise<number> {
+    const documents = await prisma.document.findMany({
+      where: {
+        workspaceId,
+        deletedAt: null,
+        ingestionStatus: { in: [IngestionStatus.COMPLETED, IngestionStatus.FAILED] },
+        NOT: { duplicateOfId: { not: null }, indexVersion: 0 },
+      },
+      select: { id: true, s3Key: true, s3Bucket: true, s3Region: true, type: true },
+    });
+
+    if (documents.length === 0) {
+      return 0;
+    }
+
+    const queuedAt = Date.now();
+    await prisma.$transaction(
+      documents.map(document =>
+        prisma.document.update({
+          where: { id: document.id },
+          data: {
+            ingestionStatus: IngestionStatus.PENDING,
+            ingestionStartedAt: null,
+            ingestionCompletedAt: null,
+            ingestionError: null,
+            ingestionJobId: `${document.id}-${queuedAt}`,
+          },
+        })
+      )
+    );
+
+    await documentIngestionQueue.addBulk(
+      documents.map(document => ({
+        name: 'ingest-document',
+        data: {
+          documentId: document.id,
+          workspaceId,
+          s3Key: document.s3Key,
+          s3Bucket: document.s3Bucket,
+          s3Region: document.s3Region,
+          documentType: document.type,
+        },
+        opts: {
+          jobId: `${document.id}-${queuedAt}`, // Unique job ID for re-indexing
+          priority: 2, // Below new uploads
+        },
+      }))
+    );
+    await IngestionDeadLetterService.removeForDocuments(documents.map(document => document.id));
+
+    logger.info('Workspace documents queued for re-indexing', {
+      workspaceId,
+      documentCount: documents.length,
+    });
+
+    return documents.length;
+  }
 }
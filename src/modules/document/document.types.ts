@@ -1,4 +1,6 @@
-import { DocumentType, DocumentStatus, IngestionStatus } from '@prisma/client';
+import { ArchiveStatus, DocumentType, DocumentStatus, IngestionStatus } from '@prisma/client';
+import type { SkippedArchiveEntry } from '../../utils/parsers/zipArchive';
+import type { IngestionErrorClass } from '../../utils/ingestionErrors';
 
 export type CreateDocumentInput = {
   name: string;
@@ -12,6 +14,7 @@ export type CreateDocumentInput = {
   s3Url?: string;
   thumbnailUrl?: string;
   metadata?: Record<string, unknown>;
+  checksum?: string; // SHA-256 of the file, for duplicate detection
 };
 
 export type UpdateDocumentInput = {
@@ -33,10 +36,22 @@ export type DocumentResponse = {
   s3Region: string;
   s3Url: string | null;
   thumbnailUrl: string | null;
+  parentDocumentId: string | null; // Email the document was attached to
+  archiveUploadId: string | null; // ZIP archive the document was expanded from
+  folder: string | null; // Folder of the document inside that archive
+  uploadedById: string | null; // User who uploaded the file (or the email or archive it came from)
+  checksum: string | null;
+  duplicateOfId: string | null; // Earlier document with the same (or nearly the same) content
+  duplicateSimilarity: number | null; // 1 for an identical file
   pageCount: number | null;
   wordCount: number | null;
   language: string | null;
   metadata: Record<string, unknown> | null;
+  summary: string | null; // Generated summary (null until generated)
+  topics: string[];
+  tags: string[]; // Suggested tags
+  summaryModel: string | null;
+  summaryGeneratedAt: Date | null;
   ingestionStatus: IngestionStatus;
   ingestionStartedAt: Date | null;
   ingestionCompletedAt: Date | null;
@@ -57,4 +72,69 @@ export type DocumentQueryParams = {
   type?: DocumentType;
   status?: DocumentStatus;
   ingestionStatus?: IngestionStatus;
+  parentDocumentId?: string;
+  archiveUploadId?: string;
+  folder?: string;
 };
+
+export type DuplicateGroupResponse = {
+  original: DocumentResponse;
+  duplicates: Array<DocumentResponse & { linked: boolean }>; // linked: not ingested, the original serves it
+};
+
+export type ArchiveUploadResponse = {
+  id: string;
+  workspaceId: string;
+  fileName: string;
+  size: string;
+  status: ArchiveStatus;
+  entryCount: number; // Files in the archive
+  documentCount: number; // Documents created from it
+  skippedEntries: SkippedArchiveEntry[]; // Files that were not ingested, with the reason
+  error: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type IngestionProgress = {
+  stage: IngestionStatus;
+  chunksEmbedded: number;
+  chunksTotal: number;
+  percent: number; // 0-100 across all stages
+};
+
+export type IngestionProgressResponse = {
+  documentId: string;
+  ingestionStatus: IngestionStatus;
+  ingestionStartedAt: Date | null;
+  ingestionCompletedAt: Date | null;
+  ingestionError: string | null;
+  jobId: string | null;
+  attempt: number | null; // 1-based attempt of the running job
+  progress: IngestionProgress;
+};
+
+export type IngestionFailureResponse = {
+  jobId: string; // The ingestion job that failed
+  documentId: string;
+  documentName: string | null; // null once the document is deleted
+  workspaceId: string;
+  stage: string; // Ingestion stage the job failed in
+  errorClass: IngestionErrorClass;
+  errorName: string;
+  errorMessage: string;
+  stack: string | null;
+  attemptsMade: number;
+  failedAt: string;
+};
+
+export type IngestionRetryResult = {
+  retried: Array<{ jobId: string; documentId: string; newJobId: string }>;
+  failed: Array<{ jobId: string; error: string }>;
+};
+
+export type IngestionEvent =
+  | { type: 'progress'; progress: IngestionProgress }
+  | { type: 'finished' }; // The job completed or failed for good
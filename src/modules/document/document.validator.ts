@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { DocumentType, DocumentStatus, IngestionStatus } from '@prisma/client';
+import { DUPLICATE_ACTIONS } from '../workspace/workspace.validator';
+import { INGESTION_ERROR_CLASSES } from '../../utils/ingestionErrors';
 
 export const createDocumentSchema = z.object({
   body: z.object({
@@ -17,6 +19,19 @@ export const createDocumentSchema = z.object({
   }),
 });
 
+export const uploadDocumentSchema = z.object({
+  query: z.object({
+    duplicates: z.enum(DUPLICATE_ACTIONS).optional(), // Overrides the workspace setting
+  }),
+});
+
+export const getDuplicateGroupsSchema = z.object({
+  query: z.object({
+    page: z.string().regex(/^\d+$/).transform(Number).optional(),
+    limit: z.string().regex(/^\d+$/).transform(Number).optional(),
+  }),
+});
+
 export const updateDocumentSchema = z.object({
   body: z.object({
     name: z.string().min(1).max(255).optional(),
@@ -41,6 +56,44 @@ export const getDocumentsSchema = z.object({
     type: z.nativeEnum(DocumentType).optional(),
     status: z.nativeEnum(DocumentStatus).optional(),
     ingestionStatus: z.nativeEnum(IngestionStatus).optional(),
+    parentDocumentId: z.string().cuid('Invalid document ID').optional(),
+    archiveUploadId: z.string().cuid('Invalid archive ID').optional(),
+    folder: z.string().max(1024).optional(),
+  }),
+});
+
+export const getArchiveUploadSchema = z.object({
+  params: z.object({
+    id: z.string().cuid('Invalid workspace ID'),
+    archiveId: z.string().cuid('Invalid archive ID'),
+  }),
+});
+
+export const getIngestionFailuresSchema = z.object({
+  params: z.object({
+    id: z.string().cuid('Invalid workspace ID'),
+  }),
+  query: z.object({
+    page: z.string().regex(/^\d+$/).transform(Number).optional(),
+    limit: z.string().regex(/^\d+$/).transform(Number).optional(),
+    errorClass: z.enum(INGESTION_ERROR_CLASSES).optional(),
+  }),
+});
+
+export const retryIngestionFailureSchema = z.object({
+  params: z.object({
+    id: z.string().cuid('Invalid workspace ID'),
+    jobId: z.string().min(1, 'Job ID is required'),
+  }),
+});
+
+export const retryIngestionFailuresSchema = z.object({
+  params: z.object({
+    id: z.string().cuid('Invalid workspace ID'),
+  }),
+  body: z.object({
+    jobIds: z.array(z.string().min(1)).min(1).max(500).optional(),
+    errorClass: z.enum(INGESTION_ERROR_CLASSES).optional(),
   }),
 });
 
@@ -5,19 +5,30 @@ import { createAuditLog } from '../../utils/auditLog';
 import prisma from '../../utils/prisma';
 import { QdrantService } from '../../services/qdrant.service';
 import { OpenAIService } from '../../services/openai.service';
+import { RerankService } from '../../services/rerank.service';
+import { WorkspaceService } from '../workspace/workspace.service';
+import { TEXT_SEARCH_CONFIGS, UNSPACED_LANGUAGES, getTextSearchConfig } from '../../utils/language';
+import { buildTsQuery } from '../../utils/searchQuery';
+import { buildSnippet, markHighlights } from '../../utils/snippet';
+import type { Reranker, SearchSettings } from '../workspace/workspace.types';
 import type {
   SearchInput,
   QuestionInput,
   SearchResponse,
   QuestionResponse,
   SearchResult,
+  ChunkContext,
   QueryHistoryParams,
+  MetadataCondition,
+  SearchFilters,
 } from './search.types';
 
+const SNIPPET_LENGTH = 500; // Default characters of a result's snippet
+
 export class SearchService {
   /**
-   * Perform hybrid search (vector + keyword)
-   * Combines semantic vector search with keyword search using RRF ranking
+   * Perform hybrid search (vector + keyword), or search with one of the retrievers
+   * The mode and fusion settings default to the workspace's (Workspace.settings.search)
    */
   static async search(
     workspaceId: string,
@@ -41,12 +52,27 @@ export class SearchService {
       }
     }
 
+    const settings = await WorkspaceService.getSearchSettings(workspaceId);
+    const options: SearchSettings = {
+      mode: data.mode ?? settings.mode,
+      fusion: data.fusion ?? settings.fusion,
+      rrfK: data.rrfK ?? settings.rrfK,
+      vectorWeight: data.vectorWeight ?? settings.vectorWeight,
+      keywordWeight: data.keywordWeight ?? settings.keywordWeight,
+      rerank: data.rerank ?? settings.rerank,
+      rerankCandidates: data.rerankCandidates ?? settings.rerankCandidates,
+    };
+    if (options.mode === 'hybrid' && options.vectorWeight + options.keywordWeight <= 0) {
+      throw ApiError.badRequest('vectorWeight and keywordWeight cannot both be 0');
+    }
+
     // Build document filter
     const documentWhere: {
       workspaceId: string;
       deletedAt?: null;
       status?: any;
       id?: { in: string[] };
+      AND?: Record<string, unknown>[];
     } = {
       workspaceId,
       deletedAt: null,
@@ -57,12 +83,21 @@ export class SearchService {
       documentWhere.id = { in: data.documentIds };
     }
 
+    const filters = data.filters ?? {};
+    const documentConditions = this.buildDocumentConditions(filters);
+    if (documentConditions.length > 0) {
+      documentWhere.AND = documentConditions;
+    }
+    // Chunk languages given in the filters replace the request's top-level languages
+    const languages = filters.languages ?? data.languages;
+
     // Get documents that are processed and have chunks
     const documents = await prisma.document.findMany({
       where: documentWhere,
       select: {
         id: true,
         name: true,
+        indexVersion: true,
       },
     });
 
@@ -72,48 +107,122 @@ export class SearchService {
         total: 0,
         query: data.query,
         metadata: {
+          mode: options.mode,
+          vectorResults: 0,
+          keywordResults: 0,
           searchTime: Date.now() - startTime,
         },
       };
     }
 
-    const documentIds = documents.map(doc => doc.id);
+    // Only the active chunk version of each document is searchable (re-index builds are hidden)
+    const activeVersions = new Map(documents.map(doc => [doc.id, doc.indexVersion]));
 
-    // Hybrid search: Vector + Keyword
     const limit = data.limit || 10;
+    // The reranker picks the final results from a longer list of fused candidates
+    const candidateLimit =
+      options.rerank !== 'none' ? Math.max(limit, options.rerankCandidates) : limit;
     const collectionName = `workspace_${workspaceId}`;
 
     // 1. Vector search via Qdrant
     let vectorResults: SearchResult[] = [];
-    try {
-      const queryEmbedding = await OpenAIService.generateEmbedding(data.query);
-
-      // Build Qdrant filter for document IDs if specified
-      let qdrantFilter: Record<string, unknown> | undefined;
-      if (data.documentIds && data.documentIds.length > 0) {
-        // Qdrant filter format: use 'should' with 'must' for array matching
-        qdrantFilter = {
-          should: data.documentIds.map(docId => ({
-            key: 'documentId',
-            match: { value: docId },
-          })),
-        };
+    if (options.mode !== 'keyword') {
+      try {
+        // Build Qdrant filter from the document IDs and filters, on the points' payload
+        // Titles are not in the payload, so a title filter searches the documents that matched
+        const documentIds = filters.title ? documents.map(doc => doc.id) : data.documentIds;
+        const qdrantConditions = this.buildQdrantConditions(filters);
+        if (documentIds && documentIds.length > 0) {
+          qdrantConditions.push({ key: 'documentId', match: { any: documentIds } });
+        }
+        if (languages && languages.length > 0) {
+          qdrantConditions.push({ key: 'language', match: { any: languages } });
+        }
+
+        // Queries must be embedded with the model of the chunks they are compared to. While
+        // the workspace is reindexed for a new model, documents not rebuilt yet keep the old
+        // one, so each model's documents are searched with their own query vector
+        const modelGroups = await this.getActiveEmbeddingModels(
+          workspaceId,
+          documents.map(doc => doc.id)
+        );
+        const modelResults = await Promise.all(
+          modelGroups.map(async group => {
+            const queryEmbedding = await OpenAIService.generateEmbedding(data.query, group.model);
+            const conditions =
+              modelGroups.length > 1
+                ? [...qdrantConditions, { key: 'documentId', match: { any: group.documentIds } }]
+                : qdrantConditions;
+
+            return QdrantService.searchVectors(
+              collectionName,
+              queryEmbedding,
+              candidateLimit * 2, // Get more results for ranking
+              conditions.length > 0 ? { must: conditions } : undefined
+            );
+          })
+        );
+        const qdrantResults = modelResults
+          .flat()
+          .sort((a, b) => b.score - a.score)
+          .slice(0, candidateLimit * 2);
+
+        // Get chunk details from database
+        const chunkIds = qdrantResults.map(r => r.id);
+        const chunks = await prisma.chunk.findMany({
+          where: {
+            id: { in: chunkIds },
+            deletedAt: null,
+          },
+          include: {
+            document: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+        });
+
+        vectorResults = qdrantResults
+          .map(qdrantResult => {
+            const chunk = chunks.find(c => c.id === qdrantResult.id);
+            if (!chunk || chunk.version !== activeVersions.get(chunk.documentId)) return null;
+
+            const result: SearchResult = {
+              chunkId: chunk.id,
+              documentId: chunk.document.id,
+              documentName: chunk.document.name,
+              content: chunk.content, // Cut to a snippet once the results are final
+              score: qdrantResult.score,
+              vectorScore: qdrantResult.score,
+              pageNumber: chunk.pageNumber || undefined,
+              pageEnd: chunk.pageEnd || undefined,
+              sectionTitle: chunk.sectionTitle || undefined,
+              metadata: chunk.metadata as Record<string, unknown> | undefined,
+            };
+            return result;
+          })
+          .filter((r): r is SearchResult => r !== null);
+      } catch (error) {
+        // Without the keyword retriever there is nothing to fall back to
+        if (options.mode === 'vector') throw error;
+        logger.warn('Vector search failed, falling back to keyword search', { error });
       }
+    }
 
-      const qdrantResults = await QdrantService.searchVectors(
-        collectionName,
-        queryEmbedding,
-        limit * 2, // Get more results for ranking
-        qdrantFilter
+    // 2. Keyword search via PostgreSQL full-text search
+    let keywordResults: SearchResult[] = [];
+    if (options.mode !== 'vector') {
+      const keywordMatches = await this.searchKeywords(
+        documents.map(doc => doc.id),
+        data.query,
+        { languages, pageFrom: filters.pageFrom, pageTo: filters.pageTo },
+        candidateLimit * 2
       );
 
-      // Get chunk details from database
-      const chunkIds = qdrantResults.map(r => r.id);
-      const chunks = await prisma.chunk.findMany({
-        where: {
-          id: { in: chunkIds },
-          deletedAt: null,
-        },
+      const keywordChunkRows = await prisma.chunk.findMany({
+        where: { id: { in: keywordMatches.map(match => match.id) } },
         include: {
           document: {
             select: {
@@ -123,70 +232,54 @@ export class SearchService {
           },
         },
       });
-
-      vectorResults = qdrantResults
-        .map(qdrantResult => {
-          const chunk = chunks.find(c => c.id === qdrantResult.id);
+      keywordResults = keywordMatches
+        .map(match => {
+          const chunk = keywordChunkRows.find(row => row.id === match.id);
           if (!chunk) return null;
 
           const result: SearchResult = {
             chunkId: chunk.id,
             documentId: chunk.document.id,
             documentName: chunk.document.name,
-            content: chunk.content.substring(0, 500),
-            score: qdrantResult.score,
+            content: chunk.content, // Cut to a snippet once the results are final
+            score: match.rank,
+            keywordScore: match.rank,
             pageNumber: chunk.pageNumber || undefined,
+            pageEnd: chunk.pageEnd || undefined,
             sectionTitle: chunk.sectionTitle || undefined,
             metadata: chunk.metadata as Record<string, unknown> | undefined,
           };
           return result;
         })
         .filter((r): r is SearchResult => r !== null);
-    } catch (error) {
-      logger.warn('Vector search failed, falling back to keyword search', { error });
     }
 
-    // 2. Keyword search (BM25-like via PostgreSQL)
-    const keywordWhere: any = {
-      documentId: {
-        in: data.documentIds && data.documentIds.length > 0 ? data.documentIds : documentIds,
-      },
-      hasEmbedding: true,
-      deletedAt: null,
-      content: {
-        contains: data.query,
-        mode: 'insensitive',
-      },
-    };
-
-    const keywordChunks = await prisma.chunk.findMany({
-      where: keywordWhere,
-      take: limit,
-      include: {
-        document: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-      },
-    });
-
-    const keywordResults: SearchResult[] = keywordChunks.map((chunk, index) => ({
-      chunkId: chunk.id,
-      documentId: chunk.document.id,
-      documentName: chunk.document.name,
-      content: chunk.content.substring(0, 500),
-      score: 0.5 - index * 0.05, // Lower base score for keyword results
-      pageNumber: chunk.pageNumber || undefined,
-      sectionTitle: chunk.sectionTitle || undefined,
-      metadata: chunk.metadata as Record<string, unknown> | undefined,
-    }));
-
-    // 3. Combine results using RRF (Reciprocal Rank Fusion)
-    const combinedResults = this.combineSearchResults(vectorResults, keywordResults, limit);
+    // 3. Fuse the two rankings (hybrid), or keep the single retriever's
+    const candidates =
+      options.mode === 'hybrid'
+        ? this.combineSearchResults(vectorResults, keywordResults, candidateLimit, options)
+        : (options.mode === 'vector' ? vectorResults : keywordResults).slice(0, candidateLimit);
+
+    // 4. Rerank the candidates; if the reranker fails, the fused order stands
+    let results = candidates.slice(0, limit);
+    let reranker: Reranker | undefined;
+    if (options.rerank !== 'none' && candidates.length > 0) {
+      try {
+        results = (await this.rerankResults(data.query, candidates, options.rerank)).slice(
+          0,
+          limit
+        );
+        reranker = options.rerank;
+      } catch (error) {
+        logger.warn('Reranking failed, keeping the fused order', {
+          error,
+          reranker: options.rerank,
+        });
+      }
+    }
 
-    const results = combinedResults;
+    // 5. Cut the results to their best-matching snippets
+    results = await this.buildResultText(results, data, activeVersions);
 
     // Save query to history
     if (userId) {
@@ -200,8 +293,17 @@ export class SearchService {
           topChunkIds: results.map(r => r.chunkId),
           topDocumentIds: Array.from(new Set(results.map(r => r.documentId))),
           metadata: {
-            searchType: 'hybrid',
+            searchType: options.mode,
+            ...(options.mode === 'hybrid' && {
+              fusion: options.fusion,
+              rrfK: options.rrfK,
+              vectorWeight: options.vectorWeight,
+              keywordWeight: options.keywordWeight,
+            }),
+            ...(reranker && { rerank: reranker }),
             limit: data.limit || 10,
+            ...(data.languages && { languages: data.languages }),
+            ...(data.filters && { filters: data.filters }),
           },
         },
       });
@@ -213,6 +315,7 @@ export class SearchService {
       workspaceId,
       userId,
       query: data.query,
+      mode: options.mode,
       resultCount: results.length,
       searchTime,
     });
@@ -222,6 +325,11 @@ export class SearchService {
       total: results.length,
       query: data.query,
       metadata: {
+        mode: options.mode,
+        ...(options.mode === 'hybrid' && { fusion: options.fusion }),
+        ...(reranker && { rerank: reranker }),
+        vectorResults: vectorResults.length,
+        keywordResults: keywordResults.length,
         searchTime,
       },
     };
@@ -258,6 +366,9 @@ export class SearchService {
       query: data.question,
       limit: data.limit || 5,
       documentIds: data.documentIds,
+      languages: data.languages,
+      filters: data.filters,
+      rerank: data.rerank,
     });
 
     if (searchResults.results.length === 0) {
@@ -294,7 +405,7 @@ export class SearchService {
     const context = searchResults.results
       .map(
         (r, index) =>
-          `[Source ${index + 1}: ${r.documentName}${r.pageNumber ? `, Page ${r.pageNumber}` : ''}]\n${r.content}`
+          `[Source ${index + 1}: ${r.documentName}${this.formatCitation(r)}]\n${r.content}`
       )
       .join('\n\n');
 
@@ -313,6 +424,7 @@ export class SearchService {
       documentName: result.documentName,
       content: result.content,
       pageNumber: result.pageNumber,
+      pageEnd: result.pageEnd,
     }));
 
     const responseTime = Date.now() - startTime;
@@ -428,45 +540,471 @@ export class SearchService {
   }
 
   /**
-   * Combine search results using Reciprocal Rank Fusion (RRF)
+   * Group documents by the embedding model of their active chunks
+   * Chunks stored without a model were embedded with the workspace's current one; documents
+   * without embedded chunks are left out (there is nothing to compare a query with)
    */
-  private static combineSearchResults(
-    vectorResults: SearchResult[],
-    keywordResults: SearchResult[],
+  private static async getActiveEmbeddingModels(
+    workspaceId: string,
+    documentIds: string[]
+  ): Promise<Array<{ model: string; documentIds: string[] }>> {
+    const rows = await prisma.$queryRaw<
+      Array<{ embeddingModel: string | null; documentIds: string[] }>
+    >`
+      SELECT c."embeddingModel", array_agg(DISTINCT c."documentId") AS "documentIds"
+      FROM "chunks" c
+      JOIN "documents" d ON d."id" = c."documentId" AND d."indexVersion" = c."version"
+      WHERE c."documentId" = ANY(${documentIds})
+        AND c."hasEmbedding" = true
+        AND c."deletedAt" IS NULL
+      GROUP BY c."embeddingModel"
+    `;
+
+    const groups = new Map<string, string[]>();
+    for (const row of rows) {
+      const model =
+        row.embeddingModel ??
+        (await WorkspaceService.getIngestionSettings(workspaceId)).embeddingModel;
+      groups.set(model, [...(groups.get(model) ?? []), ...row.documentIds]);
+    }
+
+    return Array.from(groups, ([model, modelDocumentIds]) => ({
+      model,
+      documentIds: modelDocumentIds,
+    }));
+  }
+
+  /**
+   * Rank the active chunks of the documents against a keyword query (see buildTsQuery for
+   * the syntax), best first
+   * Chunks are matched on their stored tsvector (GIN index), the query being stemmed with
+   * the dictionary of each chunk's language, and ranked with ts_rank_cd (cover density,
+   * normalized by length and scaled to 0-1). Chinese, Japanese and Thai chunks, which the
+   * parser does not split into words, also match on the query as a substring
+   * Only chunks in the given languages and overlapping the page range are ranked
+   */
+  private static async searchKeywords(
+    documentIds: string[],
+    query: string,
+    chunkFilters: Pick<SearchFilters, 'languages' | 'pageFrom' | 'pageTo'>,
     limit: number
-  ): SearchResult[] {
-    const k = 60; // RRF constant
-    const scoreMap = new Map<string, { result: SearchResult; rrfScore: number }>();
-
-    // Calculate RRF scores for vector results
-    vectorResults.forEach((result, index) => {
-      const rrfScore = 1 / (k + index + 1);
-      const existing = scoreMap.get(result.chunkId);
-      if (existing) {
-        existing.rrfScore += rrfScore;
+  ): Promise<Array<{ id: string; rank: number }>> {
+    const { languages, pageFrom = null, pageTo = null } = chunkFilters;
+    const filterLanguages = languages && languages.length > 0 ? languages : null;
+    const tsQuery = buildTsQuery(query);
+    const substring = query.trim().toLowerCase();
+    const textSearchConfigs = JSON.stringify(TEXT_SEARCH_CONFIGS);
+    const unspacedLanguages = Array.from(UNSPACED_LANGUAGES);
+
+    // The query is stemmed once per configuration the searched chunks can use; the union of
+    // these is what the index is searched with
+    const configs = Array.from(
+      new Set(
+        filterLanguages
+          ? filterLanguages.map(language => getTextSearchConfig(language))
+          : [...Object.values(TEXT_SEARCH_CONFIGS), 'simple']
+      )
+    );
+
+    const matches = await prisma.$queryRaw<Array<{ id: string; rank: number }>>`
+      WITH queries AS (
+        SELECT config::regconfig AS config, to_tsquery(config::regconfig, ${tsQuery}::text) AS query
+        FROM unnest(${configs}::text[]) AS config
+      )
+      SELECT
+        c."id",
+        CASE
+          WHEN c."searchVector" @@ q.query THEN ts_rank_cd(c."searchVector", q.query, 1 | 32)
+          -- Substring matches: occurrences on the same 0-1 scale
+          ELSE occurrences.count / (occurrences.count + 10.0)
+        END::float8 AS rank
+      FROM "chunks" c
+      JOIN "documents" d ON d."id" = c."documentId" AND d."indexVersion" = c."version"
+      JOIN queries q
+        ON q.config = COALESCE(${textSearchConfigs}::jsonb ->> c."language", 'simple')::regconfig
+      CROSS JOIN LATERAL (
+        SELECT
+          (length(lower(c."content")) - length(replace(lower(c."content"), ${substring}, '')))
+            / GREATEST(length(${substring}), 1) AS count
+      ) occurrences
+      WHERE c."documentId" = ANY(${documentIds})
+        AND c."hasEmbedding" = true
+        AND c."deletedAt" IS NULL
+        AND (${filterLanguages}::text[] IS NULL OR c."language" = ANY(${filterLanguages}::text[]))
+        AND (${pageFrom}::int IS NULL OR COALESCE(c."pageEnd", c."pageNumber") >= ${pageFrom}::int)
+        AND (${pageTo}::int IS NULL OR c."pageNumber" <= ${pageTo}::int)
+        AND (
+          c."searchVector" @@ (
+            SELECT string_agg('(' || query::text || ')', ' | ')::tsquery
+            FROM queries
+            WHERE numnode(query) > 0
+          )
+          OR c."language" = ANY(${unspacedLanguages}::text[])
+        )
+        AND (
+          c."searchVector" @@ q.query
+          OR (c."language" = ANY(${unspacedLanguages}::text[]) AND occurrences.count > 0)
+        )
+      ORDER BY rank DESC, c."id"
+      LIMIT ${limit}
+    `;
+
+    return matches.map(match => ({ id: match.id, rank: Number(match.rank) }));
+  }
+
+  /**
+   * Rescore search results with a reranker and order them by its score (rerankScore)
+   * The reranker reads each chunk's full content (results hold it until snippets are built)
+   */
+  private static async rerankResults(
+    query: string,
+    results: SearchResult[],
+    reranker: Exclude<Reranker, 'none'>
+  ): Promise<SearchResult[]> {
+    const passages = results.map(result =>
+      result.sectionTitle ? `${result.sectionTitle}\n${result.content}` : result.content
+    );
+
+    const scores = await RerankService.scorePassages(reranker, query, passages);
+
+    return results
+      .map((result, index) => ({ ...result, rerankScore: scores[index] }))
+      .sort((a, b) => b.rerankScore - a.rerankScore);
+  }
+
+  /**
+   * Replace each result's content (the full chunk until now) with its snippet for the query,
+   * highlighting the query's words; add the full text and neighbouring chunks if requested
+   */
+  private static async buildResultText(
+    results: SearchResult[],
+    data: SearchInput,
+    activeVersions: Map<string, number>
+  ): Promise<SearchResult[]> {
+    const contextChunks = data.contextChunks ?? 0;
+    const context =
+      contextChunks > 0 && results.length > 0
+        ? await this.getNeighbourChunks(results, contextChunks, activeVersions)
+        : undefined;
+
+    return results.map(result => {
+      const snippet = buildSnippet(
+        result.content,
+        data.query,
+        data.snippetLength ?? SNIPPET_LENGTH
+      );
+      return {
+        ...result,
+        content: snippet.text,
+        highlights: snippet.highlights,
+        ...(data.highlightTags && { highlightedContent: markHighlights(snippet) }),
+        ...(data.includeFullText && { fullText: result.content }),
+        ...(context && { context: context.get(result.chunkId) ?? { before: [], after: [] } }),
+      };
+    });
+  }
+
+  /**
+   * Get up to `count` chunks before and after each result in its document's active index
+   * build, keyed by the result's chunk ID
+   */
+  private static async getNeighbourChunks(
+    results: SearchResult[],
+    count: number,
+    activeVersions: Map<string, number>
+  ): Promise<Map<string, { before: ChunkContext[]; after: ChunkContext[] }>> {
+    const positions = await prisma.chunk.findMany({
+      where: { id: { in: results.map(result => result.chunkId) } },
+      select: { id: true, documentId: true, chunkIndex: true },
+    });
+    const chunks = await prisma.chunk.findMany({
+      where: {
+        deletedAt: null,
+        OR: positions.map(position => ({
+          documentId: position.documentId,
+          version: activeVersions.get(position.documentId),
+          chunkIndex: { gte: position.chunkIndex - count, lte: position.chunkIndex + count },
+        })),
+      },
+      select: {
+        id: true,
+        documentId: true,
+        chunkIndex: true,
+        content: true,
+        pageNumber: true,
+        pageEnd: true,
+        sectionTitle: true,
+      },
+      orderBy: { chunkIndex: 'asc' },
+    });
+
+    const toContext = (chunk: (typeof chunks)[number]): ChunkContext => ({
+      chunkId: chunk.id,
+      content: chunk.content,
+      pageNumber: chunk.pageNumber || undefined,
+      pageEnd: chunk.pageEnd || undefined,
+      sectionTitle: chunk.sectionTitle || undefined,
+    });
+
+    return new Map(
+      positions.map(position => {
+        const distance = (chunk: (typeof chunks)[number]) => chunk.chunkIndex - position.chunkIndex;
+        const neighbours = chunks.filter(
+          chunk => chunk.documentId === position.documentId && Math.abs(distance(chunk)) <= count
+        );
+        return [
+          position.id,
+          {
+            before: neighbours.filter(chunk => distance(chunk) < 0).map(toContext),
+            after: neighbours.filter(chunk => distance(chunk) > 0).map(toContext),
+          },
+        ];
+      })
+    );
+  }
+
+  /**
+   * Prisma conditions on documents for search filters
+   * Metadata dates are stored as ISO 8601 strings, which compare in date order
+   */
+  private static buildDocumentConditions(filters: SearchFilters): Record<string, unknown>[] {
+    const conditions: Record<string, unknown>[] = [];
+    const onPath = (path: string, filter: Record<string, unknown>) => ({
+      metadata: { path: [path], ...filter },
+    });
+
+    if (filters.documentTypes) {
+      conditions.push({ type: { in: filters.documentTypes } });
+    }
+    if (filters.uploadedAfter) {
+      conditions.push({ createdAt: { gte: new Date(filters.uploadedAfter) } });
+    }
+    if (filters.uploadedBefore) {
+      conditions.push({ createdAt: { lte: new Date(filters.uploadedBefore) } });
+    }
+    if (filters.uploadedBy) {
+      conditions.push({ uploadedById: { in: filters.uploadedBy } });
+    }
+    if (filters.tags) {
+      conditions.push({ tags: { hasEvery: filters.tags } });
+    }
+    if (filters.anyTags) {
+      conditions.push({ tags: { hasSome: filters.anyTags } });
+    }
+
+    if (filters.title) {
+      conditions.push(onPath('title', { string_contains: filters.title, mode: 'insensitive' }));
+    }
+    if (filters.author) {
+      conditions.push(onPath('authors', { array_contains: [filters.author] }));
+    }
+    if (filters.keyword) {
+      conditions.push(onPath('keywords', { array_contains: [filters.keyword] }));
+    }
+    if (filters.createdAfter) {
+      conditions.push(onPath('createdAt', { gte: new Date(filters.createdAfter).toISOString() }));
+    }
+    if (filters.createdBefore) {
+      conditions.push(onPath('createdAt', { lte: new Date(filters.createdBefore).toISOString() }));
+    }
+    if (filters.modifiedAfter) {
+      conditions.push(onPath('modifiedAt', { gte: new Date(filters.modifiedAfter).toISOString() }));
+    }
+    if (filters.modifiedBefore) {
+      conditions.push(
+        onPath('modifiedAt', { lte: new Date(filters.modifiedBefore).toISOString() })
+      );
+    }
+
+    for (const [key, condition] of Object.entries(filters.metadata ?? {})) {
+      if (Array.isArray(condition) || typeof condition !== 'object') {
+        // A value matches the key holding it, or holding a list that contains it
+        const values: Array<string | number | boolean> = Array.isArray(condition)
+          ? condition
+          : [condition];
+        conditions.push({
+          OR: values.flatMap(value => [
+            onPath(key, { equals: value }),
+            onPath(key, { array_contains: [value] }),
+          ]),
+        });
       } else {
-        scoreMap.set(result.chunkId, { result, rrfScore });
+        conditions.push(onPath(key, this.normalizeRange(condition)));
       }
-    });
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Qdrant conditions on the points' payload for search filters
+   * Points carry the document's fields (see DocumentService.buildSearchPayload), so these
+   * select the same documents as buildDocumentConditions, except for the title filter
+   */
+  private static buildQdrantConditions(filters: SearchFilters): Record<string, unknown>[] {
+    const conditions: Record<string, unknown>[] = [];
+    const dateRange = (key: string, after?: string, before?: string) => {
+      if (after || before) {
+        conditions.push({
+          key,
+          range: this.normalizeRange({ gte: after, lte: before }),
+        });
+      }
+    };
+
+    if (filters.documentTypes) {
+      conditions.push({ key: 'documentType', match: { any: filters.documentTypes } });
+    }
+    dateRange('uploadedAt', filters.uploadedAfter, filters.uploadedBefore);
+    if (filters.uploadedBy) {
+      conditions.push({ key: 'uploadedById', match: { any: filters.uploadedBy } });
+    }
+    for (const tag of filters.tags ?? []) {
+      conditions.push({ key: 'tags', match: { value: tag } });
+    }
+    if (filters.anyTags) {
+      conditions.push({ key: 'tags', match: { any: filters.anyTags } });
+    }
 
-    // Calculate RRF scores for keyword results
-    keywordResults.forEach((result, index) => {
-      const rrfScore = 1 / (k + index + 1);
-      const existing = scoreMap.get(result.chunkId);
-      if (existing) {
-        existing.rrfScore += rrfScore;
+    // A match on a list payload holds when one of its values matches
+    if (filters.author) {
+      conditions.push({ key: 'metadata.authors', match: { value: filters.author } });
+    }
+    if (filters.keyword) {
+      conditions.push({ key: 'metadata.keywords', match: { value: filters.keyword } });
+    }
+    dateRange('metadata.createdAt', filters.createdAfter, filters.createdBefore);
+    dateRange('metadata.modifiedAt', filters.modifiedAfter, filters.modifiedBefore);
+
+    for (const [key, condition] of Object.entries(filters.metadata ?? {})) {
+      const payloadKey = `metadata.${key}`;
+      if (Array.isArray(condition)) {
+        conditions.push({
+          should: condition.map(value => this.buildQdrantValueCondition(payloadKey, value)),
+        });
+      } else if (typeof condition === 'object') {
+        conditions.push({ key: payloadKey, range: this.normalizeRange(condition) });
       } else {
-        scoreMap.set(result.chunkId, { result, rrfScore });
+        conditions.push(this.buildQdrantValueCondition(payloadKey, condition));
       }
-    });
+    }
+
+    // Chunks overlapping the page range: pageEnd is only set on chunks spanning pages
+    if (filters.pageFrom) {
+      conditions.push({
+        should: [
+          { key: 'pageEnd', range: { gte: filters.pageFrom } },
+          { key: 'pageNumber', range: { gte: filters.pageFrom } },
+        ],
+      });
+    }
+    if (filters.pageTo) {
+      conditions.push({ key: 'pageNumber', range: { lte: filters.pageTo } });
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Qdrant condition for a payload key equal to a value
+   * Qdrant only matches strings, integers and booleans exactly; other numbers use a range
+   */
+  private static buildQdrantValueCondition(
+    key: string,
+    value: string | number | boolean
+  ): Record<string, unknown> {
+    if (typeof value === 'number' && !Number.isInteger(value)) {
+      return { key, range: { gte: value, lte: value } };
+    }
+    return { key, match: { value } };
+  }
+
+  /**
+   * Drop unset bounds of a range and write date bounds as ISO 8601
+   */
+  private static normalizeRange(
+    range: Exclude<MetadataCondition, string | number | boolean | unknown[]>
+  ): Record<string, number | string> {
+    return Object.fromEntries(
+      Object.entries(range)
+        .filter(([, bound]) => bound !== undefined)
+        .map(([operator, bound]) => [
+          operator,
+          typeof bound === 'string' ? new Date(bound).toISOString() : bound,
+        ])
+    );
+  }
+
+  /**
+   * Format the location part of a source citation (pages or spreadsheet rows)
+   */
+  private static formatCitation(result: SearchResult): string {
+    let citation = '';
+
+    if (result.pageNumber) {
+      citation +=
+        result.pageEnd && result.pageEnd !== result.pageNumber
+          ? `, Pages ${result.pageNumber}-${result.pageEnd}`
+          : `, Page ${result.pageNumber}`;
+    }
+
+    if (result.metadata?.rowStart) {
+      citation += `, Rows ${result.metadata.rowStart}-${result.metadata.rowEnd}`;
+    }
+
+    return citation;
+  }
+
+  /**
+   * Fuse the vector and keyword rankings, weighting each retriever
+   * 'rrf' (Reciprocal Rank Fusion) sums weight / (k + rank) and ignores the scores, which are
+   * not comparable between retrievers; 'linear' min-max normalizes each retriever's scores to
+   * 0-1 and takes their weighted average (a retriever that missed a chunk counts 0)
+   */
+  private static combineSearchResults(
+    vectorResults: SearchResult[],
+    keywordResults: SearchResult[],
+    limit: number,
+    options: SearchSettings
+  ): SearchResult[] {
+    const totalWeight = options.vectorWeight + options.keywordWeight;
+    const scoreMap = new Map<string, { result: SearchResult; fusedScore: number }>();
+
+    const addResults = (results: SearchResult[], weight: number) => {
+      const scores = results.map(result => result.score);
+      const min = Math.min(...scores);
+      const max = Math.max(...scores);
+
+      results.forEach((result, index) => {
+        const fusedScore =
+          options.fusion === 'linear'
+            ? (weight * (max > min ? (result.score - min) / (max - min) : 1)) / totalWeight
+            : weight / (options.rrfK + index + 1);
+
+        const existing = scoreMap.get(result.chunkId);
+        if (existing) {
+          existing.fusedScore += fusedScore;
+          existing.result = {
+            ...existing.result,
+            vectorScore: existing.result.vectorScore ?? result.vectorScore,
+            keywordScore: existing.result.keywordScore ?? result.keywordScore,
+          };
+        } else {
+          scoreMap.set(result.chunkId, { result, fusedScore });
+        }
+      });
+    };
+
+    addResults(vectorResults, options.vectorWeight);
+    addResults(keywordResults, options.keywordWeight);
 
-    // Sort by RRF score and return top results
+    // Sort by fused score and return top results
     return Array.from(scoreMap.values())
-      .sort((a, b) => b.rrfScore - a.rrfScore)
+      .sort((a, b) => b.fusedScore - a.fusedScore)
       .slice(0, limit)
       .map(item => ({
         ...item.result,
-        score: item.rrfScore, // Use RRF score as final score
+        score: item.fusedScore,
       }));
   }
 }
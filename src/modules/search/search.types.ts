@@ -1,25 +1,103 @@
-import { QueryType } from '@prisma/client';
+import { DocumentType, QueryType } from '@prisma/client';
+import type { Highlight } from '../../utils/snippet';
+import type { FusionMethod, Reranker, SearchMode } from '../workspace/workspace.types';
+
+// Condition on a key of Document.metadata: a value (the key holds it, or a list containing
+// it), a list of values (any of them) or a range of numbers or ISO 8601 dates
+export type MetadataCondition =
+  | string
+  | number
+  | boolean
+  | string[]
+  | number[]
+  | {
+      gt?: number | string;
+      gte?: number | string;
+      lt?: number | string;
+      lte?: number | string;
+    };
+
+// Search filters: every condition given must hold
+export type SearchFilters = {
+  // Documents
+  documentTypes?: DocumentType[];
+  uploadedAfter?: string; // ISO 8601 dates; bounds are inclusive
+  uploadedBefore?: string;
+  uploadedBy?: string[]; // IDs of the users who uploaded the documents
+  tags?: string[]; // Documents with all of these tags
+  anyTags?: string[]; // Documents with at least one of these tags
+
+  // Metadata extracted from the documents' files, and custom keys (Document.metadata)
+  title?: string; // Case-insensitive part of the title
+  author?: string; // One of the authors, as extracted
+  keyword?: string; // One of the keywords, as extracted
+  createdAfter?: string; // ISO 8601 dates; bounds are inclusive
+  createdBefore?: string;
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+  metadata?: Record<string, MetadataCondition>;
+
+  // Chunks
+  languages?: string[]; // ISO 639-1 codes (replaces the request's top-level languages)
+  pageFrom?: number; // Chunks on pages overlapping pageFrom-pageTo
+  pageTo?: number;
+};
 
 export type SearchInput = {
   query: string;
   limit?: number;
   documentIds?: string[];
+  languages?: string[]; // ISO 639-1 codes of the chunks to search
+  filters?: SearchFilters;
+  // Override the workspace's search settings (Workspace.settings.search)
+  mode?: SearchMode;
+  fusion?: FusionMethod;
+  rrfK?: number;
+  vectorWeight?: number;
+  keywordWeight?: number;
+  rerank?: Reranker;
+  rerankCandidates?: number;
+  // Result text
+  snippetLength?: number; // Characters of each result's snippet (content)
+  highlightTags?: boolean; // Also return the snippet as HTML (highlightedContent)
+  includeFullText?: boolean; // Return each result's whole chunk (fullText)
+  contextChunks?: number; // Chunks before and after each result to return (context)
 };
 
 export type QuestionInput = {
   question: string;
   limit?: number;
   documentIds?: string[];
+  languages?: string[];
+  filters?: SearchFilters;
+  rerank?: Reranker; // Overrides the workspace's search settings
   model?: string;
 };
 
+// A chunk next to a search result in its document
+export type ChunkContext = {
+  chunkId: string;
+  content: string;
+  pageNumber?: number;
+  pageEnd?: number;
+  sectionTitle?: string;
+};
+
 export type SearchResult = {
   chunkId: string;
   documentId: string;
   documentName: string;
-  content: string;
-  score: number;
+  content: string; // Snippet: the part of the chunk that best matches the query
+  highlights?: Highlight[]; // Where the query's words are in content
+  highlightedContent?: string; // content as HTML, the highlights in <mark>
+  fullText?: string;
+  context?: { before: ChunkContext[]; after: ChunkContext[] }; // In document order
+  score: number; // Fused score in hybrid mode, else the retriever's own
+  vectorScore?: number; // Cosine similarity, when the vector search returned the chunk
+  keywordScore?: number; // ts_rank_cd (0-1), when the keyword search returned the chunk
+  rerankScore?: number; // Relevance from the reranker (0-1), which ordered the results
   pageNumber?: number;
+  pageEnd?: number;
   sectionTitle?: string;
   metadata?: Record<string, unknown>;
 };
@@ -29,7 +107,10 @@ export type SearchResponse = {
   total: number;
   query: string;
   metadata?: {
-    vectorResults?: number;
+    mode?: SearchMode;
+    fusion?: FusionMethod; // Hybrid mode only
+    rerank?: Reranker; // When the results were reranked
+    vectorResults?: number; // Candidates returned by each retriever, before fusion
     keywordResults?: number;
     searchTime?: number;
   };
@@ -43,6 +124,7 @@ export type QuestionResponse = {
     documentName: string;
     content: string;
     pageNumber?: number;
+    pageEnd?: number;
   }>;
   query: string;
   metadata?: {
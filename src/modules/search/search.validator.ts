@@ -1,11 +1,81 @@
 import { z } from 'zod';
-import { QueryType } from '@prisma/client';
+import { DocumentType, QueryType } from '@prisma/client';
+import { FUSION_METHODS, RERANKERS, SEARCH_MODES } from '../workspace/workspace.validator';
+
+const languageCode = z.string().regex(/^[a-z]{2}$/, 'Languages must be ISO 639-1 codes');
+
+const isoDate = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
+const tagList = z.array(z.string().min(1).max(80)).min(1).max(20);
+
+const rangeBound = z.union([z.number(), isoDate]);
+
+const metadataCondition = z.union([
+  z.string().max(255),
+  z.number(),
+  z.boolean(),
+  z.array(z.string().max(255)).min(1).max(100),
+  z.array(z.number()).min(1).max(100),
+  z
+    .object({
+      gt: rangeBound.optional(),
+      gte: rangeBound.optional(),
+      lt: rangeBound.optional(),
+      lte: rangeBound.optional(),
+    })
+    .strict()
+    .refine(range => Object.keys(range).length > 0, 'A range needs gt, gte, lt or lte'),
+]);
+
+const searchFilters = z
+  .object({
+    documentTypes: z.array(z.nativeEnum(DocumentType)).min(1).optional(),
+    uploadedAfter: isoDate.optional(),
+    uploadedBefore: isoDate.optional(),
+    uploadedBy: z.array(z.string().cuid()).min(1).max(100).optional(),
+    tags: tagList.optional(),
+    anyTags: tagList.optional(),
+    title: z.string().min(1).max(255).optional(),
+    author: z.string().min(1).max(255).optional(),
+    keyword: z.string().min(1).max(255).optional(),
+    createdAfter: isoDate.optional(),
+    createdBefore: isoDate.optional(),
+    modifiedAfter: isoDate.optional(),
+    modifiedBefore: isoDate.optional(),
+    metadata: z
+      .record(
+        z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, 'Metadata keys are letters, digits, _ and -'),
+        metadataCondition
+      )
+      .optional(),
+    languages: z.array(languageCode).optional(),
+    pageFrom: z.number().int().min(1).optional(),
+    pageTo: z.number().int().min(1).optional(),
+  })
+  .strict()
+  .refine(filters => !filters.pageFrom || !filters.pageTo || filters.pageFrom <= filters.pageTo, {
+    message: 'pageFrom must not be greater than pageTo',
+    path: ['pageFrom'],
+  });
 
 export const searchSchema = z.object({
   body: z.object({
     query: z.string().min(1, 'Query is required').max(1000, 'Query must be less than 1000 characters'),
     limit: z.number().int().min(1).max(100).optional(),
     documentIds: z.array(z.string().cuid()).optional(),
+    languages: z.array(languageCode).optional(),
+    filters: searchFilters.optional(),
+    mode: z.enum(SEARCH_MODES).optional(),
+    fusion: z.enum(FUSION_METHODS).optional(),
+    rrfK: z.number().int().min(1).max(1000).optional(),
+    vectorWeight: z.number().min(0).max(10).optional(),
+    keywordWeight: z.number().min(0).max(10).optional(),
+    rerank: z.enum(RERANKERS).optional(),
+    rerankCandidates: z.number().int().min(1).max(100).optional(),
+    snippetLength: z.number().int().min(50).max(2000).optional(),
+    highlightTags: z.boolean().optional(),
+    includeFullText: z.boolean().optional(),
+    contextChunks: z.number().int().min(0).max(5).optional(),
   }),
 });
 
@@ -14,6 +84,9 @@ export const questionSchema = z.object({
     question: z.string().min(1, 'Question is required').max(1000, 'Question must be less than 1000 characters'),
     limit: z.number().int().min(1).max(50).optional(),
     documentIds: z.array(z.string().cuid()).optional(),
+    languages: z.array(languageCode).optional(),
+    filters: searchFilters.optional(),
+    rerank: z.enum(RERANKERS).optional(),
     model: z.string().optional(),
   }),
 });
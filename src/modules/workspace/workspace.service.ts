@@ -3,8 +3,17 @@ import { ApiError } from '../../utils/apiError';
 import { logger } from '../../utils/logger';
 import { createAuditLog } from '../../utils/auditLog';
 import prisma from '../../utils/prisma';
+import { DocumentService } from '../document/document.service';
+import {
+  duplicateSettingsSchema,
+  ingestionSettingsSchema,
+  searchSettingsSchema,
+} from './workspace.validator';
 import type {
   CreateWorkspaceInput,
+  DuplicateSettings,
+  IngestionSettings,
+  SearchSettings,
   UpdateWorkspaceInput,
   WorkspaceResponse,
   WorkspaceMemberInput,
@@ -218,6 +227,22 @@ export class WorkspaceService {
       throw ApiError.forbidden('You do not have permission to update this workspace');
     }
 
+    const previous = await prisma.workspace.findUnique({
+      where: { id },
+      select: { settings: true },
+    });
+
+    // Stored vectors only compare with queries embedded by their own model, so the model can
+    // only change together with a rebuild of the index
+    if (
+      data.settings !== undefined &&
+      !data.reindex &&
+      this.resolveIngestionSettings(previous?.settings).embeddingModel !==
+        this.resolveIngestionSettings(data.settings).embeddingModel
+    ) {
+      throw ApiError.badRequest('Changing the embedding model requires reindex: true');
+    }
+
     // Update workspace
     const updateData: any = {
       name: data.name,
@@ -235,6 +260,16 @@ export class WorkspaceService {
       data: updateData,
     });
 
+    // Re-ingest documents so they follow the new ingestion settings
+    let reindexedDocuments = 0;
+    if (
+      data.reindex &&
+      JSON.stringify(this.resolveIngestionSettings(previous?.settings)) !==
+        JSON.stringify(this.resolveIngestionSettings(workspace.settings))
+    ) {
+      reindexedDocuments = await DocumentService.reindexWorkspaceDocuments(id);
+    }
+
     // Create audit log
     await createAuditLog({
       workspaceId: id,
@@ -242,7 +277,7 @@ export class WorkspaceService {
       action: 'workspace.update',
       resourceType: 'workspace',
       resourceId: id,
-      details: { updatedFields: Object.keys(data) },
+      details: { updatedFields: Object.keys(data), reindexedDocuments },
     });
 
     logger.info('Workspace updated', { workspaceId: id, userId });
@@ -250,6 +285,106 @@ export class WorkspaceService {
     return this.formatWorkspaceResponse(workspace);
   }
 
+  /**
+   * Resolve ingestion settings from a workspace's settings JSON, applying defaults
+   * Invalid stored settings fall back to the defaults instead of failing ingestion
+   */
+  static resolveIngestionSettings(settings: unknown): IngestionSettings {
+    const ingestion = (settings as Record<string, unknown> | null)?.ingestion;
+    const result = ingestionSettingsSchema.safeParse(ingestion ?? {});
+
+    if (!result.success) {
+      logger.warn('Invalid workspace ingestion settings, using defaults', {
+        errors: result.error.errors,
+      });
+      return ingestionSettingsSchema.parse({});
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Get the ingestion settings of a workspace
+   */
+  static async getIngestionSettings(workspaceId: string): Promise<IngestionSettings> {
+    const workspace = await prisma.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { settings: true },
+    });
+
+    if (!workspace) {
+      throw ApiError.notFound('Workspace not found');
+    }
+
+    return this.resolveIngestionSettings(workspace.settings);
+  }
+
+  /**
+   * Resolve duplicate handling from a workspace's settings JSON, applying defaults
+   */
+  static resolveDuplicateSettings(settings: unknown): DuplicateSettings {
+    const duplicates = (settings as Record<string, unknown> | null)?.duplicates;
+    const result = duplicateSettingsSchema.safeParse(duplicates ?? {});
+
+    if (!result.success) {
+      logger.warn('Invalid workspace duplicate settings, using defaults', {
+        errors: result.error.errors,
+      });
+      return duplicateSettingsSchema.parse({});
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Get the duplicate handling settings of a workspace
+   */
+  static async getDuplicateSettings(workspaceId: string): Promise<DuplicateSettings> {
+    const workspace = await prisma.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { settings: true },
+    });
+
+    if (!workspace) {
+      throw ApiError.notFound('Workspace not found');
+    }
+
+    return this.resolveDuplicateSettings(workspace.settings);
+  }
+
+  /**
+   * Resolve search defaults from a workspace's settings JSON, applying defaults
+   */
+  static resolveSearchSettings(settings: unknown): SearchSettings {
+    const search = (settings as Record<string, unknown> | null)?.search;
+    const result = searchSettingsSchema.safeParse(search ?? {});
+
+    if (!result.success) {
+      logger.warn('Invalid workspace search settings, using defaults', {
+        errors: result.error.errors,
+      });
+      return searchSettingsSchema.parse({});
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Get the search defaults of a workspace
+   */
+  static async getSearchSettings(workspaceId: string): Promise<SearchSettings> {
+    const workspace = await prisma.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { settings: true },
+    });
+
+    if (!workspace) {
+      throw ApiError.notFound('Workspace not found');
+    }
+
+    return this.resolveSearchSettings(workspace.settings);
+  }
+
   /**
    * Delete workspace (soft delete)
    */
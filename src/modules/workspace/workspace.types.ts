@@ -14,6 +14,47 @@ export type UpdateWorkspaceInput = {
   logo?: string;
   isActive?: boolean;
   settings?: Record<string, unknown>;
+  reindex?: boolean;
+};
+
+export type ChunkStrategy = 'structure' | 'fixed';
+
+export type IngestionSettings = {
+  chunkStrategy: ChunkStrategy; // 'structure' follows headings, 'fixed' splits by size only
+  maxTokens: number;
+  overlapTokens: number;
+  embeddingModel: string;
+  ocrEnabled: boolean;
+  summariesEnabled: boolean; // Generate a summary, topics and tags for each document
+  languages: string[]; // ISO 639-1 codes
+};
+
+// 'allow' ingests the copy, 'link' points it at the original without ingesting it,
+// 'reject' refuses the upload
+export type DuplicateAction = 'allow' | 'link' | 'reject';
+
+export type DuplicateSettings = {
+  action: DuplicateAction; // For identical files (same checksum)
+  nearDuplicateThreshold: number; // Text similarity (0.5-1) from which documents are near-duplicates
+};
+
+// 'hybrid' fuses vector and keyword results, 'vector' and 'keyword' use one retriever
+export type SearchMode = 'hybrid' | 'vector' | 'keyword';
+
+// 'rrf' fuses by rank (Reciprocal Rank Fusion), 'linear' blends min-max normalized scores
+export type FusionMethod = 'rrf' | 'linear';
+
+// Rescores the best fused results: 'cross-encoder' with a local model, 'llm' with a chat model
+export type Reranker = 'none' | 'cross-encoder' | 'llm';
+
+export type SearchSettings = {
+  mode: SearchMode;
+  fusion: FusionMethod;
+  rrfK: number; // RRF constant: higher values flatten the advantage of top ranks
+  vectorWeight: number; // Weight of each retriever in the fusion
+  keywordWeight: number;
+  rerank: Reranker;
+  rerankCandidates: number; // Best fused results passed to the reranker
 };
 
 export type WorkspaceResponse = {
@@ -1,6 +1,78 @@
 import { z } from 'zod';
 import { WorkspaceRole } from '@prisma/client';
 
+// Embedding models producing 1536-dimensional vectors (the Qdrant collection size)
+export const EMBEDDING_MODELS = ['text-embedding-3-small', 'text-embedding-ada-002'] as const;
+
+// What happens to an upload identical to a document already in the workspace
+export const DUPLICATE_ACTIONS = ['allow', 'link', 'reject'] as const;
+
+export const SEARCH_MODES = ['hybrid', 'vector', 'keyword'] as const;
+export const FUSION_METHODS = ['rrf', 'linear'] as const;
+export const RERANKERS = ['none', 'cross-encoder', 'llm'] as const;
+
+/**
+ * Ingestion settings stored under Workspace.settings.ingestion
+ * Unset values fall back to the defaults below
+ */
+export const ingestionSettingsSchema = z
+  .object({
+    chunkStrategy: z.enum(['structure', 'fixed']).default('structure'),
+    maxTokens: z.number().int().min(32).max(8191).default(256),
+    overlapTokens: z.number().int().min(0).default(50),
+    embeddingModel: z.enum(EMBEDDING_MODELS).default('text-embedding-3-small'),
+    ocrEnabled: z.boolean().default(false),
+    summariesEnabled: z.boolean().default(false),
+    languages: z
+      .array(z.string().regex(/^[a-z]{2}$/, 'Languages must be ISO 639-1 codes'))
+      .min(1)
+      .default(['en']),
+  })
+  .strict()
+  .refine(settings => settings.overlapTokens < settings.maxTokens, {
+    message: 'overlapTokens must be less than maxTokens',
+    path: ['overlapTokens'],
+  });
+
+/**
+ * Duplicate handling stored under Workspace.settings.duplicates
+ * Unset values fall back to the defaults below
+ */
+export const duplicateSettingsSchema = z
+  .object({
+    action: z.enum(DUPLICATE_ACTIONS).default('allow'),
+    nearDuplicateThreshold: z.number().min(0.5).max(1).default(0.9),
+  })
+  .strict();
+
+/**
+ * Search defaults stored under Workspace.settings.search
+ * Unset values fall back to the defaults below; each search request can override them
+ */
+export const searchSettingsSchema = z
+  .object({
+    mode: z.enum(SEARCH_MODES).default('hybrid'),
+    fusion: z.enum(FUSION_METHODS).default('rrf'),
+    rrfK: z.number().int().min(1).max(1000).default(60),
+    vectorWeight: z.number().min(0).max(10).default(1),
+    keywordWeight: z.number().min(0).max(10).default(1),
+    rerank: z.enum(RERANKERS).default('none'),
+    rerankCandidates: z.number().int().min(1).max(100).default(20),
+  })
+  .strict()
+  .refine(settings => settings.vectorWeight + settings.keywordWeight > 0, {
+    message: 'vectorWeight and keywordWeight cannot both be 0',
+    path: ['vectorWeight'],
+  });
+
+const workspaceSettingsSchema = z
+  .object({
+    ingestion: ingestionSettingsSchema.optional(),
+    duplicates: duplicateSettingsSchema.optional(),
+    search: searchSettingsSchema.optional(),
+  })
+  .passthrough();
+
 export const createWorkspaceSchema = z.object({
   body: z.object({
     name: z.string().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
@@ -12,7 +84,7 @@ export const createWorkspaceSchema = z.object({
       .optional(),
     description: z.string().max(500, 'Description must be less than 500 characters').optional(),
     logo: z.string().url('Invalid logo URL').optional(),
-    settings: z.record(z.unknown()).optional(),
+    settings: workspaceSettingsSchema.optional(),
   }),
 });
 
@@ -22,7 +94,8 @@ export const updateWorkspaceSchema = z.object({
     description: z.string().max(500).optional(),
     logo: z.string().url().optional(),
     isActive: z.boolean().optional(),
-    settings: z.record(z.unknown()).optional(),
+    settings: workspaceSettingsSchema.optional(),
+    reindex: z.boolean().optional(), // Re-ingest all documents if ingestion settings change
   }),
   params: z.object({
     id: z.string().cuid('Invalid workspace ID'),
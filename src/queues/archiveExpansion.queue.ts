@@ -0,0 +1,41 @@
+import { Queue, QueueOptions } from 'bullmq';
+import { env } from '../config/env';
+
+export type ArchiveExpansionJobData = {
+  archiveUploadId: string;
+  workspaceId: string;
+  s3Key: string;
+};
+
+const queueOptions: QueueOptions = {
+  connection: {
+    host: env.REDIS_HOST,
+    port: env.REDIS_PORT,
+    password: env.REDIS_PASSWORD || undefined,
+  },
+  defaultJobOptions: {
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 2000,
+    },
+    removeOnComplete: {
+      age: 24 * 3600, // Keep completed jobs for 24 hours
+      count: 1000,
+    },
+    removeOnFail: {
+      age: 7 * 24 * 3600, // Keep failed jobs for 7 days
+    },
+  },
+};
+
+export const archiveExpansionQueue = new Queue<ArchiveExpansionJobData>(
+  'archive-expansion',
+  queueOptions
+);
+
+archiveExpansionQueue.on('error', error => {
+  console.error('Archive expansion queue error:', error);
+});
+
+export default archiveExpansionQueue;
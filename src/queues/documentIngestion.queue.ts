@@ -1,4 +1,4 @@
-import { Queue, QueueOptions } from 'bullmq';
+import { Queue, QueueEvents, QueueOptions } from 'bullmq';
 import { env } from '../config/env';
 import redis from '../config/redis';
 
@@ -9,6 +9,8 @@ export interface DocumentIngestionJobData {
   s3Bucket: string;
   s3Region: string;
   documentType: string;
+  chunksStored?: boolean; // Set once chunks are saved, so retries resume at embedding
+  version?: number; // Chunk version being built by this job
 }
 
 const queueOptions: QueueOptions = {
@@ -43,5 +45,23 @@ documentIngestionQueue.on('error', (error) => {
   console.error('Document ingestion queue error:', error);
 });
 
-export default documentIngestionQueue;
+let documentIngestionQueueEvents: QueueEvents | null = null;
+
+/**
+ * Listener for the queue's global job events (progress, completed, failed)
+ * Created on first use, so processes that only add jobs don't open its Redis connection
+ */
+export const getDocumentIngestionQueueEvents = (): QueueEvents => {
+  if (!documentIngestionQueueEvents) {
+    documentIngestionQueueEvents = new QueueEvents('document-ingestion', {
+      connection: queueOptions.connection,
+    });
+    documentIngestionQueueEvents.setMaxListeners(0); // Every open progress stream adds listeners
+    documentIngestionQueueEvents.on('error', error => {
+      console.error('Document ingestion queue events error:', error);
+    });
+  }
+  return documentIngestionQueueEvents;
+};
 
+export default documentIngestionQueue;
@@ -1,3 +1,9 @@
-export { default as documentIngestionQueue } from './documentIngestion.queue';
+export {
+  default as documentIngestionQueue,
+  getDocumentIngestionQueueEvents,
+} from './documentIngestion.queue';
 export type { DocumentIngestionJobData } from './documentIngestion.queue';
-
+export { default as archiveExpansionQueue } from './archiveExpansion.queue';
+export type { ArchiveExpansionJobData } from './archiveExpansion.queue';
+export { default as ingestionDeadLetterQueue } from './ingestionDeadLetter.queue';
+export type { IngestionDeadLetterJobData } from './ingestionDeadLetter.queue';
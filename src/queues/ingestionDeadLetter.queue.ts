@@ -0,0 +1,39 @@
+import { Queue, QueueOptions } from 'bullmq';
+import { env } from '../config/env';
+import type { DocumentIngestionJobData } from './documentIngestion.queue';
+import type { IngestionErrorClass } from '../utils/ingestionErrors';
+
+/**
+ * An ingestion job that failed for good (a permanent error, or its last attempt)
+ * No worker consumes this queue: entries wait until they are retried or discarded
+ */
+export type IngestionDeadLetterJobData = {
+  ingestionJobId: string; // Failed job in the document-ingestion queue
+  job: DocumentIngestionJobData;
+  stage: string; // Ingestion stage the job failed in
+  errorClass: IngestionErrorClass;
+  errorName: string;
+  errorMessage: string;
+  stack: string | null;
+  attemptsMade: number;
+  failedAt: string; // ISO 8601
+};
+
+const queueOptions: QueueOptions = {
+  connection: {
+    host: env.REDIS_HOST,
+    port: env.REDIS_PORT,
+    password: env.REDIS_PASSWORD || undefined,
+  },
+};
+
+export const ingestionDeadLetterQueue = new Queue<IngestionDeadLetterJobData>(
+  'ingestion-dead-letter',
+  queueOptions
+);
+
+ingestionDeadLetterQueue.on('error', error => {
+  console.error('Ingestion dead-letter queue error:', error);
+});
+
+export default ingestionDeadLetterQueue;
@@ -4,6 +4,7 @@ import userRoutes from './modules/user/user.route';
 import workspaceRoutes from './modules/workspace/workspace.route';
 import documentRoutes from './modules/document/document.route';
 import searchRoutes from './modules/search/search.route';
+import adminRoutes from './modules/admin/admin.route';
 
 const router = Router();
 
@@ -31,4 +32,7 @@ router.use('/documents', documentRoutes);
 // Search routes
 router.use('/search', searchRoutes);
 
+// Admin routes
+router.use('/admin', adminRoutes);
+
 export default router;
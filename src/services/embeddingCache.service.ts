@@ -0,0 +1,100 @@
+import prisma from '../utils/prisma';
+import { logger } from '../utils/logger';
+
+/**
+ * Embedding cache keyed by (contentHash, embeddingModel)
+ * Identical chunk text across documents, re-uploads and re-indexes reuses stored vectors
+ */
+
+const encodeEmbedding = (embedding: number[]): Uint8Array<ArrayBuffer> =>
+  new Uint8Array(Float32Array.from(embedding).buffer);
+
+const decodeEmbedding = (bytes: Uint8Array): number[] =>
+  Array.from(
+    new Float32Array(
+      bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+    )
+  );
+
+export class EmbeddingCacheService {
+  /**
+   * Look up cached embeddings for content hashes
+   * Returns a contentHash -> embedding map of the hits and records their use
+   */
+  static async getMany(contentHashes: string[], model: string): Promise<Map<string, number[]>> {
+    const hits = new Map<string, number[]>();
+    if (contentHashes.length === 0) return hits;
+
+    const entries = await prisma.embeddingCache.findMany({
+      where: {
+        contentHash: { in: Array.from(new Set(contentHashes)) },
+        embeddingModel: model,
+      },
+      select: { id: true, contentHash: true, embedding: true },
+    });
+
+    for (const entry of entries) {
+      hits.set(entry.contentHash, decodeEmbedding(entry.embedding));
+    }
+
+    if (entries.length > 0) {
+      await prisma.embeddingCache.updateMany({
+        where: { id: { in: entries.map(entry => entry.id) } },
+        data: { hitCount: { increment: 1 }, lastUsedAt: new Date() },
+      });
+    }
+
+    return hits;
+  }
+
+  /**
+   * Store embeddings (existing entries are kept)
+   */
+  static async setMany(
+    entries: Array<{ contentHash: string; embedding: number[] }>,
+    model: string
+  ): Promise<void> {
+    if (entries.length === 0) return;
+
+    await prisma.embeddingCache.createMany({
+      data: entries.map(entry => ({
+        contentHash: entry.contentHash,
+        embeddingModel: model,
+        embedding: encodeEmbedding(entry.embedding),
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Get cache entry counts per embedding model
+   */
+  static async getStats(): Promise<
+    Array<{ embeddingModel: string; entries: number; hits: number }>
+  > {
+    const groups = await prisma.embeddingCache.groupBy({
+      by: ['embeddingModel'],
+      _count: { _all: true },
+      _sum: { hitCount: true },
+    });
+
+    return groups.map(group => ({
+      embeddingModel: group.embeddingModel,
+      entries: group._count._all,
+      hits: group._sum.hitCount || 0,
+    }));
+  }
+
+  /**
+   * Delete cached embeddings of one model, or of all models
+   */
+  static async purge(model?: string): Promise<number> {
+    const { count } = await prisma.embeddingCache.deleteMany({
+      where: model ? { embeddingModel: model } : {},
+    });
+
+    logger.info('Embedding cache purged', { model: model || 'all', count });
+
+    return count;
+  }
+}
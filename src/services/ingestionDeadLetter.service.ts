@@ -0,0 +1,95 @@
+import { Job } from 'bullmq';
+import { ingestionDeadLetterQueue } from '../queues';
+import type { DocumentIngestionJobData, IngestionDeadLetterJobData } from '../queues';
+import type { IngestionErrorClass } from '../utils/ingestionErrors';
+import { logger } from '../utils/logger';
+
+export type IngestionDeadLetterFilters = {
+  workspaceId?: string;
+  errorClass?: IngestionErrorClass;
+  jobIds?: string[];
+};
+
+export class IngestionDeadLetterService {
+  /**
+   * Move a job that failed for good to the dead-letter queue
+   * The entry keeps the failed job's ID, so a job is dead-lettered at most once
+   */
+  static async add(
+    job: Job<DocumentIngestionJobData>,
+    error: unknown,
+    errorClass: IngestionErrorClass,
+    stage: string
+  ): Promise<void> {
+    const jobId = job.id ?? job.data.documentId;
+
+    await ingestionDeadLetterQueue.add(
+      'dead-letter',
+      {
+        ingestionJobId: jobId,
+        job: job.data,
+        stage,
+        errorClass,
+        errorName: error instanceof Error ? error.name : 'Error',
+        errorMessage: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? (error.stack ?? null) : null,
+        attemptsMade: job.attemptsMade + 1,
+        failedAt: new Date().toISOString(),
+      },
+      { jobId }
+    );
+
+    logger.warn('Ingestion job moved to the dead-letter queue', {
+      jobId,
+      documentId: job.data.documentId,
+      errorClass,
+      stage,
+    });
+  }
+
+  /**
+   * Get the dead-lettered jobs matching the filters, most recent failure first
+   */
+  static async getEntries(
+    filters: IngestionDeadLetterFilters = {}
+  ): Promise<Array<Job<IngestionDeadLetterJobData>>> {
+    const jobs = await ingestionDeadLetterQueue.getJobs(['waiting']);
+
+    return jobs
+      .filter(
+        job =>
+          (!filters.workspaceId || job.data.job.workspaceId === filters.workspaceId) &&
+          (!filters.errorClass || job.data.errorClass === filters.errorClass) &&
+          (!filters.jobIds || filters.jobIds.includes(job.data.ingestionJobId))
+      )
+      .sort((a, b) => b.data.failedAt.localeCompare(a.data.failedAt));
+  }
+
+  /**
+   * Get a dead-lettered job by the ID of the ingestion job that failed
+   */
+  static async getEntry(jobId: string): Promise<Job<IngestionDeadLetterJobData> | undefined> {
+    return ingestionDeadLetterQueue.getJob(jobId);
+  }
+
+  /**
+   * Remove a dead-lettered job (after it was retried or its document deleted)
+   */
+  static async remove(jobId: string): Promise<void> {
+    await ingestionDeadLetterQueue.remove(jobId);
+  }
+
+  /**
+   * Remove the dead-lettered jobs of documents (once a new index build supersedes them)
+   */
+  static async removeForDocuments(documentIds: string[]): Promise<void> {
+    const ids = new Set(documentIds);
+    const jobs = await ingestionDeadLetterQueue.getJobs(['waiting']);
+
+    await Promise.all(
+      jobs
+        .filter(job => ids.has(job.data.job.documentId))
+        .map(job => ingestionDeadLetterQueue.remove(job.data.ingestionJobId))
+    );
+  }
+}
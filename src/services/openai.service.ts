@@ -2,12 +2,70 @@ import OpenAI from 'openai';
 import { env } from '../config/env';
 import { logger } from '../utils/logger';
 import { ApiError } from '../utils/apiError';
+import { ProviderError } from '../utils/providerError';
+import { countTokens, truncateToTokens } from '../utils/tokenizer';
 
 // Initialize OpenAI client
 const openai = new OpenAI({
   apiKey: env.OPENAI_API_KEY,
 });
 
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+export type EmbeddingBatchOptions = {
+  model?: string;
+  batchSize?: number; // Maximum inputs per request
+  maxBatchTokens?: number; // Maximum total tokens per request
+  concurrency?: number; // Requests in flight at once
+  maxRetries?: number; // Retries per batch on rate limits and server errors
+  onBatch?: (startIndex: number, embeddings: number[][]) => Promise<void>; // Called per completed batch
+};
+
+export type DocumentSummary = {
+  summary: string;
+  topics: string[]; // Key topics, as short phrases
+  tags: string[]; // Suggested tags, lowercase and hyphenated
+  model: string; // 'stub' when written by the local stub
+};
+
+const SUMMARY_INPUT_TOKENS = 6000; // Start of the document sent for summarizing
+const SUMMARY_MAX_TOPICS = 5;
+const SUMMARY_MAX_TAGS = 8;
+const SUMMARY_MAX_RETRIES = 3; // Summarizing runs in the ingestion worker, off the request path
+
+const RELEVANCE_PASSAGE_TOKENS = 300; // Start of each search result sent for scoring
+const RELEVANCE_MAX_RETRIES = 1; // A search request is waiting on the reply
+
+// Words the local stub never picks as topics or tags
+const STUB_STOP_WORDS = new Set(
+  (
+    'about above after again against because before being below between could does doing ' +
+    'during each from further have having into itself more most other over same should some ' +
+    'such than that their them then there these they this those through under until very ' +
+    'were what when where which while will with would your also been only used using page'
+  ).split(' ')
+);
+
+const toTag = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+
+/**
+ * Read a list of short strings from a model reply, de-duplicated and capped
+ */
+const toStringList = (value: unknown, max: number, format: (item: string) => string): string[] => {
+  const items = (Array.isArray(value) ? value : [])
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => format(item.trim()))
+    .filter(item => item && item.length <= 80);
+  return Array.from(new Set(items)).slice(0, max);
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 export class OpenAIService {
   /**
    * Generate embeddings for text
@@ -37,7 +95,7 @@ export class OpenAIService {
       return embedding;
     } catch (error) {
       logger.error('Failed to generate embedding', { error, model });
-      throw ApiError.internal('Failed to generate embedding');
+      throw ProviderError.from('openai', 'Failed to generate embedding', error);
     }
   }
 
@@ -65,7 +123,153 @@ export class OpenAIService {
       return embeddings;
     } catch (error) {
       logger.error('Failed to generate embeddings', { error, model });
-      throw ApiError.internal('Failed to generate embeddings');
+      throw ProviderError.from('openai', 'Failed to generate embeddings', error);
+    }
+  }
+
+  /**
+   * Generate embeddings for many texts in batches
+   * Batches are bounded by input count and token budget, run with limited concurrency and
+   * are retried with exponential backoff on rate limits (429) and server errors (5xx).
+   * onBatch runs as each batch completes, so callers can persist progress per batch.
+   */
+  static async generateEmbeddingsInBatches(
+    texts: string[],
+    options: EmbeddingBatchOptions = {}
+  ): Promise<number[][]> {
+    const {
+      model = 'text-embedding-3-small',
+      batchSize = env.EMBEDDING_BATCH_SIZE,
+      maxBatchTokens = env.EMBEDDING_BATCH_TOKENS,
+      concurrency = env.EMBEDDING_CONCURRENCY,
+      maxRetries = env.EMBEDDING_MAX_RETRIES,
+      onBatch,
+    } = options;
+
+    const batches = this.planEmbeddingBatches(texts, model, batchSize, maxBatchTokens);
+    const embeddings: number[][] = new Array(texts.length);
+    let nextBatch = 0;
+    let failed = false;
+
+    const embedBatch = async (batch: { start: number; end: number }) => {
+      const batchTexts = texts.slice(batch.start, batch.end);
+      let response: Awaited<ReturnType<typeof openai.embeddings.create>>;
+      try {
+        response = await this.withRetry(
+          () =>
+            openai.embeddings.create(
+              { model, input: batchTexts },
+              { maxRetries: 0 } // Retries are handled per batch by withRetry
+            ),
+          maxRetries
+        );
+      } catch (error) {
+        logger.error('Failed to generate embedding batch', { error, model, start: batch.start });
+        throw ProviderError.from('openai', 'Failed to generate embeddings', error);
+      }
+      const batchEmbeddings = response.data
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+
+      batchEmbeddings.forEach((embedding, i) => {
+        embeddings[batch.start + i] = embedding;
+      });
+      if (onBatch) {
+        await onBatch(batch.start, batchEmbeddings);
+      }
+
+      logger.debug('Embedding batch generated', {
+        model,
+        start: batch.start,
+        count: batchTexts.length,
+      });
+    };
+
+    const runBatches = async () => {
+      while (!failed && nextBatch < batches.length) {
+        try {
+          await embedBatch(batches[nextBatch++]);
+        } catch (error) {
+          failed = true; // Stop the other runners from starting new batches
+          throw error;
+        }
+      }
+    };
+
+    // OpenAI errors are wrapped where the request is made; errors from onBatch (the caller's
+    // storage) propagate as thrown, so they are classified by their own source
+    await Promise.all(
+      Array.from({ length: Math.max(1, Math.min(concurrency, batches.length)) }, runBatches)
+    );
+
+    return embeddings;
+  }
+
+  /**
+   * Split texts into contiguous batches within the input count and token budget
+   * A single text over the token budget still gets a batch of its own
+   */
+  private static planEmbeddingBatches(
+    texts: string[],
+    model: string,
+    batchSize: number,
+    maxBatchTokens: number
+  ): Array<{ start: number; end: number }> {
+    const batches: Array<{ start: number; end: number }> = [];
+    let start = 0;
+    let batchTokens = 0;
+
+    texts.forEach((text, index) => {
+      const tokens = countTokens(text, model);
+      if (index > start && (index - start >= batchSize || batchTokens + tokens > maxBatchTokens)) {
+        batches.push({ start, end: index });
+        start = index;
+        batchTokens = 0;
+      }
+      batchTokens += tokens;
+    });
+
+    if (start < texts.length) {
+      batches.push({ start, end: texts.length });
+    }
+
+    return batches;
+  }
+
+  /**
+   * Run an OpenAI request, retrying rate limits, server errors and connection failures
+   * with exponential backoff (honouring Retry-After when the API sends it, up to the maximum
+   * delay); an exhausted quota is not retried
+   */
+  private static async withRetry<T>(operation: () => Promise<T>, maxRetries: number): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        const status = error instanceof OpenAI.APIError ? error.status : undefined;
+        // An exhausted quota is also a 429, but waiting does not restore it
+        const quotaExhausted =
+          error instanceof OpenAI.APIError && error.code === 'insufficient_quota';
+        const retryable =
+          error instanceof OpenAI.APIConnectionError ||
+          (status === 429 && !quotaExhausted) ||
+          (status !== undefined && status >= 500);
+
+        if (!retryable || attempt >= maxRetries) {
+          throw error;
+        }
+
+        const retryAfter = Number(
+          error instanceof OpenAI.APIError ? error.headers?.get('retry-after') : undefined
+        );
+        const delay = retryAfter
+          ? Math.min(retryAfter * 1000, RETRY_MAX_DELAY_MS)
+          : Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS) +
+            Math.random() * RETRY_BASE_DELAY_MS;
+
+        logger.warn('OpenAI request failed, retrying', { status, attempt: attempt + 1, delay });
+        await sleep(delay);
+      }
     }
   }
 
@@ -124,11 +328,187 @@ Answer:`;
   }
 
   /**
-   * Count tokens in text (rough estimate)
+   * Generate a short summary, key topics and suggested tags for a document
+   * Only the start of long documents is sent. With LLM_STUB set, a local extractive stub
+   * answers instead of the API (deterministic, for tests and offline development)
+   */
+  static async generateDocumentSummary(
+    text: string,
+    model: string = env.SUMMARY_MODEL
+  ): Promise<DocumentSummary> {
+    if (env.LLM_STUB) {
+      return this.stubDocumentSummary(text);
+    }
+
+    const systemPrompt = `You summarize documents for a document library.
+Reply with a JSON object with these keys:
+- "summary": two or three sentences on what the document is and what it covers
+- "topics": up to ${SUMMARY_MAX_TOPICS} key topics, as short phrases
+- "tags": up to ${SUMMARY_MAX_TAGS} tags for filing the document, lowercase, words joined by hyphens
+Write the summary and topics in the language of the document.`;
+
+    try {
+      const response = await this.withRetry(
+        () =>
+          openai.chat.completions.create(
+            {
+              model,
+              messages: [
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: truncateToTokens(text, SUMMARY_INPUT_TOKENS, model) },
+              ],
+              response_format: { type: 'json_object' },
+              temperature: 0.2,
+              max_tokens: 400,
+            },
+            { maxRetries: 0 } // Retries are handled by withRetry
+          ),
+        SUMMARY_MAX_RETRIES
+      );
+
+      const reply = JSON.parse(response.choices[0]?.message?.content || '{}');
+      const summary = typeof reply.summary === 'string' ? reply.summary.trim() : '';
+      if (!summary) {
+        throw new Error('The reply has no summary');
+      }
+
+      logger.debug('Document summary generated', {
+        model,
+        textLength: text.length,
+        tokensUsed: response.usage?.total_tokens || 0,
+      });
+
+      return {
+        summary,
+        topics: toStringList(reply.topics, SUMMARY_MAX_TOPICS, topic => topic),
+        tags: toStringList(reply.tags, SUMMARY_MAX_TAGS, toTag),
+        model,
+      };
+    } catch (error) {
+      logger.error('Failed to generate document summary', { error, model });
+      throw ProviderError.from('openai', 'Failed to generate document summary', error);
+    }
+  }
+
+  /**
+   * Local stand-in for generateDocumentSummary: the opening sentences as the summary and
+   * the most frequent longer words as topics and tags
+   */
+  private static stubDocumentSummary(text: string): DocumentSummary {
+    const sentences = text
+      .replace(/\s+/g, ' ')
+      .trim()
+      .split(/(?<=[.!?])\s+/);
+    let summary = sentences[0] ?? '';
+    for (const sentence of sentences.slice(1, 3)) {
+      if (summary.length + sentence.length > 300) break;
+      summary += ` ${sentence}`;
+    }
+
+    const counts = new Map<string, number>();
+    for (const word of text.toLowerCase().match(/\p{L}[\p{L}\p{N}-]{3,}/gu) ?? []) {
+      if (!STUB_STOP_WORDS.has(word)) counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+    const terms = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([term]) => term);
+
+    return {
+      summary: summary.slice(0, 500),
+      topics: terms
+        .slice(0, SUMMARY_MAX_TOPICS)
+        .map(term => term.charAt(0).toUpperCase() + term.slice(1)),
+      tags: terms.slice(0, SUMMARY_MAX_TAGS).map(toTag),
+      model: 'stub',
+    };
+  }
+
+  /**
+   * Rate how relevant each passage is to a search query, from 0 to 1 (in the passages' order)
+   * Only the start of long passages is sent. With LLM_STUB set, the local stub answers with
+   * the share of the query's words each passage contains
+   */
+  static async scoreRelevance(
+    query: string,
+    passages: string[],
+    model: string = env.RERANK_LLM_MODEL
+  ): Promise<number[]> {
+    if (env.LLM_STUB) {
+      return this.stubRelevanceScores(query, passages);
+    }
+
+    const systemPrompt = `You rate search results.
+Rate how well each numbered passage answers or matches the query, from 0 (unrelated) to 10 (answers it directly).
+Reply with a JSON object with one key, "scores": the ratings as numbers, in the order of the passages.`;
+
+    const numberedPassages = passages
+      .map(
+        (passage, index) =>
+          `[${index + 1}] ${truncateToTokens(passage, RELEVANCE_PASSAGE_TOKENS, model)}`
+      )
+      .join('\n\n');
+    const userPrompt = `Query: ${query}\n\n${numberedPassages}`;
+
+    try {
+      const response = await this.withRetry(
+        () =>
+          openai.chat.completions.create(
+            {
+              model,
+              messages: [
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: userPrompt },
+              ],
+              response_format: { type: 'json_object' },
+              temperature: 0,
+              max_tokens: 20 + passages.length * 5,
+            },
+            { maxRetries: 0 } // Retries are handled by withRetry
+          ),
+        RELEVANCE_MAX_RETRIES
+      );
+
+      const reply = JSON.parse(response.choices[0]?.message?.content || '{}');
+      const scores: unknown[] = Array.isArray(reply.scores) ? reply.scores : [];
+      if (scores.length !== passages.length) {
+        throw new Error(`The reply scores ${scores.length} of ${passages.length} passages`);
+      }
+
+      logger.debug('Search results scored', {
+        model,
+        passages: passages.length,
+        tokensUsed: response.usage?.total_tokens || 0,
+      });
+
+      return scores.map(score =>
+        typeof score === 'number' && Number.isFinite(score)
+          ? Math.min(Math.max(score, 0), 10) / 10
+          : 0
+      );
+    } catch (error) {
+      logger.error('Failed to score search results', { error, model });
+      throw ProviderError.from('openai', 'Failed to score search results', error);
+    }
+  }
+
+  /**
+   * Local stand-in for scoreRelevance: the share of the query's words found in each passage
+   */
+  private static stubRelevanceScores(query: string, passages: string[]): number[] {
+    const words = Array.from(new Set(query.toLowerCase().match(/[\p{L}\p{N}]{2,}/gu) ?? []));
+
+    return passages.map(passage => {
+      if (words.length === 0) return 0;
+      const passageWords = new Set(passage.toLowerCase().match(/[\p{L}\p{N}]{2,}/gu) ?? []);
+      return words.filter(word => passageWords.has(word)).length / words.length;
+    });
+  }
+
+  /**
+   * Count tokens in text using the model's BPE tokenizer
    */
-  static estimateTokens(text: string): number {
-    // Rough estimate: ~4 characters per token
-    return Math.ceil(text.length / 4);
+  static countTokens(text: string, model: string = 'text-embedding-3-small'): number {
+    return countTokens(text, model);
   }
 }
 
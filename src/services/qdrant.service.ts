@@ -2,6 +2,7 @@ import { QdrantClient } from '@qdrant/js-client-rest';
 import { env } from '../config/env';
 import { logger } from '../utils/logger';
 import { ApiError } from '../utils/apiError';
+import { ProviderError } from '../utils/providerError';
 
 // Initialize Qdrant client
 const qdrantClient = new QdrantClient({
@@ -9,6 +10,19 @@ const qdrantClient = new QdrantClient({
   apiKey: env.QDRANT_API_KEY || undefined,
 });
 
+// Payload fields search filters on (see SearchService.buildQdrantFilter), indexed so that
+// filtered searches stay fast
+const PAYLOAD_INDEXES: Array<{ field: string; schema: 'keyword' | 'integer' | 'datetime' }> = [
+  { field: 'documentId', schema: 'keyword' },
+  { field: 'language', schema: 'keyword' },
+  { field: 'pageNumber', schema: 'integer' },
+  { field: 'pageEnd', schema: 'integer' },
+  { field: 'documentType', schema: 'keyword' },
+  { field: 'uploadedById', schema: 'keyword' },
+  { field: 'uploadedAt', schema: 'datetime' },
+  { field: 'tags', schema: 'keyword' },
+];
+
 export class QdrantService {
   /**
    * Create or get collection for a workspace
@@ -36,10 +50,12 @@ export class QdrantService {
 
       logger.info('Collection created', { collectionName });
 
+      await this.createPayloadIndexes(collectionName);
+
       return collectionName;
     } catch (error) {
       logger.error('Failed to create collection', { error, collectionName });
-      throw ApiError.internal('Failed to create vector collection');
+      throw ProviderError.from('qdrant', 'Failed to create vector collection', error);
     }
   }
 
@@ -66,7 +82,45 @@ export class QdrantService {
       });
     } catch (error) {
       logger.error('Failed to upsert vectors', { error, collectionName });
-      throw ApiError.internal('Failed to store vectors');
+      throw ProviderError.from('qdrant', 'Failed to store vectors', error);
+    }
+  }
+
+  /**
+   * Index the payload fields search filters on (creating an existing index is a no-op)
+   */
+  static async createPayloadIndexes(collectionName: string): Promise<void> {
+    try {
+      for (const { field, schema } of PAYLOAD_INDEXES) {
+        await qdrantClient.createPayloadIndex(collectionName, {
+          wait: true,
+          field_name: field,
+          field_schema: schema,
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to create payload indexes', { error, collectionName });
+      throw ProviderError.from('qdrant', 'Failed to create payload indexes', error);
+    }
+  }
+
+  /**
+   * Set payload fields on the points matching a filter (other fields are kept)
+   */
+  static async setPayload(
+    collectionName: string,
+    payload: Record<string, unknown>,
+    filter: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await qdrantClient.setPayload(collectionName, {
+        wait: true,
+        payload,
+        filter,
+      });
+    } catch (error) {
+      logger.error('Failed to set payload', { error, collectionName });
+      throw ProviderError.from('qdrant', 'Failed to update vector payloads', error);
     }
   }
 
@@ -120,7 +174,7 @@ export class QdrantService {
       });
     } catch (error) {
       logger.error('Failed to delete vectors', { error, collectionName });
-      throw ApiError.internal('Failed to delete vectors');
+      throw ProviderError.from('qdrant', 'Failed to delete vectors', error);
     }
   }
 
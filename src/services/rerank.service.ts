@@ -0,0 +1,108 @@
+import type { PreTrainedModel, PreTrainedTokenizer, Tensor } from '@huggingface/transformers';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { OpenAIService } from './openai.service';
+
+// 'cross-encoder' runs a local model on CPU, 'llm' asks a chat model through OpenAIService
+export type RerankerType = 'cross-encoder' | 'llm';
+
+const CROSS_ENCODER_BATCH_SIZE = 16; // Query/passage pairs per inference
+const CROSS_ENCODER_MAX_TOKENS = 512; // Longer pairs are truncated (the models' input size)
+
+type CrossEncoder = {
+  tokenizer: PreTrainedTokenizer;
+  model: PreTrainedModel;
+};
+
+// Loaded on first use and kept for the life of the process
+let crossEncoder: Promise<CrossEncoder> | null = null;
+
+export class RerankService {
+  /**
+   * Score how relevant each passage is to the query, from 0 to 1 (in the passages' order)
+   */
+  static async scorePassages(
+    reranker: RerankerType,
+    query: string,
+    passages: string[]
+  ): Promise<number[]> {
+    if (passages.length === 0) return [];
+
+    const startTime = Date.now();
+    const scores =
+      reranker === 'llm'
+        ? await OpenAIService.scoreRelevance(query, passages)
+        : await this.crossEncoderScores(query, passages);
+
+    logger.debug('Passages reranked', {
+      reranker,
+      passages: passages.length,
+      rerankTime: Date.now() - startTime,
+    });
+
+    return scores;
+  }
+
+  /**
+   * Load the cross-encoder (RERANK_MODEL) with transformers.js on the ONNX runtime
+   * Models are read from RERANK_MODEL_PATH for fully offline use. If that is unset, the
+   * model is downloaded from the Hugging Face Hub once and cached (RERANK_CACHE_PATH)
+   */
+  private static loadCrossEncoder(): Promise<CrossEncoder> {
+    if (!crossEncoder) {
+      crossEncoder = (async () => {
+        // Loaded lazily: the ONNX runtime is only needed once a search is reranked
+        const transformers = await import('@huggingface/transformers');
+        if (env.RERANK_MODEL_PATH) {
+          transformers.env.localModelPath = env.RERANK_MODEL_PATH;
+          transformers.env.allowRemoteModels = false;
+        }
+        if (env.RERANK_CACHE_PATH) {
+          transformers.env.cacheDir = env.RERANK_CACHE_PATH;
+        }
+
+        const [tokenizer, model] = await Promise.all([
+          transformers.AutoTokenizer.from_pretrained(env.RERANK_MODEL),
+          transformers.AutoModelForSequenceClassification.from_pretrained(env.RERANK_MODEL),
+        ]);
+        logger.info('Cross-encoder loaded', { model: env.RERANK_MODEL });
+
+        return { tokenizer, model };
+      })().catch(error => {
+        crossEncoder = null; // Try again on the next search
+        throw error;
+      });
+    }
+
+    return crossEncoder;
+  }
+
+  /**
+   * Score query/passage pairs with the cross-encoder
+   * The models output one relevance logit per pair, mapped to 0-1 by the sigmoid
+   */
+  private static async crossEncoderScores(query: string, passages: string[]): Promise<number[]> {
+    const { tokenizer, model } = await this.loadCrossEncoder();
+    const scores: number[] = [];
+
+    for (let start = 0; start < passages.length; start += CROSS_ENCODER_BATCH_SIZE) {
+      const batch = passages.slice(start, start + CROSS_ENCODER_BATCH_SIZE);
+      const inputs = tokenizer(
+        batch.map(() => query),
+        {
+          text_pair: batch,
+          padding: true,
+          truncation: true,
+          max_length: CROSS_ENCODER_MAX_TOKENS,
+        }
+      );
+      const { logits } = (await model(inputs)) as { logits: Tensor };
+
+      for (const logit of logits.data as Float32Array) {
+        scores.push(1 / (1 + Math.exp(-logit)));
+      }
+    }
+
+    return scores;
+  }
+}
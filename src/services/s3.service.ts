@@ -2,6 +2,7 @@ import AWS from 'aws-sdk';
 import { env } from '../config/env';
 import { logger } from '../utils/logger';
 import { ApiError } from '../utils/apiError';
+import { ProviderError } from '../utils/providerError';
 
 // Configure AWS S3
 const s3 = new AWS.S3({
@@ -84,7 +85,7 @@ export class S3Service {
         throw error;
       }
       logger.error('Failed to download file from S3', { error, key });
-      throw ApiError.internal('Failed to download file');
+      throw ProviderError.from('s3', 'Failed to download file', error);
     }
   }
 
@@ -193,7 +194,7 @@ export class S3Service {
       };
     } catch (error) {
       logger.error('Failed to upload file to S3', { error, key });
-      throw ApiError.internal('Failed to upload file to S3');
+      throw ProviderError.from('s3', 'Failed to upload file to S3', error);
     }
   }
 }
@@ -1,12 +1,19 @@
 /**
  * Intelligent text chunking utility
  * Splits text into chunks with overlap for better context preservation
+ * Sizes are in characters, or in tokens when maxTokens is set
  */
 
+import { countTokens } from './tokenizer';
+
 export interface ChunkOptions {
   maxChunkSize: number; // Maximum characters per chunk
   chunkOverlap: number; // Overlap between chunks in characters
+  maxTokens?: number; // Maximum tokens per chunk (takes precedence over maxChunkSize)
+  overlapTokens?: number; // Overlap between chunks in tokens (used with maxTokens)
+  tokenizerModel?: string; // Model whose tokenizer measures chunks
   separators?: string[]; // Preferred separators for splitting
+  pageSpans?: PageSpan[]; // Page boundaries, used to assign page numbers to chunks
 }
 
 const DEFAULT_OPTIONS: ChunkOptions = {
@@ -20,8 +27,116 @@ export interface TextChunk {
   startIndex: number;
   endIndex: number;
   chunkIndex: number;
+  pageNumber?: number; // First page the chunk appears on
+  pageEnd?: number; // Last page the chunk appears on
+  sectionTitle?: string; // Heading breadcrumb, e.g. "Policies > Leave > Sick leave"
+  metadata?: Record<string, unknown>; // Chunk-specific metadata (e.g. row ranges)
 }
 
+/**
+ * Tabular content (CSV file, spreadsheet sheet) with its header row
+ */
+export type TabularData = {
+  name?: string; // Sheet name, if any
+  columns: string[];
+  rows: string[][];
+  firstRowNumber: number; // 1-based record number of the first data row
+  firstColumn?: number; // 0-based sheet column of the first column, for A1 cell ranges
+};
+
+/**
+ * Character span of a page (or slide) within the normalized document text
+ */
+export type PageSpan = {
+  pageNumber: number;
+  startIndex: number;
+  endIndex: number;
+};
+
+/**
+ * Find the first and last page overlapping a character range [startIndex, endIndex)
+ * Separators between pages belong to no page
+ */
+export const findPageRange = (
+  pageSpans: PageSpan[],
+  startIndex: number,
+  endIndex: number
+): { pageNumber: number; pageEnd: number } | null => {
+  const overlapping = pageSpans.filter(
+    span => span.startIndex < endIndex && span.endIndex > startIndex
+  );
+
+  if (overlapping.length === 0) return null;
+
+  return {
+    pageNumber: overlapping[0].pageNumber,
+    pageEnd: overlapping[overlapping.length - 1].pageNumber,
+  };
+};
+
+/**
+ * Measure text in the unit the chunk size is expressed in (tokens or characters)
+ */
+const measure = (text: string, opts: ChunkOptions): number =>
+  opts.maxTokens ? countTokens(text, opts.tokenizerModel) : text.length;
+
+const maxSize = (opts: ChunkOptions): number => opts.maxTokens ?? opts.maxChunkSize;
+
+/**
+ * Find the furthest end index such that text[startIndex, end) fits in maxTokens
+ * Grows the window until it overflows, then binary searches the boundary
+ */
+const findTokenEnd = (
+  text: string,
+  startIndex: number,
+  maxTokens: number,
+  model?: string
+): number => {
+  const fits = (end: number) => countTokens(text.substring(startIndex, end), model) <= maxTokens;
+
+  let low = startIndex;
+  let high = Math.min(text.length, startIndex + maxTokens * 4);
+  while (high < text.length && fits(high)) {
+    low = high;
+    high = Math.min(text.length, startIndex + (high - startIndex) * 2);
+  }
+  if (fits(high)) return high;
+
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (fits(mid)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return Math.max(low, startIndex + 1);
+};
+
+/**
+ * Find the earliest start index such that text[start, endIndex) fits in overlapTokens
+ */
+const findTokenOverlapStart = (
+  text: string,
+  minIndex: number,
+  endIndex: number,
+  overlapTokens: number,
+  model?: string
+): number => {
+  let low = minIndex;
+  let high = endIndex;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (countTokens(text.substring(mid, endIndex), model) <= overlapTokens) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+};
+
 /**
  * Split text into chunks with intelligent boundaries
  */
@@ -40,7 +155,9 @@ export const chunkText = (
     const overlap = opts.chunkOverlap;
 
     // Try to find a good split point
-    let chunkEnd = Math.min(currentIndex + targetSize, text.length);
+    let chunkEnd = opts.maxTokens
+      ? findTokenEnd(text, currentIndex, opts.maxTokens, opts.tokenizerModel)
+      : Math.min(currentIndex + targetSize, text.length);
     let chunkText = text.substring(currentIndex, chunkEnd);
 
     // If we're not at the end, try to find a better split point
@@ -48,7 +165,7 @@ export const chunkText = (
       // Try each separator in order of preference
       for (const separator of opts.separators || []) {
         const lastIndex = chunkText.lastIndexOf(separator);
-        if (lastIndex > targetSize * 0.5) {
+        if (lastIndex > chunkText.length * 0.5) {
           // Found a good split point (at least 50% through the chunk)
           chunkEnd = currentIndex + lastIndex + separator.length;
           chunkText = text.substring(currentIndex, chunkEnd);
@@ -57,16 +174,30 @@ export const chunkText = (
       }
     }
 
+    const pageRange = opts.pageSpans ? findPageRange(opts.pageSpans, currentIndex, chunkEnd) : null;
+
     chunks.push({
       text: chunkText.trim(),
       startIndex: currentIndex,
       endIndex: chunkEnd,
       chunkIndex: chunkIndex++,
+      ...pageRange,
     });
 
-    // Move to next chunk with overlap
-    currentIndex = chunkEnd - overlap;
-    if (currentIndex < 0) currentIndex = 0;
+    // Stop once the end of the text has been chunked
+    if (chunkEnd >= text.length) break;
+
+    // Move to next chunk with overlap (always making forward progress)
+    const nextIndex = opts.maxTokens
+      ? findTokenOverlapStart(
+          text,
+          currentIndex,
+          chunkEnd,
+          opts.overlapTokens ?? 0,
+          opts.tokenizerModel
+        )
+      : chunkEnd - overlap;
+    currentIndex = Math.max(nextIndex, currentIndex + 1);
   }
 
   return chunks;
@@ -131,6 +262,101 @@ export const chunkByParagraphs = (
   return chunks;
 };
 
+// Markdown ATX heading, as emitted by the structure-aware parsers
+const HEADING_PATTERN = /^(#{1,6})[ \t]+(.+?)[ \t#]*$/;
+const CODE_FENCE_PATTERN = /^\s*(```|~~~)/;
+
+type Section = {
+  startIndex: number;
+  endIndex: number;
+  sectionTitle?: string;
+};
+
+/**
+ * Split text into sections at heading lines (ignoring "#" lines inside code fences)
+ * A heading with no body of its own is merged into the section that follows it
+ */
+const splitSections = (text: string): Section[] => {
+  const sections: Section[] = [];
+  const headingStack: Array<{ level: number; title: string }> = [];
+  let sectionStart = 0;
+  let sectionTitle: string | undefined;
+  let hasBody = false;
+  let inCodeFence = false;
+  let offset = 0;
+
+  for (const line of text.split('\n')) {
+    const lineStart = offset;
+    offset += line.length + 1; // +1 for \n
+
+    if (CODE_FENCE_PATTERN.test(line)) {
+      inCodeFence = !inCodeFence;
+    }
+
+    const heading = inCodeFence ? null : HEADING_PATTERN.exec(line);
+    if (!heading) {
+      hasBody = hasBody || line.trim().length > 0;
+      continue;
+    }
+
+    if (hasBody) {
+      sections.push({ startIndex: sectionStart, endIndex: lineStart, sectionTitle });
+      sectionStart = lineStart;
+      hasBody = false;
+    }
+
+    const level = heading[1].length;
+    while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+      headingStack.pop();
+    }
+    headingStack.push({ level, title: heading[2].trim() });
+    sectionTitle = headingStack.map(entry => entry.title).join(' > ');
+  }
+
+  sections.push({ startIndex: sectionStart, endIndex: text.length, sectionTitle });
+  return sections;
+};
+
+/**
+ * Split text along its heading structure
+ * Sections that fit are kept whole; larger ones are split with chunkText.
+ * Every chunk records the heading breadcrumb of the section it belongs to.
+ */
+export const chunkByStructure = (
+  text: string,
+  options: Partial<ChunkOptions> = {}
+): TextChunk[] => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const chunks: TextChunk[] = [];
+
+  for (const section of splitSections(text)) {
+    const sectionText = text.substring(section.startIndex, section.endIndex);
+    if (!sectionText.trim()) continue;
+
+    const pieces =
+      measure(sectionText, opts) <= maxSize(opts)
+        ? [{ text: sectionText.trim(), startIndex: 0, endIndex: sectionText.length }]
+        : chunkText(sectionText, { ...opts, pageSpans: undefined });
+
+    for (const piece of pieces) {
+      const startIndex = section.startIndex + piece.startIndex;
+      const endIndex = section.startIndex + piece.endIndex;
+      const pageRange = opts.pageSpans ? findPageRange(opts.pageSpans, startIndex, endIndex) : null;
+
+      chunks.push({
+        text: piece.text,
+        startIndex,
+        endIndex,
+        chunkIndex: chunks.length,
+        ...pageRange,
+        ...(section.sectionTitle && { sectionTitle: section.sectionTitle }),
+      });
+    }
+  }
+
+  return chunks;
+};
+
 /**
  * Calculate optimal chunk size based on token count
  */
@@ -143,3 +369,115 @@ export const calculateOptimalChunkSize = (
   return Math.min(targetChars, text.length);
 };
 
+const cleanCell = (value: string): string => value.replace(/\s+/g, ' ').trim();
+
+/**
+ * Render the header line restated at the top of every table chunk
+ */
+const renderTableHeader = (table: TabularData): string =>
+  `${table.name ? `Sheet: ${table.name}\n` : ''}Columns: ${table.columns.map(cleanCell).join(' | ')}`;
+
+/**
+ * Render a data row as "Column: value" pairs so each row is self-describing
+ */
+const renderTableRow = (table: TabularData, row: string[]): string =>
+  table.columns
+    .map((column, index) => [cleanCell(column), cleanCell(row[index] || '')])
+    .filter(([, value]) => value.length > 0)
+    .map(([column, value]) => `${column}: ${value}`)
+    .join(' | ');
+
+/**
+ * Render tables as document text
+ * Uses the same layout as chunkTables, so chunk offsets point into this text
+ */
+export const renderTables = (tables: TabularData[]): string =>
+  tables
+    .map(table =>
+      [renderTableHeader(table), ...table.rows.map(row => renderTableRow(table, row))].join('\n')
+    )
+    .join('\n\n');
+
+/**
+ * Spreadsheet column letters of a 0-based column index (0 -> A, 26 -> AA)
+ */
+const columnLetters = (index: number): string => {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+/**
+ * Split tables into row groups; every chunk restates the column headers
+ * and records the row range (and, for spreadsheets, the A1 cell range) it covers in its metadata
+ */
+export const chunkTables = (
+  tables: TabularData[],
+  options: Partial<ChunkOptions> = {}
+): TextChunk[] => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const chunks: TextChunk[] = [];
+  let tableOffset = 0;
+
+  for (const table of tables) {
+    const header = renderTableHeader(table);
+    let offset = tableOffset + header.length;
+    let rowLines: string[] = [];
+    let groupStart = 0;
+    let groupStartIndex = offset + 1;
+    const headerSize = measure(header, opts);
+    let groupSize = headerSize;
+
+    const flush = (lastRow: number) => {
+      if (rowLines.length === 0) return;
+
+      const rowStart = table.firstRowNumber + groupStart;
+      const rowEnd = table.firstRowNumber + lastRow;
+      chunks.push({
+        text: `${header}\n${rowLines.join('\n')}`,
+        startIndex: groupStartIndex,
+        endIndex: offset,
+        chunkIndex: chunks.length,
+        metadata: {
+          ...(table.name && { sheetName: table.name }),
+          columns: table.columns,
+          rowStart,
+          rowEnd,
+          ...(table.firstColumn !== undefined && {
+            cellRange: `${columnLetters(table.firstColumn)}${rowStart}:${columnLetters(
+              table.firstColumn + table.columns.length - 1
+            )}${rowEnd}`,
+          }),
+        },
+      });
+    };
+
+    table.rows.forEach((row, index) => {
+      const line = renderTableRow(table, row);
+      if (!line) {
+        offset += 1; // Empty row still occupies a line in the rendered text
+        return;
+      }
+
+      const lineSize = measure(line, opts) + 1; // +1 for \n
+      if (rowLines.length > 0 && groupSize + lineSize > maxSize(opts)) {
+        flush(index - 1);
+        rowLines = [];
+        groupStart = index;
+        groupStartIndex = offset + 1;
+        groupSize = headerSize;
+      }
+
+      rowLines.push(line);
+      groupSize += lineSize;
+      offset += line.length + 1; // +1 for \n
+    });
+
+    flush(table.rows.length - 1);
+    tableOffset = offset + 2; // +2 for \n\n between tables
+  }
+
+  return chunks;
+};
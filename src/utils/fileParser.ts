@@ -7,14 +7,79 @@
  * - xlsx for Excel files
  */
 
+import { FormatError, InvalidPDFException, PasswordException, PDFParse } from 'pdf-parse';
+import * as CFB from 'cfb';
 import { logger } from './logger';
 import { ApiError } from './apiError';
+import { PageSpan, TabularData, renderTables } from './chunking';
+import { extractPptSlides, extractPptxSlides, SlideContent } from './parsers/presentationParser';
+import { decodeCsvBuffer, parseCsv } from './parsers/csvParser';
+import { extractSpreadsheet } from './parsers/spreadsheetParser';
+import { detectPdfHeadings, markHeadings, PdfHeading } from './parsers/pdfStructure';
+import { extractHtmlPage, htmlToStructuredText } from './parsers/htmlText';
+import { EmailAttachment, EmailMessage, parseEml, parseMsg } from './parsers/emailParser';
+import { extractRtf } from './parsers/rtfParser';
+import { parseJsonDocument } from './parsers/jsonParser';
+import { isTiff, OcrPage, recognizeImages, tiffToPngPages } from './parsers/ocr';
+import { extractWordDocument } from './parsers/wordBinaryParser';
+import { DocumentParseError } from './parsers/documentParseError';
+import {
+  DocumentProperties,
+  normalizeProperties,
+  readOoxmlCoreProperties,
+} from './parsers/documentProperties';
 
 // DocumentType enum values
-type DocumentType = 'PDF' | 'DOCX' | 'DOC' | 'XLSX' | 'XLS' | 'TXT' | 'MD';
+type DocumentType =
+  | 'PDF'
+  | 'DOCX'
+  | 'DOC'
+  | 'XLSX'
+  | 'XLS'
+  | 'PPTX'
+  | 'PPT'
+  | 'TXT'
+  | 'MD'
+  | 'CSV'
+  | 'IMAGE'
+  | 'HTML'
+  | 'EMAIL'
+  | 'RTF'
+  | 'JSON';
+
+// PDF pages with less extractable text than this are treated as scanned
+const MIN_PAGE_TEXT_LENGTH = 20;
+
+// Compound File Binary (OLE2) signature: legacy Office formats and encrypted OOXML packages
+const CFB_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const ZIP_SIGNATURE = Buffer.from('PK\x03\x04', 'latin1');
+
+// Render scale for OCR of PDF pages (PDF units are 72 DPI, so 3 ≈ 216 DPI)
+const OCR_RENDER_SCALE = 3;
+
+/**
+ * Text of a single page (or slide) as returned by page-aware parsers
+ */
+export type ParsedPage = {
+  pageNumber: number;
+  text: string;
+  ocrConfidence?: number; // Set when the text was recognized by OCR (0-100)
+};
+
+/**
+ * Workspace ingestion settings that affect parsing
+ */
+export type ParseOptions = {
+  ocrEnabled?: boolean; // OCR PDF pages without extractable text (images are always OCRed)
+  languages?: string[]; // ISO 639-1 codes, used as OCR languages
+};
 
 export interface ParsedDocument {
   text: string;
+  pages?: ParsedPage[]; // Set by parsers that know real page boundaries
+  tables?: TabularData[]; // Set by tabular parsers; text is the rendered tables
+  attachments?: EmailAttachment[]; // Set by the email parser; ingested as child documents
+  properties?: DocumentProperties; // Title, authors, dates and keywords stored in the file
   metadata: {
     pageCount?: number;
     wordCount?: number;
@@ -30,18 +95,36 @@ export class FileParser {
   static async parseDocument(
     buffer: Buffer,
     type: DocumentType,
-    mimeType: string
+    mimeType: string,
+    options: ParseOptions = {}
   ): Promise<ParsedDocument> {
     try {
       switch (type) {
         case 'PDF':
-          return await this.parsePDF(buffer);
+          return await this.parsePDF(buffer, options);
+        case 'IMAGE':
+          return await this.parseImage(buffer, options);
         case 'DOCX':
-        case 'DOC':
           return await this.parseDOCX(buffer);
+        case 'DOC':
+          return await this.parseDOC(buffer);
         case 'XLSX':
         case 'XLS':
-          return await this.parseExcel(buffer);
+          return await this.parseExcel(buffer, type);
+        case 'PPTX':
+          return await this.parsePPTX(buffer);
+        case 'PPT':
+          return await this.parsePPT(buffer);
+        case 'CSV':
+          return await this.parseCSV(buffer);
+        case 'HTML':
+          return await this.parseHTML(buffer);
+        case 'EMAIL':
+          return await this.parseEmail(buffer);
+        case 'RTF':
+          return await this.parseRTF(buffer);
+        case 'JSON':
+          return await this.parseJSON(buffer);
         case 'TXT':
         case 'MD':
           return await this.parseText(buffer);
@@ -49,90 +132,501 @@ export class FileParser {
           throw ApiError.badRequest(`Unsupported file type: ${type}`);
       }
     } catch (error) {
+      // Content problems (corrupt, encrypted, unsupported) keep their specific error
+      if (error instanceof DocumentParseError) {
+        logger.warn('Document cannot be parsed', { code: error.code, type, mimeType });
+        throw error;
+      }
       logger.error('Failed to parse document', { error, type, mimeType });
       throw ApiError.internal('Failed to parse document');
     }
   }
 
+  private static hasSignature(buffer: Buffer, signature: Buffer): boolean {
+    return buffer.subarray(0, signature.length).equals(signature);
+  }
+
+  /**
+   * Whether a buffer is an Office Open XML file (DOCX, XLSX, PPTX) encrypted with a password
+   * Encrypted packages are stored as compound files with an EncryptedPackage stream
+   */
+  private static isEncryptedOfficeFile(buffer: Buffer): boolean {
+    if (!this.hasSignature(buffer, CFB_SIGNATURE)) {
+      return false;
+    }
+
+    try {
+      const container = CFB.read(buffer, { type: 'buffer' });
+      return Boolean(CFB.find(container, 'EncryptedPackage'));
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Parse PDF file
+   * Text is extracted per page so chunks can be mapped to their real page numbers;
+   * headings detected from font sizes are marked with "#" so chunks can follow sections.
+   * Pages without extractable text (scans) are rendered and OCRed when OCR is enabled.
    */
-  private static async parsePDF(buffer: Buffer): Promise<ParsedDocument> {
+  private static async parsePDF(buffer: Buffer, options: ParseOptions): Promise<ParsedDocument> {
+    const parser = new PDFParse({ data: buffer });
+
     try {
-      // Use require for pdf-parse as it's CommonJS
-      const pdfParse = require('pdf-parse');
-      const data = await pdfParse(buffer);
+      const textResult = await parser.getText();
+      const infoResult = await parser.getInfo();
+      const dates = infoResult.getDateNode();
+      const headings = await this.detectPDFHeadings(buffer);
+
+      const pages: ParsedPage[] = textResult.pages.map(page => ({
+        pageNumber: page.num,
+        text: markHeadings(page.text, headings.get(page.num)),
+      }));
+
+      const scannedPageNumbers = pages
+        .filter(page => page.text.replace(/\s+/g, '').length < MIN_PAGE_TEXT_LENGTH)
+        .map(page => page.pageNumber);
+      let ocrPages: OcrPage[] = [];
+      if (options.ocrEnabled && scannedPageNumbers.length > 0) {
+        const screenshots = await parser.getScreenshot({
+          partial: scannedPageNumbers,
+          scale: OCR_RENDER_SCALE,
+          imageDataUrl: false,
+        });
+        ocrPages = await recognizeImages(
+          screenshots.pages.map(screenshot => ({
+            pageNumber: screenshot.pageNumber,
+            image: Buffer.from(screenshot.data),
+          })),
+          options.languages
+        );
+
+        for (const ocrPage of ocrPages) {
+          const page = pages.find(candidate => candidate.pageNumber === ocrPage.pageNumber);
+          if (page) {
+            page.text = ocrPage.text;
+            page.ocrConfidence = ocrPage.confidence;
+          }
+        }
+      }
+
+      const text = pages.map(page => page.text).join('\n\n');
 
       return {
-        text: data.text,
+        text,
+        pages,
         metadata: {
-          pageCount: data.numpages,
-          wordCount: data.text.split(/\s+/).filter((word: string) => word.length > 0).length,
-          title: data.info?.Title,
-          author: data.info?.Author,
-          subject: data.info?.Subject,
+          pageCount: textResult.total,
+          wordCount: text.split(/\s+/).filter((word: string) => word.length > 0).length,
+          headingCount: Array.from(headings.values()).reduce(
+            (count, pageHeadings) => count + pageHeadings.length,
+            0
+          ),
+          scannedPageCount: scannedPageNumbers.length,
+          ...this.getOcrMetadata(ocrPages),
         },
+        properties: normalizeProperties({
+          title: infoResult.info?.Title,
+          authors: infoResult.info?.Author,
+          subject: infoResult.info?.Subject,
+          keywords: infoResult.info?.Keywords,
+          createdAt: dates.CreationDate ?? dates.XmpCreateDate,
+          modifiedAt: dates.ModDate ?? dates.XmpModifyDate,
+        }),
       };
     } catch (error) {
+      if (error instanceof PasswordException) {
+        throw DocumentParseError.passwordProtected('PDF');
+      }
+      if (error instanceof InvalidPDFException || error instanceof FormatError) {
+        throw DocumentParseError.corrupt('PDF', error.message);
+      }
       logger.error('PDF parsing failed', { error });
       throw ApiError.internal('Failed to parse PDF file');
+    } finally {
+      await parser.destroy();
+    }
+  }
+
+  /**
+   * Detect PDF headings from font sizes
+   * Structure is best effort: text extraction still succeeds when detection fails
+   */
+  private static async detectPDFHeadings(buffer: Buffer): Promise<Map<number, PdfHeading[]>> {
+    try {
+      return await detectPdfHeadings(buffer);
+    } catch (error) {
+      logger.warn('PDF heading detection failed', { error });
+      return new Map();
+    }
+  }
+
+  /**
+   * Parse an image (PNG, JPEG or TIFF) with OCR
+   * Every frame of a multi-page TIFF becomes a page
+   */
+  private static async parseImage(buffer: Buffer, options: ParseOptions): Promise<ParsedDocument> {
+    try {
+      const images = isTiff(buffer) ? tiffToPngPages(buffer) : [buffer];
+      const ocrPages = await recognizeImages(
+        images.map((image, index) => ({ pageNumber: index + 1, image })),
+        options.languages
+      );
+
+      const pages: ParsedPage[] = ocrPages.map(page => ({
+        pageNumber: page.pageNumber,
+        text: page.text,
+        ocrConfidence: page.confidence,
+      }));
+      const text = pages.map(page => page.text).join('\n\n');
+
+      return {
+        text,
+        pages,
+        metadata: {
+          pageCount: pages.length,
+          wordCount: text.split(/\s+/).filter(word => word.length > 0).length,
+          ...this.getOcrMetadata(ocrPages),
+        },
+      };
+    } catch (error) {
+      logger.error('Image parsing failed', { error });
+      throw DocumentParseError.corrupt('IMAGE', error instanceof Error ? error.message : undefined);
     }
   }
 
+  /**
+   * Document-level OCR stats: OCRed page count and their mean confidence
+   */
+  private static getOcrMetadata(ocrPages: OcrPage[]): Record<string, number> {
+    if (ocrPages.length === 0) return {};
+
+    const totalConfidence = ocrPages.reduce((sum, page) => sum + page.confidence, 0);
+    return {
+      ocrPageCount: ocrPages.length,
+      ocrConfidence: Math.round(totalConfidence / ocrPages.length),
+    };
+  }
+
   /**
    * Parse DOCX file
+   * Converted through HTML so heading styles survive as "#" heading lines
    */
   private static async parseDOCX(buffer: Buffer): Promise<ParsedDocument> {
+    if (this.isEncryptedOfficeFile(buffer)) {
+      throw DocumentParseError.passwordProtected('DOCX');
+    }
+    if (!this.hasSignature(buffer, ZIP_SIGNATURE)) {
+      throw DocumentParseError.corrupt('DOCX', 'not a ZIP package');
+    }
+
     try {
       // Use require for mammoth as it's CommonJS
       const mammoth = require('mammoth');
-      const result = await mammoth.extractRawText({ buffer });
+      const result = await mammoth.convertToHtml({ buffer });
+      const text = htmlToStructuredText(result.value);
 
       return {
-        text: result.value,
+        text,
         metadata: {
-          wordCount: result.value.split(/\s+/).filter((word: string) => word.length > 0).length,
+          wordCount: text.split(/\s+/).filter((word: string) => word.length > 0).length,
+          headingCount: text.split('\n').filter(line => /^#{1,6} /.test(line)).length,
         },
+        properties: await readOoxmlCoreProperties(buffer),
       };
     } catch (error) {
       logger.error('DOCX parsing failed', { error });
-      throw ApiError.internal('Failed to parse DOCX file');
+      throw DocumentParseError.corrupt('DOCX', error instanceof Error ? error.message : undefined);
     }
   }
 
   /**
-   * Parse Excel file
+   * Parse legacy DOC (Word 97-2003) file
+   * Files named .doc that are really DOCX packages are parsed as DOCX
    */
-  private static async parseExcel(buffer: Buffer): Promise<ParsedDocument> {
+  private static async parseDOC(buffer: Buffer): Promise<ParsedDocument> {
+    if (this.hasSignature(buffer, ZIP_SIGNATURE)) {
+      return this.parseDOCX(buffer);
+    }
+    if (this.isEncryptedOfficeFile(buffer)) {
+      throw DocumentParseError.passwordProtected('DOC');
+    }
+
     try {
-      // Use require for xlsx as it's CommonJS
-      const XLSX = require('xlsx');
-      const workbook = XLSX.read(buffer, { type: 'buffer' });
-
-      const sheets = workbook.SheetNames.map((name: string) => {
-        const sheet = workbook.Sheets[name];
-        const sheetText = XLSX.utils.sheet_to_txt(sheet);
-        return `Sheet: ${name}\n${sheetText}`;
-      });
+      const { text, paragraphCount, tableRowCount } = extractWordDocument(buffer);
+
+      return {
+        text,
+        metadata: {
+          wordCount: text.split(/\s+/).filter(word => word.length > 0).length,
+          paragraphCount,
+          tableRowCount,
+        },
+      };
+    } catch (error) {
+      if (error instanceof DocumentParseError) throw error;
+      logger.error('DOC parsing failed', { error });
+      throw DocumentParseError.corrupt('DOC', error instanceof Error ? error.message : undefined);
+    }
+  }
+
+  /**
+   * Parse Excel file (XLSX, or legacy XLS through the same SheetJS reader)
+   * Each visible sheet becomes a table that is chunked into row groups like CSV files
+   */
+  private static async parseExcel(buffer: Buffer, type: 'XLSX' | 'XLS'): Promise<ParsedDocument> {
+    if (type === 'XLSX' && this.isEncryptedOfficeFile(buffer)) {
+      throw DocumentParseError.passwordProtected(type);
+    }
+    // SheetJS reads almost any input as a plain-text sheet, so check the container first;
+    // XLS may also be an HTML or SpreadsheetML 2003 export
+    const isContainer =
+      type === 'XLSX'
+        ? this.hasSignature(buffer, ZIP_SIGNATURE)
+        : this.hasSignature(buffer, CFB_SIGNATURE) ||
+          /^(\ufeff)?\s*</.test(buffer.subarray(0, 512).toString('utf-8'));
+    if (!isContainer) {
+      throw DocumentParseError.corrupt(type, 'unrecognized file structure');
+    }
 
-      const text = sheets.join('\n\n');
-      const totalCells = workbook.SheetNames.reduce((count: number, name: string) => {
-        const sheet = workbook.Sheets[name];
-        return count + Object.keys(sheet).length;
-      }, 0);
+    try {
+      const { tables, sheets, skippedSheets, properties } = extractSpreadsheet(buffer);
+      const text = renderTables(tables);
 
       return {
         text,
+        tables,
         metadata: {
-          sheetCount: workbook.SheetNames.length,
-          sheetNames: workbook.SheetNames,
-          totalCells,
+          sheetCount: sheets.length,
+          sheetNames: sheets.map(sheet => sheet.name),
+          sheets,
+          ...(skippedSheets.length > 0 && { skippedSheets }),
+          rowCount: sheets.reduce((count, sheet) => count + sheet.rowCount, 0),
+          wordCount: text.split(/\s+/).filter(word => word.length > 0).length,
         },
+        properties,
       };
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (/password/i.test(message)) {
+        throw DocumentParseError.passwordProtected(type);
+      }
       logger.error('Excel parsing failed', { error });
-      throw ApiError.internal('Failed to parse Excel file');
+      throw DocumentParseError.corrupt(type, message);
+    }
+  }
+
+  /**
+   * Parse PPTX file
+   */
+  private static async parsePPTX(buffer: Buffer): Promise<ParsedDocument> {
+    if (this.isEncryptedOfficeFile(buffer)) {
+      throw DocumentParseError.passwordProtected('PPTX');
+    }
+
+    try {
+      const slides = await extractPptxSlides(buffer);
+      return {
+        ...this.formatPresentation(slides),
+        properties: await readOoxmlCoreProperties(buffer),
+      };
+    } catch (error) {
+      logger.error('PPTX parsing failed', { error });
+      throw DocumentParseError.corrupt('PPTX', error instanceof Error ? error.message : undefined);
+    }
+  }
+
+  /**
+   * Parse legacy PPT (PowerPoint 97-2003) file
+   */
+  private static async parsePPT(buffer: Buffer): Promise<ParsedDocument> {
+    try {
+      const slides = extractPptSlides(buffer);
+      return this.formatPresentation(slides);
+    } catch (error) {
+      if (error instanceof DocumentParseError) throw error;
+      logger.error('PPT parsing failed', { error });
+      throw DocumentParseError.corrupt('PPT', error instanceof Error ? error.message : undefined);
+    }
+  }
+
+  /**
+   * Build one page per slide: slide text, then table rows, then speaker notes
+   */
+  private static formatPresentation(slides: SlideContent[]): ParsedDocument {
+    const pages: ParsedPage[] = slides.map(slide => {
+      const sections = [`Slide ${slide.slideNumber}`, ...slide.paragraphs];
+
+      for (const table of slide.tables) {
+        sections.push(table.map(row => row.join(' | ')).join('\n'));
+      }
+
+      if (slide.notes.length > 0) {
+        sections.push(`Speaker notes:\n${slide.notes.join('\n')}`);
+      }
+
+      return { pageNumber: slide.slideNumber, text: sections.join('\n\n') };
+    });
+
+    const text = pages.map(page => page.text).join('\n\n');
+
+    return {
+      text,
+      pages,
+      metadata: {
+        pageCount: slides.length,
+        slideCount: slides.length,
+        slidesWithNotes: slides.filter(slide => slide.notes.length > 0).length,
+        tableCount: slides.reduce((count, slide) => count + slide.tables.length, 0),
+        wordCount: text.split(/\s+/).filter(word => word.length > 0).length,
+      },
+    };
+  }
+
+  /**
+   * Parse CSV file
+   * The first record is kept as the header row and restated in every chunk
+   */
+  private static async parseCSV(buffer: Buffer): Promise<ParsedDocument> {
+    try {
+      const { encoding, delimiter, records } = parseCsv(buffer);
+      const [header = [], ...rows] = records;
+      const columns = header.map((name, index) => name.trim() || `Column ${index + 1}`);
+
+      const table: TabularData = {
+        columns,
+        rows,
+        firstRowNumber: 2, // Row 1 is the header
+      };
+      const text = renderTables([table]);
+
+      return {
+        text,
+        tables: [table],
+        metadata: {
+          encoding,
+          delimiter,
+          columns,
+          columnCount: columns.length,
+          rowCount: rows.length,
+          wordCount: text.split(/\s+/).filter(word => word.length > 0).length,
+        },
+      };
+    } catch (error) {
+      logger.error('CSV parsing failed', { error });
+      throw DocumentParseError.corrupt('CSV', error instanceof Error ? error.message : undefined);
+    }
+  }
+
+  /**
+   * Parse HTML page (boilerplate such as navigation and footers is removed)
+   */
+  private static async parseHTML(buffer: Buffer): Promise<ParsedDocument> {
+    // Honor a <meta charset> declaration; otherwise detect UTF-8 or Windows-1252
+    const declaredCharset = buffer
+      .subarray(0, 1024)
+      .toString('latin1')
+      .match(/<meta\b[^>]*charset=["']?([\w-]+)/i)?.[1];
+    let html = decodeCsvBuffer(buffer).text;
+    if (declaredCharset && !/^utf-?8$/i.test(declaredCharset)) {
+      try {
+        html = new TextDecoder(declaredCharset.toLowerCase()).decode(buffer);
+      } catch {
+        logger.warn('Unknown HTML charset, using detected encoding', { declaredCharset });
+      }
     }
+
+    const page = extractHtmlPage(html);
+    const body = htmlToStructuredText(page.html);
+    // Keep the page title as the top heading unless the content starts with its own
+    const text = page.title && !body.startsWith('# ') ? `# ${page.title}\n\n${body}` : body;
+
+    return {
+      text,
+      metadata: {
+        ...(page.description && { description: page.description }),
+        wordCount: text.split(/\s+/).filter(word => word.length > 0).length,
+      },
+      properties: normalizeProperties({ title: page.title }),
+    };
+  }
+
+  /**
+   * Parse email (.eml MIME message or .msg Outlook message)
+   * The text starts with the main headers; attachments are returned to be ingested separately
+   */
+  private static async parseEmail(buffer: Buffer): Promise<ParsedDocument> {
+    const isOutlookMessage = this.hasSignature(buffer, CFB_SIGNATURE);
+    const message: EmailMessage = isOutlookMessage ? parseMsg(buffer) : parseEml(buffer);
+
+    const headerLines = [
+      message.subject && `Subject: ${message.subject}`,
+      message.from && `From: ${message.from}`,
+      message.to && `To: ${message.to}`,
+      message.cc && `Cc: ${message.cc}`,
+      message.date && `Date: ${message.date}`,
+      message.attachments.length > 0 &&
+        `Attachments: ${message.attachments.map(attachment => attachment.fileName).join(', ')}`,
+    ].filter((line): line is string => Boolean(line));
+    const text = [headerLines.join('\n'), message.body].filter(part => part).join('\n\n');
+
+    return {
+      text,
+      attachments: message.attachments,
+      metadata: {
+        format: isOutlookMessage ? 'msg' : 'eml',
+        ...(message.from && { from: message.from }),
+        ...(message.to && { to: message.to }),
+        ...(message.cc && { cc: message.cc }),
+        ...(message.date && { date: message.date }),
+        ...(message.messageId && { messageId: message.messageId }),
+        attachments: message.attachments.map(attachment => ({
+          fileName: attachment.fileName,
+          contentType: attachment.contentType,
+          size: attachment.content.length,
+        })),
+        wordCount: text.split(/\s+/).filter(word => word.length > 0).length,
+      },
+      properties: normalizeProperties({
+        title: message.subject,
+        authors: message.from,
+        subject: message.subject,
+        createdAt: message.date,
+      }),
+    };
+  }
+
+  /**
+   * Parse RTF document
+   */
+  private static async parseRTF(buffer: Buffer): Promise<ParsedDocument> {
+    const { text, title, author, subject } = extractRtf(buffer);
+
+    return {
+      text,
+      metadata: {
+        wordCount: text.split(/\s+/).filter(word => word.length > 0).length,
+      },
+      properties: normalizeProperties({ title, authors: author, subject }),
+    };
+  }
+
+  /**
+   * Parse JSON or JSON Lines file
+   */
+  private static async parseJSON(buffer: Buffer): Promise<ParsedDocument> {
+    const { text: content, encoding } = decodeCsvBuffer(buffer);
+    const { text, format, recordCount } = parseJsonDocument(content);
+
+    return {
+      text,
+      metadata: {
+        encoding,
+        format,
+        recordCount,
+        wordCount: text.split(/\s+/).filter(word => word.length > 0).length,
+      },
+    };
   }
 
   /**
@@ -150,13 +644,52 @@ export class FileParser {
 
   /**
    * Normalize text (clean, remove extra whitespace, etc.)
+   * Composes accented characters (NFC) so that e.g. a decomposed "ü" matches the precomposed one
+   * in keyword search, and treats Unicode spaces (no-break, ideographic) like ASCII spaces
    */
   static normalizeText(text: string): string {
     return text
+      .normalize('NFC')
       .replace(/\r\n/g, '\n') // Normalize line endings
       .replace(/\r/g, '\n')
       .replace(/\n{3,}/g, '\n\n') // Max 2 consecutive newlines
-      .replace(/[ \t]+/g, ' ') // Multiple spaces to single space
+      .replace(/[^\S\n]+/g, ' ') // Runs of spaces (any Unicode space) to a single space
       .trim();
   }
+
+  /**
+   * Normalize a parsed document into a single text
+   * For page-aware parsers, also returns the character span of every page in that text
+   */
+  static normalizeDocument(parsed: ParsedDocument): { text: string; pageSpans?: PageSpan[] } {
+    // Rendered tables are already clean, and table chunk offsets point into them as-is
+    if (parsed.tables) {
+      return { text: parsed.text };
+    }
+
+    if (!parsed.pages || parsed.pages.length === 0) {
+      return { text: this.normalizeText(parsed.text) };
+    }
+
+    const pageSpans: PageSpan[] = [];
+    let text = '';
+
+    for (const page of parsed.pages) {
+      const pageText = this.normalizeText(page.text);
+      if (!pageText) continue;
+
+      if (text) {
+        text += '\n\n';
+      }
+
+      pageSpans.push({
+        pageNumber: page.pageNumber,
+        startIndex: text.length,
+        endIndex: text.length + pageText.length,
+      });
+      text += pageText;
+    }
+
+    return { text, pageSpans };
+  }
 }
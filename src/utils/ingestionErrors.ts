@@ -0,0 +1,60 @@
+/**
+ * Ingestion error classification
+ * Decides whether a failed ingestion attempt is worth retrying: files that cannot be parsed
+ * and requests a provider rejected fail the same way every time, while rate limits, outages
+ * and dropped connections usually pass on a later attempt
+ */
+
+import { UnrecoverableError } from 'bullmq';
+import { DocumentParseError } from './parsers/documentParseError';
+import { ProviderError } from './providerError';
+
+// parse: the file's content; provider: a request OpenAI, Qdrant or S3 rejected;
+// transient: rate limits, outages, connection failures; unknown: anything else
+export const INGESTION_ERROR_CLASSES = ['parse', 'provider', 'transient', 'unknown'] as const;
+
+export type IngestionErrorClass = (typeof INGESTION_ERROR_CLASSES)[number];
+
+export type IngestionErrorClassification = {
+  errorClass: IngestionErrorClass;
+  retryable: boolean;
+};
+
+// Connection-level failures of Node sockets and Prisma (database unreachable, pool timeout,
+// transaction conflict)
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'P1001',
+  'P1002',
+  'P1008',
+  'P1017',
+  'P2024',
+  'P2034',
+]);
+
+/**
+ * Classify an error thrown while ingesting a document
+ * Unknown errors are retried (within the job's attempts), as before classification existed
+ */
+export const classifyIngestionError = (error: unknown): IngestionErrorClassification => {
+  // The ingestion worker raises UnrecoverableError for documents without extractable text
+  if (error instanceof DocumentParseError || error instanceof UnrecoverableError) {
+    return { errorClass: 'parse', retryable: false };
+  }
+  if (error instanceof ProviderError) {
+    return error.retryable
+      ? { errorClass: 'transient', retryable: true }
+      : { errorClass: 'provider', retryable: false };
+  }
+
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code === 'string' && TRANSIENT_ERROR_CODES.has(code)) {
+    return { errorClass: 'transient', retryable: true };
+  }
+
+  return { errorClass: 'unknown', retryable: true };
+};
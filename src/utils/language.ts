@@ -0,0 +1,183 @@
+/**
+ * Language detection
+ * Identifies the writing system of a text, then (for Latin and Cyrillic text) the language
+ * whose most common words occur most often. Runs offline and is reliable from a sentence
+ * or two; shorter or mixed texts are reported as undetected (null)
+ */
+
+// ISO 639-1 code → its most frequent words (articles, pronouns, prepositions, auxiliaries),
+// picked to tell related languages apart
+const COMMON_WORDS: Record<string, Set<string>> = Object.fromEntries(
+  Object.entries({
+    en:
+      'the and of to is in that it for was with are this be on have not by from which or you ' +
+      'were has they',
+    de:
+      'der die und das ist nicht ich zu den mit sich des auf für ein eine dem auch es von wird ' +
+      'sind werden oder bei',
+    es:
+      'el la de que y los las del en por con una para es se no su al lo como más pero sus fue ' +
+      'este está',
+    fr:
+      'le la les de des et est un une du que qui dans pour pas en au sur ne avec il sont ce nous ' +
+      'vous aux',
+    it:
+      'il di che la e per un non una del della sono le gli nel con si da è al dei anche questo ' +
+      'come ma alla',
+    pt:
+      'o a de que e do da em um uma para com não os no na as dos das por se mais ao foi são pelo ' +
+      'pela',
+    nl:
+      'de het een en van is dat op te in zijn met voor niet die aan er ook als wordt bij door ' +
+      'naar maar dit',
+    sv:
+      'och att det som en är av för med till den på inte har ett om var de jag men kan från ' +
+      'eller så också',
+    da:
+      'og i at det er en til af på med for ikke den de som har et der var jeg fra kan eller også ' +
+      'blev sig efter mig nu',
+    no:
+      'og i er det som på en til av for med ikke har at de et den var jeg fra kan eller også ble ' +
+      'seg etter meg nå',
+    fi:
+      'ja on ei se että oli hän ovat kun mutta tai joka myös ole sen niin kuin jos tämä vain voi ' +
+      'olla kanssa',
+    pl:
+      'i w nie na się z jest do to że jak ale po co tak za od jego przez są dla oraz jako może ' +
+      'tylko być',
+    tr:
+      've bir bu da de için ile olarak çok daha olan gibi ne var ama sonra kadar değil her ' +
+      'olduğu diye ya',
+    ro:
+      'și în de la cu nu pe că din este un sunt se care mai pentru ca fost au lui ce sau dar ' +
+      'această',
+    ru: 'и в не на что с по как это он к из но за от для то же все так его она было при или уже',
+    uk: 'і в не на що з та до як це він у за від для але його є так вона було при або вже який й',
+  }).map(([language, words]) => [language, new Set(words.split(' '))])
+);
+
+// Writing systems used by a single language (Han is checked separately: Chinese or Japanese)
+const SCRIPT_LANGUAGES: Array<{ pattern: RegExp; language: string }> = [
+  { pattern: /\p{Script=Hangul}/gu, language: 'ko' },
+  { pattern: /\p{Script=Arabic}/gu, language: 'ar' },
+  { pattern: /\p{Script=Hebrew}/gu, language: 'he' },
+  { pattern: /\p{Script=Greek}/gu, language: 'el' },
+  { pattern: /\p{Script=Thai}/gu, language: 'th' },
+  { pattern: /\p{Script=Devanagari}/gu, language: 'hi' },
+];
+
+// Postgres text search configurations (built-in snowball dictionaries) by language;
+// other languages use 'simple' (lowercasing, no stemming or stop words)
+// Keep in sync with the expression generating chunks.searchVector (full_text_search migration)
+export const TEXT_SEARCH_CONFIGS: Record<string, string> = {
+  ar: 'arabic',
+  da: 'danish',
+  de: 'german',
+  el: 'greek',
+  en: 'english',
+  es: 'spanish',
+  fi: 'finnish',
+  fr: 'french',
+  it: 'italian',
+  nl: 'dutch',
+  no: 'norwegian',
+  pt: 'portuguese',
+  ro: 'romanian',
+  ru: 'russian',
+  sv: 'swedish',
+  tr: 'turkish',
+};
+
+// Languages written without spaces between words
+export const UNSPACED_LANGUAGES = new Set(['zh', 'ja', 'th']);
+
+const SAMPLE_LENGTH = 20000; // Characters read from long texts
+const MIN_LETTERS = 20;
+const MIN_COMMON_WORDS = 3; // Common word occurrences needed to name a Latin/Cyrillic language
+const MIN_MARGIN = 1.25; // Best score over the runner-up's
+
+const countMatches = (text: string, pattern: RegExp): number => text.match(pattern)?.length ?? 0;
+
+/**
+ * Pick the language of a script whose common words occur most often, if it clearly leads
+ * A word shared by several of the languages counts for each of them in equal parts, so that
+ * close languages (Danish and Norwegian, Spanish and Portuguese) are told apart by the words
+ * they do not share
+ */
+const detectByCommonWords = (words: string[], languages: string[]): string | null => {
+  const scores = new Map(languages.map(language => [language, 0]));
+  let hits = 0;
+
+  for (const word of words) {
+    const matches = languages.filter(language => COMMON_WORDS[language].has(word));
+    if (matches.length === 0) continue;
+    hits++;
+    for (const language of matches) {
+      scores.set(language, scores.get(language)! + 1 / matches.length);
+    }
+  }
+  if (hits < MIN_COMMON_WORDS) return null;
+
+  const [best, runnerUp] = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+  if (runnerUp && best[1] < runnerUp[1] * MIN_MARGIN) return null;
+  return best[0];
+};
+
+/**
+ * Detect the language of a text as an ISO 639-1 code, or null when it cannot be told
+ */
+export const detectLanguage = (text: string): string | null => {
+  const sample = text.slice(0, SAMPLE_LENGTH);
+  const letterCount = countMatches(sample, /\p{L}/gu);
+  if (letterCount < MIN_LETTERS) return null;
+
+  // Japanese mixes kana with Han characters; Han alone is Chinese
+  const kanaCount = countMatches(sample, /[\p{Script=Hiragana}\p{Script=Katakana}]/gu);
+  const hanCount = countMatches(sample, /\p{Script=Han}/gu);
+  if (kanaCount + hanCount > letterCount / 2) {
+    return kanaCount > 0 ? 'ja' : 'zh';
+  }
+
+  for (const { pattern, language } of SCRIPT_LANGUAGES) {
+    if (countMatches(sample, pattern) > letterCount / 2) return language;
+  }
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const cyrillicCount = countMatches(sample, /\p{Script=Cyrillic}/gu);
+  if (cyrillicCount > letterCount / 2) {
+    return detectByCommonWords(words, ['ru', 'uk']);
+  }
+
+  const latinLanguages = Object.keys(COMMON_WORDS).filter(
+    language => language !== 'ru' && language !== 'uk'
+  );
+  return detectByCommonWords(words, latinLanguages);
+};
+
+/**
+ * Postgres text search configuration for a language ('simple' when there is no dictionary)
+ */
+export const getTextSearchConfig = (language: string | null | undefined): string =>
+  (language && TEXT_SEARCH_CONFIGS[language]) || 'simple';
+
+/**
+ * Whether a language is written without spaces between words (word splitting does not apply)
+ */
+export const isUnspacedLanguage = (language: string | null | undefined): boolean =>
+  Boolean(language && UNSPACED_LANGUAGES.has(language));
+
+/**
+ * Count the words of a text; in Chinese, Japanese and Thai text every character counts
+ * as a word, the usual convention for languages written without spaces
+ */
+export const countWords = (text: string): number => {
+  const unspacedCharacters = countMatches(
+    text,
+    /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/gu
+  );
+  const spacedWords = text
+    .replace(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+  return unspacedCharacters + spacedWords;
+};
@@ -0,0 +1,63 @@
+/**
+ * MinHash signatures
+ * Estimate how much of their text two documents share (Jaccard similarity of their word
+ * shingles) from fixed-size signatures, without comparing the texts themselves
+ */
+
+export const MINHASH_SIZE = 64; // Hash functions per signature
+const SHINGLE_WORDS = 5;
+
+// FNV-1a hash of a string (32-bit)
+const fnv1a = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Murmur3 finalizer: spreads a hash over all bits, so each seed acts as its own hash function
+const mix = (hash: number): number => {
+  let h = hash;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+const SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => mix(i + 1));
+
+/**
+ * Compute the MinHash signature of a document's texts (e.g. its chunks)
+ * Shingles do not span texts; a text shorter than a shingle counts as one shingle.
+ * Values are signed 32-bit integers (the range of a Postgres integer). Returns an empty
+ * signature when there are no words
+ */
+export const computeMinHash = (texts: string[]): number[] => {
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff);
+  let shingleCount = 0;
+
+  for (const text of texts) {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const last = Math.max(1, words.length - SHINGLE_WORDS + 1);
+    for (let i = 0; i < last && words.length > 0; i++) {
+      const shingle = fnv1a(words.slice(i, i + SHINGLE_WORDS).join(' '));
+      shingleCount++;
+      for (let k = 0; k < MINHASH_SIZE; k++) {
+        const value = mix(shingle ^ SEEDS[k]);
+        if (value < signature[k]) signature[k] = value;
+      }
+    }
+  }
+
+  return shingleCount > 0 ? signature.map(value => value | 0) : [];
+};
+
+/**
+ * Estimate the similarity (0-1) of two documents from their signatures
+ */
+export const estimateSimilarity = (a: number[], b: number[]): number => {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  const matching = a.filter((value, k) => value === b[k]).length;
+  return matching / a.length;
+};
@@ -0,0 +1,146 @@
+/**
+ * CSV parsing utilities
+ * Detects encoding and delimiter, then parses RFC 4180 records (quoted fields, escaped quotes,
+ * embedded line breaks)
+ */
+
+export type CsvParseResult = {
+  encoding: string;
+  delimiter: string;
+  records: string[][];
+};
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+const DELIMITER_SAMPLE_SIZE = 20;
+
+/**
+ * Decode a CSV buffer, detecting the encoding from the BOM or from UTF-8 validity
+ * Files that are not valid UTF-8 are assumed to be Windows-1252 (Excel's default export)
+ */
+export const decodeCsvBuffer = (buffer: Buffer): { text: string; encoding: string } => {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(buffer.subarray(3)), encoding: 'utf-8' };
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(buffer.subarray(2)), encoding: 'utf-16le' };
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(buffer.subarray(2)), encoding: 'utf-16be' };
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(buffer), encoding: 'windows-1252' };
+  }
+};
+
+/**
+ * Parse CSV text into records using the given delimiter
+ */
+export const parseCsvRecords = (
+  text: string,
+  delimiter: string,
+  maxRecords?: number
+): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  const endRecord = () => {
+    record.push(field);
+    // Skip blank lines
+    if (record.length > 1 || record[0].trim() !== '') {
+      records.push(record);
+    }
+    record = [];
+    field = '';
+  };
+
+  while (i < text.length) {
+    if (maxRecords !== undefined && records.length >= maxRecords) {
+      return records;
+    }
+
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      endRecord();
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (field !== '' || record.length > 0) {
+    endRecord();
+  }
+
+  return records;
+};
+
+/**
+ * Detect the delimiter by picking the candidate that yields the most consistent
+ * (and widest) field counts over the first records
+ */
+export const detectDelimiter = (text: string): string => {
+  let best = { delimiter: ',', consistentRecords: 0, fieldCount: 0 };
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const sample = parseCsvRecords(text, delimiter, DELIMITER_SAMPLE_SIZE);
+    if (sample.length === 0) continue;
+
+    const fieldCount = sample[0].length;
+    if (fieldCount < 2) continue;
+
+    const consistentRecords = sample.filter(record => record.length === fieldCount).length;
+    if (
+      consistentRecords > best.consistentRecords ||
+      (consistentRecords === best.consistentRecords && fieldCount > best.fieldCount)
+    ) {
+      best = { delimiter, consistentRecords, fieldCount };
+    }
+  }
+
+  return best.delimiter;
+};
+
+/**
+ * Decode and parse a CSV file
+ */
+export const parseCsv = (buffer: Buffer): CsvParseResult => {
+  const { text, encoding } = decodeCsvBuffer(buffer);
+  const delimiter = detectDelimiter(text);
+
+  return {
+    encoding,
+    delimiter,
+    records: parseCsvRecords(text, delimiter),
+  };
+};
@@ -0,0 +1,36 @@
+import { StatusCodes } from 'http-status-codes';
+import { ApiError } from '../apiError';
+
+export type DocumentParseErrorCode = 'CORRUPT_FILE' | 'PASSWORD_PROTECTED' | 'UNSUPPORTED_FORMAT';
+
+/**
+ * A file that cannot be parsed because of its content (not a transient failure),
+ * so re-trying the ingestion will not help
+ */
+export class DocumentParseError extends ApiError {
+  code: DocumentParseErrorCode;
+
+  constructor(code: DocumentParseErrorCode, message: string) {
+    super(message, StatusCodes.UNPROCESSABLE_ENTITY);
+    this.name = 'DocumentParseError';
+    this.code = code;
+  }
+
+  static corrupt(fileType: string, reason?: string): DocumentParseError {
+    return new DocumentParseError(
+      'CORRUPT_FILE',
+      `The ${fileType} file is corrupt or not a valid ${fileType} file${reason ? ` (${reason})` : ''}`
+    );
+  }
+
+  static passwordProtected(fileType: string): DocumentParseError {
+    return new DocumentParseError(
+      'PASSWORD_PROTECTED',
+      `The ${fileType} file is password-protected; remove the password and upload it again`
+    );
+  }
+
+  static unsupported(fileType: string, reason: string): DocumentParseError {
+    return new DocumentParseError('UNSUPPORTED_FORMAT', `Unsupported ${fileType} file: ${reason}`);
+  }
+}
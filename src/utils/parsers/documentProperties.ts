@@ -0,0 +1,121 @@
+/**
+ * Document properties
+ * Normalizes the descriptive metadata that file formats keep next to the content (PDF Info
+ * dictionary, OOXML core properties, workbook properties, email headers) into one shape
+ */
+
+import JSZip from 'jszip';
+import { decodeEntities } from './htmlText';
+
+export type DocumentProperties = {
+  title?: string;
+  authors?: string[];
+  subject?: string;
+  keywords?: string[];
+  createdAt?: string; // ISO 8601
+  modifiedAt?: string; // ISO 8601
+};
+
+// Values as read from a file, before normalization
+export type RawDocumentProperties = {
+  title?: unknown;
+  authors?: unknown; // A single string may list several authors ("A; B")
+  subject?: unknown;
+  keywords?: unknown; // A single string may list several keywords ("a, b; c")
+  createdAt?: unknown; // Date, ISO 8601 or PDF date string
+  modifiedAt?: unknown;
+};
+
+const CORE_PROPERTIES_PATH = 'docProps/core.xml';
+
+// PDF date strings: D:YYYYMMDDHHmmSSOHH'mm' (everything after the year is optional)
+const PDF_DATE =
+  /^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(?:([Zz+-])(\d{2})?'?(\d{2})?'?)?/;
+
+const cleanText = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const text = value.replace(/\s+/g, ' ').trim();
+  return text || undefined;
+};
+
+const toList = (value: unknown, separator: RegExp): string[] | undefined => {
+  const items = (Array.isArray(value) ? value : [value])
+    .flatMap(item => (typeof item === 'string' ? item.split(separator) : []))
+    .map(cleanText)
+    .filter((item): item is string => Boolean(item));
+  const unique = items.filter(
+    (item, index) => items.findIndex(other => other.toLowerCase() === item.toLowerCase()) === index
+  );
+  return unique.length > 0 ? unique : undefined;
+};
+
+const parsePdfDate = (value: string): Date | undefined => {
+  const match = value.match(PDF_DATE);
+  if (!match) return undefined;
+
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00'] = match;
+  const [sign, offsetHours = '00', offsetMinutes = '00'] = match.slice(7);
+  const offset = sign === '+' || sign === '-' ? `${sign}${offsetHours}:${offsetMinutes}` : 'Z';
+  return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+};
+
+const toIsoDate = (value: unknown): string | undefined => {
+  let date: Date | undefined;
+  if (value instanceof Date) {
+    date = value;
+  } else if (typeof value === 'string' && value.trim()) {
+    date = value.startsWith('D:') ? parsePdfDate(value) : new Date(value.trim());
+  }
+  // Invalid dates, and the zero dates some writers use for "unset"
+  if (!date || Number.isNaN(date.getTime()) || date.getUTCFullYear() < 1980) return undefined;
+  return date.toISOString();
+};
+
+/**
+ * Normalize raw property values: trimmed text, author and keyword lists split and
+ * de-duplicated, dates as ISO 8601; empty values are left out
+ */
+export const normalizeProperties = (raw: RawDocumentProperties): DocumentProperties => {
+  const properties: DocumentProperties = {
+    title: cleanText(raw.title),
+    authors: toList(raw.authors, /\s*;\s*|\s+&\s+|\n/),
+    subject: cleanText(raw.subject),
+    keywords: toList(raw.keywords, /[;,\n]/),
+    createdAt: toIsoDate(raw.createdAt),
+    modifiedAt: toIsoDate(raw.modifiedAt),
+  };
+
+  return Object.fromEntries(
+    Object.entries(properties).filter(([, value]) => value !== undefined)
+  ) as DocumentProperties;
+};
+
+/**
+ * Read the core properties of an OOXML package (DOCX, XLSX, PPTX)
+ * Returns no properties when the package has none or cannot be read
+ */
+export const readOoxmlCoreProperties = async (buffer: Buffer): Promise<DocumentProperties> => {
+  let xml: string | undefined;
+  try {
+    const zip = await JSZip.loadAsync(buffer);
+    xml = await zip.file(CORE_PROPERTIES_PATH)?.async('string');
+  } catch {
+    return {};
+  }
+  if (!xml) return {};
+
+  const coreXml = xml;
+  const readElement = (name: string): string | undefined => {
+    const match = coreXml.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`));
+    return match ? decodeEntities(match[1]) : undefined;
+  };
+
+  return normalizeProperties({
+    title: readElement('dc:title'),
+    authors: readElement('dc:creator'),
+    subject: readElement('dc:subject'),
+    keywords: readElement('cp:keywords'),
+    createdAt: readElement('dcterms:created'),
+    modifiedAt: readElement('dcterms:modified'),
+  });
+};
@@ -0,0 +1,482 @@
+/**
+ * Email parsing
+ * Reads MIME messages (.eml, RFC 5322) and Outlook messages (.msg, [MS-OXMSG] compound files)
+ * into their headers, a plain-text body and their attached files
+ */
+
+import * as CFB from 'cfb';
+import { htmlToStructuredText } from './htmlText';
+import { DocumentParseError } from './documentParseError';
+
+export type EmailAttachment = {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+};
+
+export type EmailMessage = {
+  subject?: string;
+  from?: string;
+  to?: string;
+  cc?: string;
+  date?: string;
+  messageId?: string;
+  body: string;
+  attachments: EmailAttachment[];
+};
+
+type MimeHeaders = Map<string, string>;
+
+type HeaderValue = {
+  value: string;
+  params: Record<string, string>;
+};
+
+const DEFAULT_ATTACHMENT_TYPE = 'application/octet-stream';
+const MAX_MIME_DEPTH = 20; // Nested multiparts and forwarded messages
+
+// ============================================
+// MIME (.eml)
+// ============================================
+
+/**
+ * Decode bytes in a MIME charset, falling back to UTF-8 for unknown charsets
+ */
+const decodeCharset = (bytes: Buffer, charset = 'utf-8'): string => {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+/**
+ * Decode RFC 2047 encoded words (=?charset?B|Q?text?=) in a header value
+ * Raw 8-bit headers are read as UTF-8
+ */
+const decodeHeaderWords = (value: string): string =>
+  decodeCharset(Buffer.from(value, 'latin1'))
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1') // Whitespace between words
+    .replace(
+      /=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g,
+      (_match, charset: string, encoding: string, text: string) => {
+        const bytes =
+          encoding.toUpperCase() === 'B'
+            ? Buffer.from(text, 'base64')
+            : Buffer.from(
+                text
+                  .replace(/_/g, ' ')
+                  .replace(/=([0-9A-Fa-f]{2})/g, (_hex, code: string) =>
+                    String.fromCharCode(parseInt(code, 16))
+                  ),
+                'latin1'
+              );
+        return decodeCharset(bytes, charset);
+      }
+    );
+
+/**
+ * Parse a header block (unfolding continuation lines); the first occurrence of a header wins
+ */
+const parseHeaders = (block: string): MimeHeaders => {
+  const headers: MimeHeaders = new Map();
+
+  for (const line of block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    const name = line.slice(0, separator).trim().toLowerCase();
+    if (!headers.has(name)) {
+      headers.set(name, line.slice(separator + 1).trim());
+    }
+  }
+
+  return headers;
+};
+
+/**
+ * Parse a structured header such as Content-Type or Content-Disposition into its value
+ * and parameters (including RFC 2231 extended parameters like filename*=UTF-8''...)
+ */
+const parseHeaderValue = (header = ''): HeaderValue => {
+  const [value, ...rest] = header.split(';');
+  const params: Record<string, string> = {};
+  const extended: Record<string, string[]> = {};
+
+  for (const part of rest) {
+    const separator = part.indexOf('=');
+    if (separator <= 0) continue;
+
+    const name = part.slice(0, separator).trim().toLowerCase();
+    const raw = part
+      .slice(separator + 1)
+      .trim()
+      .replace(/^"([\s\S]*)"$/, '$1');
+
+    const extendedName = name.match(/^([^*]+)\*(?:(\d+)\*?)?$/);
+    if (extendedName) {
+      const values = (extended[extendedName[1]] = extended[extendedName[1]] ?? []);
+      values[Number(extendedName[2] ?? 0)] = raw;
+    } else {
+      params[name] = decodeHeaderWords(raw);
+    }
+  }
+
+  for (const [name, values] of Object.entries(extended)) {
+    const joined = values.join('');
+    const encoded = joined.match(/^([^']*)'[^']*'([\s\S]*)$/);
+    try {
+      params[name] = encoded
+        ? decodeCharset(
+            Buffer.from(
+              encoded[2].replace(/%([0-9A-Fa-f]{2})/g, (_hex, code: string) =>
+                String.fromCharCode(parseInt(code, 16))
+              ),
+              'latin1'
+            ),
+            encoded[1] || 'utf-8'
+          )
+        : joined;
+    } catch {
+      params[name] = joined;
+    }
+  }
+
+  return { value: value.trim().toLowerCase(), params };
+};
+
+/**
+ * Decode a part body according to its Content-Transfer-Encoding
+ */
+const decodeTransferEncoding = (body: string, encoding = ''): Buffer => {
+  switch (encoding.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return Buffer.from(
+        body
+          .replace(/=\r?\n/g, '')
+          .replace(/=([0-9A-Fa-f]{2})/g, (_hex, code: string) =>
+            String.fromCharCode(parseInt(code, 16))
+          ),
+        'latin1'
+      );
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+};
+
+/**
+ * Split a message (or body part) into its headers and body
+ */
+const splitMessage = (raw: string): { headers: MimeHeaders; body: string } => {
+  const match = raw.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) {
+    return { headers: parseHeaders(raw), body: '' };
+  }
+  return {
+    headers: parseHeaders(raw.slice(0, match.index)),
+    body: raw.slice(match.index + match[0].length),
+  };
+};
+
+/**
+ * Body parts of a multipart body (preamble and epilogue are dropped)
+ */
+const splitMultipart = (body: string, boundary: string): string[] => {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  const lines = body.split(/\r?\n/);
+  let current: string[] | null = null;
+
+  for (const line of lines) {
+    const trimmed = line.trimEnd();
+    if (trimmed === `${delimiter}--`) break;
+    if (trimmed === delimiter) {
+      if (current) parts.push(current.join('\n'));
+      current = [];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+  if (current) parts.push(current.join('\n'));
+
+  return parts;
+};
+
+type MimeContent = {
+  plain: string[];
+  html: string[];
+  attachments: EmailAttachment[];
+};
+
+/**
+ * Collect the text bodies and attachments of a MIME entity
+ * Of multipart/alternative, only the plain-text version is read (HTML when there is none);
+ * images embedded in the HTML body (signatures, logos) are ignored
+ */
+const walkMimeEntity = (
+  headers: MimeHeaders,
+  body: string,
+  content: MimeContent,
+  depth: number
+): void => {
+  const contentType = parseHeaderValue(headers.get('content-type') || 'text/plain');
+  const disposition = parseHeaderValue(headers.get('content-disposition'));
+  const fileName = disposition.params.filename || contentType.params.name;
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+    if (depth >= MAX_MIME_DEPTH) return;
+
+    const parts = splitMultipart(body, contentType.params.boundary).map(splitMessage);
+    if (contentType.value === 'multipart/alternative') {
+      const alternative = new Map<string, MimeContent>();
+      for (const part of parts) {
+        const partContent: MimeContent = { plain: [], html: [], attachments: [] };
+        walkMimeEntity(part.headers, part.body, partContent, depth + 1);
+        const kind =
+          partContent.plain.length > 0 ? 'plain' : partContent.html.length > 0 ? 'html' : null;
+        if (kind && !alternative.has(kind)) alternative.set(kind, partContent);
+      }
+      const chosen = alternative.get('plain') ?? alternative.get('html');
+      if (chosen) {
+        content.plain.push(...chosen.plain);
+        content.html.push(...chosen.html);
+        content.attachments.push(...chosen.attachments);
+      }
+      return;
+    }
+
+    for (const part of parts) {
+      walkMimeEntity(part.headers, part.body, content, depth + 1);
+    }
+    return;
+  }
+
+  const data = decodeTransferEncoding(body, headers.get('content-transfer-encoding'));
+  const isInlineImage =
+    contentType.value.startsWith('image/') &&
+    disposition.value !== 'attachment' &&
+    headers.has('content-id');
+  if (isInlineImage) return;
+
+  const isAttachment = disposition.value === 'attachment' || Boolean(fileName);
+
+  if (contentType.value === 'message/rfc822') {
+    const forwarded = splitMessage(data.toString('latin1'));
+    const subject = forwarded.headers.get('subject');
+    content.attachments.push({
+      fileName: fileName || `${subject ? decodeHeaderWords(subject) : 'message'}.eml`,
+      contentType: 'message/rfc822',
+      content: data,
+    });
+    return;
+  }
+
+  if (isAttachment) {
+    content.attachments.push({
+      fileName: fileName || 'attachment',
+      contentType: contentType.value || DEFAULT_ATTACHMENT_TYPE,
+      content: data,
+    });
+    return;
+  }
+
+  if (contentType.value === 'text/plain' || contentType.value === 'text/html') {
+    const text = decodeCharset(data, contentType.params.charset);
+    (contentType.value === 'text/html' ? content.html : content.plain).push(text);
+  }
+};
+
+/**
+ * Read the text of a formatted header (decoded encoded words, collapsed whitespace)
+ */
+const readHeader = (headers: MimeHeaders, name: string): string | undefined => {
+  const value = headers.get(name);
+  return value ? decodeHeaderWords(value).replace(/\s+/g, ' ').trim() || undefined : undefined;
+};
+
+/**
+ * Parse a MIME message (.eml)
+ */
+export const parseEml = (buffer: Buffer): EmailMessage => {
+  const { headers, body } = splitMessage(buffer.toString('latin1'));
+  if (!headers.has('from') && !headers.has('subject') && !headers.has('content-type')) {
+    throw DocumentParseError.corrupt('EMAIL', 'no message headers found');
+  }
+
+  const content: MimeContent = { plain: [], html: [], attachments: [] };
+  walkMimeEntity(headers, body, content, 0);
+
+  const bodies =
+    content.plain.length > 0 ? content.plain : content.html.map(html => htmlToStructuredText(html));
+
+  return {
+    subject: readHeader(headers, 'subject'),
+    from: readHeader(headers, 'from'),
+    to: readHeader(headers, 'to'),
+    cc: readHeader(headers, 'cc'),
+    date: readHeader(headers, 'date'),
+    messageId: readHeader(headers, 'message-id'),
+    body: bodies
+      .map(text => text.trim())
+      .filter(text => text)
+      .join('\n\n'),
+    attachments: content.attachments,
+  };
+};
+
+// ============================================
+// Outlook (.msg)
+// ============================================
+
+// Property IDs ([MS-OXPROPS]) stored as __substg1.0_<id><type> streams
+const PROP_SUBJECT = '0037';
+const PROP_SENDER_NAME = '0C1A';
+const PROP_SENDER_EMAIL = '0C1F';
+const PROP_DISPLAY_TO = '0E04';
+const PROP_DISPLAY_CC = '0E03';
+const PROP_BODY = '1000';
+const PROP_BODY_HTML = '1013';
+const PROP_TRANSPORT_HEADERS = '007D';
+const PROP_INTERNET_MESSAGE_ID = '1035';
+const PROP_ATTACH_DATA = '3701';
+const PROP_ATTACH_LONG_FILENAME = '3707';
+const PROP_ATTACH_FILENAME = '3704';
+const PROP_ATTACH_MIME_TAG = '370E';
+
+// Property types
+const PT_UNICODE = '001F';
+const PT_STRING8 = '001E';
+const PT_BINARY = '0102';
+
+// Fixed-size properties (dates) of the top-level message: 32-byte header, then 16-byte entries
+const PROPERTIES_STREAM = '__properties_version1.0';
+const MESSAGE_PROPERTIES_HEADER_SIZE = 32;
+const PT_SYSTIME = 0x0040;
+const PROP_CLIENT_SUBMIT_TIME = 0x0039;
+const PROP_MESSAGE_DELIVERY_TIME = 0x0e06;
+const FILETIME_EPOCH_OFFSET = 11644473600000; // Milliseconds from 1601-01-01 to 1970-01-01
+
+const ATTACHMENT_STORAGE = /^__attach_version1\.0_#[0-9A-F]{8}$/i;
+
+type MsgStorage = Map<string, Buffer>; // Stream name -> content
+
+/**
+ * Group the streams of a compound file by storage path ("" is the root storage)
+ */
+const readStorages = (container: CFB.CFB$Container): Map<string, MsgStorage> => {
+  const storages = new Map<string, MsgStorage>();
+
+  container.FullPaths.forEach((fullPath, index) => {
+    const entry = container.FileIndex[index];
+    if (entry.type !== 2 || !entry.content) return; // Streams only
+
+    const segments = fullPath.split('/').slice(1); // Drop "Root Entry"
+    const name = segments.pop()!;
+    const storagePath = segments.join('/');
+    const storage = storages.get(storagePath) ?? new Map<string, Buffer>();
+    storage.set(name, Buffer.from(entry.content as Uint8Array));
+    storages.set(storagePath, storage);
+  });
+
+  return storages;
+};
+
+const readMsgString = (storage: MsgStorage | undefined, propertyId: string): string | undefined => {
+  const unicode = storage?.get(`__substg1.0_${propertyId}${PT_UNICODE}`);
+  if (unicode) return unicode.toString('utf16le').replace(/\0+$/, '').trim() || undefined;
+
+  const ansi = storage?.get(`__substg1.0_${propertyId}${PT_STRING8}`);
+  if (ansi) return decodeCharset(ansi, 'windows-1252').replace(/\0+$/, '').trim() || undefined;
+
+  return undefined;
+};
+
+/**
+ * Read a date property from the fixed-size property stream of the message
+ */
+const readMsgDate = (properties: Buffer | undefined, propertyIds: number[]): string | undefined => {
+  if (!properties) return undefined;
+
+  for (const propertyId of propertyIds) {
+    for (
+      let offset = MESSAGE_PROPERTIES_HEADER_SIZE;
+      offset + 16 <= properties.length;
+      offset += 16
+    ) {
+      const tag = properties.readUInt32LE(offset);
+      if (tag >>> 16 !== propertyId || (tag & 0xffff) !== PT_SYSTIME) continue;
+
+      const fileTime =
+        properties.readUInt32LE(offset + 12) * 2 ** 32 + properties.readUInt32LE(offset + 8);
+      return new Date(fileTime / 10000 - FILETIME_EPOCH_OFFSET).toUTCString();
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Parse an Outlook message (.msg)
+ * Embedded messages (an attached .msg stored as a sub-storage) are not extracted
+ */
+export const parseMsg = (buffer: Buffer): EmailMessage => {
+  let container: CFB.CFB$Container;
+  try {
+    container = CFB.read(buffer, { type: 'buffer' });
+  } catch {
+    throw DocumentParseError.corrupt('EMAIL', 'not a compound file');
+  }
+
+  const storages = readStorages(container);
+  const message = storages.get('');
+  if (!message || !Array.from(message.keys()).some(name => name.startsWith('__substg1.0_'))) {
+    throw DocumentParseError.corrupt('EMAIL', 'no Outlook message properties found');
+  }
+
+  const transportHeaders = parseHeaders(readMsgString(message, PROP_TRANSPORT_HEADERS) ?? '');
+  const senderName = readMsgString(message, PROP_SENDER_NAME);
+  const senderEmail = readMsgString(message, PROP_SENDER_EMAIL);
+  const htmlBody = message.get(`__substg1.0_${PROP_BODY_HTML}${PT_BINARY}`);
+
+  const attachments: EmailAttachment[] = [];
+  storages.forEach((storage, storagePath) => {
+    if (!ATTACHMENT_STORAGE.test(storagePath)) return;
+
+    const data = storage.get(`__substg1.0_${PROP_ATTACH_DATA}${PT_BINARY}`);
+    if (!data) return; // Embedded message or OLE object
+
+    attachments.push({
+      fileName:
+        readMsgString(storage, PROP_ATTACH_LONG_FILENAME) ??
+        readMsgString(storage, PROP_ATTACH_FILENAME) ??
+        'attachment',
+      contentType: readMsgString(storage, PROP_ATTACH_MIME_TAG) ?? DEFAULT_ATTACHMENT_TYPE,
+      content: data,
+    });
+  });
+
+  return {
+    subject: readMsgString(message, PROP_SUBJECT),
+    from:
+      senderName && senderEmail && senderName !== senderEmail
+        ? `${senderName} <${senderEmail}>`
+        : (senderName ?? senderEmail),
+    to: readMsgString(message, PROP_DISPLAY_TO),
+    cc: readMsgString(message, PROP_DISPLAY_CC),
+    date:
+      readHeader(transportHeaders, 'date') ??
+      readMsgDate(message.get(PROPERTIES_STREAM), [
+        PROP_CLIENT_SUBMIT_TIME,
+        PROP_MESSAGE_DELIVERY_TIME,
+      ]),
+    messageId:
+      readMsgString(message, PROP_INTERNET_MESSAGE_ID) ??
+      readHeader(transportHeaders, 'message-id'),
+    body:
+      readMsgString(message, PROP_BODY) ??
+      (htmlBody ? htmlToStructuredText(decodeCharset(htmlBody)) : ''),
+    attachments,
+  };
+};
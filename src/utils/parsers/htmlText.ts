@@ -0,0 +1,129 @@
+/**
+ * HTML to text conversion
+ * Keeps document structure as plain-text markers: headings become Markdown-style
+ * "#" lines, list items become "- " lines and table cells are joined with " | "
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  copy: '©',
+  reg: '®',
+  euro: '€',
+};
+
+// Numeric references to code points that are not characters decode to U+FFFD, as in HTML
+const fromCodePoint = (codePoint: number): string =>
+  Number.isNaN(codePoint) || codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff)
+    ? '\ufffd'
+    : String.fromCodePoint(codePoint);
+
+/**
+ * Decode XML/HTML character references and common named entities
+ */
+export const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) {
+      return fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+
+const stripTags = (html: string): string => html.replace(/<[^>]*>/g, '');
+
+const inlineText = (html: string): string =>
+  decodeEntities(stripTags(html)).replace(/\s+/g, ' ').trim();
+
+/**
+ * Convert HTML into structured plain text
+ */
+export const htmlToStructuredText = (html: string): string => {
+  const text = html
+    .replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_match, level: string, content: string) => {
+      const title = inlineText(content);
+      return title ? `\n\n${'#'.repeat(Number(level))} ${title}\n\n` : '\n\n';
+    })
+    .replace(/<\/t[dh]>\s*<t[dh]\b[^>]*>/gi, ' | ')
+    .replace(/<tr\b[^>]*>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(
+      /<\/?(p|div|table|thead|tbody|ul|ol|blockquote|pre|section|article)\b[^>]*>/gi,
+      '\n\n'
+    );
+
+  return decodeEntities(stripTags(text))
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+export type HtmlPage = {
+  title?: string;
+  description?: string;
+  html: string; // Main content, without page boilerplate
+};
+
+// Page chrome that repeats across a site and is not part of the content; headers and footers
+// inside the main content (e.g. an article's byline) are kept
+const PAGE_CHROME = /<(header|footer)\b[\s\S]*?<\/\1>/gi;
+const BOILERPLATE_ELEMENTS = /<(nav|aside|form|button|svg|iframe)\b[\s\S]*?<\/\1>/gi;
+const BOILERPLATE_ROLES =
+  /<(div|section|ul)\b[^>]*\brole=["']?(navigation|banner|contentinfo|complementary|search)\b[\s\S]*?<\/\1>/gi;
+
+const readMetaContent = (head: string, name: string): string | undefined => {
+  const tag = head.match(
+    new RegExp(`<meta\\b[^>]*\\b(?:name|property)=["']${name}["'][^>]*>`, 'i')
+  )?.[0];
+  const content = tag?.match(/\bcontent=(["'])([\s\S]*?)\1/i)?.[2];
+  return content ? inlineText(content) || undefined : undefined;
+};
+
+/**
+ * Separate a web page's content from its boilerplate
+ * Navigation, sidebars and forms are removed; when the page marks its content with <main>
+ * (or a single <article>) only that element is kept, otherwise page headers and footers go too
+ */
+export const extractHtmlPage = (html: string): HtmlPage => {
+  const head = html.match(/<head\b[^>]*>([\s\S]*?)<\/head>/i)?.[1] ?? '';
+  const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+  let body = html
+    .replace(/<head\b[^>]*>[\s\S]*?<\/head>/i, '')
+    .replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '');
+
+  const main = body.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i)?.[1];
+  const articles = body.match(/<article\b[^>]*>[\s\S]*?<\/article>/gi) ?? [];
+  if (main) {
+    body = main;
+  } else if (articles.length === 1) {
+    body = articles[0];
+  } else {
+    body = body.replace(PAGE_CHROME, '');
+  }
+
+  return {
+    title: title ? inlineText(title) || undefined : undefined,
+    description: readMetaContent(head, 'description') ?? readMetaContent(head, 'og:description'),
+    html: body.replace(BOILERPLATE_ROLES, '').replace(BOILERPLATE_ELEMENTS, ''),
+  };
+};
@@ -0,0 +1,95 @@
+/**
+ * JSON and JSON Lines parsing
+ * Flattens values into "path: value" lines so that keys stay next to their values in chunks;
+ * each record (JSON Lines entry, top-level array item or top-level key) becomes a paragraph
+ */
+
+import { DocumentParseError } from './documentParseError';
+
+export type JsonContent = {
+  text: string;
+  format: 'json' | 'jsonl';
+  recordCount: number;
+};
+
+/**
+ * Flatten a JSON value into "path: value" lines
+ * Arrays of scalars are written on one line; nested objects and arrays extend the path;
+ * null values are left out
+ */
+const flattenJson = (value: unknown, path: string, lines: string[]): void => {
+  if (value === null) return;
+  if (typeof value !== 'object') {
+    const text = String(value).trim();
+    if (text) lines.push(path ? `${path}: ${text}` : text);
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    if (value.every(item => item === null || typeof item !== 'object')) {
+      const items = value
+        .filter(item => item !== null)
+        .map(item => String(item).trim())
+        .filter(item => item);
+      if (items.length > 0) lines.push(path ? `${path}: ${items.join(', ')}` : items.join(', '));
+      return;
+    }
+    value.forEach((item, index) => flattenJson(item, `${path}[${index}]`, lines));
+    return;
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    flattenJson(item, path ? `${path}.${key}` : key, lines);
+  }
+};
+
+const renderRecord = (value: unknown, path = ''): string => {
+  const lines: string[] = [];
+  flattenJson(value, path, lines);
+  return lines.join('\n');
+};
+
+/**
+ * Split a parsed JSON document into records
+ */
+const toRecords = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.map(item => renderRecord(item));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value).map(([key, item]) => renderRecord(item, key));
+  }
+  return [renderRecord(value)];
+};
+
+/**
+ * Parse a JSON document, or a JSON Lines file when the content is not a single JSON value
+ */
+export const parseJsonDocument = (content: string): JsonContent => {
+  const source = content.replace(/^\ufeff/, '');
+
+  let records: string[];
+  let format: JsonContent['format'] = 'json';
+  try {
+    records = toRecords(JSON.parse(source));
+  } catch (jsonError) {
+    const lines = source.split(/\r?\n/).filter(line => line.trim());
+    if (lines.length === 0) {
+      throw DocumentParseError.corrupt('JSON', 'empty file');
+    }
+    try {
+      records = lines.map(line => renderRecord(JSON.parse(line)));
+      format = 'jsonl';
+    } catch {
+      const reason = jsonError instanceof Error ? jsonError.message : 'invalid JSON';
+      throw DocumentParseError.corrupt('JSON', reason);
+    }
+  }
+
+  const nonEmpty = records.filter(record => record);
+  return {
+    text: nonEmpty.join('\n\n'),
+    format,
+    recordCount: nonEmpty.length,
+  };
+};
@@ -0,0 +1,153 @@
+/**
+ * OCR (optical character recognition)
+ * Runs Tesseract locally (WebAssembly build, no external service) on page images:
+ * scanned PDF pages rendered to PNG and uploaded PNG/JPEG/TIFF images
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createWorker } from 'tesseract.js';
+import * as UTIF from 'utif2';
+import { createCanvas, ImageData } from '@napi-rs/canvas';
+import { env } from '../../config/env';
+import { logger } from '../logger';
+
+export type OcrImage = {
+  pageNumber: number;
+  image: Buffer; // PNG, JPEG, BMP or WebP
+};
+
+export type OcrPage = {
+  pageNumber: number;
+  text: string;
+  confidence: number; // Mean word confidence, 0-100
+};
+
+// ISO 639-1 codes (workspace ingestion languages) to Tesseract traineddata names
+const TESSERACT_LANGUAGES: Record<string, string> = {
+  ar: 'ara',
+  bg: 'bul',
+  cs: 'ces',
+  da: 'dan',
+  de: 'deu',
+  el: 'ell',
+  en: 'eng',
+  es: 'spa',
+  fi: 'fin',
+  fr: 'fra',
+  he: 'heb',
+  hi: 'hin',
+  hu: 'hun',
+  id: 'ind',
+  it: 'ita',
+  ja: 'jpn',
+  ko: 'kor',
+  nl: 'nld',
+  no: 'nor',
+  pl: 'pol',
+  pt: 'por',
+  ro: 'ron',
+  ru: 'rus',
+  sk: 'slk',
+  sv: 'swe',
+  th: 'tha',
+  tr: 'tur',
+  uk: 'ukr',
+  vi: 'vie',
+  zh: 'chi_sim',
+};
+
+const DEFAULT_TESSERACT_LANGUAGE = 'eng';
+
+/**
+ * Map ISO 639-1 codes to Tesseract languages (unsupported codes are skipped)
+ */
+export const toTesseractLanguages = (languages: string[] = []): string[] => {
+  const mapped = languages
+    .map(language => TESSERACT_LANGUAGES[language])
+    .filter((language): language is string => Boolean(language));
+  return mapped.length > 0 ? Array.from(new Set(mapped)) : [DEFAULT_TESSERACT_LANGUAGE];
+};
+
+/**
+ * Whether a buffer holds a TIFF image (little- or big-endian byte order mark)
+ */
+export const isTiff = (buffer: Buffer): boolean =>
+  buffer.length > 4 &&
+  ((buffer[0] === 0x49 && buffer[1] === 0x49 && buffer[2] === 0x2a && buffer[3] === 0x00) ||
+    (buffer[0] === 0x4d && buffer[1] === 0x4d && buffer[2] === 0x00 && buffer[3] === 0x2a));
+
+/**
+ * Split a (multi-page) TIFF into one PNG per page
+ * Tesseract's WebAssembly build cannot read TIFF directly
+ */
+export const tiffToPngPages = (buffer: Buffer): Buffer[] => {
+  const pages: Buffer[] = [];
+
+  for (const ifd of UTIF.decode(buffer)) {
+    UTIF.decodeImage(buffer, ifd);
+    if (!ifd.width || !ifd.height) continue; // Directories without image data (e.g. EXIF)
+
+    const canvas = createCanvas(ifd.width, ifd.height);
+    const rgba = new Uint8ClampedArray(UTIF.toRGBA8(ifd));
+    canvas.getContext('2d').putImageData(new ImageData(rgba, ifd.width, ifd.height), 0, 0);
+    pages.push(canvas.toBuffer('image/png'));
+  }
+
+  return pages;
+};
+
+/**
+ * Recognize the text of page images
+ * A single Tesseract worker handles all pages and is terminated afterwards
+ */
+export const recognizeImages = async (
+  images: OcrImage[],
+  languages?: string[]
+): Promise<OcrPage[]> => {
+  if (images.length === 0) return [];
+
+  const tesseractLanguages = toTesseractLanguages(languages);
+  if (env.OCR_LANG_PATH) {
+    const missing = tesseractLanguages.filter(
+      language => !fs.existsSync(path.join(env.OCR_LANG_PATH, `${language}.traineddata`))
+    );
+    if (missing.length > 0) {
+      throw new Error(`OCR language data not found in ${env.OCR_LANG_PATH}: ${missing.join(', ')}`);
+    }
+  }
+
+  // tesseract.js reports startup failures (e.g. language data that cannot be loaded) only
+  // through errorHandler and leaves createWorker pending; without a handler it throws them
+  // from its message listener, crashing the process
+  let reportError: (error: unknown) => void = () => {};
+  const startupError = new Promise<never>((_, reject) => {
+    reportError = error => reject(new Error(`OCR engine failed to start: ${error}`));
+  });
+  const worker = await Promise.race([
+    createWorker(tesseractLanguages, undefined, {
+      errorHandler: error => {
+        logger.debug('Tesseract worker error', { error });
+        reportError(error);
+      },
+      ...(env.OCR_LANG_PATH && { langPath: env.OCR_LANG_PATH, gzip: false }),
+      ...(env.OCR_CACHE_PATH && { cachePath: env.OCR_CACHE_PATH }),
+    }),
+    startupError,
+  ]);
+
+  try {
+    const pages: OcrPage[] = [];
+    for (const { pageNumber, image } of images) {
+      const { data } = await worker.recognize(image);
+      pages.push({
+        pageNumber,
+        text: data.text.trim(),
+        confidence: Math.round(data.confidence),
+      });
+    }
+    return pages;
+  } finally {
+    await worker.terminate();
+  }
+};
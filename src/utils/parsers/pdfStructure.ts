@@ -0,0 +1,167 @@
+/**
+ * PDF structure detection
+ * PDFs carry no heading markup, so headings are inferred from font sizes:
+ * short lines set noticeably larger than the body text are treated as headings,
+ * and distinct heading sizes map to heading levels (largest = level 1)
+ */
+
+export type PdfHeading = {
+  level: number;
+  text: string;
+};
+
+type PdfLine = {
+  pageNumber: number;
+  text: string;
+  fontSize: number;
+};
+
+type PdfTextItem = {
+  str: string;
+  transform: number[];
+  height: number;
+  hasEOL?: boolean;
+};
+
+const HEADING_SIZE_RATIO = 1.15; // Minimum font size relative to body text
+const MAX_HEADING_LENGTH = 120;
+const MAX_HEADING_WORDS = 20;
+const MAX_HEADING_SHARE = 0.4; // Above this share of the text, font sizes carry no structure
+const MAX_HEADING_LEVEL = 6;
+
+const collapseWhitespace = (value: string): string => value.replace(/\s+/g, ' ').trim();
+
+// Round to half points so sizes jittering between runs compare equal
+const roundSize = (size: number): number => Math.round(size * 2) / 2;
+
+/**
+ * Read text lines with their (largest) font size from every page
+ */
+const extractLines = async (buffer: Buffer): Promise<PdfLine[]> => {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const document = await pdfjs.getDocument({ data: new Uint8Array(buffer), verbosity: 0 }).promise;
+  const lines: PdfLine[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      let text = '';
+      let fontSize = 0;
+      let lastY: number | null = null;
+
+      const pushLine = () => {
+        const lineText = collapseWhitespace(text);
+        if (lineText) {
+          lines.push({ pageNumber, text: lineText, fontSize: roundSize(fontSize) });
+        }
+        text = '';
+        fontSize = 0;
+      };
+
+      for (const item of content.items as PdfTextItem[]) {
+        if (item.str === undefined) continue;
+
+        const y = item.transform[5];
+        if (lastY !== null && Math.abs(y - lastY) > 1 && text) {
+          pushLine();
+        }
+        lastY = y;
+
+        text += item.str;
+        if (item.str.trim()) {
+          const size = Math.hypot(item.transform[2], item.transform[3]) || item.height;
+          fontSize = Math.max(fontSize, size);
+        }
+
+        if (item.hasEOL) {
+          pushLine();
+        }
+      }
+      pushLine();
+      page.cleanup();
+    }
+  } finally {
+    await document.destroy();
+  }
+
+  return lines;
+};
+
+/**
+ * Body text size: the font size covering the most characters
+ */
+const findBodySize = (lines: PdfLine[]): number => {
+  const charsBySize = new Map<number, number>();
+  for (const line of lines) {
+    charsBySize.set(line.fontSize, (charsBySize.get(line.fontSize) || 0) + line.text.length);
+  }
+
+  let bodySize = 0;
+  let maxChars = 0;
+  charsBySize.forEach((chars, size) => {
+    if (chars > maxChars) {
+      maxChars = chars;
+      bodySize = size;
+    }
+  });
+  return bodySize;
+};
+
+const isHeadingCandidate = (line: PdfLine, bodySize: number): boolean =>
+  line.fontSize >= bodySize * HEADING_SIZE_RATIO &&
+  line.text.length <= MAX_HEADING_LENGTH &&
+  line.text.split(' ').length <= MAX_HEADING_WORDS &&
+  /[^\W\d_]/.test(line.text) &&
+  !/[.,;]$/.test(line.text);
+
+/**
+ * Detect headings per page (keyed by 1-based page number), in reading order
+ */
+export const detectPdfHeadings = async (buffer: Buffer): Promise<Map<number, PdfHeading[]>> => {
+  const headingsByPage = new Map<number, PdfHeading[]>();
+  const lines = await extractLines(buffer);
+  if (lines.length === 0) return headingsByPage;
+
+  const bodySize = findBodySize(lines);
+  const candidates = lines.filter(line => isHeadingCandidate(line, bodySize));
+  const countChars = (subset: PdfLine[]) =>
+    subset.reduce((count, line) => count + line.text.length, 0);
+  if (candidates.length === 0 || countChars(candidates) > countChars(lines) * MAX_HEADING_SHARE) {
+    return headingsByPage;
+  }
+
+  const headingSizes = Array.from(new Set(candidates.map(line => line.fontSize))).sort(
+    (a, b) => b - a
+  );
+
+  for (const line of candidates) {
+    const level = Math.min(headingSizes.indexOf(line.fontSize) + 1, MAX_HEADING_LEVEL);
+    const pageHeadings = headingsByPage.get(line.pageNumber) || [];
+    pageHeadings.push({ level, text: line.text });
+    headingsByPage.set(line.pageNumber, pageHeadings);
+  }
+
+  return headingsByPage;
+};
+
+/**
+ * Prefix detected heading lines of a page's text with Markdown-style "#" markers
+ * Headings are matched in order, so body lines repeating a heading's wording stay untouched
+ */
+export const markHeadings = (pageText: string, headings: PdfHeading[] = []): string => {
+  if (headings.length === 0) return pageText;
+
+  let next = 0;
+  return pageText
+    .split('\n')
+    .map(line => {
+      const lineText = collapseWhitespace(line);
+      const index = headings.findIndex((heading, i) => i >= next && heading.text === lineText);
+      if (index === -1) return line;
+
+      next = index + 1;
+      return `${'#'.repeat(headings[index].level)} ${headings[index].text}`;
+    })
+    .join('\n');
+};
@@ -0,0 +1,268 @@
+/**
+ * Presentation parsing utilities
+ * Extracts slide text, tables and speaker notes from PowerPoint files:
+ * - PPTX (Office Open XML) via jszip
+ * - PPT (PowerPoint 97-2003 binary) via cfb
+ */
+
+import path from 'path';
+import JSZip from 'jszip';
+import * as CFB from 'cfb';
+import { DocumentParseError } from './documentParseError';
+import { decodeEntities } from './htmlText';
+
+export type SlideContent = {
+  slideNumber: number;
+  paragraphs: string[];
+  tables: string[][][]; // tables -> rows -> cells
+  notes: string[];
+};
+
+// Placeholders that only carry layout chrome (slide numbers, dates, footers)
+const SKIPPED_PLACEHOLDERS = ['sldNum', 'dt', 'ftr', 'hdr', 'sldImg'];
+
+/**
+ * Extract DrawingML paragraphs (<a:p>) as plain text lines
+ */
+const extractParagraphs = (xml: string): string[] =>
+  Array.from(xml.matchAll(/<a:p(?:\s[^>]*)?>([\s\S]*?)<\/a:p>/g))
+    .map(paragraph =>
+      Array.from(paragraph[1].matchAll(/<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>|<a:br\s*\/>/g))
+        .map(run => (run[1] !== undefined ? decodeEntities(run[1]) : '\n'))
+        .join('')
+        .trim()
+    )
+    .filter(text => text.length > 0);
+
+/**
+ * Extract a DrawingML table (<a:tbl>) as rows of cell text, skipping merged continuation cells
+ */
+const extractTable = (tableXml: string): string[][] =>
+  Array.from(tableXml.matchAll(/<a:tr[\s>][\s\S]*?<\/a:tr>/g))
+    .map(row =>
+      Array.from(row[0].matchAll(/<a:tc(\s[^>]*)?>([\s\S]*?)<\/a:tc>/g))
+        .filter(cell => !/\b[hv]Merge="(1|true)"/.test(cell[1] || ''))
+        .map(cell => extractParagraphs(cell[2]).join(' '))
+    )
+    .filter(cells => cells.some(cell => cell.length > 0));
+
+/**
+ * Extract text shapes and tables from a slide (or notes slide) in document order
+ */
+const extractShapes = (xml: string): { paragraphs: string[]; tables: string[][][] } => {
+  const paragraphs: string[] = [];
+  const tables: string[][][] = [];
+
+  for (const match of xml.matchAll(
+    /<p:sp(?:\s[^>]*)?>[\s\S]*?<\/p:sp>|<a:tbl(?:\s[^>]*)?>[\s\S]*?<\/a:tbl>/g
+  )) {
+    const element = match[0];
+
+    if (element.startsWith('<a:tbl')) {
+      const table = extractTable(element);
+      if (table.length > 0) {
+        tables.push(table);
+      }
+      continue;
+    }
+
+    const placeholder = /<p:ph\b[^>]*\btype="([^"]+)"/.exec(element);
+    if (placeholder && SKIPPED_PLACEHOLDERS.includes(placeholder[1])) {
+      continue;
+    }
+
+    paragraphs.push(...extractParagraphs(element));
+  }
+
+  return { paragraphs, tables };
+};
+
+/**
+ * Parse an OPC relationships part into an Id -> Target map, keeping only the given type suffix
+ */
+const parseRelationships = (xml: string, typeSuffix: string): Map<string, string> => {
+  const relationships = new Map<string, string>();
+
+  for (const match of xml.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    const attributes = match[1];
+    const id = /\bId="([^"]+)"/.exec(attributes)?.[1];
+    const type = /\bType="([^"]+)"/.exec(attributes)?.[1];
+    const target = /\bTarget="([^"]+)"/.exec(attributes)?.[1];
+
+    if (id && target && type?.endsWith(typeSuffix)) {
+      relationships.set(id, target);
+    }
+  }
+
+  return relationships;
+};
+
+const resolvePartPath = (baseDir: string, target: string): string =>
+  target.startsWith('/') ? target.slice(1) : path.posix.normalize(path.posix.join(baseDir, target));
+
+/**
+ * Resolve slide part paths in presentation order
+ * Falls back to numeric file order when presentation.xml cannot be resolved
+ */
+const getOrderedSlidePaths = async (zip: JSZip): Promise<string[]> => {
+  const presentationXml = await zip.file('ppt/presentation.xml')?.async('string');
+  const relsXml = await zip.file('ppt/_rels/presentation.xml.rels')?.async('string');
+
+  if (presentationXml && relsXml) {
+    const relationships = parseRelationships(relsXml, '/slide');
+    const orderedPaths = Array.from(presentationXml.matchAll(/<p:sldId\b[^>]*\br:id="([^"]+)"/g))
+      .map(match => relationships.get(match[1]))
+      .filter((target): target is string => !!target)
+      .map(target => resolvePartPath('ppt', target))
+      .filter(partPath => zip.file(partPath) !== null);
+
+    if (orderedPaths.length > 0) {
+      return orderedPaths;
+    }
+  }
+
+  const slideNumber = (partPath: string) => parseInt(/slide(\d+)\.xml$/.exec(partPath)![1], 10);
+  return Object.keys(zip.files)
+    .filter(partPath => /^ppt\/slides\/slide\d+\.xml$/.test(partPath))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+};
+
+/**
+ * Extract slides from a PPTX (Office Open XML) presentation
+ */
+export const extractPptxSlides = async (buffer: Buffer): Promise<SlideContent[]> => {
+  const zip = await JSZip.loadAsync(buffer);
+  const slidePaths = await getOrderedSlidePaths(zip);
+  const slides: SlideContent[] = [];
+
+  for (let i = 0; i < slidePaths.length; i++) {
+    const slidePath = slidePaths[i];
+    const slideXml = (await zip.file(slidePath)?.async('string')) || '';
+    const { paragraphs, tables } = extractShapes(slideXml);
+
+    // Speaker notes are linked through the slide's relationships part
+    let notes: string[] = [];
+    const relsPath = `${path.posix.dirname(slidePath)}/_rels/${path.posix.basename(slidePath)}.rels`;
+    const relsXml = await zip.file(relsPath)?.async('string');
+    if (relsXml) {
+      const [notesTarget] = Array.from(parseRelationships(relsXml, '/notesSlide').values());
+      if (notesTarget) {
+        const notesXml = await zip
+          .file(resolvePartPath(path.posix.dirname(slidePath), notesTarget))
+          ?.async('string');
+        if (notesXml) {
+          notes = extractShapes(notesXml).paragraphs;
+        }
+      }
+    }
+
+    slides.push({ slideNumber: i + 1, paragraphs, tables, notes });
+  }
+
+  return slides;
+};
+
+// PowerPoint binary record types ([MS-PPT] 2.13.24)
+const RT_SLIDE = 0x03ee;
+const RT_NOTES = 0x03f0;
+const RT_MAIN_MASTER = 0x03f8;
+const RT_SLIDE_PERSIST_ATOM = 0x03f3;
+const RT_SLIDE_LIST_WITH_TEXT = 0x0ff0;
+const RT_TEXT_CHARS_ATOM = 0x0fa0;
+const RT_TEXT_BYTES_ATOM = 0x0fa8;
+const RT_CRYPT_SESSION_CONTAINER = 0x2f14; // Present when the presentation is encrypted
+
+const decodePptText = (text: string): string[] =>
+  text
+    .split(String.fromCharCode(0x0b)) // Vertical tab is a soft line break
+    .join('\n')
+    .split('\r') // Carriage return separates paragraphs
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph.length > 0);
+
+/**
+ * Extract slides from a legacy PPT (PowerPoint 97-2003) presentation
+ * Slide text is read from the SlideListWithText record (outline text); when a file keeps
+ * its text only inside slide drawings, the slide containers are used instead.
+ * Notes are attached to slides in stream order (best effort).
+ */
+export const extractPptSlides = (buffer: Buffer): SlideContent[] => {
+  const container = CFB.read(buffer, { type: 'buffer' });
+  if (CFB.find(container, 'EncryptedSummary')) {
+    throw DocumentParseError.passwordProtected('PPT');
+  }
+  const entry = CFB.find(container, 'PowerPoint Document');
+  if (!entry || !entry.content || entry.content.length === 0) {
+    throw DocumentParseError.corrupt('PPT', 'PowerPoint Document stream not found');
+  }
+
+  const stream = Buffer.from(entry.content as Uint8Array);
+  const outlineSlides: string[][] = [];
+  const drawingSlides: string[][] = [];
+  const notesPages: string[][] = [];
+
+  const walk = (
+    start: number,
+    end: number,
+    context: { outline: boolean; target: string[] | null }
+  ): void => {
+    let offset = start;
+
+    while (offset + 8 <= end) {
+      const verAndInstance = stream.readUInt16LE(offset);
+      const recType = stream.readUInt16LE(offset + 2);
+      const recLen = stream.readUInt32LE(offset + 4);
+      const bodyStart = offset + 8;
+      const bodyEnd = Math.min(bodyStart + recLen, end);
+      const isContainer = (verAndInstance & 0x0f) === 0x0f;
+      const instance = verAndInstance >> 4;
+
+      if (recType === RT_CRYPT_SESSION_CONTAINER) {
+        throw DocumentParseError.passwordProtected('PPT');
+      }
+
+      if (isContainer) {
+        if (recType === RT_MAIN_MASTER) {
+          // Master slides only hold template text
+        } else if (recType === RT_SLIDE_LIST_WITH_TEXT) {
+          // Instance 0 lists slides; master and notes lists are ignored
+          if (instance === 0) {
+            walk(bodyStart, bodyEnd, { outline: true, target: null });
+          }
+        } else if (recType === RT_SLIDE) {
+          const slideText: string[] = [];
+          drawingSlides.push(slideText);
+          walk(bodyStart, bodyEnd, { outline: false, target: slideText });
+        } else if (recType === RT_NOTES) {
+          const notesText: string[] = [];
+          notesPages.push(notesText);
+          walk(bodyStart, bodyEnd, { outline: false, target: notesText });
+        } else {
+          walk(bodyStart, bodyEnd, context);
+        }
+      } else if (recType === RT_SLIDE_PERSIST_ATOM && context.outline) {
+        const slideText: string[] = [];
+        outlineSlides.push(slideText);
+        context.target = slideText;
+      } else if (context.target && recType === RT_TEXT_CHARS_ATOM) {
+        context.target.push(...decodePptText(stream.toString('utf16le', bodyStart, bodyEnd)));
+      } else if (context.target && recType === RT_TEXT_BYTES_ATOM) {
+        context.target.push(...decodePptText(stream.toString('latin1', bodyStart, bodyEnd)));
+      }
+
+      offset = bodyStart + recLen;
+    }
+  };
+
+  walk(0, stream.length, { outline: false, target: null });
+
+  const hasOutlineText = outlineSlides.some(slide => slide.length > 0);
+  const slideTexts = hasOutlineText ? outlineSlides : drawingSlides;
+
+  return slideTexts.map((paragraphs, index) => ({
+    slideNumber: index + 1,
+    paragraphs,
+    tables: [],
+    notes: notesPages[index] || [],
+  }));
+};
@@ -0,0 +1,248 @@
+/**
+ * RTF (Rich Text Format) parsing
+ * Walks the control words and groups of the document, keeping the body text and the
+ * document information (title, author, subject) and dropping fonts, styles, pictures
+ * and field instructions
+ */
+
+import { DocumentParseError } from './documentParseError';
+
+export type RtfContent = {
+  text: string;
+  title?: string;
+  author?: string;
+  subject?: string;
+};
+
+type GroupState = {
+  destination: string | null; // null for the document body; skipped groups use 'skip'
+  unicodeSkip: number; // Fallback characters to skip after \uN (\ucN)
+};
+
+// Destinations whose content is not document text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl',
+  'colortbl',
+  'stylesheet',
+  'listtable',
+  'listoverridetable',
+  'revtbl',
+  'rsidtbl',
+  'generator',
+  'info',
+  'pict',
+  'object',
+  'fldinst',
+  'nonshppict',
+  'header',
+  'headerl',
+  'headerr',
+  'headerf',
+  'footer',
+  'footerl',
+  'footerr',
+  'footerf',
+  'xmlnstbl',
+  'themedata',
+  'colorschememapping',
+  'latentstyles',
+  'datastore',
+  'filetbl',
+]);
+
+// Document information kept as metadata (inside the skipped \info group)
+const INFO_DESTINATIONS = new Set(['title', 'author', 'subject']);
+
+const CONTROL_WORD_TEXT: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  sect: '\n\n',
+  page: '\n\n',
+  row: '\n',
+  tab: '\t',
+  cell: ' | ',
+  nestcell: ' | ',
+  emdash: '—',
+  endash: '–',
+  emspace: ' ',
+  enspace: ' ',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+};
+
+const CONTROL_SYMBOL_TEXT: Record<string, string> = {
+  '\\': '\\',
+  '{': '{',
+  '}': '}',
+  '~': ' ',
+  _: '-',
+  '-': '', // Optional hyphen
+};
+
+// Code pages (\ansicpg) without a windows-N encoding label
+const CODE_PAGE_ENCODINGS: Record<number, string> = {
+  932: 'shift_jis',
+  936: 'gbk',
+  949: 'euc-kr',
+  950: 'big5',
+  65001: 'utf-8',
+};
+
+const decodeCodePage = (bytes: number[], codePage: number): string => {
+  try {
+    return new TextDecoder(CODE_PAGE_ENCODINGS[codePage] ?? `windows-${codePage}`).decode(
+      Buffer.from(bytes)
+    );
+  } catch {
+    return Buffer.from(bytes).toString('latin1');
+  }
+};
+
+/**
+ * Extract the text of an RTF document
+ */
+export const extractRtf = (buffer: Buffer): RtfContent => {
+  const source = buffer.toString('latin1');
+  if (!/^\s*\{\\rtf/.test(source)) {
+    throw DocumentParseError.corrupt('RTF', 'missing RTF header');
+  }
+
+  const outputs: Record<string, string> = { body: '' };
+  const stack: GroupState[] = [];
+  let state: GroupState = { destination: null, unicodeSkip: 1 };
+  let codePage = 1252;
+  let pendingBytes: number[] = []; // \'hh escapes, decoded together for multi-byte code pages
+  let skipChars = 0;
+  let groupStart = false; // Next control word is the first of its group
+
+  const write = (text: string) => {
+    if (state.destination === 'skip') return;
+    const key = state.destination ?? 'body';
+    outputs[key] = (outputs[key] ?? '') + text;
+  };
+  const flushBytes = () => {
+    if (pendingBytes.length === 0) return;
+    write(decodeCodePage(pendingBytes, codePage));
+    pendingBytes = [];
+  };
+
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+
+    if (char === '{') {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      groupStart = true;
+      index++;
+      continue;
+    }
+    if (char === '}') {
+      flushBytes();
+      state = stack.pop() ?? state;
+      groupStart = false;
+      index++;
+      continue;
+    }
+    if (char === '\r' || char === '\n') {
+      index++;
+      continue;
+    }
+
+    if (char !== '\\') {
+      groupStart = false;
+      if (skipChars > 0) {
+        skipChars--;
+      } else {
+        flushBytes();
+        write(char);
+      }
+      index++;
+      continue;
+    }
+
+    // Control symbol: backslash followed by a non-letter
+    const next = source[index + 1] ?? '';
+    if (!/[a-zA-Z]/.test(next)) {
+      const isFirst = groupStart;
+      groupStart = false;
+      index += 2;
+
+      if (next === "'") {
+        const byte = parseInt(source.slice(index, index + 2), 16);
+        index += 2;
+        if (skipChars > 0) {
+          skipChars--;
+        } else if (!Number.isNaN(byte)) {
+          pendingBytes.push(byte);
+        }
+      } else if (next === '*' && isFirst) {
+        state.destination = 'skip'; // Ignorable destination unknown to this reader
+      } else if (next === '\n' || next === '\r') {
+        flushBytes();
+        write('\n');
+      } else if (CONTROL_SYMBOL_TEXT[next] !== undefined) {
+        flushBytes();
+        write(CONTROL_SYMBOL_TEXT[next]);
+      }
+      continue;
+    }
+
+    // Control word: letters, optional signed number, optional space delimiter
+    const match = source.slice(index, index + 64).match(/^\\([a-zA-Z]+)(-?\d+)? ?/);
+    if (!match) {
+      index++;
+      continue;
+    }
+    index += match[0].length;
+    const word = match[1];
+    const parameter = match[2] !== undefined ? Number(match[2]) : undefined;
+    const isFirst = groupStart;
+    groupStart = false;
+
+    if (word === 'u' && parameter !== undefined) {
+      flushBytes();
+      write(String.fromCharCode(parameter < 0 ? parameter + 65536 : parameter));
+      skipChars = state.unicodeSkip;
+      continue;
+    }
+    skipChars = 0;
+
+    if (word === 'uc' && parameter !== undefined) {
+      state.unicodeSkip = parameter;
+    } else if (word === 'ansicpg' && parameter !== undefined) {
+      codePage = parameter;
+    } else if (word === 'bin' && parameter !== undefined) {
+      index += parameter; // Raw binary data (pictures, objects)
+    } else if (INFO_DESTINATIONS.has(word) && isFirst && state.destination === 'info') {
+      flushBytes();
+      state.destination = word;
+    } else if (SKIPPED_DESTINATIONS.has(word) && isFirst && state.destination === null) {
+      flushBytes();
+      state.destination = word === 'info' ? 'info' : 'skip';
+    } else if (CONTROL_WORD_TEXT[word] !== undefined) {
+      flushBytes();
+      write(CONTROL_WORD_TEXT[word]);
+    }
+  }
+  flushBytes();
+
+  const text = outputs.body
+    .split('\n')
+    .map(line => line.replace(/(\s*\|\s*)+$/, '').trim()) // Trailing cell separators
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  const readInfo = (key: string) => outputs[key]?.replace(/\s+/g, ' ').trim() || undefined;
+
+  return {
+    text,
+    title: readInfo('title'),
+    author: readInfo('author'),
+    subject: readInfo('subject'),
+  };
+};
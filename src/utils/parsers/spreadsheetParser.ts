@@ -0,0 +1,255 @@
+/**
+ * Spreadsheet (XLSX, XLS) parsing
+ * Turns every visible, non-empty sheet into a table: merged cells are filled in, the header row
+ * is detected below any title rows, and cells keep their displayed (formatted) values
+ */
+
+import * as XLSX from 'xlsx';
+import { TabularData } from '../chunking';
+import { DocumentProperties, normalizeProperties } from './documentProperties';
+
+export type SheetSummary = {
+  name: string;
+  range: string; // A1 range of the extracted table, header row included
+  headerRow: number | null; // 1-based row of the detected header row, null when none was found
+  title?: string; // Text above the header row (e.g. a report title)
+  rowCount: number;
+  formulaCount: number;
+};
+
+export type SkippedSheet = {
+  name: string;
+  reason: 'hidden' | 'empty';
+};
+
+export type SpreadsheetContent = {
+  tables: TabularData[];
+  sheets: SheetSummary[];
+  skippedSheets: SkippedSheet[];
+  properties: DocumentProperties;
+};
+
+type GridCell = {
+  text: string;
+  isText: boolean; // String value (numbers, dates and booleans are never headers)
+};
+
+type CellBounds = {
+  firstRow: number;
+  lastRow: number;
+  firstCol: number;
+  lastCol: number;
+};
+
+const EMPTY_CELL: GridCell = { text: '', isText: false };
+const HEADER_SCAN_ROWS = 10; // Title rows above the header are rarely more than a few
+
+/**
+ * Displayed value of a cell
+ * Formulas without a cached result (files written by tools that do not calculate) show the formula
+ */
+const readCell = (cell: XLSX.CellObject | undefined): GridCell => {
+  if (!cell) return EMPTY_CELL;
+  if (cell.v === undefined || cell.v === null || cell.v === '') {
+    return cell.f ? { text: `=${cell.f}`, isText: false } : EMPTY_CELL;
+  }
+
+  const text = (cell.w ?? String(cell.v)).replace(/\s+/g, ' ').trim();
+  return { text, isText: cell.t === 's' };
+};
+
+/**
+ * Read the used range of a sheet into a grid, copying each merged cell's value into every
+ * cell it spans so that merged headers and category columns apply to all their rows
+ */
+const readGrid = (
+  sheet: XLSX.WorkSheet,
+  range: XLSX.Range
+): { grid: GridCell[][]; formulaCount: number } => {
+  const grid: GridCell[][] = [];
+  let formulaCount = 0;
+
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: GridCell[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c })] as XLSX.CellObject | undefined;
+      if (cell?.f) formulaCount++;
+      row.push(readCell(cell));
+    }
+    grid.push(row);
+  }
+
+  for (const merge of sheet['!merges'] ?? []) {
+    const value = grid[merge.s.r - range.s.r]?.[merge.s.c - range.s.c];
+    if (!value) continue;
+    for (let r = Math.max(merge.s.r, range.s.r); r <= Math.min(merge.e.r, range.e.r); r++) {
+      for (let c = Math.max(merge.s.c, range.s.c); c <= Math.min(merge.e.c, range.e.c); c++) {
+        grid[r - range.s.r][c - range.s.c] = value;
+      }
+    }
+  }
+
+  return { grid, formulaCount };
+};
+
+/**
+ * Bounds of the non-empty cells of a grid (a sheet's stored range often includes blank,
+ * formatted cells), or null when the grid is empty
+ */
+const findUsedBounds = (grid: GridCell[][]): CellBounds | null => {
+  let bounds: CellBounds | null = null;
+
+  for (let r = 0; r < grid.length; r++) {
+    for (let c = 0; c < grid[r].length; c++) {
+      if (!grid[r][c].text) continue;
+      bounds = bounds
+        ? {
+            firstRow: bounds.firstRow,
+            lastRow: r,
+            firstCol: Math.min(bounds.firstCol, c),
+            lastCol: Math.max(bounds.lastCol, c),
+          }
+        : { firstRow: r, lastRow: r, firstCol: c, lastCol: c };
+    }
+  }
+
+  return bounds;
+};
+
+/**
+ * Whether a row looks like a header: text-only labels, all distinct, covering at least half
+ * of the table's columns (a title row usually fills a single cell)
+ */
+const isHeaderRow = (cells: GridCell[]): boolean => {
+  const filled = cells.filter(cell => cell.text);
+  if (filled.length === 0 || filled.length < cells.length / 2) return false;
+  if (filled.some(cell => !cell.isText)) return false;
+
+  const labels = new Set(filled.map(cell => cell.text.toLowerCase()));
+  return labels.size === filled.length;
+};
+
+/**
+ * Column names from the header row; blank or repeated labels are qualified with the column letter
+ */
+const toColumnNames = (header: GridCell[] | null, firstCol: number, width: number): string[] => {
+  const seen = new Set<string>();
+
+  return Array.from({ length: width }, (_, index) => {
+    const letter = XLSX.utils.encode_col(firstCol + index);
+    const label = header?.[index].text;
+    if (!label) return `Column ${letter}`;
+
+    const name = seen.has(label.toLowerCase()) ? `${label} (${letter})` : label;
+    seen.add(label.toLowerCase());
+    return name;
+  });
+};
+
+/**
+ * Extract a table from a sheet, or null when the sheet has no content
+ */
+const extractSheet = (
+  name: string,
+  sheet: XLSX.WorkSheet
+): { table: TabularData; summary: SheetSummary } | null => {
+  if (!sheet['!ref']) return null;
+
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const { grid, formulaCount } = readGrid(sheet, range);
+  const bounds = findUsedBounds(grid);
+  if (!bounds) return null;
+
+  const { firstRow, lastRow, firstCol, lastCol } = bounds;
+  const rows = grid.slice(firstRow, lastRow + 1).map(row => row.slice(firstCol, lastCol + 1));
+
+  // The header needs at least one data row below it
+  const scanRows = Math.min(HEADER_SCAN_ROWS, rows.length - 1);
+  let headerIndex = -1;
+  for (let index = 0; index < scanRows; index++) {
+    if (isHeaderRow(rows[index])) {
+      headerIndex = index;
+      break;
+    }
+  }
+
+  const header = headerIndex >= 0 ? rows[headerIndex] : null;
+  const title = rows
+    .slice(0, Math.max(headerIndex, 0))
+    .map(row =>
+      row
+        .map(cell => cell.text)
+        .filter((text, index, texts) => text && texts.indexOf(text) === index) // Merged titles
+        .join(' ')
+    )
+    .filter(line => line)
+    .join('\n');
+  const dataRows = rows.slice(headerIndex + 1).map(row => row.map(cell => cell.text));
+
+  // 0-based sheet rows of the header (the row above the first data row) and of the table bounds
+  const headerRow = range.s.r + firstRow + headerIndex;
+  const tableStart = range.s.r + firstRow + Math.max(headerIndex, 0);
+  const tableEnd = range.s.r + firstRow + rows.length - 1;
+
+  const table: TabularData = {
+    name,
+    columns: toColumnNames(header, range.s.c + firstCol, lastCol - firstCol + 1),
+    rows: dataRows,
+    firstRowNumber: headerRow + 2,
+    firstColumn: range.s.c + firstCol,
+  };
+
+  return {
+    table,
+    summary: {
+      name,
+      range: XLSX.utils.encode_range({
+        s: { r: tableStart, c: range.s.c + firstCol },
+        e: { r: tableEnd, c: range.s.c + lastCol },
+      }),
+      headerRow: header ? headerRow + 1 : null,
+      ...(title && { title }),
+      rowCount: dataRows.length,
+      formulaCount,
+    },
+  };
+};
+
+/**
+ * Read a workbook into one table per visible, non-empty sheet
+ */
+export const extractSpreadsheet = (buffer: Buffer): SpreadsheetContent => {
+  const workbook = XLSX.read(buffer, { type: 'buffer', cellFormula: true });
+  const content: SpreadsheetContent = {
+    tables: [],
+    sheets: [],
+    skippedSheets: [],
+    properties: normalizeProperties({
+      title: workbook.Props?.Title,
+      authors: workbook.Props?.Author,
+      subject: workbook.Props?.Subject,
+      keywords: workbook.Props?.Keywords,
+      createdAt: workbook.Props?.CreatedDate,
+      modifiedAt: workbook.Props?.ModifiedDate,
+    }),
+  };
+
+  workbook.SheetNames.forEach((name, index) => {
+    // Hidden is 1 for hidden and 2 for "very hidden" sheets
+    if (workbook.Workbook?.Sheets?.[index]?.Hidden) {
+      content.skippedSheets.push({ name, reason: 'hidden' });
+      return;
+    }
+
+    const extracted = extractSheet(name, workbook.Sheets[name]);
+    if (!extracted) {
+      content.skippedSheets.push({ name, reason: 'empty' });
+      return;
+    }
+
+    content.tables.push(extracted.table);
+    content.sheets.push(extracted.summary);
+  });
+
+  return content;
+};
@@ -0,0 +1,194 @@
+/**
+ * Word 97-2003 binary (.doc) parsing
+ * Reads the main document text through the piece table ([MS-DOC] 2.8.35 Clx) of the
+ * WordDocument and table streams inside the compound file
+ */
+
+import * as CFB from 'cfb';
+import { DocumentParseError } from './documentParseError';
+
+const WORD_IDENT = 0xa5ec; // FIB wIdent of Word binary documents
+const MIN_WORD97_NFIB = 0x00c1; // Earlier versions (Word 6/95) use a different layout
+
+// FibBase flags ([MS-DOC] 2.5.2)
+const FLAG_WHICH_TABLE_STREAM = 0x0200;
+const FLAG_ENCRYPTED = 0x0100;
+const FLAG_OBFUSCATED = 0x8000;
+
+// Offsets in the FIB
+const FIB_FLAGS_OFFSET = 0x000a;
+const FIB_CCP_TEXT_OFFSET = 0x004c; // FibRgLw97.ccpText: character count of the main document
+const FIB_FC_CLX_OFFSET = 0x01a2; // FibRgFcLcb97.fcClx / lcbClx
+
+const CLX_PRC = 0x01;
+const CLX_PCDT = 0x02;
+const FC_COMPRESSED = 0x40000000;
+
+// Special characters of the document text ([MS-DOC] 2.8.25)
+const FIELD_BEGIN = '\x13';
+const FIELD_SEPARATOR = '\x14';
+const FIELD_END = '\x15';
+const CELL_MARK = '\x07';
+
+const windows1252 = new TextDecoder('windows-1252');
+
+export type WordDocumentContent = {
+  text: string;
+  paragraphCount: number;
+  tableRowCount: number;
+};
+
+const readStream = (container: CFB.CFB$Container, name: string): Buffer | null => {
+  const entry = CFB.find(container, name);
+  return entry?.content && entry.content.length > 0
+    ? Buffer.from(entry.content as Uint8Array)
+    : null;
+};
+
+/**
+ * Read the raw character stream (CP 0 onwards) from the piece table
+ */
+const readPieces = (
+  wordStream: Buffer,
+  tableStream: Buffer,
+  fcClx: number,
+  lcbClx: number
+): string => {
+  if (fcClx + lcbClx > tableStream.length) {
+    throw DocumentParseError.corrupt('DOC', 'piece table out of range');
+  }
+  const clx = tableStream.subarray(fcClx, fcClx + lcbClx);
+
+  // Skip property modifiers (Prc) preceding the piece table (Pcdt)
+  let offset = 0;
+  while (offset < clx.length && clx[offset] === CLX_PRC) {
+    offset += 3 + clx.readInt16LE(offset + 1);
+  }
+  if (clx[offset] !== CLX_PCDT || offset + 5 > clx.length) {
+    throw DocumentParseError.corrupt('DOC', 'piece table not found');
+  }
+
+  const plcPcd = clx.subarray(offset + 5, offset + 5 + clx.readUInt32LE(offset + 1));
+  const pieceCount = Math.floor((plcPcd.length - 4) / 12);
+  let text = '';
+
+  for (let i = 0; i < pieceCount; i++) {
+    const cpStart = plcPcd.readUInt32LE(i * 4);
+    const cpEnd = plcPcd.readUInt32LE((i + 1) * 4);
+    const fcValue = plcPcd.readUInt32LE((pieceCount + 1) * 4 + i * 8 + 2);
+    const length = Math.max(0, cpEnd - cpStart);
+
+    if (fcValue & FC_COMPRESSED) {
+      // 8-bit text (Windows-1252) at half the stored offset
+      const start = (fcValue & ~FC_COMPRESSED) / 2;
+      text += windows1252.decode(wordStream.subarray(start, start + length));
+    } else {
+      text += wordStream.toString('utf16le', fcValue, fcValue + length * 2);
+    }
+  }
+
+  return text;
+};
+
+/**
+ * Keep field results and drop field instructions (e.g. `HYPERLINK "..."`, `PAGE`)
+ * Fields nest, so a character is kept only when every enclosing field is in its result part
+ */
+const stripFieldCodes = (text: string): string => {
+  const fields: boolean[] = []; // Per open field: whether its result part has started
+  let output = '';
+
+  for (const char of text) {
+    if (char === FIELD_BEGIN) {
+      fields.push(false);
+    } else if (char === FIELD_SEPARATOR) {
+      if (fields.length > 0) fields[fields.length - 1] = true;
+    } else if (char === FIELD_END) {
+      fields.pop();
+    } else if (fields.every(inResult => inResult)) {
+      output += char;
+    }
+  }
+
+  return output;
+};
+
+/**
+ * Map a Word control character to plain text
+ */
+const normalizeChar = (char: string): string => {
+  const code = char.charCodeAt(0);
+  if (code === 0x0b || code === 0x0c || code === 0x0e) return '\r'; // Line, page and column breaks
+  if (code === 0x1e) return '-'; // Non-breaking hyphen
+  if (code < 0x09 || code === 0x1f) return ''; // Object anchors, note references, optional hyphens
+  return char;
+};
+
+/**
+ * Convert Word control characters to plain text
+ * Table cells end with a cell mark and rows with an extra one; cells are joined with " | "
+ */
+const toPlainText = (text: string): { text: string; tableRowCount: number } => {
+  const rowMark = CELL_MARK + CELL_MARK;
+  const tableRowCount = text.split(rowMark).length - 1;
+
+  const withTables = stripFieldCodes(text).split(rowMark).join('\r').split(CELL_MARK).join(' | ');
+  const plain = Array.from(withTables, normalizeChar)
+    .join('')
+    .split('\r')
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph.length > 0)
+    .join('\n');
+
+  return { text: plain, tableRowCount };
+};
+
+/**
+ * Extract the main document text of a Word 97-2003 binary document
+ * Headers, footers, footnotes and comments are not included
+ */
+export const extractWordDocument = (buffer: Buffer): WordDocumentContent => {
+  let container: CFB.CFB$Container;
+  try {
+    container = CFB.read(buffer, { type: 'buffer' });
+  } catch {
+    throw DocumentParseError.corrupt('DOC', 'not a compound file');
+  }
+
+  const wordStream = readStream(container, 'WordDocument');
+  if (!wordStream || wordStream.length < FIB_FC_CLX_OFFSET + 8) {
+    throw DocumentParseError.corrupt('DOC', 'WordDocument stream not found');
+  }
+  if (wordStream.readUInt16LE(0) !== WORD_IDENT) {
+    throw DocumentParseError.corrupt('DOC', 'invalid file information block');
+  }
+  if (wordStream.readUInt16LE(2) < MIN_WORD97_NFIB) {
+    throw DocumentParseError.unsupported('DOC', 'Word 95 and earlier documents are not supported');
+  }
+
+  const flags = wordStream.readUInt16LE(FIB_FLAGS_OFFSET);
+  if (flags & (FLAG_ENCRYPTED | FLAG_OBFUSCATED)) {
+    throw DocumentParseError.passwordProtected('DOC');
+  }
+
+  const tableStream = readStream(container, flags & FLAG_WHICH_TABLE_STREAM ? '1Table' : '0Table');
+  if (!tableStream) {
+    throw DocumentParseError.corrupt('DOC', 'table stream not found');
+  }
+
+  const ccpText = wordStream.readUInt32LE(FIB_CCP_TEXT_OFFSET);
+  const pieces = readPieces(
+    wordStream,
+    tableStream,
+    wordStream.readUInt32LE(FIB_FC_CLX_OFFSET),
+    wordStream.readUInt32LE(FIB_FC_CLX_OFFSET + 4)
+  );
+
+  const { text, tableRowCount } = toPlainText(pieces.slice(0, ccpText));
+
+  return {
+    text,
+    paragraphCount: text ? text.split('\n').length : 0,
+    tableRowCount,
+  };
+};
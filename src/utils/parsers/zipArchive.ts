@@ -0,0 +1,258 @@
+/**
+ * ZIP archive expansion
+ * Checks the declared sizes in the central directory before extracting anything (zip bombs),
+ * enforces the same limits while inflating (sizes can be forged) and rejects entry paths
+ * that would escape the archive root (path traversal)
+ */
+
+import JSZip from 'jszip';
+import { Readable } from 'stream';
+import { DocumentParseError } from './documentParseError';
+
+export type ArchiveLimits = {
+  maxEntries: number;
+  maxEntryBytes: number; // Uncompressed size of a single file
+  maxUncompressedBytes: number; // Uncompressed size of all files
+  maxCompressionRatio: number; // Uncompressed / compressed size of the whole archive
+};
+
+export type ArchiveEntry = {
+  path: string; // Normalized path inside the archive
+  folder: string | null; // Directory part of the path, null at the archive root
+  fileName: string;
+  content: Buffer;
+};
+
+export type SkippedArchiveEntry = {
+  path: string;
+  reason: string;
+};
+
+type CentralDirectoryEntry = {
+  name: string;
+  uncompressedSize: number;
+};
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+const MAX_EOCD_SEARCH = 22 + 0xffff; // Record size plus the longest archive comment
+const UINT32_MAX = 0xffffffff;
+
+// Files that archivers and file managers add next to the real content
+const IGNORED_FILES = new Set(['thumbs.db', 'desktop.ini']);
+
+const readUInt64LE = (buffer: Buffer, offset: number): number =>
+  buffer.readUInt32LE(offset + 4) * 2 ** 32 + buffer.readUInt32LE(offset);
+
+/**
+ * Read the entry names and declared sizes from the central directory (ZIP64 aware)
+ */
+const readCentralDirectory = (buffer: Buffer): CentralDirectoryEntry[] => {
+  let eocd = -1;
+  for (
+    let offset = buffer.length - 22;
+    offset >= Math.max(0, buffer.length - MAX_EOCD_SEARCH);
+    offset--
+  ) {
+    if (buffer.readUInt32LE(offset) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw DocumentParseError.corrupt('ZIP', 'end of central directory not found');
+  }
+
+  let entryCount = buffer.readUInt16LE(eocd + 10);
+  let directoryOffset = buffer.readUInt32LE(eocd + 16);
+
+  const locator = eocd - 20;
+  if (locator >= 0 && buffer.readUInt32LE(locator) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+    const zip64Eocd = readUInt64LE(buffer, locator + 8);
+    if (zip64Eocd + 56 > buffer.length) {
+      throw DocumentParseError.corrupt('ZIP', 'ZIP64 directory out of range');
+    }
+    entryCount = readUInt64LE(buffer, zip64Eocd + 32);
+    directoryOffset = readUInt64LE(buffer, zip64Eocd + 48);
+  }
+
+  const entries: CentralDirectoryEntry[] = [];
+  let offset = directoryOffset;
+  for (let i = 0; i < entryCount; i++) {
+    if (
+      offset + 46 > buffer.length ||
+      buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE
+    ) {
+      throw DocumentParseError.corrupt('ZIP', 'invalid central directory');
+    }
+
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    let uncompressedSize = buffer.readUInt32LE(offset + 24);
+
+    // A ZIP64 size is stored in the extra field (first value) when the 32-bit one is 0xFFFFFFFF
+    const extraStart = offset + 46 + nameLength;
+    for (let extra = extraStart; extra + 4 <= extraStart + extraLength; ) {
+      const id = buffer.readUInt16LE(extra);
+      const size = buffer.readUInt16LE(extra + 2);
+      if (id === ZIP64_EXTRA_FIELD && uncompressedSize === UINT32_MAX && size >= 8) {
+        uncompressedSize = readUInt64LE(buffer, extra + 4);
+      }
+      extra += 4 + size;
+    }
+
+    entries.push({
+      name: buffer.toString('utf-8', offset + 46, offset + 46 + nameLength),
+      uncompressedSize,
+    });
+    offset = extraStart + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+/**
+ * Normalize an entry path, or return null when it is absolute or climbs out of the archive
+ */
+export const normalizeEntryPath = (name: string): string | null => {
+  const path = name.replace(/\\/g, '/');
+  if (path.startsWith('/') || /^[a-zA-Z]:/.test(path)) return null;
+
+  const segments = path.split('/').filter(segment => segment && segment !== '.');
+  if (segments.some(segment => segment === '..')) return null;
+
+  return segments.join('/') || null;
+};
+
+/**
+ * Whether an entry is operating system metadata (__MACOSX resource forks, hidden files
+ * such as .DS_Store) rather than user content
+ */
+const isIgnoredEntry = (path: string): boolean =>
+  path
+    .split('/')
+    .some(
+      segment =>
+        segment === '__MACOSX' ||
+        segment.startsWith('.') ||
+        IGNORED_FILES.has(segment.toLowerCase())
+    );
+
+/**
+ * Inflate an entry, giving up (null) once it grows past maxBytes
+ */
+const readEntry = (file: JSZip.JSZipObject, maxBytes: number): Promise<Buffer | null> =>
+  new Promise((resolve, reject) => {
+    const stream = file.nodeStream('nodebuffer') as Readable;
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        stream.removeAllListeners('data');
+        stream.destroy();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+
+/**
+ * Expand a ZIP archive, handing each safe file to onEntry one at a time
+ * onEntry may return a reason to report the entry as skipped (e.g. an unsupported file type).
+ * Throws when the archive exceeds the limits; entries handled before that are kept
+ */
+export const expandZipArchive = async (
+  buffer: Buffer,
+  limits: ArchiveLimits,
+  onEntry: (entry: ArchiveEntry) => Promise<string | void>
+): Promise<{ entryCount: number; skipped: SkippedArchiveEntry[] }> => {
+  const directory = readCentralDirectory(buffer).filter(entry => !entry.name.endsWith('/'));
+  const declaredBytes = directory.reduce((total, entry) => total + entry.uncompressedSize, 0);
+  const maxTotalBytes = Math.min(
+    limits.maxUncompressedBytes,
+    buffer.length * limits.maxCompressionRatio
+  );
+
+  if (directory.length > limits.maxEntries) {
+    throw DocumentParseError.unsupported(
+      'ZIP',
+      `the archive has ${directory.length} files (limit ${limits.maxEntries})`
+    );
+  }
+  if (declaredBytes > maxTotalBytes) {
+    throw DocumentParseError.unsupported(
+      'ZIP',
+      `the archive expands to ${declaredBytes} bytes (limit ${maxTotalBytes})`
+    );
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch (error) {
+    throw DocumentParseError.corrupt('ZIP', error instanceof Error ? error.message : undefined);
+  }
+
+  const skipped: SkippedArchiveEntry[] = [];
+  const paths = new Set<string>(); // Distinct names can normalize to one path ("./a", "a")
+  let entryCount = 0;
+  let inflatedBytes = 0;
+
+  for (const file of Object.values(zip.files)) {
+    if (file.dir) continue;
+
+    const originalName = file.unsafeOriginalName ?? file.name;
+    const path = normalizeEntryPath(originalName);
+    if (path && isIgnoredEntry(path)) continue;
+
+    entryCount++;
+    if (!path) {
+      skipped.push({ path: originalName, reason: 'unsafe path' });
+      continue;
+    }
+    if (/\.zip$/i.test(path)) {
+      skipped.push({ path, reason: 'nested archives are not expanded' });
+      continue;
+    }
+    if (paths.has(path)) {
+      skipped.push({ path: originalName, reason: 'duplicate path in the archive' });
+      continue;
+    }
+    paths.add(path);
+
+    const remainingBytes = maxTotalBytes - inflatedBytes;
+    const content = await readEntry(file, Math.min(limits.maxEntryBytes, remainingBytes));
+    if (!content) {
+      if (remainingBytes <= limits.maxEntryBytes) {
+        throw DocumentParseError.unsupported(
+          'ZIP',
+          `the archive expands beyond ${maxTotalBytes} bytes`
+        );
+      }
+      skipped.push({ path, reason: `larger than ${limits.maxEntryBytes} bytes` });
+      continue;
+    }
+    inflatedBytes += content.length;
+
+    const separator = path.lastIndexOf('/');
+    const reason = await onEntry({
+      path,
+      folder: separator > 0 ? path.slice(0, separator) : null,
+      fileName: path.slice(separator + 1),
+      content,
+    });
+    if (reason) {
+      skipped.push({ path, reason });
+    }
+  }
+
+  return { entryCount, skipped };
+};
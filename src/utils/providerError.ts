@@ -0,0 +1,60 @@
+import { StatusCodes } from 'http-status-codes';
+import { ApiError } from './apiError';
+
+export type Provider = 'openai' | 'qdrant' | 's3';
+
+/**
+ * A request to an external provider (OpenAI, Qdrant, S3) that failed
+ * Keeps the provider's HTTP status and whether another attempt can succeed, so that
+ * ingestion retries rate limits and outages but not requests the provider rejected
+ */
+export class ProviderError extends ApiError {
+  provider: Provider;
+  status?: number; // HTTP status returned by the provider (none when the request got no response)
+  retryable: boolean;
+  cause: unknown;
+
+  constructor(
+    provider: Provider,
+    message: string,
+    options: { status?: number; retryable: boolean; cause?: unknown }
+  ) {
+    super(message, StatusCodes.INTERNAL_SERVER_ERROR);
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.status = options.status;
+    this.retryable = options.retryable;
+    this.cause = options.cause;
+  }
+
+  /**
+   * Wrap an error thrown by a provider's client
+   * Requests without a response (connection failures, timeouts), rate limits (429) and
+   * server errors (5xx) are retryable; other 4xx responses and an exhausted quota are not
+   */
+  static from(provider: Provider, message: string, error: unknown): ProviderError {
+    const details = (error ?? {}) as {
+      status?: unknown; // OpenAI, Qdrant
+      statusCode?: unknown; // AWS SDK
+      code?: unknown;
+      retryable?: unknown; // AWS SDK
+    };
+    const status =
+      typeof details.status === 'number'
+        ? details.status
+        : typeof details.statusCode === 'number'
+          ? details.statusCode
+          : undefined;
+
+    // OpenAI reports an exhausted quota as a 429, which no retry fixes
+    const retryable =
+      details.code !== 'insufficient_quota' &&
+      (details.retryable === true ||
+        status === undefined ||
+        status === 408 ||
+        status === 429 ||
+        status >= 500);
+
+    return new ProviderError(provider, message, { status, retryable, cause: error });
+  }
+}
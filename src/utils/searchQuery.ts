@@ -0,0 +1,78 @@
+/**
+ * Keyword search queries
+ * Translates the query syntax users type into a Postgres tsquery expression: words must all
+ * occur (in any order), "quoted phrases" must occur as written, word* matches any word
+ * starting with word, -word excludes chunks containing it and OR between terms accepts either
+ * The terms are also what search results highlight (see snippet.ts)
+ */
+
+// A quoted phrase (optionally negated, closing quote optional) or a bare word
+const CLAUSE_PATTERN = /(-?)"([^"]*)"?|(\S+)/g;
+
+// Characters the text search parser keeps inside words; anything else separates words
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// A word or "quoted phrase" of a query (OR being the operator, not a clause)
+type Clause = { text: string; phrase: boolean; negated: boolean };
+
+const parseClauses = (query: string): Array<Clause | 'OR'> =>
+  Array.from(query.matchAll(CLAUSE_PATTERN), ([, phraseNegation, phrase, word]) => {
+    if (word === 'OR') return 'OR';
+    if (phrase !== undefined)
+      return { text: phrase, phrase: true, negated: phraseNegation === '-' };
+    const negated = /^-./.test(word);
+    return { text: negated ? word.slice(1) : word, phrase: false, negated };
+  });
+
+/**
+ * Build the to_tsquery() expression for a search query, or null when it has no word to look
+ * for (only punctuation, or only excluded words). Words are passed unstemmed: to_tsquery()
+ * normalizes them with the dictionary of the text search configuration it is called with
+ */
+export const buildTsQuery = (query: string): string | null => {
+  // Terms are ANDed; each group holds the terms joined by OR
+  const groups: string[][] = [];
+  let orPending = false;
+
+  for (const clause of parseClauses(query)) {
+    if (clause === 'OR') {
+      orPending = groups.length > 0;
+      continue;
+    }
+
+    const prefix = !clause.phrase && clause.text.endsWith('*');
+
+    // Punctuated words ("e-mail", "v2.1") become phrases, as the parser splits them too
+    const words = clause.text.match(WORD_PATTERN);
+    if (!words) continue;
+    const lexemes = words.map((lexeme, index) =>
+      prefix && index === words.length - 1 ? `${lexeme}:*` : lexeme
+    );
+
+    let term = lexemes.length > 1 ? `(${lexemes.join(' <-> ')})` : lexemes[0];
+    if (clause.negated) term = `!${term}`;
+
+    if (orPending) {
+      groups[groups.length - 1].push(term);
+    } else {
+      groups.push([term]);
+    }
+    orPending = false;
+  }
+
+  const hasPositiveTerm = groups.some(group => group.some(term => !term.startsWith('!')));
+  if (!hasPositiveTerm) return null;
+
+  return groups.map(group => (group.length > 1 ? `(${group.join(' | ')})` : group[0])).join(' & ');
+};
+
+/**
+ * Get the words and phrases a query looks for (excluded words left out), each as its list of
+ * lowercase words, to find them in the text of results
+ */
+export const getQueryTerms = (query: string): string[][] =>
+  parseClauses(query)
+    .filter((clause): clause is Clause => clause !== 'OR' && !clause.negated)
+    .map(clause => clause.text.toLowerCase().match(WORD_PATTERN))
+    .filter((words): words is RegExpMatchArray => words !== null)
+    .map(words => Array.from(words));
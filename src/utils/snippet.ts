@@ -0,0 +1,147 @@
+/**
+ * Search result snippets
+ * Picks the part of a chunk that best matches a query and locates the query's words in it,
+ * so results show (and highlight) why they matched rather than the chunk's first characters
+ */
+
+import { getQueryTerms } from './searchQuery';
+
+// Character range of a match in a snippet's text (end exclusive)
+export type Highlight = { start: number; end: number };
+
+export type Snippet = {
+  text: string;
+  highlights: Highlight[];
+};
+
+type Match = Highlight & { term: number };
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Scripts written without spaces between words: their terms are found anywhere in the text
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+const MIN_PREFIX_LENGTH = 3; // Shorter query words only match whole words
+const MAX_BOUNDARY_SHIFT = 30; // Characters a snippet edge may move to fall between words
+const ELLIPSIS = '…';
+
+/**
+ * Find the query's terms in a text, in text order, without overlaps
+ * Words match the text's words that start with them (so "search" also finds "searches" and
+ * "searching", like the stemmed keyword search), phrases match consecutive words
+ */
+const findMatches = (text: string, terms: string[][]): Match[] => {
+  const words = Array.from(text.matchAll(WORD_PATTERN), match => ({
+    start: match.index,
+    end: match.index + match[0].length,
+    word: match[0].toLowerCase(),
+  }));
+  const matchesWord = (word: string, termWord: string) =>
+    termWord.length < MIN_PREFIX_LENGTH ? word === termWord : word.startsWith(termWord);
+
+  const matches: Match[] = [];
+  terms.forEach((termWords, term) => {
+    if (termWords.length === 1 && UNSPACED_SCRIPT.test(termWords[0])) {
+      for (let index = text.indexOf(termWords[0]); index !== -1; ) {
+        matches.push({ start: index, end: index + termWords[0].length, term });
+        index = text.indexOf(termWords[0], index + termWords[0].length);
+      }
+      return;
+    }
+
+    for (let index = 0; index + termWords.length <= words.length; index++) {
+      if (
+        termWords.every((termWord, offset) => matchesWord(words[index + offset].word, termWord))
+      ) {
+        matches.push({
+          start: words[index].start,
+          end: words[index + termWords.length - 1].end,
+          term,
+        });
+      }
+    }
+  });
+
+  // Where terms overlap ("data" and "data science"), keep the longest match
+  matches.sort((a, b) => a.start - b.start || b.end - a.end);
+  return matches.filter((match, index) => index === 0 || match.start >= matches[index - 1].end);
+};
+
+/**
+ * Move a snippet edge to the nearest space, unless none is close or it would cut a match
+ */
+const alignToSpace = (text: string, position: number, direction: 1 | -1, limit: number): number => {
+  for (let shift = 0; shift <= MAX_BOUNDARY_SHIFT; shift++) {
+    const candidate = position + shift * direction;
+    if (direction === 1 ? candidate > limit : candidate < limit) break;
+    if (/\s/.test(text.charAt(candidate))) return direction === 1 ? candidate + 1 : candidate;
+  }
+  return position;
+};
+
+/**
+ * Build the snippet of a text for a query: the window of up to `length` characters holding
+ * the most distinct query terms (then the most matches), with ellipses where the text was cut
+ * A text without matches is cut from its start
+ */
+export const buildSnippet = (text: string, query: string, length: number): Snippet => {
+  const matches = findMatches(text, getQueryTerms(query));
+
+  let start = 0;
+  let end = Math.min(text.length, length);
+  if (text.length > length && matches.length > 0) {
+    // Score a window starting at each match
+    let best = { start: 0, end: 0, terms: 0, matches: 0 };
+    matches.forEach((first, index) => {
+      const inWindow = matches.slice(index).filter(match => match.end <= first.start + length);
+      const terms = new Set(inWindow.map(match => match.term)).size;
+      if (terms > best.terms || (terms === best.terms && inWindow.length > best.matches)) {
+        const last = inWindow[inWindow.length - 1] ?? first;
+        best = { start: first.start, end: last.end, terms, matches: inWindow.length };
+      }
+    });
+
+    // Center the matches in the window, leaving context on both sides
+    start = Math.max(0, best.start - Math.floor((length - (best.end - best.start)) / 2));
+    end = Math.min(text.length, start + length);
+    start = Math.max(0, end - length);
+
+    if (start > 0) start = alignToSpace(text, start, 1, best.start);
+    if (end < text.length) end = alignToSpace(text, end, -1, best.end);
+  } else if (end < text.length) {
+    end = alignToSpace(text, end, -1, 0);
+  }
+
+  const prefix = start > 0 ? ELLIPSIS : '';
+  const suffix = end < text.length ? ELLIPSIS : '';
+  const offset = prefix.length - start;
+
+  return {
+    text: `${prefix}${text.slice(start, end).trimEnd()}${suffix}`,
+    highlights: matches
+      .filter(match => match.start >= start && match.end <= end)
+      .map(match => ({ start: match.start + offset, end: match.end + offset })),
+  };
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Render a snippet as HTML, its highlights wrapped in <mark>
+ */
+export const markHighlights = (snippet: Snippet): string => {
+  let html = '';
+  let position = 0;
+  for (const highlight of snippet.highlights) {
+    html += escapeHtml(snippet.text.slice(position, highlight.start));
+    html += `<mark>${escapeHtml(snippet.text.slice(highlight.start, highlight.end))}</mark>`;
+    position = highlight.end;
+  }
+  return html + escapeHtml(snippet.text.slice(position));
+};
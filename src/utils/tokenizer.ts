@@ -0,0 +1,55 @@
+/**
+ * Tokenizer utilities
+ * Local BPE tokenization (tiktoken ranks) matching the OpenAI embedding and chat models,
+ * used for exact token counts and token-based chunk sizing
+ */
+
+import { getEncoding, getEncodingNameForModel, Tiktoken, TiktokenModel } from 'js-tiktoken';
+
+export const DEFAULT_TOKENIZER_MODEL = 'text-embedding-3-small';
+
+// Encoding used by current embedding/chat models when a model name is unknown
+const FALLBACK_ENCODING = 'cl100k_base';
+
+const encoders = new Map<string, Tiktoken>();
+
+/**
+ * Resolve the encoder for a model (encoders are cached per encoding)
+ */
+const getEncoder = (model: string = DEFAULT_TOKENIZER_MODEL): Tiktoken => {
+  let encodingName: ReturnType<typeof getEncodingNameForModel>;
+  try {
+    encodingName = getEncodingNameForModel(model as TiktokenModel);
+  } catch {
+    encodingName = FALLBACK_ENCODING;
+  }
+
+  let encoder = encoders.get(encodingName);
+  if (!encoder) {
+    encoder = getEncoding(encodingName);
+    encoders.set(encodingName, encoder);
+  }
+  return encoder;
+};
+
+/**
+ * Encode text into token ids
+ * Special-token markers in documents (e.g. "<|endoftext|>") are encoded as plain text
+ */
+export const encodeTokens = (text: string, model?: string): number[] =>
+  getEncoder(model).encode(text, [], []);
+
+/**
+ * Count the tokens of a text for the given model
+ */
+export const countTokens = (text: string, model?: string): number =>
+  text ? encodeTokens(text, model).length : 0;
+
+/**
+ * Cut a text down to at most maxTokens tokens of the given model
+ */
+export const truncateToTokens = (text: string, maxTokens: number, model?: string): string => {
+  const encoder = getEncoder(model);
+  const tokens = encoder.encode(text, [], []);
+  return tokens.length <= maxTokens ? text : encoder.decode(tokens.slice(0, maxTokens));
+};
@@ -0,0 +1,140 @@
+import { Worker, Job, UnrecoverableError } from 'bullmq';
+import { ArchiveStatus } from '@prisma/client';
+import { env } from '../config/env';
+import { ArchiveExpansionJobData } from '../queues/archiveExpansion.queue';
+import { DocumentService } from '../modules/document/document.service';
+import { WorkspaceService } from '../modules/workspace/workspace.service';
+import { S3Service } from '../services/s3.service';
+import { expandZipArchive } from '../utils/parsers/zipArchive';
+import { DocumentParseError } from '../utils/parsers/documentParseError';
+import prisma from '../utils/prisma';
+import { logger } from '../utils/logger';
+
+// Same limit as a single uploaded file
+const MAX_ENTRY_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Download an archive and create a document per supported file
+ * A corrupt archive or one over the limits fails the job without retries
+ */
+const expandArchive = async ({ archiveUploadId, workspaceId, s3Key }: ArchiveExpansionJobData) => {
+  const buffer = await S3Service.downloadFile(s3Key);
+  const { uploadedById } = await prisma.archiveUpload.findUniqueOrThrow({
+    where: { id: archiveUploadId },
+    select: { uploadedById: true },
+  });
+  const archive = { id: archiveUploadId, workspaceId, s3Key, uploadedById };
+  const { action: duplicateAction } = await WorkspaceService.getDuplicateSettings(workspaceId);
+
+  try {
+    return await expandZipArchive(
+      buffer,
+      {
+        maxEntries: env.ARCHIVE_MAX_ENTRIES,
+        maxEntryBytes: MAX_ENTRY_BYTES,
+        maxUncompressedBytes: env.ARCHIVE_MAX_UNCOMPRESSED_BYTES,
+        maxCompressionRatio: env.ARCHIVE_MAX_COMPRESSION_RATIO,
+      },
+      entry => DocumentService.createArchiveEntryDocument(archive, entry, duplicateAction)
+    );
+  } catch (error) {
+    if (error instanceof DocumentParseError) {
+      throw new UnrecoverableError(error.message);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Archive expansion worker
+ * 1. Download the ZIP archive from S3
+ * 2. Check it against the zip bomb limits
+ * 3. Create a document (queued for ingestion) per supported file, keeping its folder
+ * 4. Record the files that were skipped and why
+ */
+export const archiveExpansionWorker = new Worker<ArchiveExpansionJobData>(
+  'archive-expansion',
+  async (job: Job<ArchiveExpansionJobData>) => {
+    const { archiveUploadId, workspaceId } = job.data;
+
+    logger.info('Starting archive expansion', {
+      jobId: job.id,
+      archiveUploadId,
+      workspaceId,
+    });
+
+    try {
+      await prisma.archiveUpload.update({
+        where: { id: archiveUploadId },
+        data: { status: ArchiveStatus.EXPANDING, startedAt: new Date(), error: null },
+      });
+
+      const { entryCount, skipped } = await expandArchive(job.data);
+
+      // Counted from the database so that documents created by an earlier attempt are included
+      const documentCount = await prisma.document.count({ where: { archiveUploadId } });
+
+      await prisma.archiveUpload.update({
+        where: { id: archiveUploadId },
+        data: {
+          status: ArchiveStatus.COMPLETED,
+          entryCount,
+          documentCount,
+          skippedEntries: skipped,
+          completedAt: new Date(),
+        },
+      });
+
+      logger.info('Archive expansion completed', {
+        archiveUploadId,
+        entryCount,
+        documentCount,
+        skippedCount: skipped.length,
+      });
+
+      return { success: true, entryCount, documentCount, skippedCount: skipped.length };
+    } catch (error) {
+      logger.error('Archive expansion failed', {
+        error,
+        archiveUploadId,
+        jobId: job.id,
+      });
+
+      await prisma.archiveUpload.update({
+        where: { id: archiveUploadId },
+        data: {
+          status: ArchiveStatus.FAILED,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+      });
+
+      throw error;
+    }
+  },
+  {
+    connection: {
+      host: env.REDIS_HOST,
+      port: env.REDIS_PORT,
+      password: env.REDIS_PASSWORD || undefined,
+    },
+    concurrency: 1, // Archives are held in memory while they are expanded
+  }
+);
+
+// Worker event listeners
+archiveExpansionWorker.on('completed', job => {
+  logger.info('Archive expansion job completed', { jobId: job.id });
+});
+
+archiveExpansionWorker.on('failed', (job, error) => {
+  logger.error('Archive expansion job failed', {
+    jobId: job?.id,
+    error: error.message,
+  });
+});
+
+archiveExpansionWorker.on('error', error => {
+  logger.error('Archive expansion worker error', { error: error.message });
+});
+
+export default archiveExpansionWorker;
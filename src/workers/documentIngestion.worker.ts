@@ -1,32 +1,267 @@
-import { Worker, Job } from 'bullmq';
+import { Worker, Job, UnrecoverableError } from 'bullmq';
 import { env } from '../config/env';
 import redis from '../config/redis';
 import { DocumentIngestionJobData } from '../queues/documentIngestion.queue';
 import { DocumentService } from '../modules/document/document.service';
+import { WorkspaceService } from '../modules/workspace/workspace.service';
+import type { IngestionSettings } from '../modules/workspace/workspace.types';
 import { IngestionStatus } from '@prisma/client';
 import { S3Service } from '../services/s3.service';
-import { FileParser } from '../utils/fileParser';
-import { chunkText } from '../utils/chunking';
+import { FileParser, ParsedDocument, ParsedPage } from '../utils/fileParser';
+import type { DocumentProperties } from '../utils/parsers/documentProperties';
+import { classifyIngestionError } from '../utils/ingestionErrors';
+import { chunkByStructure, chunkTables, chunkText } from '../utils/chunking';
+import { countWords, detectLanguage, isUnspacedLanguage } from '../utils/language';
 import { OpenAIService } from '../services/openai.service';
 import { QdrantService } from '../services/qdrant.service';
+import { EmbeddingCacheService } from '../services/embeddingCache.service';
+import { IngestionDeadLetterService } from '../services/ingestionDeadLetter.service';
 import prisma from '../utils/prisma';
 import { logger } from '../utils/logger';
 import * as crypto from 'crypto';
 
+/**
+ * Move a document to an ingestion stage and report it as job progress
+ */
+const setStage = async (
+  job: Job<DocumentIngestionJobData>,
+  stage: IngestionStatus,
+  chunksEmbedded?: number,
+  chunksTotal?: number
+): Promise<void> => {
+  await DocumentService.updateIngestionStatus(job.data.documentId, stage);
+  await job.updateProgress(
+    DocumentService.buildIngestionProgress(stage, chunksEmbedded, chunksTotal)
+  );
+};
+
+/**
+ * Lowest OCR confidence among the pages a chunk spans (undefined when none was OCRed)
+ */
+const getOcrConfidence = (
+  pages: ParsedPage[] | undefined,
+  pageNumber?: number,
+  pageEnd?: number
+): number | undefined => {
+  if (!pages || pageNumber === undefined) return undefined;
+
+  const confidences = pages
+    .filter(page => page.pageNumber >= pageNumber && page.pageNumber <= (pageEnd ?? pageNumber))
+    .map(page => page.ocrConfidence)
+    .filter((confidence): confidence is number => confidence !== undefined);
+  return confidences.length > 0 ? Math.min(...confidences) : undefined;
+};
+
+/**
+ * Document-level metadata: the file's properties, the title falling back to the first top-level
+ * heading. Parser statistics (encoding, columns, sheets...) are left out, as Document.metadata
+ * is copied onto every vector of the document for search filters
+ */
+const buildDocumentProperties = (parsed: ParsedDocument, text: string): DocumentProperties => {
+  const title = parsed.properties?.title ?? text.match(/^# (.+)$/m)?.[1].trim();
+  return { ...parsed.properties, ...(title && { title }) };
+};
+
+/**
+ * Remove chunk rows and Qdrant points of every version except the active one
+ * (the version replaced by a re-index, or builds that never completed)
+ */
+const deleteInactiveChunks = async (
+  documentId: string,
+  activeVersion: number,
+  collectionName: string
+): Promise<void> => {
+  const staleChunks = await prisma.chunk.findMany({
+    where: { documentId, version: { not: activeVersion } },
+    select: { id: true, hasEmbedding: true },
+  });
+  if (staleChunks.length === 0) return;
+
+  const embeddedIds = staleChunks.filter(chunk => chunk.hasEmbedding).map(chunk => chunk.id);
+  if (embeddedIds.length > 0) {
+    await QdrantService.deleteVectors(collectionName, embeddedIds);
+  }
+
+  await prisma.chunk.deleteMany({
+    where: { id: { in: staleChunks.map(chunk => chunk.id) } },
+  });
+
+  logger.info('Inactive chunks deleted', { documentId, count: staleChunks.length });
+};
+
+/**
+ * Download, parse and chunk a document, then store its chunks (not yet embedded)
+ * as a new version next to the one search is serving
+ * Marks the job so that retries skip straight to embedding
+ */
+const parseAndStoreChunks = async (
+  job: Job<DocumentIngestionJobData>,
+  settings: IngestionSettings,
+  collectionName: string
+): Promise<void> => {
+  const { documentId, s3Key, documentType } = job.data;
+
+  // Step 1: Update status to PARSING
+  await setStage(job, IngestionStatus.PARSING);
+
+  // Step 2: Download file from S3
+  logger.info('Downloading file from S3', { s3Key });
+  const fileBuffer = await S3Service.downloadFile(s3Key);
+
+  // Step 3: Parse document (corrupt, password-protected or unsupported files throw a
+  // DocumentParseError, which is not retried)
+  logger.info('Parsing document', { documentType });
+  const parsed = await FileParser.parseDocument(
+    fileBuffer,
+    documentType as any,
+    'application/octet-stream',
+    { ocrEnabled: settings.ocrEnabled, languages: settings.languages }
+  );
+
+  // Normalize text (keeping page boundaries when the parser provides them)
+  const { text: normalizedText, pageSpans } = FileParser.normalizeDocument(parsed);
+
+  // A document without text would be indexed as zero chunks; fail it instead (retrying won't help)
+  if (!normalizedText) {
+    throw new UnrecoverableError(
+      parsed.metadata.scannedPageCount && !settings.ocrEnabled
+        ? 'No extractable text found (scanned document); enable OCR in the workspace ingestion settings'
+        : 'No text could be extracted from the document'
+    );
+  }
+
+  // Detect the language of the whole document; chunks too short to tell inherit it
+  const language = detectLanguage(normalizedText);
+
+  // Email attachments are ingested as documents of their own (existing ones are skipped)
+  if (parsed.attachments && parsed.attachments.length > 0) {
+    const { action } = await WorkspaceService.getDuplicateSettings(job.data.workspaceId);
+    await DocumentService.createAttachmentDocuments(documentId, parsed.attachments, action);
+  }
+
+  // Step 4: Enrich the document with its metadata, stored once on the document
+  // rather than copied onto every chunk
+  await setStage(job, IngestionStatus.ENRICHING);
+  await DocumentService.updateExtractedMetadata(
+    documentId,
+    buildDocumentProperties(parsed, normalizedText)
+  );
+  if (settings.summariesEnabled) {
+    // Optional: a document without a summary is still searchable, so failures do not fail ingestion
+    try {
+      await DocumentService.summarizeDocument(documentId, normalizedText);
+    } catch (error) {
+      logger.warn('Failed to summarize document', { error, documentId });
+    }
+  }
+
+  // Step 5: Chunk text (sized in embedding model tokens)
+  await setStage(job, IngestionStatus.CHUNKING);
+  const chunkOptions = {
+    maxTokens: settings.maxTokens,
+    overlapTokens: settings.overlapTokens,
+    tokenizerModel: settings.embeddingModel,
+  };
+  logger.info('Chunking text', {
+    textLength: normalizedText.length,
+    strategy: settings.chunkStrategy,
+    language,
+  });
+  const chunkFn = settings.chunkStrategy === 'structure' ? chunkByStructure : chunkText;
+  const chunks = parsed.tables
+    ? chunkTables(parsed.tables, chunkOptions)
+    : chunkFn(normalizedText, { ...chunkOptions, pageSpans });
+
+  // Tables render their header rows as text, so a table without data rows gets past the
+  // check above but has nothing to chunk
+  if (chunks.length === 0) {
+    throw new UnrecoverableError(
+      parsed.tables
+        ? 'The document has no data rows'
+        : 'No text could be extracted from the document'
+    );
+  }
+
+  // Drop builds left behind by earlier jobs that never completed
+  const { indexVersion } = await prisma.document.findUniqueOrThrow({
+    where: { id: documentId },
+    select: { indexVersion: true },
+  });
+  await deleteInactiveChunks(documentId, indexVersion, collectionName);
+
+  const version = indexVersion + 1;
+  await prisma.chunk.createMany({
+    data: chunks.map(chunk => ({
+      documentId,
+      version,
+      content: chunk.text,
+      contentHash: crypto.createHash('sha256').update(chunk.text).digest('hex'),
+      chunkIndex: chunk.chunkIndex,
+      startCharIndex: chunk.startIndex,
+      endCharIndex: chunk.endIndex,
+      pageNumber: chunk.pageNumber ?? null,
+      pageEnd: chunk.pageEnd ?? null,
+      sectionTitle: chunk.sectionTitle ?? null,
+      language: detectLanguage(chunk.text) ?? language,
+      hasEmbedding: false,
+      embeddingModel: settings.embeddingModel,
+      tokenCount: OpenAIService.countTokens(chunk.text, settings.embeddingModel),
+      metadata: {
+        ...chunk.metadata,
+        ocrConfidence: getOcrConfidence(parsed.pages, chunk.pageNumber, chunk.pageEnd),
+      } as any,
+    })),
+  });
+
+  await prisma.document.update({
+    where: { id: documentId },
+    data: {
+      pageCount: parsed.metadata.pageCount,
+      // Parsers count words by whitespace, which does not apply to Chinese, Japanese or Thai
+      wordCount:
+        (!isUnspacedLanguage(language) && parsed.metadata.wordCount) || countWords(normalizedText),
+      language,
+    },
+  });
+
+  await job.updateData({ ...job.data, chunksStored: true, version });
+};
+
+/**
+ * Whether the job's earlier attempt stored the chunks of a build that is still pending
+ * A build is stale once the document's index moved past it (a later job completed, and
+ * dropped the build's chunks), so it is never resumed
+ */
+const hasStoredChunks = async (job: Job<DocumentIngestionJobData>): Promise<boolean> => {
+  const { documentId, chunksStored, version } = job.data;
+  if (!chunksStored || version === undefined) return false;
+
+  const { indexVersion } = await prisma.document.findUniqueOrThrow({
+    where: { id: documentId },
+    select: { indexVersion: true },
+  });
+  if (version <= indexVersion) return false;
+
+  const chunks = await prisma.chunk.count({ where: { documentId, version, deletedAt: null } });
+  return chunks > 0;
+};
+
 /**
  * Document Ingestion Worker
  * Processes documents asynchronously:
  * 1. Download from S3
  * 2. Parse file
- * 3. Chunk text
- * 4. Generate embeddings
- * 5. Store in Qdrant
- * 6. Update database
+ * 3. Store document metadata (title, authors, dates, keywords) and, when enabled, a summary
+ * 4. Chunk text
+ * 5. Generate embeddings
+ * 6. Store in Qdrant
+ * 7. Update database
+ * 8. Detect near-duplicates of earlier documents
  */
 export const documentIngestionWorker = new Worker<DocumentIngestionJobData>(
   'document-ingestion',
   async (job: Job<DocumentIngestionJobData>) => {
-    const { documentId, workspaceId, s3Key, s3Bucket, s3Region, documentType } = job.data;
+    const { documentId, workspaceId } = job.data;
 
     logger.info('Starting document ingestion', {
       jobId: job.id,
@@ -34,145 +269,213 @@ export const documentIngestionWorker = new Worker<DocumentIngestionJobData>(
       workspaceId,
     });
 
-    try {
-      // Step 1: Update status to PARSING
-      await DocumentService.updateIngestionStatus(
+    // Only the document's current job may build its index: a job queued before a newer one
+    // would build (and clean up) the same version as it
+    const current = await prisma.document.findUnique({
+      where: { id: documentId },
+      select: { ingestionJobId: true },
+    });
+    if (!current || current.ingestionJobId !== job.id) {
+      logger.warn('Skipping outdated ingestion job', {
+        jobId: job.id,
         documentId,
-        IngestionStatus.PARSING
-      );
-
-      // Step 2: Download file from S3
-      logger.info('Downloading file from S3', { s3Key });
-      const fileBuffer = await S3Service.downloadFile(s3Key);
+        currentJobId: current?.ingestionJobId,
+      });
+      return { success: false, skipped: true };
+    }
 
-      // Step 3: Parse document
-      logger.info('Parsing document', { documentType });
-      const parsed = await FileParser.parseDocument(
-        fileBuffer,
-        documentType as any,
-        'application/octet-stream'
-      );
+    try {
+      const settings = await WorkspaceService.getIngestionSettings(workspaceId);
 
-      // Normalize text
-      const normalizedText = FileParser.normalizeText(parsed.text);
+      const collectionName = await QdrantService.getOrCreateCollection(workspaceId);
 
-      // Step 4: Chunk text
-      logger.info('Chunking text', { textLength: normalizedText.length });
-      const chunks = chunkText(normalizedText, {
-        maxChunkSize: 1000,
-        chunkOverlap: 200,
-      });
+      // Steps 1-5 run once per job; retries resume with the chunks already stored
+      if (await hasStoredChunks(job)) {
+        logger.info('Resuming document ingestion from stored chunks', { documentId });
+      } else {
+        await parseAndStoreChunks(job, settings, collectionName);
+      }
+      const version = job.data.version!;
 
-      // Step 5: Generate embeddings
-      logger.info('Generating embeddings', { chunkCount: chunks.length });
-      const chunkTexts = chunks.map((chunk) => chunk.text);
-      const embeddings = await OpenAIService.generateEmbeddings(chunkTexts);
+      // Step 6: Generate embeddings for chunks that have none yet, reusing cached vectors
+      const [pendingChunks, chunksTotal] = await Promise.all([
+        prisma.chunk.findMany({
+          where: { documentId, version, hasEmbedding: false, deletedAt: null },
+          orderBy: { chunkIndex: 'asc' },
+        }),
+        prisma.chunk.count({ where: { documentId, version, deletedAt: null } }),
+      ]);
+      let chunksEmbedded = chunksTotal - pendingChunks.length;
+      await setStage(job, IngestionStatus.EMBEDDING, chunksEmbedded, chunksTotal);
 
-      // Step 6: Get or create Qdrant collection
-      const collectionName = await QdrantService.getOrCreateCollection(workspaceId);
+      const cachedEmbeddings = await EmbeddingCacheService.getMany(
+        pendingChunks.map(chunk => chunk.contentHash),
+        settings.embeddingModel
+      );
+      const cachedChunks = pendingChunks.filter(chunk => cachedEmbeddings.has(chunk.contentHash));
+      const uncachedChunks = pendingChunks.filter(
+        chunk => !cachedEmbeddings.has(chunk.contentHash)
+      );
+      logger.info('Generating embeddings', {
+        pendingChunkCount: pendingChunks.length,
+        cacheHits: cachedChunks.length,
+        cacheMisses: uncachedChunks.length,
+      });
 
-      // Step 7: Store chunks and embeddings in database and Qdrant
-      logger.info('Storing chunks and vectors', { collectionName });
-      const qdrantPoints = [];
-
-      for (let i = 0; i < chunks.length; i++) {
-        const chunk = chunks[i];
-        const embedding = embeddings[i];
-        const contentHash = crypto
-          .createHash('sha256')
-          .update(chunk.text)
-          .digest('hex');
-
-        // Create chunk in database
-        const dbChunk = await prisma.chunk.create({
-          data: {
-            documentId,
-            content: chunk.text,
-            contentHash,
-            chunkIndex: chunk.chunkIndex,
-            startCharIndex: chunk.startIndex,
-            endCharIndex: chunk.endIndex,
-            pageNumber: parsed.metadata.pageCount
-              ? Math.floor(chunk.startIndex / (normalizedText.length / parsed.metadata.pageCount))
-              : null,
-            hasEmbedding: true,
-            embeddingModel: 'text-embedding-3-small',
-            tokenCount: OpenAIService.estimateTokens(chunk.text),
-            metadata: parsed.metadata as any,
-          },
+      // Step 7: Store vectors in Qdrant and mark their chunks as embedded, batch by batch,
+      // so a failed job only re-embeds the batches that did not complete. Each point carries
+      // the document fields search filters on
+      const documentPayload = DocumentService.buildSearchPayload(
+        await prisma.document.findUniqueOrThrow({ where: { id: documentId } })
+      );
+      const storeVectors = async (batchChunks: typeof pendingChunks, embeddings: number[][]) => {
+        await QdrantService.upsertVectors(
+          collectionName,
+          batchChunks.map((chunk, i) => ({
+            id: chunk.id,
+            vector: embeddings[i],
+            payload: {
+              documentId,
+              workspaceId,
+              chunkIndex: chunk.chunkIndex,
+              version,
+              content: chunk.content.substring(0, 500), // Store preview
+              pageNumber: chunk.pageNumber,
+              pageEnd: chunk.pageEnd,
+              sectionTitle: chunk.sectionTitle,
+              language: chunk.language,
+              ...documentPayload,
+            },
+          }))
+        );
+        await prisma.chunk.updateMany({
+          where: { id: { in: batchChunks.map(chunk => chunk.id) } },
+          data: { hasEmbedding: true },
         });
 
-        // Prepare Qdrant point
-        qdrantPoints.push({
-          id: dbChunk.id,
-          vector: embedding,
-          payload: {
-            documentId,
-            workspaceId,
-            chunkIndex: chunk.chunkIndex,
-            content: chunk.text.substring(0, 500), // Store preview
-            pageNumber: dbChunk.pageNumber,
-          },
-        });
-      }
+        chunksEmbedded += batchChunks.length;
+        await job.updateProgress(
+          DocumentService.buildIngestionProgress(
+            IngestionStatus.EMBEDDING,
+            chunksEmbedded,
+            chunksTotal
+          )
+        );
+      };
 
-      // Batch upsert to Qdrant
-      if (qdrantPoints.length > 0) {
-        await QdrantService.upsertVectors(collectionName, qdrantPoints);
+      if (cachedChunks.length > 0) {
+        await storeVectors(
+          cachedChunks,
+          cachedChunks.map(chunk => cachedEmbeddings.get(chunk.contentHash)!)
+        );
       }
 
-      // Step 8: Update document status
+      await OpenAIService.generateEmbeddingsInBatches(
+        uncachedChunks.map(chunk => chunk.content),
+        {
+          model: settings.embeddingModel,
+          onBatch: async (startIndex, embeddings) => {
+            const batchChunks = uncachedChunks.slice(startIndex, startIndex + embeddings.length);
+
+            await EmbeddingCacheService.setMany(
+              batchChunks.map((chunk, i) => ({
+                contentHash: chunk.contentHash,
+                embedding: embeddings[i],
+              })),
+              settings.embeddingModel
+            );
+            await storeVectors(batchChunks, embeddings);
+          },
+        }
+      );
+
+      // Step 8: Swap in the new version (a single document update) and update its status
+      await setStage(job, IngestionStatus.INDEXING, chunksEmbedded, chunksTotal);
+      const [chunkCount, embeddingCount] = await Promise.all([
+        prisma.chunk.count({ where: { documentId, version, deletedAt: null } }),
+        prisma.chunk.count({ where: { documentId, version, deletedAt: null, hasEmbedding: true } }),
+      ]);
       await DocumentService.updateIngestionStatus(
         documentId,
         IngestionStatus.COMPLETED,
         undefined,
         {
-          chunkCount: chunks.length,
-          embeddingCount: embeddings.length,
+          chunkCount,
+          embeddingCount,
           qdrantCollectionId: collectionName,
-          pageCount: parsed.metadata.pageCount,
-          wordCount: parsed.metadata.wordCount || normalizedText.split(/\s+/).length,
+          indexVersion: version,
         }
       );
+      await job.updateProgress(
+        DocumentService.buildIngestionProgress(
+          IngestionStatus.COMPLETED,
+          embeddingCount,
+          chunkCount
+        )
+      );
 
-      // Update document chunk and embedding counts
-      await prisma.document.update({
-        where: { id: documentId },
-        data: {
-          chunkCount: chunks.length,
-          embeddingCount: embeddings.length,
-          qdrantCollectionId: collectionName,
-          pageCount: parsed.metadata.pageCount,
-          wordCount: parsed.metadata.wordCount || normalizedText.split(/\s+/).length,
-        },
-      });
+      // Step 9: Remove the replaced version; search no longer reads it, so a failure
+      // here only leaves rows that the next re-index cleans up
+      try {
+        await deleteInactiveChunks(documentId, version, collectionName);
+      } catch (error) {
+        logger.warn('Failed to delete replaced chunks', { error, documentId });
+      }
+
+      // Step 10: Compare the document's text with earlier documents (near-duplicates)
+      try {
+        const { nearDuplicateThreshold } = await WorkspaceService.getDuplicateSettings(workspaceId);
+        await DocumentService.detectNearDuplicates(documentId, nearDuplicateThreshold);
+      } catch (error) {
+        logger.warn('Failed to check for near-duplicate documents', { error, documentId });
+      }
 
       logger.info('Document ingestion completed', {
         documentId,
-        chunkCount: chunks.length,
-        embeddingCount: embeddings.length,
+        chunkCount,
+        embeddingCount,
+        cacheHits: cachedChunks.length,
+        cacheMisses: uncachedChunks.length,
       });
 
       return {
         success: true,
-        chunkCount: chunks.length,
-        embeddingCount: embeddings.length,
+        chunkCount,
+        embeddingCount,
+        cacheHits: cachedChunks.length,
+        cacheMisses: uncachedChunks.length,
       };
     } catch (error) {
+      // Transient failures are retried; permanent ones (and the last attempt) are dead-lettered
+      const { errorClass, retryable } = classifyIngestionError(error);
+      const finalAttempt = !retryable || job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
       logger.error('Document ingestion failed', {
         error,
         documentId,
         jobId: job.id,
+        errorClass,
+        finalAttempt,
       });
 
-      // Update document status to FAILED
-      await DocumentService.updateIngestionStatus(
-        documentId,
-        IngestionStatus.FAILED,
-        error instanceof Error ? error.message : 'Unknown error'
-      );
+      if (finalAttempt) {
+        const document = await prisma.document.findUnique({
+          where: { id: documentId },
+          select: { ingestionStatus: true },
+        });
+        await IngestionDeadLetterService.add(
+          job,
+          error,
+          errorClass,
+          document?.ingestionStatus ?? IngestionStatus.PENDING
+        );
+
+        // Update document status to FAILED
+        await DocumentService.updateIngestionStatus(documentId, IngestionStatus.FAILED, message);
+      }
 
-      throw error;
+      throw retryable ? error : new UnrecoverableError(message);
     }
   },
   {
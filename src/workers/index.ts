@@ -1,2 +1,2 @@
 export { default as documentIngestionWorker } from './documentIngestion.worker';
-
+export { default as archiveExpansionWorker } from './archiveExpansion.worker';
@@ -5,21 +5,25 @@
  */
 
 import { documentIngestionWorker } from './documentIngestion.worker';
+import { archiveExpansionWorker } from './archiveExpansion.worker';
 import { logger } from '../utils/logger';
 
 logger.info('🚀 Starting background workers...');
 logger.info('📦 Document ingestion worker started');
+logger.info('🗜️ Archive expansion worker started');
 
 // Keep process alive
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down workers...');
   await documentIngestionWorker.close();
+  await archiveExpansionWorker.close();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down workers...');
   await documentIngestionWorker.close();
+  await archiveExpansionWorker.close();
   process.exit(0);
 });
 